@@ -10,6 +10,15 @@ import * as path from 'path';
 import * as os from 'os';
 import { promises as fs } from 'fs';
 import * as fsSync from 'fs';
+import {
+  VideoCodec,
+  VideoContainer,
+  VideoPixelFormat,
+  VideoEncodingSettings,
+  VIDEO_CONTAINER_EXTENSIONS,
+  hasAlphaChannel,
+  resolveVideoEncoding
+} from '../shared/videoCodecs';
 
 export interface BatchVideoOptions {
   sessionId: string;
@@ -20,6 +29,9 @@ export interface BatchVideoOptions {
   width: number;
   height: number;
   videoQuality: 'low' | 'medium' | 'high' | 'highest';
+  codec?: VideoCodec;             // 省略時は H.264
+  container?: VideoContainer;     // 省略時はコーデックの既定
+  pixelFormat?: VideoPixelFormat; // 省略時はコーデックの既定
 }
 
 export interface ComposeFinalVideoOptions {
@@ -36,6 +48,9 @@ export interface ComposeFinalVideoOptions {
   outputWidth?: number; // 出力動画の幅
   outputHeight?: number; // 出力動画の高さ
   totalDurationMs?: number; // 総動画時間（ミリ秒）
+  codec?: VideoCodec; // バッチ動画と同じ指定にする
+  container?: VideoContainer;
+  pixelFormat?: VideoPixelFormat;
 }
 
 export interface FFmpegProgress {
@@ -216,15 +231,19 @@ export class SystemFFmpegWrapper {
     progressCallback?: (progress: FFmpegProgress) => void
   ): Promise<string> {
     const { sessionId, batchIndex, startFrame, endFrame, fps, width, height, videoQuality } = options;
+    const encoding = resolveVideoEncoding(options);
+    const isImageSequence = encoding.container === 'png-sequence';
     
     // 入力フレーム画像パターン（framesサブディレクトリ内）
     const inputPattern = path.join(tempDir, 'frames', `frame_%06d.png`);
     
-    // 出力バッチ動画パス
-    const outputPath = path.join(tempDir, 'batches', `batch_${batchIndex.toString().padStart(4, '0')}.mp4`);
+    // 出力バッチ動画パス（PNG連番は全バッチ共通の sequence ディレクトリへフレーム番号のまま出力）
+    const outputPath = isImageSequence
+      ? path.join(tempDir, 'sequence')
+      : path.join(tempDir, 'batches', `batch_${batchIndex.toString().padStart(4, '0')}.${VIDEO_CONTAINER_EXTENSIONS[encoding.container]}`);
     
     // バッチディレクトリ作成
-    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.mkdir(isImageSequence ? outputPath : path.dirname(outputPath), { recursive: true });
     
     // フレーム存在確認とバッチ情報の詳細ログ
     const frameCount = endFrame - startFrame;
@@ -267,6 +286,7 @@ export class SystemFFmpegWrapper {
     console.log(`📐 [BATCH_RESOLUTION] - アスペクト比: ${expectedAspectRatio.toFixed(3)}`);
     console.log(`📐 [BATCH_RESOLUTION] - フレーム数: ${frameCount}`);
     console.log(`📐 [BATCH_RESOLUTION] - FPS: ${fps}`);
+    console.log(`📐 [BATCH_RESOLUTION] - エンコード: ${encoding.codec} / ${encoding.container} / ${encoding.pixelFormat}`);
 
     // FFmpegコマンド引数構築（解像度を明示的に指定）
     const ffmpegArgs = [
@@ -278,19 +298,26 @@ export class SystemFFmpegWrapper {
       '-r', fps.toString(),
       '-s', `${width}x${height}`,   // 解像度を明示的に指定（アスペクト比問題防止）
       '-aspect', `${width}:${height}`, // アスペクト比を明示的に指定
-      '-c:v', 'libx264',
-      '-preset', this.getPresetForQuality(videoQuality),
-      '-crf', this.getCRFForQuality(videoQuality),
-      '-pix_fmt', 'yuv420p',
-      '-movflags', '+faststart', // Web最適化
-      '-y', // 出力ファイル上書き
-      outputPath
+      ...this.getVideoEncoderArgs(encoding, videoQuality),
+      ...this.getContainerArgs(encoding.container)
     ];
     
+    if (isImageSequence) {
+      // 出力側の連番も入力と同じフレーム番号から始める
+      ffmpegArgs.push('-start_number', startFrame.toString(), '-y', path.join(outputPath, 'frame_%06d.png'));
+    } else {
+      ffmpegArgs.push('-y', outputPath); // 出力ファイル上書き
+    }
+    
     console.log(`FFmpeg command: ${this.ffmpegPath} ${ffmpegArgs.join(' ')}`);
     
     await this.executeFFmpeg(ffmpegArgs, progressCallback);
     
+    if (isImageSequence) {
+      console.log(`=== Batch ${batchIndex} Completed (PNG sequence) ===\n`);
+      return outputPath;
+    }
+    
     // 出力動画の検証
     try {
       const stats = await fs.stat(outputPath);
@@ -367,6 +394,15 @@ OutputDir: ${outputDir}
     // totalDurationMs を let で宣言して再代入可能にする
     let { totalDurationMs } = options;
     
+    // PNG連番はバッチで作成済みの連番を出力先へ移動するのみ
+    const encoding = resolveVideoEncoding(options);
+    if (encoding.container === 'png-sequence') {
+      if (!batchVideos || batchVideos.length === 0) {
+        throw new Error('No batch videos provided for final composition');
+      }
+      return this.composeImageSequence(options, batchVideos[0], options.outputPath || path.join(outputDir, fileName), progressCallback);
+    }
+    
     // 背景動画の前処理（ループが必要な場合）
     console.log(`[BACKGROUND_CHECK] 背景動画処理の条件チェック:`);
     console.log(`[BACKGROUND_CHECK] - backgroundVideoPath: ${backgroundVideoPath ? 'EXISTS' : 'NULL'}`);
@@ -501,6 +537,13 @@ OutputDir: ${outputDir}
     // 最終出力パス（outputPathが指定されていればそれを使用、なければデフォルト）
     const finalOutputPath = options.outputPath || path.join(outputDir, fileName);
     
+    // アルファ付き出力では背景動画を合成しない（透過のまま書き出す）
+    if (processedBackgroundVideoPath && hasAlphaChannel(encoding.pixelFormat)) {
+      console.log(`🎬 [FINAL_COMPOSE] アルファ付き出力（${encoding.pixelFormat}）のため背景動画の合成をスキップ`);
+      processedBackgroundVideoPath = undefined;
+    }
+    const audioCodecArgs = this.getAudioCodecArgs(encoding.container);
+    
     console.log(`Composing final video: ${validBatchVideos.length} valid batches -> ${finalOutputPath}`);
     
     // FFmpegコマンド引数構築
@@ -563,11 +606,8 @@ OutputDir: ${outputDir}
           '-map', '2:a', // 音声ストリーム
           '-s', `${finalWidth}x${finalHeight}`, // 最終解像度を明示的に指定
           '-aspect', `${finalWidth}:${finalHeight}`, // アスペクト比を明示的に指定
-          '-c:v', 'libx264',
-          '-preset', 'medium',
-          '-crf', '23',
-          '-c:a', 'aac',
-          '-b:a', '128k',
+          ...this.getVideoEncoderArgs(encoding, 'medium'),
+          ...audioCodecArgs,
           '-shortest'
         );
       } else {
@@ -577,9 +617,7 @@ OutputDir: ${outputDir}
           '-map', '[v]',
           '-s', `${finalWidth}x${finalHeight}`, // 最終解像度を明示的に指定
           '-aspect', `${finalWidth}:${finalHeight}`, // アスペクト比を明示的に指定
-          '-c:v', 'libx264',
-          '-preset', 'medium',
-          '-crf', '23',
+          ...this.getVideoEncoderArgs(encoding, 'medium'),
           '-an' // 音声なし
         );
       }
@@ -588,8 +626,7 @@ OutputDir: ${outputDir}
       if (includeMusicTrack && audioPath) {
         ffmpegArgs.push(
           '-c:v', 'copy', // 動画ストリームはコピー（高速）
-          '-c:a', 'aac',
-          '-b:a', '128k',
+          ...audioCodecArgs,
           '-shortest' // 短い方のストリームに合わせる
         );
       } else {
@@ -600,7 +637,7 @@ OutputDir: ${outputDir}
     }
     
     ffmpegArgs.push(
-      '-movflags', '+faststart', // Web最適化
+      ...this.getContainerArgs(encoding.container),
       '-y', // 出力ファイル上書き
       finalOutputPath
     );
@@ -611,6 +648,56 @@ OutputDir: ${outputDir}
     return finalOutputPath;
   }
   
+  /**
+   * PNG連番の最終出力
+   * バッチで作成した連番を出力フォルダへ移動し、音声は同じフォルダに audio.wav として書き出す
+   */
+  private async composeImageSequence(
+    options: ComposeFinalVideoOptions,
+    sequenceDir: string,
+    finalOutputPath: string,
+    progressCallback?: (progress: FFmpegProgress) => void
+  ): Promise<string> {
+    // 拡張子付きのパスが指定された場合は拡張子を除いたフォルダに出力
+    const parsed = path.parse(finalOutputPath);
+    const outputFolder = parsed.ext ? path.join(parsed.dir, parsed.name) : finalOutputPath;
+    await fs.mkdir(outputFolder, { recursive: true });
+    
+    const frameFiles = (await fs.readdir(sequenceDir)).filter(file => file.endsWith('.png')).sort();
+    for (const frameFile of frameFiles) {
+      const sourcePath = path.join(sequenceDir, frameFile);
+      const targetPath = path.join(outputFolder, frameFile);
+      try {
+        await fs.rename(sourcePath, targetPath);
+      } catch {
+        // 別ドライブ間の移動はコピーで代替
+        await fs.copyFile(sourcePath, targetPath);
+        await fs.unlink(sourcePath);
+      }
+    }
+    console.log(`PNG sequence written: ${frameFiles.length} frames -> ${outputFolder}`);
+    
+    if (options.includeMusicTrack && options.audioPath) {
+      const audioArgs: string[] = [];
+      if (options.audioStartTime !== undefined && options.audioEndTime !== undefined) {
+        audioArgs.push(
+          '-ss', (options.audioStartTime / 1000).toString(),
+          '-t', ((options.audioEndTime - options.audioStartTime) / 1000).toString()
+        );
+      }
+      audioArgs.push(
+        '-i', options.audioPath,
+        '-vn',
+        '-c:a', 'pcm_s16le',
+        '-y',
+        path.join(outputFolder, 'audio.wav')
+      );
+      await this.executeFFmpeg(audioArgs, progressCallback);
+    }
+    
+    return outputFolder;
+  }
+  
   /**
    * FFmpeg実行（共通処理）
    */
@@ -736,6 +823,99 @@ OutputDir: ${outputDir}
     }
   }
   
+  /**
+   * コーデック・品質に応じた映像エンコード引数
+   */
+  private getVideoEncoderArgs(encoding: VideoEncodingSettings, quality: string): string[] {
+    const pixelFormatArgs = ['-pix_fmt', encoding.pixelFormat];
+    
+    switch (encoding.codec) {
+      case 'hevc':
+        return [
+          '-c:v', 'libx265',
+          '-preset', this.getPresetForQuality(quality),
+          // x265 は同程度の画質で x264 より CRF が約5高い
+          '-crf', (parseInt(this.getCRFForQuality(quality), 10) + 5).toString(),
+          '-tag:v', 'hvc1', // QuickTime / Apple製品での再生用
+          ...pixelFormatArgs
+        ];
+      case 'prores4444':
+        return [
+          '-c:v', 'prores_ks',
+          '-profile:v', '4', // 4444
+          '-vendor', 'apl0',
+          '-qscale:v', this.getProResQScaleForQuality(quality),
+          ...pixelFormatArgs
+        ];
+      case 'vp9':
+        return [
+          '-c:v', 'libvpx-vp9',
+          '-crf', this.getVP9CRFForQuality(quality),
+          '-b:v', '0', // 固定品質モード
+          '-row-mt', '1',
+          // アルファ付きは alt-ref フレームを無効にする必要がある
+          ...(hasAlphaChannel(encoding.pixelFormat) ? ['-auto-alt-ref', '0'] : []),
+          ...pixelFormatArgs
+        ];
+      case 'png':
+        return ['-c:v', 'png', ...pixelFormatArgs];
+      case 'h264':
+      default:
+        return [
+          '-c:v', 'libx264',
+          '-preset', this.getPresetForQuality(quality),
+          '-crf', this.getCRFForQuality(quality),
+          ...pixelFormatArgs
+        ];
+    }
+  }
+  
+  /**
+   * コンテナ固有の出力引数
+   */
+  private getContainerArgs(container: VideoContainer): string[] {
+    if (container === 'mp4' || container === 'mov') {
+      return ['-movflags', '+faststart']; // Web最適化
+    }
+    return [];
+  }
+  
+  /**
+   * コンテナに応じた音声エンコード引数（WebMはOpus、それ以外はAAC）
+   */
+  private getAudioCodecArgs(container: VideoContainer): string[] {
+    if (container === 'webm') {
+      return ['-c:a', 'libopus', '-b:a', '128k'];
+    }
+    return ['-c:a', 'aac', '-b:a', '128k'];
+  }
+  
+  /**
+   * 動画品質に応じたProResのqscale値取得（小さいほど高品質）
+   */
+  private getProResQScaleForQuality(quality: string): string {
+    switch (quality) {
+      case 'highest': return '2';
+      case 'high': return '4';
+      case 'medium': return '9';
+      case 'low': return '13';
+      default: return '9';
+    }
+  }
+  
+  /**
+   * 動画品質に応じたVP9のCRF値取得（0-63）
+   */
+  private getVP9CRFForQuality(quality: string): string {
+    switch (quality) {
+      case 'highest': return '15';
+      case 'high': return '24';
+      case 'medium': return '31';
+      case 'low': return '40';
+      default: return '31';
+    }
+  }
+  
   /**
    * 動画のメタデータを取得
    */
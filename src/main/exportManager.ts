@@ -7,6 +7,7 @@ import * as os from 'os';
 import * as fsSync from 'fs';
 import type { ExportOptions, ExportProgress, ExportError } from '../shared/types';
 import { BatchVideoProcessor } from './BatchVideoProcessor';
+import type { VideoCodec, VideoContainer, VideoPixelFormat } from '../shared/videoCodecs';
 
 export class ExportManager {
   private ffmpegPath: string;
@@ -447,6 +448,9 @@ export function setupExportHandlers() {
     width: number;
     height: number;
     videoQuality: 'low' | 'medium' | 'high' | 'highest';
+    codec?: VideoCodec;
+    container?: VideoContainer;
+    pixelFormat?: VideoPixelFormat;
   }) => {
     try {
       return await exportManager.batchVideoProcessor.createBatchVideo(options);
@@ -470,6 +474,9 @@ export function setupExportHandlers() {
     totalDurationMs?: number;
     outputWidth?: number;
     outputHeight?: number;
+    codec?: VideoCodec;
+    container?: VideoContainer;
+    pixelFormat?: VideoPixelFormat;
   }) => {
     console.log('🎯 [exportManager] export:composeFinalVideo IPC受信');
     console.log('🎯 [exportManager] options:', JSON.stringify(options, null, 2));
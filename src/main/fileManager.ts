@@ -1,10 +1,42 @@
 import * as electron from 'electron';
 const { dialog, ipcMain } = electron;
-import { promises as fs } from 'fs';
+import { promises as fs, Dirent } from 'fs';
 import * as path from 'path';
-import type { ProjectData, MediaFileInfo } from '../shared/types';
+import type {
+  ProjectData,
+  MediaFileInfo,
+  ProjectBundleAssets,
+  ProjectBundleFont,
+  ProjectBundleSaveResult,
+  ProjectBundleLoadResult,
+  MissingMediaReference,
+  MediaRelinkCandidate,
+  MediaSearchResult,
+  MediaFileStatus
+} from '../shared/types';
+import { persistenceManager } from './persistenceManager';
+import { SubtitleConverter, SUBTITLE_FILE_EXTENSIONS } from '../shared/subtitleFormats';
+import type { SubtitleFormat, SubtitlePhrase, SubtitleExportOptions } from '../shared/subtitleFormats';
+
+// プロジェクトバンドル（プロジェクトファイルと素材をまとめたフォルダ）
+const PROJECT_BUNDLE_EXTENSION = 'utabundle';
+const PROJECT_BUNDLE_PROJECT_FILE = 'project.uta';
+const PROJECT_BUNDLE_MEDIA_DIR = 'media';
+const PROJECT_BUNDLE_FONTS_DIR = 'fonts';
+
+// 見つからない素材の検索範囲（フォルダの階層と調べるエントリ数の上限）
+const MEDIA_SEARCH_DEPTH = 2;
+const MEDIA_SEARCH_MAX_ENTRIES = 5000;
+
+// file:// URL（背景画像など）をファイルパスに変換
+function toLocalPath(filePath: string): string {
+  return path.resolve(filePath.startsWith('file://') ? decodeURI(filePath.slice('file://'.length)) : filePath);
+}
 
 export class FileManager {
+  // 最後に保存・読み込みしたプロジェクトのフォルダ（見つからない素材の検索に使用）
+  private lastProjectDir: string | null = null;
+
   async saveProject(projectData: ProjectData): Promise<string> {
     const { filePath } = await dialog.showSaveDialog({
       title: 'Save UTAVISTA Project',
@@ -26,6 +58,7 @@ export class FileManager {
       };
       
       await fs.writeFile(filePath, JSON.stringify(updatedProjectData, null, 2), 'utf-8');
+      this.lastProjectDir = path.dirname(filePath);
       return filePath;
     }
     
@@ -44,6 +77,7 @@ export class FileManager {
     
     if (filePaths.length > 0) {
       const content = await fs.readFile(filePaths[0], 'utf-8');
+      this.lastProjectDir = path.dirname(filePaths[0]);
       
       try {
         const projectFileData = JSON.parse(content);
@@ -123,6 +157,363 @@ export class FileManager {
     throw new Error('File selection cancelled by user');
   }
   
+  /**
+   * 歌詞データを字幕ファイル（SRT / WebVTT / ASS）として書き出す
+   * filePath を指定した場合はダイアログを表示せずに保存する（スクリプトからの利用向け）
+   */
+  async exportSubtitles(
+    format: SubtitleFormat,
+    lyrics: SubtitlePhrase[],
+    options: SubtitleExportOptions & { filePath?: string; defaultFileName?: string } = {}
+  ): Promise<string> {
+    if (!SUBTITLE_FILE_EXTENSIONS[format]) {
+      throw new Error(`Unsupported subtitle format: ${format}`);
+    }
+    if (!Array.isArray(lyrics)) {
+      throw new Error('Lyrics data must be an array of phrases');
+    }
+    
+    const extension = SUBTITLE_FILE_EXTENSIONS[format];
+    let filePath = options.filePath;
+    
+    if (!filePath) {
+      const result = await dialog.showSaveDialog({
+        title: 'Export Subtitles',
+        defaultPath: `${options.defaultFileName || 'lyrics'}.${extension}`,
+        filters: [
+          { name: `${extension.toUpperCase()} Subtitles`, extensions: [extension] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      });
+      filePath = result.filePath;
+    }
+    
+    if (!filePath) {
+      throw new Error('Export cancelled by user');
+    }
+    
+    const content = SubtitleConverter.convert(format, lyrics, options);
+    await fs.writeFile(filePath, content, 'utf-8');
+    return filePath;
+  }
+  
+  /**
+   * プロジェクトと音声・背景メディア・フォントを1つのフォルダ（.utabundle）にまとめて保存する
+   * 素材は media/・fonts/ にコピーし、プロジェクトファイルの bundle にはバンドルからの相対パスを記録する
+   * OS標準のフォントはコピーしない
+   */
+  async saveProjectBundle(projectData: any, assets: ProjectBundleAssets): Promise<ProjectBundleSaveResult> {
+    const projectName = projectData?.metadata?.projectName || 'project';
+    const { filePath } = await dialog.showSaveDialog({
+      title: 'Save UTAVISTA Project Bundle',
+      defaultPath: `${projectName}.${PROJECT_BUNDLE_EXTENSION}`,
+      filters: [
+        { name: 'UTAVISTA Project Bundle', extensions: [PROJECT_BUNDLE_EXTENSION] }
+      ]
+    });
+    if (!filePath) {
+      throw new Error('Save cancelled by user');
+    }
+
+    const bundlePath = filePath.endsWith(`.${PROJECT_BUNDLE_EXTENSION}`)
+      ? filePath
+      : `${filePath}.${PROJECT_BUNDLE_EXTENSION}`;
+    await fs.mkdir(path.join(bundlePath, PROJECT_BUNDLE_MEDIA_DIR), { recursive: true });
+    await fs.mkdir(path.join(bundlePath, PROJECT_BUNDLE_FONTS_DIR), { recursive: true });
+    this.lastProjectDir = bundlePath;
+
+    const usedNames = new Set<string>();
+    const missing: string[] = [];
+    const copy = async (sourcePath: string | undefined, dirName: string): Promise<string | undefined> => {
+      if (!sourcePath) return undefined;
+      const relativePath = await this.copyIntoBundle(bundlePath, sourcePath, dirName, usedNames);
+      if (!relativePath) missing.push(sourcePath);
+      return relativePath;
+    };
+
+    const fonts: ProjectBundleFont[] = [];
+    const copiedFonts = new Map<string, string | undefined>();
+    for (const font of assets.fonts) {
+      if (!font.path || this.isSystemFontPath(font.path)) continue;
+      if (!copiedFonts.has(font.path)) {
+        copiedFonts.set(font.path, await copy(font.path, PROJECT_BUNDLE_FONTS_DIR));
+      }
+      const relativePath = copiedFonts.get(font.path);
+      if (relativePath) {
+        fonts.push({ ...font, path: relativePath });
+      }
+    }
+
+    const bundledProjectData = {
+      ...projectData,
+      metadata: {
+        ...projectData.metadata,
+        modifiedAt: new Date().toISOString()
+      },
+      bundle: {
+        audioPath: await copy(assets.audioPath, PROJECT_BUNDLE_MEDIA_DIR),
+        backgroundImagePath: await copy(assets.backgroundImagePath, PROJECT_BUNDLE_MEDIA_DIR),
+        backgroundVideoPath: await copy(assets.backgroundVideoPath, PROJECT_BUNDLE_MEDIA_DIR),
+        background: assets.background,
+        fonts
+      } as ProjectBundleAssets
+    };
+
+    await fs.writeFile(
+      path.join(bundlePath, PROJECT_BUNDLE_PROJECT_FILE),
+      JSON.stringify(bundledProjectData, null, 2),
+      'utf-8'
+    );
+    return { bundlePath, missing };
+  }
+
+  /**
+   * プロジェクトバンドルを開く（バンドルフォルダまたはその中の project.uta を選択）
+   * 相対パスをバンドルの場所から絶対パスに解決して返す
+   */
+  async loadProjectBundle(): Promise<ProjectBundleLoadResult> {
+    const { filePaths } = await dialog.showOpenDialog({
+      title: 'Open UTAVISTA Project Bundle',
+      filters: [
+        { name: 'UTAVISTA Project Bundle', extensions: [PROJECT_BUNDLE_EXTENSION, 'uta'] }
+      ],
+      properties: ['openFile', 'openDirectory']
+    });
+    if (filePaths.length === 0) {
+      throw new Error('Load cancelled by user');
+    }
+
+    const selected = filePaths[0];
+    const stats = await fs.stat(selected);
+    const bundlePath = path.resolve(stats.isDirectory() ? selected : path.dirname(selected));
+    const projectPath = stats.isDirectory() ? path.join(selected, PROJECT_BUNDLE_PROJECT_FILE) : selected;
+    this.lastProjectDir = bundlePath;
+
+    let projectData: any;
+    try {
+      projectData = JSON.parse(await fs.readFile(projectPath, 'utf-8'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Invalid project bundle: ${errorMessage}`);
+    }
+    if (!projectData || typeof projectData.bundle !== 'object' || !projectData.bundle) {
+      throw new Error('The selected file is not a project bundle');
+    }
+
+    const bundle: ProjectBundleAssets = projectData.bundle;
+    const missing: string[] = [];
+    const resolve = async (relativePath: string | undefined): Promise<string | undefined> => {
+      if (!relativePath) return undefined;
+      const absolutePath = path.resolve(bundlePath, relativePath);
+      // バンドルフォルダの外（../ や絶対パス）を指すパスは読み込まない
+      if (!absolutePath.startsWith(bundlePath + path.sep)) {
+        console.warn(`FileManager: Ignoring bundle asset outside the bundle: ${relativePath}`);
+        missing.push(relativePath);
+        return undefined;
+      }
+      if (await this.checkFileExists(absolutePath)) {
+        return absolutePath;
+      }
+      missing.push(relativePath);
+      return undefined;
+    };
+
+    const fonts: ProjectBundleFont[] = [];
+    for (const font of Array.isArray(bundle.fonts) ? bundle.fonts : []) {
+      const fontPath = await resolve(font.path);
+      if (fontPath) {
+        fonts.push({ ...font, path: fontPath });
+      }
+    }
+
+    return {
+      bundlePath,
+      projectData,
+      assets: {
+        audioPath: await resolve(bundle.audioPath),
+        backgroundImagePath: await resolve(bundle.backgroundImagePath),
+        backgroundVideoPath: await resolve(bundle.backgroundVideoPath),
+        background: bundle.background,
+        fonts
+      },
+      missing
+    };
+  }
+
+  // ファイルをバンドル内のフォルダにコピーし、バンドルからの相対パス（/区切り）を返す
+  // 同名のファイルは連番を付けて区別する。元ファイルがない場合は undefined
+  private async copyIntoBundle(
+    bundlePath: string,
+    sourcePath: string,
+    dirName: string,
+    usedNames: Set<string>
+  ): Promise<string | undefined> {
+    const source = toLocalPath(sourcePath);
+    if (!(await this.validateMediaFile(source))) {
+      return undefined;
+    }
+
+    const ext = path.extname(source);
+    const base = path.basename(source, ext);
+    let fileName = `${base}${ext}`;
+    for (let n = 2; usedNames.has(`${dirName}/${fileName}`); n++) {
+      fileName = `${base}_${n}${ext}`;
+    }
+    usedNames.add(`${dirName}/${fileName}`);
+
+    // 開いているバンドルを同じ場所に保存し直す場合はコピー不要
+    const destination = path.join(bundlePath, dirName, fileName);
+    if (path.resolve(destination) !== source) {
+      await fs.copyFile(source, destination);
+    }
+    return `${dirName}/${fileName}`;
+  }
+
+  // OSに標準で含まれるフォントか（ユーザーが追加したフォントのみバンドルする）
+  private isSystemFontPath(fontPath: string): boolean {
+    const systemDirs = process.platform === 'darwin'
+      ? ['/System/Library/']
+      : process.platform === 'win32'
+        ? [path.join(process.env.WINDIR || 'C:\\Windows', 'Fonts') + path.sep]
+        : ['/usr/share/fonts/'];
+    const normalized = path.resolve(fontPath);
+    return systemDirs.some(dir => normalized.toLowerCase().startsWith(dir.toLowerCase()));
+  }
+  
+  /**
+   * 素材ファイルの存在とサイズを確認（file:// URL も可）
+   */
+  async statMediaFiles(paths: string[]): Promise<MediaFileStatus[]> {
+    return Promise.all(paths.map(async (filePath) => {
+      try {
+        const stats = await fs.stat(toLocalPath(filePath));
+        return stats.isFile()
+          ? { path: filePath, exists: true, size: stats.size }
+          : { path: filePath, exists: false };
+      } catch (error) {
+        return { path: filePath, exists: false };
+      }
+    }));
+  }
+
+  /**
+   * 見つからない素材の候補を検索する
+   * 最近使用したファイルと、プロジェクト・元のファイル・最近使用したファイルの周辺フォルダから
+   * 同じファイル名のファイルを集め、サイズが一致するもの・最近使用したものを先に並べる
+   */
+  async findMediaCandidates(references: MissingMediaReference[], searchDirs: string[] = []): Promise<MediaSearchResult[]> {
+    const recentPaths = [
+      ...(await persistenceManager.getRecentFiles('audio')),
+      ...(await persistenceManager.getRecentFiles('backgroundVideo'))
+    ].map(file => file.filePath);
+
+    const dirs = new Set<string>(searchDirs.map(dir => path.resolve(dir)));
+    if (this.lastProjectDir) {
+      dirs.add(this.lastProjectDir);
+    }
+    for (const reference of references) {
+      if (reference.originalPath) {
+        const originalDir = path.dirname(toLocalPath(reference.originalPath));
+        dirs.add(originalDir);
+        dirs.add(path.dirname(originalDir));
+      }
+    }
+    for (const recentPath of recentPaths) {
+      dirs.add(path.dirname(recentPath));
+    }
+
+    const fileNames = new Set(references.map(reference => reference.fileName.toLowerCase()));
+    const found = await this.scanMediaFolders(Array.from(dirs), fileNames);
+
+    const results: MediaSearchResult[] = [];
+    for (const reference of references) {
+      const key = reference.fileName.toLowerCase();
+      const originalPath = reference.originalPath ? toLocalPath(reference.originalPath) : undefined;
+      const candidates: MediaRelinkCandidate[] = [];
+      const seen = new Set<string>();
+
+      const addCandidate = async (candidatePath: string, source: MediaRelinkCandidate['source']) => {
+        const resolved = path.resolve(candidatePath);
+        if (seen.has(resolved) || resolved === originalPath) return;
+        seen.add(resolved);
+        const [status] = await this.statMediaFiles([resolved]);
+        if (!status.exists || status.size === undefined) return;
+        candidates.push({
+          path: resolved,
+          size: status.size,
+          source,
+          sizeMatches: reference.size !== undefined ? status.size === reference.size : undefined
+        });
+      };
+
+      for (const recentPath of recentPaths) {
+        if (path.basename(recentPath).toLowerCase() === key) {
+          await addCandidate(recentPath, 'recent');
+        }
+      }
+      for (const nearbyPath of found.get(key) || []) {
+        await addCandidate(nearbyPath, 'nearby');
+      }
+
+      candidates.sort((a, b) =>
+        Number(b.sizeMatches === true) - Number(a.sizeMatches === true) ||
+        Number(b.source === 'recent') - Number(a.source === 'recent')
+      );
+      results.push({ referenceId: reference.id, candidates });
+    }
+    return results;
+  }
+
+  async selectDirectory(title?: string): Promise<string> {
+    const { filePaths } = await dialog.showOpenDialog({
+      title: title || 'Select Folder',
+      properties: ['openDirectory']
+    });
+    if (filePaths.length > 0) {
+      return filePaths[0];
+    }
+    throw new Error('Folder selection cancelled by user');
+  }
+
+  // フォルダを MEDIA_SEARCH_DEPTH 階層まで調べ、探しているファイル名（小文字）ごとのパスを返す
+  // 隠しフォルダ・node_modules は調べない
+  private async scanMediaFolders(dirs: string[], fileNames: Set<string>): Promise<Map<string, string[]>> {
+    const found = new Map<string, string[]>();
+    const visited = new Set<string>();
+    let entryCount = 0;
+    let queue = dirs.map(dir => ({ dir, depth: 0 }));
+
+    while (queue.length > 0 && entryCount < MEDIA_SEARCH_MAX_ENTRIES) {
+      const next: Array<{ dir: string; depth: number }> = [];
+      for (const { dir, depth } of queue) {
+        if (visited.has(dir)) continue;
+        visited.add(dir);
+
+        let entries: Dirent[];
+        try {
+          entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+          continue;
+        }
+
+        for (const entry of entries) {
+          if (++entryCount > MEDIA_SEARCH_MAX_ENTRIES) break;
+          const entryPath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            if (depth < MEDIA_SEARCH_DEPTH && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+              next.push({ dir: entryPath, depth: depth + 1 });
+            }
+          } else if (entry.isFile() && fileNames.has(entry.name.toLowerCase())) {
+            const key = entry.name.toLowerCase();
+            found.set(key, [...(found.get(key) || []), entryPath]);
+          }
+        }
+      }
+      queue = next;
+    }
+    return found;
+  }
+
   async validateMediaFile(filePath: string): Promise<boolean> {
     try {
       const stats = await fs.stat(filePath);
@@ -242,6 +633,65 @@ export function setupFileHandlers() {
     }
   });
   
+  ipcMain.handle('file:export-subtitles', async (
+    event,
+    format: SubtitleFormat,
+    lyrics: SubtitlePhrase[],
+    options?: SubtitleExportOptions & { filePath?: string; defaultFileName?: string }
+  ) => {
+    try {
+      return await fileManager.exportSubtitles(format, lyrics, options);
+    } catch (error) {
+      console.error(`Failed to export ${format} subtitles:`, error);
+      throw error;
+    }
+  });
+  
+  ipcMain.handle('file:save-project-bundle', async (event, projectData: any, assets: ProjectBundleAssets) => {
+    try {
+      return await fileManager.saveProjectBundle(projectData, assets);
+    } catch (error) {
+      console.error('Failed to save project bundle:', error);
+      throw error;
+    }
+  });
+  
+  ipcMain.handle('file:load-project-bundle', async () => {
+    try {
+      return await fileManager.loadProjectBundle();
+    } catch (error) {
+      console.error('Failed to load project bundle:', error);
+      throw error;
+    }
+  });
+  
+  ipcMain.handle('file:stat-media-files', async (event, paths: string[]) => {
+    try {
+      return await fileManager.statMediaFiles(paths);
+    } catch (error) {
+      console.error('Failed to stat media files:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('file:find-media-candidates', async (event, references: MissingMediaReference[], searchDirs?: string[]) => {
+    try {
+      return await fileManager.findMediaCandidates(references, searchDirs);
+    } catch (error) {
+      console.error('Failed to find media candidates:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('file:select-directory', async (event, title?: string) => {
+    try {
+      return await fileManager.selectDirectory(title);
+    } catch (error) {
+      console.error('Failed to select directory:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('fs:check-file-exists', async (event, filePath: string) => {
     try {
       return await fileManager.checkFileExists(filePath);
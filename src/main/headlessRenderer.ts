@@ -0,0 +1,635 @@
+/**
+ * headlessRenderer - コマンドラインからのヘッドレス動画レンダリング
+ *
+ * ウィンドウを表示せずにプロジェクトファイル（.uta）を動画に書き出す。
+ * 非表示のBrowserWindowでエンジンを起動し、レンダラーがキャプチャしたフレームを
+ * BatchVideoProcessor（SystemFFmpegWrapper）でバッチ動画化・結合する。
+ * レンダリング本体（HeadlessRenderSession）はレンダーキューからも使用する。
+ *
+ * 使用例:
+ *   electron . --render project.uta --out out.mp4 --fps 30 --range 10-95.5 --resolution 1920x1080
+ *   electron . --render project.uta --out out/ --formats            （プロジェクトの全フォーマット）
+ */
+
+import * as electron from 'electron';
+import type { BrowserWindow as BrowserWindowType } from 'electron';
+const { BrowserWindow, ipcMain, app } = electron;
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { HeadlessRenderJob } from '../shared/types';
+import { BatchVideoProcessor } from './BatchVideoProcessor';
+import {
+  VideoCodec,
+  VideoContainer,
+  VideoPixelFormat,
+  VideoEncodingSettings,
+  VIDEO_CODECS,
+  VIDEO_CONTAINER_EXTENSIONS,
+  DEFAULT_VIDEO_ENCODING,
+  hasAlphaChannel,
+  resolveVideoEncoding
+} from '../shared/videoCodecs';
+import { ExportFormat, normalizeExportFormats, applyExportFormatOverrides, getExportFormatFileName } from '../shared/exportFormats';
+
+export interface HeadlessRenderOptions {
+  projectPath: string;
+  outputPath: string;
+  fps: number;
+  startTime?: number; // ms（省略時は0）
+  endTime?: number;   // ms（省略時はプロジェクト終端）
+  width: number;
+  height: number;
+  audioPath?: string; // 指定時は音声をmux
+  codec?: VideoCodec;
+  container?: VideoContainer;
+  pixelFormat?: VideoPixelFormat;
+  // 指定時はプロジェクトの書き出しフォーマットごとに outputPath（フォルダ）へ書き出す（空配列は有効な全フォーマット）
+  formats?: string[];
+}
+
+// 終了コード
+export const HEADLESS_EXIT_SUCCESS = 0;
+export const HEADLESS_EXIT_FAILURE = 1;
+export const HEADLESS_EXIT_USAGE = 2;
+
+const DEFAULT_FPS = 30;
+const DEFAULT_WIDTH = 1920;
+const DEFAULT_HEIGHT = 1080;
+// VideoExporterと同じバッチサイズ（5秒分 @30fps）
+const BATCH_SIZE = 150;
+// レンダラーがジョブを取得するまでの待機上限
+const RENDERER_STARTUP_TIMEOUT_MS = 60000;
+// キャプチャ中にレンダラーから次のフレームが届くまでの待機上限（保存・バッチ動画化・一時停止中は数えない）
+const RENDERER_INACTIVITY_TIMEOUT_MS = 120000;
+
+export const HEADLESS_RENDER_USAGE = [
+  'Usage: utavista --render <project.uta> --out <output.mp4> [options]',
+  '',
+  'Options:',
+  `  --fps <number>          フレームレート（既定: ${DEFAULT_FPS}）`,
+  '  --range <start-end>     書き出し範囲（秒）。例: 10-95.5, 30-（終端まで）, -60（先頭から）',
+  `  --resolution <WxH>      出力解像度（既定: ${DEFAULT_WIDTH}x${DEFAULT_HEIGHT}）`,
+  '  --audio <file>          音声ファイルを動画にmuxする',
+  `  --codec <name>          コーデック（${Object.keys(VIDEO_CODECS).join(' | ')}、既定: h264）`,
+  '  --container <name>      コンテナ（mp4 | mov | mkv | webm | png-sequence、既定: コーデックごと）',
+  '  --pix-fmt <name>        ピクセルフォーマット（yuva444p10le / yuva420p / rgba でアルファ付き）',
+  '  --formats [id,...]      プロジェクトの書き出しフォーマットをまとめて書き出す（省略時は有効な全フォーマット）',
+  '  --out <file>            出力動画ファイル（png-sequence・--formats はフォルダ）'
+].join('\n');
+
+/**
+ * コマンドライン引数のエラー（使用方法の表示対象）
+ */
+export class HeadlessRenderUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HeadlessRenderUsageError';
+  }
+}
+
+/**
+ * コマンドライン引数を解析（--render がなければ null）
+ * `--key value` と `--key=value` の両方に対応
+ */
+export function parseHeadlessRenderArgs(argv: string[]): HeadlessRenderOptions | null {
+  const values = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const eqIndex = arg.indexOf('=');
+    if (eqIndex !== -1) {
+      values.set(arg.slice(2, eqIndex), arg.slice(eqIndex + 1));
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      values.set(arg.slice(2), argv[++i]);
+    } else {
+      values.set(arg.slice(2), '');
+    }
+  }
+
+  if (!values.has('render')) {
+    return null;
+  }
+
+  const projectPath = values.get('render');
+  if (!projectPath) {
+    throw new HeadlessRenderUsageError('--render にプロジェクトファイルを指定してください');
+  }
+  const outputPath = values.get('out');
+  if (!outputPath) {
+    throw new HeadlessRenderUsageError('--out に出力ファイルを指定してください');
+  }
+
+  const fps = values.has('fps') ? Number(values.get('fps')) : DEFAULT_FPS;
+  if (!Number.isFinite(fps) || fps <= 0 || fps > 240) {
+    throw new HeadlessRenderUsageError(`不正なフレームレートです: ${values.get('fps')}`);
+  }
+
+  const { width, height } = values.has('resolution')
+    ? parseResolution(values.get('resolution') || '')
+    : { width: DEFAULT_WIDTH, height: DEFAULT_HEIGHT };
+
+  const range = values.has('range') ? parseRange(values.get('range') || '') : {};
+
+  let encoding: VideoEncodingSettings;
+  try {
+    encoding = resolveVideoEncoding({
+      codec: values.get('codec') as VideoCodec | undefined,
+      container: values.get('container') as VideoContainer | undefined,
+      pixelFormat: values.get('pix-fmt') as VideoPixelFormat | undefined
+    });
+  } catch (error) {
+    throw new HeadlessRenderUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  return {
+    projectPath: path.resolve(projectPath),
+    outputPath: path.resolve(outputPath),
+    fps,
+    startTime: range.startTime,
+    endTime: range.endTime,
+    width,
+    height,
+    audioPath: values.get('audio') ? path.resolve(values.get('audio')!) : undefined,
+    ...encoding,
+    formats: values.has('formats')
+      ? (values.get('formats') || '').split(',').map(id => id.trim()).filter(Boolean)
+      : undefined
+  };
+}
+
+function parseResolution(value: string): { width: number; height: number } {
+  const match = value.match(/^(\d+)[xX](\d+)$/);
+  if (!match) {
+    throw new HeadlessRenderUsageError(`解像度は WxH 形式で指定してください: ${value}`);
+  }
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+  // libx264 / yuv420p は偶数サイズのみ対応
+  if (width <= 0 || height <= 0 || width % 2 !== 0 || height % 2 !== 0) {
+    throw new HeadlessRenderUsageError(`解像度の幅と高さは正の偶数で指定してください: ${value}`);
+  }
+  return { width, height };
+}
+
+function parseRange(value: string): { startTime?: number; endTime?: number } {
+  const match = value.match(/^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/);
+  if (!match || (!match[1] && !match[2])) {
+    throw new HeadlessRenderUsageError(`範囲は 開始秒-終了秒 の形式で指定してください: ${value}`);
+  }
+  const startTime = match[1] !== undefined ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+  const endTime = match[2] !== undefined ? Math.round(parseFloat(match[2]) * 1000) : undefined;
+  if (startTime !== undefined && endTime !== undefined && endTime <= startTime) {
+    throw new HeadlessRenderUsageError(`範囲の終了は開始より後にしてください: ${value}`);
+  }
+  return { startTime, endTime };
+}
+
+/**
+ * 進捗を標準出力に1行で出力（他のログは標準出力に出さない前提）
+ */
+function report(message: string): void {
+  process.stdout.write(`[render] ${message}\n`);
+}
+
+/**
+ * プロジェクトの終端時刻（音声長と最後のフレーズ終了の大きい方）
+ */
+export function getProjectEndTime(projectData: any): number {
+  const lyricsEnd = (projectData.lyricsData as any[]).reduce(
+    (max, phrase) => Math.max(max, typeof phrase.end === 'number' ? phrase.end : 0),
+    0
+  );
+  return Math.max(projectData.audio?.duration || 0, lyricsEnd);
+}
+
+async function readProjectFile(projectPath: string): Promise<any> {
+  let content: string;
+  try {
+    content = await fs.readFile(projectPath, 'utf-8');
+  } catch (error) {
+    throw new Error(`プロジェクトファイルを読み込めません: ${projectPath}`);
+  }
+
+  let projectData: any;
+  try {
+    projectData = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`プロジェクトファイルのJSONが不正です: ${projectPath}`);
+  }
+
+  if (!projectData || !Array.isArray(projectData.lyricsData)) {
+    throw new Error('プロジェクトファイルに歌詞データがありません');
+  }
+  return projectData;
+}
+
+/**
+ * 非表示ウィンドウでレンダラーを読み込む（main.tsのメインウィンドウと同じ読み込み先）
+ */
+function createRenderWindow(): BrowserWindowType {
+  const window = new BrowserWindow({
+    width: 1400,
+    height: 1000,
+    show: false,
+    backgroundColor: '#000000',
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, './preload.js'),
+      webSecurity: false,
+      allowRunningInsecureContent: true,
+      // 非表示でもタイマー・描画を間引かない
+      backgroundThrottling: false
+    }
+  });
+
+  const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
+  if (isDev) {
+    window.loadURL('http://localhost:5173/?headless=1');
+  } else {
+    window.loadFile(path.join(__dirname, '../renderer/index.html'), { query: { headless: '1' } });
+  }
+  return window;
+}
+
+/**
+ * 1回分のレンダリング内容（読み込み済みのプロジェクトデータと出力設定）
+ */
+export interface HeadlessRenderTask {
+  projectData: any; // ProjectFileData (.uta)
+  outputPath: string;
+  fps: number;
+  startTime?: number; // ms（省略時は0）
+  endTime?: number;   // ms（省略時はプロジェクト終端）
+  width: number;
+  height: number;
+  aspectRatio?: string; // 省略時は解像度から判定
+  orientation?: 'landscape' | 'portrait';
+  audioPath?: string;
+  videoQuality?: 'low' | 'medium' | 'high';
+  includeDebugVisuals?: boolean;
+  codec?: VideoCodec;
+  container?: VideoContainer;
+  pixelFormat?: VideoPixelFormat;
+}
+
+export interface HeadlessRenderCallbacks {
+  onLog?: (message: string) => void;
+  onProgress?: (progress: number) => void; // 0-100
+}
+
+/**
+ * キャンセルによる中断
+ */
+export class HeadlessRenderCancelledError extends Error {
+  constructor() {
+    super('レンダリングがキャンセルされました');
+    this.name = 'HeadlessRenderCancelledError';
+  }
+}
+
+// 全体進捗のうちフレームキャプチャ（バッチ動画化を含む）が占める割合
+const CAPTURE_PROGRESS_RATIO = 0.9;
+
+/**
+ * 非表示ウィンドウを使ったレンダリング1回分
+ * - コマンドライン（runHeadlessRender）とレンダーキュー（RenderQueue）で共用
+ * - headless:* のIPCハンドラを登録するため、同時に実行できるのは1セッションのみ
+ * - 一時停止中はフレーム受信の応答を保留し、レンダラーのキャプチャを止める
+ */
+export class HeadlessRenderSession {
+  private processor = new BatchVideoProcessor();
+  private sessionId = `headless_${Date.now()}`;
+  private renderWindow: BrowserWindowType | null = null;
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiters: (() => void)[] = [];
+  private abortCapture: ((error: Error) => void) | null = null;
+
+  constructor(private task: HeadlessRenderTask, private callbacks: HeadlessRenderCallbacks = {}) {}
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause(): void {
+    if (this.cancelled) return;
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * 実行中のキャプチャ・FFmpeg処理を中断する（run は HeadlessRenderCancelledError で終了）
+   */
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.resume();
+    this.abortCapture?.(new HeadlessRenderCancelledError());
+    this.processor.cancelCurrentProcessing().catch(() => {});
+  }
+
+  /**
+   * レンダリングを実行し、出力ファイルパスを返す
+   */
+  async run(): Promise<string> {
+    const { task } = this;
+    let sessionCreated = false;
+
+    try {
+      const startTime = task.startTime ?? 0;
+      const endTime = task.endTime ?? getProjectEndTime(task.projectData);
+      if (endTime <= startTime) {
+        throw new Error('書き出し範囲が空です（プロジェクトの長さを確認してください）');
+      }
+      const totalFrames = Math.ceil((endTime - startTime) / 1000 * task.fps);
+      const totalBatches = Math.ceil(totalFrames / BATCH_SIZE);
+      const encoding = resolveVideoEncoding(task);
+
+      if (task.audioPath) {
+        await fs.access(task.audioPath).catch(() => {
+          throw new Error(`音声ファイルが見つかりません: ${task.audioPath}`);
+        });
+      }
+
+      if (!await this.processor.initialize()) {
+        throw new Error('FFmpegが利用できません。FFmpegをインストールしてください');
+      }
+
+      await this.processor.createTempSession(this.sessionId);
+      sessionCreated = true;
+
+      this.log(`range ${(startTime / 1000).toFixed(3)}s-${(endTime / 1000).toFixed(3)}s, ${totalFrames} frames @ ${task.fps}fps, ${task.width}x${task.height}`);
+      this.log(`encode ${encoding.codec}/${encoding.container}/${encoding.pixelFormat}`);
+      this.throwIfCancelled();
+
+      const job: HeadlessRenderJob = {
+        projectData: task.projectData,
+        fps: task.fps,
+        startTime,
+        endTime,
+        width: task.width,
+        height: task.height,
+        totalFrames,
+        aspectRatio: task.aspectRatio,
+        orientation: task.orientation,
+        includeDebugVisuals: task.includeDebugVisuals,
+        transparentBackground: hasAlphaChannel(encoding.pixelFormat)
+      };
+
+      const batchVideos = await this.captureInRenderer(job, totalBatches);
+
+      if (batchVideos.length !== totalBatches) {
+        throw new Error(`フレームが不足しています（バッチ ${batchVideos.length}/${totalBatches}）`);
+      }
+
+      this.log('compose');
+      await fs.mkdir(path.dirname(task.outputPath), { recursive: true });
+      const outputPath = await this.processor.composeFinalVideo({
+        sessionId: this.sessionId,
+        batchVideos,
+        fileName: path.basename(task.outputPath),
+        includeMusicTrack: !!task.audioPath,
+        audioPath: task.audioPath,
+        audioStartTime: startTime,
+        audioEndTime: endTime,
+        outputPath: task.outputPath,
+        totalDurationMs: endTime - startTime,
+        outputWidth: task.width,
+        outputHeight: task.height,
+        ...encoding
+      });
+      this.throwIfCancelled();
+
+      this.callbacks.onProgress?.(100);
+      this.log(`done ${outputPath}`);
+      return outputPath;
+
+    } catch (error) {
+      // キャンセルで中断したFFmpegのエラーはキャンセルとして扱う
+      if (this.cancelled) {
+        throw new HeadlessRenderCancelledError();
+      }
+      throw error;
+
+    } finally {
+      const window = this.renderWindow as BrowserWindowType | null;
+      if (window && !window.isDestroyed()) {
+        window.destroy();
+      }
+      this.renderWindow = null;
+      if (sessionCreated) {
+        await this.processor.cleanupTempSession(this.sessionId).catch(() => {});
+      }
+      await this.processor.dispose().catch(() => {});
+    }
+  }
+
+  /**
+   * 非表示ウィンドウでフレームをキャプチャさせ、バッチ動画のパス一覧を返す
+   */
+  private captureInRenderer(job: HeadlessRenderJob, totalBatches: number): Promise<string[]> {
+    const { task, processor, sessionId } = this;
+    const batchVideos: string[] = [];
+
+    return new Promise<string[]>((resolve, reject) => {
+      let settled = false;
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(startupTimer);
+        if (inactivityTimer) clearTimeout(inactivityTimer);
+        this.abortCapture = null;
+        ipcMain.removeHandler('headless:get-job');
+        ipcMain.removeHandler('headless:frame');
+        ipcMain.removeHandler('headless:complete');
+        error ? reject(error) : resolve(batchVideos);
+      };
+      this.abortCapture = finish;
+
+      const startupTimer = setTimeout(() => {
+        finish(new Error('レンダラーの起動がタイムアウトしました'));
+      }, RENDERER_STARTUP_TIMEOUT_MS);
+
+      // レンダラーが途中で止まった場合に待ち続けないよう、フレームを受け取るたびに監視し直す
+      let inactivityTimer: NodeJS.Timeout | null = null;
+      const watchInactivity = () => {
+        if (inactivityTimer) clearTimeout(inactivityTimer);
+        inactivityTimer = settled ? null : setTimeout(() => {
+          finish(new Error(`レンダラーから${RENDERER_INACTIVITY_TIMEOUT_MS / 1000}秒間フレームが届きませんでした`));
+        }, RENDERER_INACTIVITY_TIMEOUT_MS);
+      };
+
+      ipcMain.handle('headless:get-job', () => {
+        clearTimeout(startupTimer);
+        watchInactivity();
+        this.log('project loaded in renderer, capturing frames');
+        return job;
+      });
+
+      // フレームを受け取ってPNG保存し、バッチ単位で動画化（完了まで次のフレームを送らせない）
+      ipcMain.handle('headless:frame', async (_event, frameIndex: number, frameData: Uint8Array) => {
+        if (inactivityTimer) clearTimeout(inactivityTimer);
+        try {
+          await this.waitWhilePaused();
+          this.throwIfCancelled();
+
+          const frameName = `frame_${frameIndex.toString().padStart(6, '0')}.png`;
+          await processor.saveFrameImage(sessionId, frameName, frameData, task.width, task.height);
+
+          const capturedCount = frameIndex + 1;
+          if (capturedCount % 30 === 0 || capturedCount === job.totalFrames) {
+            this.log(`capture ${capturedCount}/${job.totalFrames} (${(capturedCount / job.totalFrames * 100).toFixed(1)}%)`);
+          }
+          this.callbacks.onProgress?.(capturedCount / job.totalFrames * CAPTURE_PROGRESS_RATIO * 100);
+
+          if (capturedCount % BATCH_SIZE === 0 || capturedCount === job.totalFrames) {
+            const batchIndex = batchVideos.length;
+            const startFrame = batchIndex * BATCH_SIZE;
+            this.log(`batch ${batchIndex + 1}/${totalBatches}`);
+            batchVideos.push(await processor.createBatchVideo({
+              sessionId,
+              batchIndex,
+              startFrame,
+              endFrame: capturedCount,
+              fps: task.fps,
+              width: task.width,
+              height: task.height,
+              videoQuality: task.videoQuality ?? 'high',
+              codec: task.codec,
+              container: task.container,
+              pixelFormat: task.pixelFormat
+            }));
+          }
+        } catch (error) {
+          finish(error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+        watchInactivity();
+      });
+
+      ipcMain.handle('headless:complete', (_event, errorMessage?: string) => {
+        finish(errorMessage ? new Error(errorMessage) : undefined);
+      });
+
+      this.renderWindow = createRenderWindow();
+      this.renderWindow.webContents.on('did-fail-load', (_event, errorCode, errorDescription, validatedURL) => {
+        finish(new Error(`レンダラーの読み込みに失敗しました: ${errorDescription} (${errorCode}) ${validatedURL}`));
+      });
+      this.renderWindow.webContents.on('render-process-gone', (_event, details) => {
+        finish(new Error(`レンダラープロセスが終了しました: ${details.reason}`));
+      });
+      this.renderWindow.on('unresponsive', () => {
+        finish(new Error('レンダラーが応答しなくなりました'));
+      });
+    });
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new HeadlessRenderCancelledError();
+    }
+  }
+
+  private log(message: string): void {
+    this.callbacks.onLog?.(message);
+  }
+}
+
+/**
+ * ヘッドレスレンダリングを実行し、終了コードを返す
+ */
+export async function runHeadlessRender(options: HeadlessRenderOptions): Promise<number> {
+  try {
+    report(`project ${options.projectPath}`);
+    const projectData = await readProjectFile(options.projectPath);
+
+    if (options.formats) {
+      await renderExportFormats(projectData, options);
+      return HEADLESS_EXIT_SUCCESS;
+    }
+
+    const session = new HeadlessRenderSession({
+      projectData,
+      outputPath: options.outputPath,
+      fps: options.fps,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      width: options.width,
+      height: options.height,
+      audioPath: options.audioPath,
+      codec: options.codec,
+      container: options.container,
+      pixelFormat: options.pixelFormat
+    }, { onLog: report });
+
+    await session.run();
+    return HEADLESS_EXIT_SUCCESS;
+
+  } catch (error) {
+    process.stderr.write(`[render] error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return HEADLESS_EXIT_FAILURE;
+  }
+}
+
+/**
+ * プロジェクトの書き出しフォーマットを順に書き出す
+ * 出力は outputPath のフォルダに `<プロジェクト名>_<フォーマットID>_<幅>x<高さ>.<拡張子>` で保存する
+ */
+async function renderExportFormats(projectData: any, options: HeadlessRenderOptions): Promise<void> {
+  const formats = selectExportFormats(normalizeExportFormats(projectData.exportFormats), options.formats ?? []);
+  const baseName = path.basename(options.projectPath, path.extname(options.projectPath));
+  const extension = VIDEO_CONTAINER_EXTENSIONS[options.container ?? DEFAULT_VIDEO_ENCODING.container];
+
+  for (const [index, format] of formats.entries()) {
+    report(`format ${index + 1}/${formats.length} ${format.id} ${format.width}x${format.height}`);
+
+    const session = new HeadlessRenderSession({
+      projectData: applyExportFormatOverrides(projectData, format),
+      outputPath: path.join(options.outputPath, getExportFormatFileName(baseName, format, extension)),
+      fps: options.fps,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      width: format.width,
+      height: format.height,
+      aspectRatio: format.aspectRatio,
+      orientation: format.orientation,
+      audioPath: options.audioPath,
+      codec: options.codec,
+      container: options.container,
+      pixelFormat: options.pixelFormat
+    }, { onLog: report });
+
+    await session.run();
+  }
+}
+
+function selectExportFormats(formats: ExportFormat[], ids: string[]): ExportFormat[] {
+  if (ids.length === 0) {
+    const enabled = formats.filter(format => format.enabled);
+    if (enabled.length === 0) {
+      throw new Error('プロジェクトに有効な書き出しフォーマットがありません');
+    }
+    return enabled;
+  }
+
+  return ids.map(id => {
+    const format = formats.find(item => item.id === id);
+    if (!format) {
+      throw new Error(`書き出しフォーマットが見つかりません: ${id}（${formats.map(item => item.id).join(', ')}）`);
+    }
+    return format;
+  });
+}
@@ -34,7 +34,8 @@ function writeLine(line: string) {
   }
 }
 
-export function initFileLogger() {
+export function initFileLogger(options: { echoToConsole?: boolean } = {}) {
+  const echoToConsole = options.echoToConsole ?? true;
   if (initialized) return;
   initialized = true;
 
@@ -59,12 +60,13 @@ export function initFileLogger() {
     writeLine(formatLine('info', [`Platform: ${process.platform} ${process.arch}`], 'System'));
 
     // Override console methods (duplicate to stdout and file)
+    // When echoToConsole is false (headless render), log/info go to the file only
     console.log = (...args: any[]) => {
-      originalConsole.log(...args);
+      if (echoToConsole) originalConsole.log(...args);
       writeLine(formatLine('log', args, 'Main'));
     };
     console.info = (...args: any[]) => {
-      originalConsole.info(...args);
+      if (echoToConsole) originalConsole.info(...args);
       writeLine(formatLine('info', args, 'Main'));
     };
     console.warn = (...args: any[]) => {
@@ -7,6 +7,16 @@ import { setupFileHandlers } from './fileManager';
 import { setupExportHandlers } from './exportManager';
 import { fontManager } from './fontManager';
 import { persistenceManager } from './persistenceManager';
+import { renderQueue } from './renderQueue';
+import { templateManager } from './templateManager';
+import {
+  parseHeadlessRenderArgs,
+  runHeadlessRender,
+  HeadlessRenderOptions,
+  HeadlessRenderUsageError,
+  HEADLESS_RENDER_USAGE,
+  HEADLESS_EXIT_USAGE
+} from './headlessRenderer';
 
 // ---- Startup GPU/Compositor safety switches (must be set before app ready) ----
 // macOS 15.x + Chromium can crash WindowServer with CALayer overlays
@@ -40,11 +50,27 @@ try {
 
 class ElectronApp {
   private mainWindow: BrowserWindowType | null = null;
+  private readyToQuit = false; // レンダーキューの保存が完了し、終了してよい状態か
   
   async initialize() {
     await app.whenReady();
+
+    // --render 指定時はウィンドウを表示せずに動画を書き出して終了
+    let headlessOptions: HeadlessRenderOptions | null = null;
+    try {
+      headlessOptions = parseHeadlessRenderArgs(process.argv);
+    } catch (error) {
+      if (error instanceof HeadlessRenderUsageError) {
+        process.stderr.write(`${error.message}\n\n${HEADLESS_RENDER_USAGE}\n`);
+        app.exit(HEADLESS_EXIT_USAGE);
+        return;
+      }
+      throw error;
+    }
+
     // Initialize file logger early to capture subsequent logs
-    initFileLogger();
+    // ヘッドレス時は標準出力を進捗表示専用にするため、通常ログはファイルのみに出力
+    initFileLogger({ echoToConsole: !headlessOptions });
     
     console.log('ElectronApp: Initializing managers...');
     
@@ -55,6 +81,24 @@ class ElectronApp {
     await persistenceManager.initialize();
     console.log('ElectronApp: PersistenceManager initialized');
     
+    // ヘッドレス時もプロジェクトがユーザーテンプレートを参照できるよう先に初期化
+    await templateManager.initialize();
+    console.log('ElectronApp: TemplateManager initialized');
+    
+    if (headlessOptions) {
+      this.setupIPC();
+      // 非表示ウィンドウを閉じても既定の app.quit() で終了させず、終了コードを返してから app.exit で終える
+      app.on('window-all-closed', () => {});
+      const exitCode = await runHeadlessRender(headlessOptions);
+      app.exit(exitCode);
+      return;
+    }
+    
+    await renderQueue.initialize();
+    console.log('ElectronApp: RenderQueue initialized');
+    
+    templateManager.startWatching();
+    
     this.createMainWindow();
     this.setupIPC();
     this.setupAppEvents();
@@ -104,6 +148,10 @@ class ElectronApp {
     // Window event handlers
     this.mainWindow.on('closed', () => {
       this.mainWindow = null;
+      // レンダーキューの非表示ウィンドウが残るとアプリが終了しないため停止する
+      if (process.platform !== 'darwin') {
+        renderQueue.shutdown();
+      }
     });
     
     this.mainWindow.on('ready-to-show', () => {
@@ -353,8 +401,23 @@ class ElectronApp {
       }
     });
     
+    app.on('before-quit', (event) => {
+      if (this.readyToQuit) return;
+      
+      // レンダーキューの保存が終わるまで終了を保留し、完了後にあらためて終了する
+      event.preventDefault();
+      templateManager.stopWatching();
+      renderQueue.shutdown()
+        .catch(error => console.error('RenderQueue: Failed to shut down:', error))
+        .finally(() => {
+          this.readyToQuit = true;
+          app.quit();
+        });
+    });
+    
     app.on('activate', () => {
-      if (BrowserWindow.getAllWindows().length === 0) {
+      // レンダーキューの非表示ウィンドウが残っている場合もあるため、メインウィンドウの有無で判定する
+      if (!this.mainWindow) {
         this.createMainWindow();
       }
     });
@@ -1,6 +1,8 @@
-import { app, ipcMain } from 'electron';
+import { app, dialog, ipcMain } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { RenderJob } from './renderQueue';
+import type { ParameterPreset } from '../shared/types';
 
 interface RecentFile {
   fileName: string;
@@ -27,6 +29,18 @@ interface FontBlacklistData {
   updatedAt: number;
 }
 
+interface RenderQueueData {
+  version: number;
+  jobs: RenderJob[];
+  updatedAt: number;
+}
+
+interface ParameterPresetsData {
+  version: number;
+  presets: ParameterPreset[];
+  updatedAt: number;
+}
+
 interface AutoSaveData {
   version: string;
   timestamp: number;
@@ -51,12 +65,16 @@ class PersistenceManager {
   private userDataPath: string;
   private autoSaveFilePath: string;
   private fontBlacklistFilePath: string;
+  private renderQueueFilePath: string;
+  private parameterPresetsFilePath: string;
   private autoSaveInterval: NodeJS.Timeout | null = null;
   
   constructor() {
     this.userDataPath = app.getPath('userData');
     this.autoSaveFilePath = path.join(this.userDataPath, 'autosave.json');
     this.fontBlacklistFilePath = path.join(this.userDataPath, 'font-blacklist.json');
+    this.renderQueueFilePath = path.join(this.userDataPath, 'render-queue.json');
+    this.parameterPresetsFilePath = path.join(this.userDataPath, 'parameter-presets.json');
   }
   
   async initialize() {
@@ -178,6 +196,47 @@ class PersistenceManager {
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
+
+    // Parameter presets management
+    ipcMain.handle('persistence:save-parameter-presets', async (event, presets: ParameterPreset[]) => {
+      try {
+        await this.saveParameterPresets(presets);
+        return { success: true };
+      } catch (error) {
+        console.error('Failed to save parameter presets:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('persistence:load-parameter-presets', async () => {
+      try {
+        const presets = await this.loadParameterPresets();
+        return { success: true, presets };
+      } catch (error) {
+        console.error('Failed to load parameter presets:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('persistence:export-parameter-presets', async (event, presets: ParameterPreset[], defaultFileName: string) => {
+      try {
+        const filePath = await this.exportParameterPresets(presets, defaultFileName);
+        return { success: true, filePath };
+      } catch (error) {
+        console.error('Failed to export parameter presets:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('persistence:import-parameter-presets', async () => {
+      try {
+        const data = await this.importParameterPresets();
+        return { success: true, data };
+      } catch (error) {
+        console.error('Failed to import parameter presets:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
   }
   
   private async saveAutoSave(data: AutoSaveData): Promise<void> {
@@ -355,7 +414,7 @@ class PersistenceManager {
     await this.saveAutoSave(data);
   }
 
-  private async getRecentFiles(type: 'audio' | 'backgroundVideo'): Promise<RecentFile[]> {
+  async getRecentFiles(type: 'audio' | 'backgroundVideo'): Promise<RecentFile[]> {
     console.log(`PersistenceManager: getRecentFiles called for type: ${type}`);
     
     const data = await this.loadAutoSave();
@@ -454,6 +513,154 @@ class PersistenceManager {
       throw error;
     }
   }
+
+  /**
+   * レンダーキューの保存（メインプロセスのRenderQueueから呼ばれる）
+   */
+  async saveRenderQueue(jobs: RenderJob[]): Promise<void> {
+    const data: RenderQueueData = {
+      version: 1,
+      jobs,
+      updatedAt: Date.now()
+    };
+
+    const tempPath = `${this.renderQueueFilePath}.tmp`;
+
+    try {
+      // Write to temp file first
+      await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+
+      // Atomic rename
+      await fs.rename(tempPath, this.renderQueueFilePath);
+    } catch (error) {
+      console.error('PersistenceManager: Error saving render queue:', error);
+
+      // Clean up temp file if it exists
+      try {
+        await fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      throw error;
+    }
+  }
+
+  async loadRenderQueue(): Promise<RenderJob[]> {
+    try {
+      const content = await fs.readFile(this.renderQueueFilePath, 'utf-8');
+      const data = JSON.parse(content) as RenderQueueData;
+      const jobs = Array.isArray(data.jobs) ? data.jobs : [];
+
+      console.log(`PersistenceManager: Render queue loaded (${jobs.length} jobs)`);
+      return jobs;
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        console.log('PersistenceManager: No render queue file found');
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async saveParameterPresets(presets: ParameterPreset[]): Promise<void> {
+    const data: ParameterPresetsData = {
+      version: 1,
+      presets,
+      updatedAt: Date.now()
+    };
+
+    const tempPath = `${this.parameterPresetsFilePath}.tmp`;
+
+    try {
+      // Write to temp file first
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+
+      // Atomic rename
+      await fs.rename(tempPath, this.parameterPresetsFilePath);
+
+      console.log(`PersistenceManager: Parameter presets saved successfully (${presets.length} presets)`);
+    } catch (error) {
+      console.error('PersistenceManager: Error saving parameter presets:', error);
+
+      // Clean up temp file if it exists
+      try {
+        await fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      throw error;
+    }
+  }
+
+  private async loadParameterPresets(): Promise<ParameterPreset[]> {
+    try {
+      const content = await fs.readFile(this.parameterPresetsFilePath, 'utf-8');
+      const data = JSON.parse(content) as ParameterPresetsData;
+      const presets = Array.isArray(data.presets) ? data.presets : [];
+
+      console.log(`PersistenceManager: Parameter presets loaded (${presets.length} presets)`);
+      return presets;
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        console.log('PersistenceManager: No parameter presets file found');
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * プリセットをJSONファイルに書き出す（キャンセル時はnull）
+   */
+  private async exportParameterPresets(presets: ParameterPreset[], defaultFileName: string): Promise<string | null> {
+    const { filePath } = await dialog.showSaveDialog({
+      title: 'Export Parameter Presets',
+      defaultPath: defaultFileName,
+      filters: [
+        { name: 'JSON', extensions: ['json'] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    });
+
+    if (!filePath) {
+      return null;
+    }
+
+    const data: ParameterPresetsData = {
+      version: 1,
+      presets,
+      updatedAt: Date.now()
+    };
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    return filePath;
+  }
+
+  /**
+   * JSONファイルを読み込んで内容をそのまま返す（検証はレンダラー側のParameterRegistryで行う）
+   */
+  private async importParameterPresets(): Promise<unknown | null> {
+    const { filePaths } = await dialog.showOpenDialog({
+      title: 'Import Parameter Presets',
+      filters: [
+        { name: 'JSON', extensions: ['json'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    });
+
+    if (filePaths.length === 0) {
+      return null;
+    }
+
+    const content = await fs.readFile(filePaths[0], 'utf-8');
+    try {
+      return JSON.parse(content);
+    } catch {
+      throw new Error(`JSONとして読み込めません: ${path.basename(filePaths[0])}`);
+    }
+  }
 }
 
 export const persistenceManager = new PersistenceManager();
\ No newline at end of file
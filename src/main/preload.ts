@@ -6,8 +6,22 @@ import type {
   ExportOptions, 
   ExportProgress, 
   ExportError,
-  FontInfo
+  FontInfo,
+  HeadlessRenderJob,
+  ProjectBundleAssets,
+  ProjectBundleSaveResult,
+  ProjectBundleLoadResult,
+  MissingMediaReference,
+  MediaSearchResult,
+  MediaFileStatus,
+  RenderJobSummary,
+  RenderQueueState,
+  ParameterPreset,
+  TemplateInfo,
+  UserTemplateChange
 } from '../shared/types';
+import type { SubtitleFormat, SubtitlePhrase, SubtitleExportOptions } from '../shared/subtitleFormats';
+import type { VideoCodec, VideoContainer, VideoPixelFormat } from '../shared/videoCodecs';
 
 // Secure API exposure to renderer process
 const electronAPI = {
@@ -21,6 +35,31 @@ const electronAPI = {
   selectMedia: (type: 'video' | 'audio'): Promise<MediaFileInfo> => 
     ipcRenderer.invoke('file:select-media', type),
   
+  // Project bundle (project + collected media and fonts)
+  saveProjectBundle: (projectData: any, assets: ProjectBundleAssets): Promise<ProjectBundleSaveResult> =>
+    ipcRenderer.invoke('file:save-project-bundle', projectData, assets),
+  
+  loadProjectBundle: (): Promise<ProjectBundleLoadResult> =>
+    ipcRenderer.invoke('file:load-project-bundle'),
+  
+  // Missing media relinking
+  statMediaFiles: (paths: string[]): Promise<MediaFileStatus[]> =>
+    ipcRenderer.invoke('file:stat-media-files', paths),
+  
+  findMediaCandidates: (references: MissingMediaReference[], searchDirs?: string[]): Promise<MediaSearchResult[]> =>
+    ipcRenderer.invoke('file:find-media-candidates', references, searchDirs),
+  
+  selectDirectory: (title?: string): Promise<string> =>
+    ipcRenderer.invoke('file:select-directory', title),
+  
+  // Subtitle export (SRT / WebVTT / ASS)
+  exportSubtitles: (
+    format: SubtitleFormat,
+    lyrics: SubtitlePhrase[],
+    options?: SubtitleExportOptions & { filePath?: string; defaultFileName?: string }
+  ): Promise<string> =>
+    ipcRenderer.invoke('file:export-subtitles', format, lyrics, options),
+  
   // Video export (legacy)
   startExport: (options: ExportOptions): Promise<void> => 
     ipcRenderer.invoke('export:start', options),
@@ -48,6 +87,9 @@ const electronAPI = {
     width: number;
     height: number;
     videoQuality: 'low' | 'medium' | 'high' | 'highest';
+    codec?: VideoCodec;
+    container?: VideoContainer;
+    pixelFormat?: VideoPixelFormat;
   }): Promise<string> =>
     ipcRenderer.invoke('export:createBatchVideo', options),
   
@@ -65,6 +107,9 @@ const electronAPI = {
     totalDurationMs?: number;
     outputWidth?: number;
     outputHeight?: number;
+    codec?: VideoCodec;
+    container?: VideoContainer;
+    pixelFormat?: VideoPixelFormat;
   }): Promise<string> =>
     ipcRenderer.invoke('export:composeFinalVideo', options),
   
@@ -156,6 +201,60 @@ const electronAPI = {
     ipcRenderer.send(`export:${channel}`, data);
   },
   
+  // Headless render (command-line mode)
+  headless: {
+    getJob: (): Promise<HeadlessRenderJob> =>
+      ipcRenderer.invoke('headless:get-job'),
+    
+    sendFrame: (frameIndex: number, frameData: Uint8Array): Promise<void> =>
+      ipcRenderer.invoke('headless:frame', frameIndex, frameData),
+    
+    complete: (errorMessage?: string): Promise<void> =>
+      ipcRenderer.invoke('headless:complete', errorMessage)
+  },
+  
+  // Render queue (persistent multi-job export)
+  exportQueue: {
+    getState: (): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:get-state'),
+    
+    add: (projectData: any, options: ExportOptions, name?: string): Promise<RenderJobSummary> =>
+      ipcRenderer.invoke('export:queue:add', projectData, options, name),
+    
+    start: (): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:start'),
+    
+    stop: (): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:stop'),
+    
+    pause: (jobId: string): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:pause', jobId),
+    
+    resume: (jobId: string): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:resume', jobId),
+    
+    cancel: (jobId: string): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:cancel', jobId),
+    
+    retry: (jobId: string): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:retry', jobId),
+    
+    move: (jobId: string, direction: 'up' | 'down'): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:move', jobId, direction),
+    
+    remove: (jobId: string): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:remove', jobId),
+    
+    clearFinished: (): Promise<RenderQueueState> =>
+      ipcRenderer.invoke('export:queue:clear-finished'),
+    
+    onUpdated: (callback: (state: RenderQueueState) => void) => {
+      const subscription = (event: any, state: RenderQueueState) => callback(state);
+      ipcRenderer.on('export:queue:updated', subscription);
+      return () => ipcRenderer.removeListener('export:queue:updated', subscription);
+    }
+  },
+  
   // App utilities
   getAppVersion: (): Promise<string> => 
     ipcRenderer.invoke('app:get-version'),
@@ -200,6 +299,21 @@ const electronAPI = {
       ipcRenderer.invoke('persistence:load-font-blacklist'),
   },
   
+  // Parameter presets (stored in user data by persistenceManager)
+  parameterPresets: {
+    save: (presets: ParameterPreset[]): Promise<{ success: boolean; error?: string }> =>
+      ipcRenderer.invoke('persistence:save-parameter-presets', presets),
+
+    load: (): Promise<{ success: boolean; presets?: ParameterPreset[]; error?: string }> =>
+      ipcRenderer.invoke('persistence:load-parameter-presets'),
+
+    exportToFile: (presets: ParameterPreset[], defaultFileName: string): Promise<{ success: boolean; filePath?: string | null; error?: string }> =>
+      ipcRenderer.invoke('persistence:export-parameter-presets', presets, defaultFileName),
+
+    importFromFile: (): Promise<{ success: boolean; data?: unknown; error?: string }> =>
+      ipcRenderer.invoke('persistence:import-parameter-presets')
+  },
+  
   // File system utilities
   checkFileExists: (filePath: string): Promise<boolean> =>
     ipcRenderer.invoke('fs:check-file-exists', filePath),
@@ -222,6 +336,24 @@ const electronAPI = {
       ipcRenderer.invoke('template:list-files')
   },
   
+  // ユーザーテンプレート（userData/templates のJSモジュール）
+  userTemplates: {
+    scan: (): Promise<TemplateInfo[]> =>
+      ipcRenderer.invoke('template:scan-directory'),
+    
+    read: (fileName: string): Promise<string> =>
+      ipcRenderer.invoke('template:read-user-template', fileName),
+    
+    openFolder: (): Promise<void> =>
+      ipcRenderer.invoke('template:open-folder'),
+    
+    onChanged: (callback: (change: UserTemplateChange) => void) => {
+      const subscription = (event: any, change: UserTemplateChange) => callback(change);
+      ipcRenderer.on('template:user-template-changed', subscription);
+      return () => ipcRenderer.removeListener('template:user-template-changed', subscription);
+    }
+  },
+  
   // Platform info
   platform: process.platform,
   
@@ -0,0 +1,456 @@
+/**
+ * renderQueue - 動画書き出しのレンダーキュー
+ *
+ * プロジェクトデータと ExportOptions の組をジョブとして登録し、
+ * HeadlessRenderSession（非表示ウィンドウでのレンダリング）で1件ずつ順に書き出す。
+ * ジョブごとに一時停止・再開・並べ替え・キャンセルができ、ログと結果を保持する。
+ * キューは persistenceManager に保存され、アプリを再起動しても復元される。
+ */
+
+import * as electron from 'electron';
+const { ipcMain, BrowserWindow } = electron;
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type {
+  ExportOptions,
+  RenderJobSummary,
+  RenderJobStatus,
+  RenderQueueState
+} from '../shared/types';
+import { persistenceManager } from './persistenceManager';
+import { HeadlessRenderSession, HeadlessRenderCancelledError } from './headlessRenderer';
+import { resolveVideoEncoding } from '../shared/videoCodecs';
+
+/**
+ * 保存されるジョブ（レンダラーへはプロジェクトデータを除いて送る）
+ */
+export interface RenderJob extends RenderJobSummary {
+  projectData: any; // ProjectFileData (.uta)
+}
+
+// ジョブごとに保持するログの上限
+const LOG_LIMIT = 500;
+// 保存の間引き（進捗ログのたびに書き込まない）
+const SAVE_DELAY_MS = 1000;
+
+class RenderQueue {
+  private jobs: RenderJob[] = [];
+  private running = false;
+  private activeJobId: string | null = null;
+  private activeSession: HeadlessRenderSession | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private shuttingDown = false;
+  private shutdownPromise: Promise<void> | null = null;
+
+  async initialize() {
+    try {
+      this.jobs = await persistenceManager.loadRenderQueue();
+    } catch (error) {
+      console.error('RenderQueue: Failed to load render queue:', error);
+      this.jobs = [];
+    }
+
+    // 前回の実行中に終了したジョブは最初からやり直す（キューは停止状態で復元）
+    this.jobs.forEach(job => {
+      if (job.status === 'running') {
+        this.resetToQueued(job, 'アプリの終了により中断されたため、待機中に戻しました');
+      }
+    });
+
+    this.setupIPCHandlers();
+    console.log(`RenderQueue: Initialized (${this.jobs.length} jobs)`);
+  }
+
+  getState(): RenderQueueState {
+    return {
+      running: this.running,
+      jobs: this.jobs.map(({ projectData, ...summary }) => summary)
+    };
+  }
+
+  addJob(projectData: any, options: ExportOptions, name?: string): RenderJobSummary {
+    if (!projectData || !Array.isArray(projectData.lyricsData)) {
+      throw new Error('プロジェクトデータに歌詞データがありません');
+    }
+    if (!options.outputDir || !options.fileName) {
+      throw new Error('出力先が指定されていません');
+    }
+    // libx264 / yuv420p は偶数サイズのみ対応
+    if (options.width <= 0 || options.height <= 0 || options.width % 2 !== 0 || options.height % 2 !== 0) {
+      throw new Error(`解像度の幅と高さは正の偶数で指定してください: ${options.width}x${options.height}`);
+    }
+    if (options.endTime <= options.startTime) {
+      throw new Error('書き出し範囲が空です');
+    }
+    resolveVideoEncoding(options);
+
+    const job: RenderJob = {
+      id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: name || options.fileName,
+      options,
+      projectData,
+      status: 'queued',
+      progress: 0,
+      createdAt: Date.now(),
+      log: []
+    };
+    this.jobs.push(job);
+    this.appendLog(job, `キューに追加しました（${options.width}x${options.height} @ ${options.fps}fps）`);
+    this.notifyChanged();
+    this.processNext();
+
+    const { projectData: _projectData, ...summary } = job;
+    return summary;
+  }
+
+  /**
+   * キューの実行を開始（待機中のジョブを順に処理）
+   */
+  start(): void {
+    this.running = true;
+    this.notifyChanged();
+    this.processNext();
+  }
+
+  /**
+   * キューの実行を停止（実行中のジョブは最後まで処理し、次のジョブを開始しない）
+   */
+  stop(): void {
+    this.running = false;
+    this.notifyChanged();
+  }
+
+  pauseJob(id: string): void {
+    const job = this.getJob(id);
+    if (job.id === this.activeJobId) {
+      this.activeSession?.pause();
+    } else if (job.status !== 'queued') {
+      return;
+    }
+    if (job.status === 'paused') return;
+    job.status = 'paused';
+    this.appendLog(job, '一時停止しました');
+    this.notifyChanged();
+  }
+
+  resumeJob(id: string): void {
+    const job = this.getJob(id);
+    if (job.status !== 'paused') return;
+
+    if (job.id === this.activeJobId) {
+      this.activeSession?.resume();
+      job.status = 'running';
+    } else {
+      job.status = 'queued';
+    }
+    this.appendLog(job, '再開しました');
+    this.notifyChanged();
+    this.processNext();
+  }
+
+  cancelJob(id: string): void {
+    const job = this.getJob(id);
+    if (job.id === this.activeJobId) {
+      // 状態は runJob の終了時に更新される
+      this.activeSession?.cancel();
+      return;
+    }
+    if (job.status !== 'queued' && job.status !== 'paused') return;
+
+    job.status = 'cancelled';
+    job.finishedAt = Date.now();
+    this.appendLog(job, 'キャンセルしました');
+    this.notifyChanged();
+  }
+
+  /**
+   * 完了・失敗・キャンセルしたジョブを待機中に戻す
+   */
+  retryJob(id: string): void {
+    const job = this.getJob(id);
+    if (!isFinished(job.status)) return;
+
+    this.resetToQueued(job, '再実行のため待機中に戻しました');
+    this.notifyChanged();
+    this.processNext();
+  }
+
+  moveJob(id: string, direction: 'up' | 'down'): void {
+    const index = this.jobs.findIndex(job => job.id === id);
+    if (index === -1) {
+      throw new Error(`ジョブが見つかりません: ${id}`);
+    }
+    const targetIndex = direction === 'up' ? index - 1 : index + 1;
+    if (targetIndex < 0 || targetIndex >= this.jobs.length) return;
+
+    [this.jobs[index], this.jobs[targetIndex]] = [this.jobs[targetIndex], this.jobs[index]];
+    this.notifyChanged();
+  }
+
+  removeJob(id: string): void {
+    if (id === this.activeJobId) {
+      throw new Error('実行中のジョブは削除できません。先にキャンセルしてください');
+    }
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.notifyChanged();
+  }
+
+  clearFinished(): void {
+    this.jobs = this.jobs.filter(job => !isFinished(job.status));
+    this.notifyChanged();
+  }
+
+  /**
+   * メインウィンドウ終了時の停止処理
+   * 実行中のジョブは待機中に戻して保存し、次回起動時にやり直せるようにする
+   * 複数回呼ばれた場合も、最初の呼び出しの保存完了まで待てるよう同じ Promise を返す
+   */
+  shutdown(): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.stopAndSave();
+    }
+    return this.shutdownPromise;
+  }
+
+  private async stopAndSave(): Promise<void> {
+    this.shuttingDown = true;
+    this.running = false;
+
+    const activeJob = this.jobs.find(job => job.id === this.activeJobId);
+    if (activeJob) {
+      this.resetToQueued(activeJob, 'アプリの終了により中断されたため、待機中に戻しました');
+      this.activeSession?.cancel();
+    }
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.save();
+  }
+
+  private setupIPCHandlers() {
+    ipcMain.handle('export:queue:get-state', () => this.getState());
+
+    ipcMain.handle('export:queue:add', (event, projectData: any, options: ExportOptions, name?: string) => {
+      try {
+        return this.addJob(projectData, options, name);
+      } catch (error) {
+        console.error('RenderQueue: Failed to add job:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('export:queue:start', () => {
+      this.start();
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:stop', () => {
+      this.stop();
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:pause', (event, id: string) => {
+      this.pauseJob(id);
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:resume', (event, id: string) => {
+      this.resumeJob(id);
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:cancel', (event, id: string) => {
+      this.cancelJob(id);
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:retry', (event, id: string) => {
+      this.retryJob(id);
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:move', (event, id: string, direction: 'up' | 'down') => {
+      this.moveJob(id, direction);
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:remove', (event, id: string) => {
+      this.removeJob(id);
+      return this.getState();
+    });
+
+    ipcMain.handle('export:queue:clear-finished', () => {
+      this.clearFinished();
+      return this.getState();
+    });
+  }
+
+  private async processNext(): Promise<void> {
+    if (!this.running || this.activeJobId || this.shuttingDown) return;
+
+    const job = this.jobs.find(candidate => candidate.status === 'queued');
+    if (!job) return;
+
+    await this.runJob(job);
+    this.processNext();
+  }
+
+  private async runJob(job: RenderJob): Promise<void> {
+    const { options } = job;
+    this.activeJobId = job.id;
+    job.status = 'running';
+    job.progress = 0;
+    job.startedAt = Date.now();
+    job.finishedAt = undefined;
+    job.result = undefined;
+    job.error = undefined;
+    this.appendLog(job, 'レンダリングを開始しました');
+    this.notifyChanged();
+
+    const session = new HeadlessRenderSession({
+      projectData: job.projectData,
+      outputPath: path.join(options.outputDir, options.fileName),
+      fps: options.fps,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      width: options.width,
+      height: options.height,
+      aspectRatio: options.aspectRatio,
+      orientation: options.orientation,
+      audioPath: options.audioPath,
+      videoQuality: options.videoQuality,
+      includeDebugVisuals: options.includeDebugVisuals,
+      codec: options.codec,
+      container: options.container,
+      pixelFormat: options.pixelFormat
+    }, {
+      onLog: (message) => {
+        this.appendLog(job, message);
+        this.notifyChanged();
+      },
+      onProgress: (progress) => {
+        // 1%単位でのみ通知
+        const rounded = Math.floor(progress);
+        if (rounded === job.progress) return;
+        job.progress = rounded;
+        this.broadcastState();
+      }
+    });
+    this.activeSession = session;
+
+    try {
+      const outputPath = await session.run();
+      const fileSize = await getOutputSize(outputPath).catch(() => 0);
+      job.status = 'completed';
+      job.progress = 100;
+      job.result = {
+        outputPath,
+        fileSize,
+        elapsedMs: Date.now() - (job.startedAt ?? Date.now())
+      };
+      this.appendLog(job, `書き出しが完了しました: ${outputPath}`);
+
+    } catch (error) {
+      // 終了処理で待機中に戻したジョブはそのままにする
+      if (!this.shuttingDown) {
+        if (error instanceof HeadlessRenderCancelledError) {
+          job.status = 'cancelled';
+          this.appendLog(job, 'キャンセルしました');
+        } else {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`RenderQueue: Job ${job.id} failed:`, error);
+          job.status = 'failed';
+          job.error = message;
+          this.appendLog(job, `エラー: ${message}`);
+        }
+      }
+
+    } finally {
+      if (!this.shuttingDown) {
+        job.finishedAt = Date.now();
+      }
+      this.activeJobId = null;
+      this.activeSession = null;
+      this.notifyChanged();
+    }
+  }
+
+  private getJob(id: string): RenderJob {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job) {
+      throw new Error(`ジョブが見つかりません: ${id}`);
+    }
+    return job;
+  }
+
+  private resetToQueued(job: RenderJob, message: string): void {
+    job.status = 'queued';
+    job.progress = 0;
+    job.startedAt = undefined;
+    job.finishedAt = undefined;
+    job.result = undefined;
+    job.error = undefined;
+    this.appendLog(job, message);
+  }
+
+  private appendLog(job: RenderJob, message: string): void {
+    job.log.push({ timestamp: Date.now(), message });
+    if (job.log.length > LOG_LIMIT) {
+      job.log.splice(0, job.log.length - LOG_LIMIT);
+    }
+  }
+
+  /**
+   * 状態変更をレンダラーへ通知し、保存を予約
+   */
+  private notifyChanged(): void {
+    this.broadcastState();
+    this.scheduleSave();
+  }
+
+  private broadcastState(): void {
+    const state = this.getState();
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send('export:queue:updated', state);
+      }
+    });
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer || this.shuttingDown) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await persistenceManager.saveRenderQueue(this.jobs);
+    } catch (error) {
+      console.error('RenderQueue: Failed to save render queue:', error);
+    }
+  }
+}
+
+/**
+ * 出力のサイズ（PNG連番のフォルダは中のファイルの合計）
+ */
+async function getOutputSize(outputPath: string): Promise<number> {
+  const stats = await fs.stat(outputPath);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+  const files = await fs.readdir(outputPath);
+  const sizes = await Promise.all(files.map(file => fs.stat(path.join(outputPath, file)).then(fileStats => fileStats.size)));
+  return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+function isFinished(status: RenderJobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+export const renderQueue = new RenderQueue();
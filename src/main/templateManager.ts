@@ -1,10 +1,15 @@
-import { app, ipcMain, dialog } from 'electron';
-import { promises as fs } from 'fs';
+import { app, ipcMain, dialog, BrowserWindow } from 'electron';
+import { promises as fs, watch, FSWatcher } from 'fs';
 import * as path from 'path';
-import { TemplateInfo } from '../shared/types';
+import { TemplateInfo, UserTemplateChange } from '../shared/types';
+
+// 保存途中の連続イベントをまとめる待ち時間
+const WATCH_DEBOUNCE_MS = 300;
 
 class TemplateManager {
   private userTemplatesPath: string;
+  private watcher: FSWatcher | null = null;
+  private pendingChanges: Map<string, NodeJS.Timeout> = new Map();
   
   constructor() {
     this.userTemplatesPath = path.join(app.getPath('userData'), 'templates');
@@ -16,6 +21,34 @@ class TemplateManager {
     this.setupIPCHandlers();
   }
   
+  /**
+   * ユーザーテンプレートフォルダの監視を開始（変更はレンダラーへ通知してホットリロードする）
+   */
+  startWatching() {
+    if (this.watcher) return;
+    
+    try {
+      this.watcher = watch(this.userTemplatesPath, (eventType, fileName) => {
+        if (fileName && this.isRuntimeTemplateFile(fileName.toString())) {
+          this.scheduleChangeNotification(fileName.toString());
+        }
+      });
+      this.watcher.on('error', (error) => {
+        console.error('TemplateManager: Template folder watcher error:', error);
+      });
+      console.log('TemplateManager: Watching user templates:', this.userTemplatesPath);
+    } catch (error) {
+      console.error('TemplateManager: Failed to watch user templates:', error);
+    }
+  }
+  
+  stopWatching() {
+    this.watcher?.close();
+    this.watcher = null;
+    this.pendingChanges.forEach(timer => clearTimeout(timer));
+    this.pendingChanges.clear();
+  }
+  
   private setupIPCHandlers() {
     ipcMain.handle('template:scan-directory', async () => {
       try {
@@ -88,6 +121,15 @@ class TemplateManager {
       }
     });
     
+    ipcMain.handle('template:read-user-template', async (event, fileName: string) => {
+      try {
+        return await fs.readFile(this.resolveUserTemplatePath(fileName), 'utf-8');
+      } catch (error) {
+        console.error(`Error reading user template ${fileName}:`, error);
+        throw error;
+      }
+    });
+    
     ipcMain.handle('template:open-folder', async () => {
       try {
         await this.openTemplateFolder();
@@ -127,7 +169,44 @@ class TemplateManager {
   
   private isTemplateFile(fileName: string): boolean {
     const ext = path.extname(fileName).toLowerCase();
-    return ['.ts', '.js'].includes(ext);
+    return ['.ts', '.js', '.mjs', '.json'].includes(ext);
+  }
+  
+  // 実行時に読み込めるのはコンパイル済みのJSモジュールと宣言的テンプレート（JSON）のみ
+  private isRuntimeTemplateFile(fileName: string): boolean {
+    const ext = path.extname(fileName).toLowerCase();
+    return ['.js', '.mjs', '.json'].includes(ext);
+  }
+  
+  /**
+   * テンプレートフォルダ直下のファイルに限定してパスを解決する
+   */
+  private resolveUserTemplatePath(fileName: string): string {
+    const baseName = path.basename(fileName);
+    if (baseName !== fileName || !this.isRuntimeTemplateFile(baseName)) {
+      throw new Error(`Invalid user template file name: ${fileName}`);
+    }
+    return path.join(this.userTemplatesPath, baseName);
+  }
+  
+  private scheduleChangeNotification(fileName: string) {
+    const pending = this.pendingChanges.get(fileName);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    
+    this.pendingChanges.set(fileName, setTimeout(async () => {
+      this.pendingChanges.delete(fileName);
+      const change: UserTemplateChange = {
+        fileName,
+        removed: !(await this.fileExists(path.join(this.userTemplatesPath, fileName)))
+      };
+      BrowserWindow.getAllWindows().forEach(window => {
+        if (!window.isDestroyed()) {
+          window.webContents.send('template:user-template-changed', change);
+        }
+      });
+    }, WATCH_DEBOUNCE_MS));
   }
   
   private async fileExists(filePath: string): Promise<boolean> {
@@ -4,10 +4,12 @@ import NewLayout from './components/NewLayout';
 import Engine from './engine/Engine';
 import { getTemplateById } from './templates/registry/templateRegistry';
 import { FontService } from './services/FontService';
+import { UserTemplateService } from './services/UserTemplateService';
 import { initializeLogging } from '../config/logging';
 import testLyricsData from './data/longTestLyrics.json';
 import { ParameterProcessor } from './utils/ParameterProcessor';
 import { ParameterRegistry } from './utils/ParameterRegistry';
+import { HeadlessRenderClient, isHeadlessRenderMode } from './export/headless/HeadlessRenderClient';
 import './App.css';
 
 // Initialize logging configuration
@@ -66,6 +68,7 @@ function App() {
   const animationFrameRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
   const frameCountRef = useRef<number>(0);
+  const headlessRenderStartedRef = useRef(false);
   
   // Electron APIの状態を確認
   useEffect(() => {
@@ -381,6 +384,15 @@ function App() {
     }
   }, [selectedTemplate, engineReady]); // テンプレート変更時とエンジン準備完了時に実行
 
+  // ヘッドレスレンダリング（コマンドライン）モードではエンジン準備完了後にジョブを実行
+  useEffect(() => {
+    if (!engineReady || !engineRef.current || !isHeadlessRenderMode() || headlessRenderStartedRef.current) {
+      return;
+    }
+    headlessRenderStartedRef.current = true;
+    new HeadlessRenderClient(engineRef.current).run();
+  }, [engineReady]);
+
   // プロジェクトロード時のイベントリスナー
   useEffect(() => {
     const handleProjectLoaded = (event: CustomEvent) => {
@@ -459,6 +471,9 @@ function App() {
   // エンジン初期化
   const initEngine = async () => {
     try {
+      // userData/templates のユーザーテンプレートをレジストリに登録（プロジェクトが参照できるよう先に読み込む）
+      await UserTemplateService.initialize();
+      
       // テンプレートレジストリから動的にテンプレートを取得
       let template = getTemplateById(selectedTemplate);
       let actualTemplateId = selectedTemplate;
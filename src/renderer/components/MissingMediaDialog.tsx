@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import Engine from '../engine/Engine';
+import { MissingMediaManager, MISSING_MEDIA_EVENT } from '../services/MissingMediaManager';
+import { unifiedFileManager } from '../services/UnifiedFileManager';
+import type { MissingMediaReference, MediaRelinkCandidate } from '../../shared/types';
+import './MissingMediaDialog.css';
+
+interface MissingMediaDialogProps {
+  engine?: Engine;
+}
+
+type ItemStatus =
+  | { state: 'searching' }
+  | { state: 'ready' }
+  | { state: 'relinking' }
+  | { state: 'relinked'; path: string }
+  | { state: 'error'; message: string };
+
+const KIND_LABELS: Record<MissingMediaReference['kind'], string> = {
+  audio: '音楽',
+  backgroundImage: '背景画像',
+  backgroundVideo: '背景動画',
+  font: 'フォント'
+};
+
+const formatSize = (size: number) =>
+  size >= 1024 * 1024 ? `${(size / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(size / 1024))} KB`;
+
+// サイズまたは再生時間が一致する候補（ファイル名だけの一致より確かなもの）
+const isConfidentMatch = (candidate: MediaRelinkCandidate) =>
+  candidate.sizeMatches === true || candidate.durationMatches === true;
+
+/**
+ * 見つからない素材の再リンクダイアログ
+ * プロジェクト読み込み・自動保存からの復元で見つからなかった素材を一覧にし、
+ * 最近使用したファイルと周辺フォルダから探した候補をワンクリックで再リンクする
+ */
+const MissingMediaDialog: React.FC<MissingMediaDialogProps> = ({ engine }) => {
+  const [references, setReferences] = useState<MissingMediaReference[]>([]);
+  const [candidates, setCandidates] = useState<Record<string, MediaRelinkCandidate[]>>({});
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [statuses, setStatuses] = useState<Record<string, ItemStatus>>({});
+  const [searchDirs, setSearchDirs] = useState<string[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const manager = useMemo(() => (engine ? new MissingMediaManager(engine) : null), [engine]);
+
+  const setStatus = (id: string, status: ItemStatus) => {
+    setStatuses(prev => ({ ...prev, [id]: status }));
+  };
+
+  const search = useCallback(async (targets: MissingMediaReference[], dirs: string[]) => {
+    if (!manager || targets.length === 0) return;
+    targets.forEach(reference => setStatus(reference.id, { state: 'searching' }));
+
+    try {
+      const results = await manager.findCandidates(targets, dirs);
+      setCandidates(prev => {
+        const next = { ...prev };
+        results.forEach(result => { next[result.referenceId] = result.candidates; });
+        return next;
+      });
+      setSelected(prev => {
+        const next = { ...prev };
+        results.forEach(result => {
+          if (result.candidates.length > 0) next[result.referenceId] = result.candidates[0].path;
+        });
+        return next;
+      });
+      targets.forEach(reference => setStatus(reference.id, { state: 'ready' }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      targets.forEach(reference => setStatus(reference.id, { state: 'error', message }));
+    }
+  }, [manager]);
+
+  // 見つからない素材の通知を受けて一覧に追加し、候補を検索
+  useEffect(() => {
+    const handleMissingMedia = (event: CustomEvent) => {
+      const incoming: MissingMediaReference[] = event.detail?.references || [];
+      if (incoming.length === 0) return;
+
+      setReferences(prev => [
+        ...prev.filter(reference => !incoming.some(item => item.id === reference.id)),
+        ...incoming
+      ]);
+      setIsOpen(true);
+      search(incoming, searchDirs);
+    };
+
+    window.addEventListener(MISSING_MEDIA_EVENT, handleMissingMedia as EventListener);
+    return () => {
+      window.removeEventListener(MISSING_MEDIA_EVENT, handleMissingMedia as EventListener);
+    };
+  }, [search, searchDirs]);
+
+  const pending = references.filter(reference => statuses[reference.id]?.state !== 'relinked');
+
+  const relink = async (reference: MissingMediaReference, filePath: string) => {
+    if (!manager) return;
+    setStatus(reference.id, { state: 'relinking' });
+    try {
+      await manager.relink(reference, filePath);
+      setStatus(reference.id, { state: 'relinked', path: filePath });
+    } catch (error) {
+      console.error('MissingMediaDialog: 再リンクに失敗:', error);
+      setStatus(reference.id, { state: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  // サイズ・再生時間が一致する候補がある素材をまとめて再リンク
+  const handleRelinkAll = async () => {
+    for (const reference of pending) {
+      const best = candidates[reference.id]?.find(isConfidentMatch);
+      if (best) {
+        await relink(reference, best.path);
+      }
+    }
+  };
+
+  const handleSelectFile = async (reference: MissingMediaReference) => {
+    try {
+      const mediaInfo = reference.kind === 'audio'
+        ? await unifiedFileManager.selectAudioFile()
+        : await unifiedFileManager.selectVideoFile();
+      await relink(reference, mediaInfo.path);
+    } catch (error) {
+      // 選択のキャンセルは何もしない
+    }
+  };
+
+  const handleAddSearchDir = async () => {
+    try {
+      const dir = await unifiedFileManager.selectDirectory('素材を探すフォルダを選択');
+      const dirs = searchDirs.includes(dir) ? searchDirs : [...searchDirs, dir];
+      setSearchDirs(dirs);
+      await search(pending, dirs);
+    } catch (error) {
+      // 選択のキャンセルは何もしない
+    }
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    // 再リンク済みの素材は一覧から外す（未解決の素材は次の通知時にも残す）
+    setReferences(pending);
+  };
+
+  if (!isOpen || references.length === 0) return null;
+
+  const canRelinkAll = pending.some(reference => candidates[reference.id]?.some(isConfidentMatch));
+
+  return (
+    <div className="missing-media-overlay">
+      <div className="missing-media-dialog">
+        <div className="missing-media-header">
+          <h2>見つからない素材</h2>
+          <button className="missing-media-close" onClick={handleClose}>×</button>
+        </div>
+
+        <div className="missing-media-note">
+          最近使用したファイルと、プロジェクト・元のファイルの周辺フォルダから同じ名前のファイルを探しました。
+          再リンクした場所は次回の保存からプロジェクトに記録されます。
+        </div>
+
+        <div className="missing-media-list">
+          {references.map(reference => {
+            const status = statuses[reference.id] || { state: 'searching' };
+            const items = candidates[reference.id] || [];
+            const selectedPath = selected[reference.id];
+            const busy = status.state === 'searching' || status.state === 'relinking';
+
+            return (
+              <div key={reference.id} className={`missing-media-item ${status.state}`}>
+                <div className="missing-media-item-header">
+                  <span className="missing-media-kind">{KIND_LABELS[reference.kind]}</span>
+                  <span className="missing-media-name" title={reference.originalPath || reference.fileName}>
+                    {reference.font ? `${reference.font.family}（${reference.fileName}）` : reference.fileName}
+                  </span>
+                </div>
+                {reference.originalPath && (
+                  <div className="missing-media-path">元の場所: {reference.originalPath}</div>
+                )}
+
+                {status.state === 'relinked' ? (
+                  <div className="missing-media-result">✓ 再リンクしました: {status.path}</div>
+                ) : (
+                  <>
+                    {status.state === 'searching' && <div className="missing-media-path">検索中...</div>}
+                    {status.state === 'error' && <div className="missing-media-error">{status.message}</div>}
+                    {status.state !== 'searching' && items.length === 0 && (
+                      <div className="missing-media-path">候補が見つかりませんでした</div>
+                    )}
+                    <div className="missing-media-actions">
+                      {items.length > 0 && (
+                        <>
+                          <select
+                            value={selectedPath}
+                            onChange={(e) => setSelected(prev => ({ ...prev, [reference.id]: e.target.value }))}
+                            disabled={busy}
+                          >
+                            {items.map(candidate => (
+                              <option key={candidate.path} value={candidate.path}>
+                                {[
+                                  candidate.path,
+                                  formatSize(candidate.size),
+                                  candidate.sizeMatches ? 'サイズ一致' : '',
+                                  candidate.durationMatches ? '長さ一致' : '',
+                                  candidate.source === 'recent' ? '最近使用' : ''
+                                ].filter(Boolean).join(' / ')}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            className="missing-media-button primary"
+                            onClick={() => selectedPath && relink(reference, selectedPath)}
+                            disabled={busy || !selectedPath}
+                          >
+                            再リンク
+                          </button>
+                        </>
+                      )}
+                      {(reference.kind === 'audio' || reference.kind === 'backgroundVideo') && (
+                        <button
+                          className="missing-media-button"
+                          onClick={() => handleSelectFile(reference)}
+                          disabled={busy}
+                        >
+                          ファイルを選択
+                        </button>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="missing-media-footer">
+          <button className="missing-media-button" onClick={handleAddSearchDir} disabled={pending.length === 0}>
+            フォルダを指定して検索
+          </button>
+          <button className="missing-media-button primary" onClick={handleRelinkAll} disabled={!canRelinkAll}>
+            一致した素材をすべて再リンク
+          </button>
+          <button className="missing-media-button" onClick={handleClose}>
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MissingMediaDialog;
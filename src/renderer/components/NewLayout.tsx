@@ -14,6 +14,7 @@ import { IAnimationTemplate } from '../types/types';
 import { ViewportManager } from '../utils/ViewportManager';
 import { useAdaptiveThrottling } from '../hooks/useThrottledValue';
 import { AutoScrollDebugPanel } from './debug/AutoScrollDebugPanel';
+import MissingMediaDialog from './MissingMediaDialog';
 import '../styles/NewLayout.css';
 import '../styles/components.css';
 
@@ -324,6 +325,7 @@ const NewLayout: React.FC<NewLayoutProps> = ({
                 onPause={onPause}
                 onReset={onReset}
                 onSeek={onSeek}
+                engine={engine}
               />
             </div>
             <ZoomControls
@@ -358,6 +360,9 @@ const NewLayout: React.FC<NewLayoutProps> = ({
         {/* 時刻表示を一時的に非表示 */}
       </footer>
       
+      {/* 見つからない素材の再リンク（読み込み・復元時に見つからない素材があると表示） */}
+      <MissingMediaDialog engine={engine} />
+      
       {/* デバッグパネル（Ctrl+Shift+Dで表示切替） */}
       {showAutoScrollDebug && (
         <AutoScrollDebugPanel
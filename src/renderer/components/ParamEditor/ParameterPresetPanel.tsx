@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import './ParameterPresetPanel.css';
+import type Engine from '../../engine/Engine';
+import type { ParameterPreset } from '../../../shared/types';
+import type { TemplateId } from '../../types/TemplateParameters';
+import { ParameterPresetService } from '../../services/ParameterPresetService';
+import { ParameterRegistry } from '../../utils/ParameterRegistry';
+import { getAllTemplates } from '../../templates/registry/templateRegistry';
+
+interface ParameterPresetPanelProps {
+  engine: Engine;
+  templateId: string;                  // 保存時のテンプレートID
+  params: Record<string, any>;         // 保存元の現在値（グローバル or フレーズ）
+  paramConfig: Array<{ name: string; label?: string }>;
+  selectedObjectIds: string[];         // 適用先
+  onApplied?: (preset: ParameterPreset, phraseIds: string[]) => void;
+}
+
+/**
+ * パラメータプリセットの保存・適用・読み込み/書き出し
+ */
+const ParameterPresetPanel: React.FC<ParameterPresetPanelProps> = ({
+  engine,
+  templateId,
+  params,
+  paramConfig,
+  selectedObjectIds,
+  onApplied
+}) => {
+  const [presets, setPresets] = useState<ParameterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [showKeyPicker, setShowKeyPicker] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const templateNames = useMemo(() => {
+    const names = new Map<string, string>();
+    getAllTemplates().forEach(t => names.set(t.id, t.name));
+    return names;
+  }, []);
+
+  // ParameterRegistry に登録されたパラメータだけを保存対象にする
+  const savableKeys = useMemo(() => {
+    const registry = ParameterRegistry.getInstance();
+    return paramConfig
+      .map(config => config.name)
+      .filter(name => registry.isRegistered(name, templateId as TemplateId));
+  }, [paramConfig, templateId]);
+
+  // テンプレートが変わったら全パラメータを選択し直す
+  useEffect(() => {
+    setSelectedKeys(new Set(savableKeys));
+  }, [savableKeys]);
+
+  useEffect(() => {
+    ParameterPresetService.loadPresets()
+      .then(setPresets)
+      .catch(error => setMessage({ text: `プリセットの読み込みに失敗しました: ${error.message}`, isError: true }));
+  }, []);
+
+  const runAction = useCallback(async (action: () => Promise<string | null>) => {
+    try {
+      const text = await action();
+      if (text) {
+        setMessage({ text, isError: false });
+      }
+      setPresets(await ParameterPresetService.loadPresets());
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+    }
+  }, []);
+
+  const handleSave = () => runAction(async () => {
+    const name = presetName.trim();
+    if (!name) {
+      throw new Error('プリセット名を入力してください');
+    }
+    const preset = await ParameterPresetService.savePreset(name, templateId, params, Array.from(selectedKeys));
+    setPresetName('');
+    return `プリセット「${preset.name}」を保存しました（${Object.keys(preset.params).length}項目）`;
+  });
+
+  const handleApply = (preset: ParameterPreset) => runAction(async () => {
+    const applied = ParameterPresetService.applyToPhrases(engine, preset, selectedObjectIds);
+    if (applied.length === 0) {
+      throw new Error(`プリセット「${preset.name}」を適用できませんでした`);
+    }
+    onApplied?.(preset, applied);
+    return `プリセット「${preset.name}」を${applied.length}個のフレーズに適用しました`;
+  });
+
+  const handleDelete = (preset: ParameterPreset) => runAction(async () => {
+    if (!window.confirm(`プリセット「${preset.name}」を削除しますか？`)) {
+      return null;
+    }
+    await ParameterPresetService.deletePreset(preset.id);
+    return `プリセット「${preset.name}」を削除しました`;
+  });
+
+  const handleExport = (targets: ParameterPreset[]) => runAction(async () => {
+    const filePath = await ParameterPresetService.exportPresets(targets);
+    return filePath ? `プリセットを書き出しました: ${filePath}` : null;
+  });
+
+  const handleImport = () => runAction(async () => {
+    const result = await ParameterPresetService.importPresets();
+    if (!result) {
+      return null;
+    }
+    if (result.errors.length > 0) {
+      console.warn('[ParameterPresetPanel] 読み込めなかったプリセット:', result.errors);
+    }
+    if (result.imported.length === 0) {
+      throw new Error(`プリセットを読み込めませんでした\n${result.errors.join('\n')}`);
+    }
+    const skipped = result.errors.length > 0 ? `（無効な項目 ${result.errors.length}件を除外）` : '';
+    return `${result.imported.length}件のプリセットを読み込みました${skipped}`;
+  });
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const labelFor = (key: string) => paramConfig.find(config => config.name === key)?.label || key;
+
+  return (
+    <div className="parameter-preset-panel">
+      <h4>パラメータプリセット</h4>
+
+      <div className="preset-save-row">
+        <input
+          type="text"
+          className="preset-name-input"
+          placeholder="プリセット名"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button
+          className="reset-all-button"
+          onClick={handleSave}
+          disabled={selectedKeys.size === 0}
+          title="現在のパラメータから選択した項目をプリセットとして保存します"
+        >
+          保存
+        </button>
+      </div>
+
+      <button className="preset-link-button" onClick={() => setShowKeyPicker(prev => !prev)}>
+        保存する項目: {selectedKeys.size} / {savableKeys.length} {showKeyPicker ? '▲' : '▼'}
+      </button>
+
+      {showKeyPicker && (
+        <div className="preset-key-picker">
+          <div className="preset-key-actions">
+            <button className="preset-link-button" onClick={() => setSelectedKeys(new Set(savableKeys))}>全選択</button>
+            <button className="preset-link-button" onClick={() => setSelectedKeys(new Set())}>全解除</button>
+          </div>
+          {savableKeys.map(key => (
+            <label key={key} className="preset-key-item">
+              <input type="checkbox" checked={selectedKeys.has(key)} onChange={() => toggleKey(key)} />
+              {labelFor(key)}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="preset-list">
+        {presets.length === 0 && <div className="preset-empty">保存されたプリセットはありません</div>}
+        {presets.map(preset => (
+          <div key={preset.id} className="preset-item">
+            <div className="preset-info">
+              <span className="preset-name">{preset.name}</span>
+              <span className="preset-meta">
+                {templateNames.get(preset.templateId) || preset.templateId} / {Object.keys(preset.params).length}項目
+              </span>
+            </div>
+            <div className="preset-item-actions">
+              <button
+                className="reset-all-button"
+                onClick={() => handleApply(preset)}
+                disabled={selectedObjectIds.length === 0}
+                title={selectedObjectIds.length === 0 ? 'フレーズを選択してください' : '選択中のフレーズに適用します'}
+              >
+                適用
+              </button>
+              <button className="reset-all-button" onClick={() => handleExport([preset])}>書き出し</button>
+              <button className="reset-all-button" onClick={() => handleDelete(preset)}>削除</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="param-actions">
+        <button className="reset-all-button" onClick={handleImport}>JSONから読み込み</button>
+        <button className="reset-all-button" onClick={() => handleExport(presets)} disabled={presets.length === 0}>
+          すべて書き出し
+        </button>
+      </div>
+
+      {message && (
+        <div className={`preset-message ${message.isError ? 'error' : ''}`}>{message.text}</div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterPresetPanel;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Engine from '../engine/Engine';
+import { PlainTextImporter, PlainTextImportResult } from '../utils/lyrics/PlainTextImporter';
+import { TimingDistributor, TimingStrategy, TIMING_STRATEGY_LABELS } from '../utils/lyrics/TimingDistributor';
+import './PlainTextImportDialog.css';
+
+interface PlainTextImportDialogProps {
+  isOpen: boolean;
+  engine?: Engine;
+  initialText?: string;          // .txt ファイルから開いた場合の内容
+  sourceName?: string;           // 読み込み元の表示名
+  segmentWords: boolean;
+  onSegmentWordsChange: (segmentWords: boolean) => void;
+  onImport: (result: PlainTextImportResult, sourceName: string) => void;
+  onClose: () => void;
+}
+
+// 既存のタイミングがないため、比率維持は選べない
+const IMPORT_STRATEGIES: TimingStrategy[] = ['equal', 'mora'];
+
+const toSeconds = (ms: number) => (ms / 1000).toFixed(2);
+
+/**
+ * プレーンテキスト歌詞の読み込みダイアログ
+ * 貼り付け・.txt ファイルのテキストを1行1フレーズに変換し、音楽の長さ（または指定した範囲）にタイミングを割り振る
+ */
+const PlainTextImportDialog: React.FC<PlainTextImportDialogProps> = ({
+  isOpen,
+  engine,
+  initialText,
+  sourceName,
+  segmentWords,
+  onSegmentWordsChange,
+  onImport,
+  onClose
+}) => {
+  const [text, setText] = useState('');
+  const [startSeconds, setStartSeconds] = useState('0.00');
+  const [endSeconds, setEndSeconds] = useState('0.00');
+  const [strategy, setStrategy] = useState<TimingStrategy>('equal');
+
+  // 開くたびに内容と時間範囲を初期化（終了は音楽の長さ、音楽がなければタイムラインの長さ）
+  useEffect(() => {
+    if (!isOpen) return;
+    setText(initialText || '');
+    setStartSeconds(toSeconds(0));
+    setEndSeconds(toSeconds(engine ? engine.getMusicDuration() || engine.getMaxTime() : 0));
+    setStrategy(TimingDistributor.getPreferredStrategy() === 'mora' ? 'mora' : 'equal');
+  }, [isOpen, initialText, engine]);
+
+  const start = parseFloat(startSeconds) * 1000;
+  const end = parseFloat(endSeconds) * 1000;
+  const rangeError = !Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start
+    ? '終了時刻は開始時刻より後にしてください'
+    : null;
+
+  // 入力中のプレビュー（フレーズ数とセクション）
+  const preview = useMemo(() => {
+    if (!isOpen || rangeError || text.trim() === '') return null;
+    try {
+      return PlainTextImporter.parse(text, { start, end, segmentWords, strategy });
+    } catch (error) {
+      return null;
+    }
+  }, [isOpen, text, start, end, segmentWords, strategy, rangeError]);
+
+  if (!isOpen) return null;
+
+  const handleImport = () => {
+    if (!preview) return;
+    onImport(preview, sourceName || '貼り付けたテキスト');
+  };
+
+  return (
+    <div className="plain-text-import-overlay">
+      <div className="plain-text-import-dialog">
+        <div className="plain-text-import-header">
+          <h2>テキストから歌詞を作成{sourceName ? `（${sourceName}）` : ''}</h2>
+          <button className="plain-text-import-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="plain-text-import-note">
+          1行が1フレーズになります。空行でセクションを区切り、[Verse] や [Chorus] だけの行はセクション名として記録します。
+          「漢字{'{'}かんじ{'}'}」の記法でルビも付けられます。
+        </div>
+
+        <div className="plain-text-import-body">
+          <textarea
+            className="plain-text-import-textarea"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'[Verse]\n歌詞の1行目\n歌詞の2行目\n\n[Chorus]\n...'}
+            autoFocus
+          />
+
+          <div className="plain-text-import-options">
+            <label>
+              開始（秒）
+              <input type="number" min="0" step="0.1" value={startSeconds} onChange={(e) => setStartSeconds(e.target.value)} />
+            </label>
+            <label>
+              終了（秒）
+              <input type="number" min="0" step="0.1" value={endSeconds} onChange={(e) => setEndSeconds(e.target.value)} />
+            </label>
+            <label>
+              文字配分
+              <select value={strategy} onChange={(e) => setStrategy(e.target.value as TimingStrategy)}>
+                {IMPORT_STRATEGIES.map(key => (
+                  <option key={key} value={key}>{TIMING_STRATEGY_LABELS[key]}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <input type="checkbox" checked={segmentWords} onChange={(e) => onSegmentWordsChange(e.target.checked)} />
+              日本語を文節ごとの単語に分割
+            </label>
+          </div>
+
+          <div className={`plain-text-import-summary ${rangeError ? 'error' : ''}`}>
+            {rangeError
+              ? rangeError
+              : preview
+                ? `${preview.phrases.length} フレーズ / ${preview.sections.length} セクション` +
+                  (preview.sections.some(section => section.label)
+                    ? `（${preview.sections.map(section => section.label || '-').join(', ')}）`
+                    : '')
+                : '歌詞を入力してください'}
+          </div>
+        </div>
+
+        <div className="plain-text-import-footer">
+          <button className="plain-text-import-button" onClick={onClose}>
+            キャンセル
+          </button>
+          <button className="plain-text-import-button primary" onClick={handleImport} disabled={!preview}>
+            歌詞を置き換える
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlainTextImportDialog;
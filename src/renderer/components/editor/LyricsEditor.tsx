@@ -3,8 +3,15 @@ import Engine from '../../engine/Engine';
 import { PhraseUnit, WordUnit, CharUnit } from '../../types/types';
 import { ProjectFileManager } from '../../services/ProjectFileManager';
 import { calculateCharacterIndices } from '../../utils/characterIndexCalculator';
+import { RubyUtils } from '../../utils/RubyUtils';
+import { LyricsStructureEditor, LyricsStructureEdit, WordMoveDirection } from '../../utils/lyrics/LyricsStructureEditor';
+import { TimingDistributor, TimingStrategy } from '../../utils/lyrics/TimingDistributor';
 import { Button } from '../common';
 import WordSplitEditor from './WordSplitEditor';
+import RubyText from './RubyText';
+import TapTimingPanel from './TapTimingPanel';
+import OnsetAlignmentPanel from './OnsetAlignmentPanel';
+import TimingStrategySelect from './TimingStrategySelect';
 import './LyricsEditor.css';
 
 interface LyricsEditorProps {
@@ -24,6 +31,10 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
   const [editValue, setEditValue] = useState<string>('');
   const [saveStatus, setSaveStatus] = useState<string>('');
   const [wordSplitModalPhrase, setWordSplitModalPhrase] = useState<PhraseUnit | null>(null);
+  const [showTapTiming, setShowTapTiming] = useState(false);
+  const [showOnsetAlignment, setShowOnsetAlignment] = useState(false);
+  const [structurePhraseId, setStructurePhraseId] = useState<string | null>(null);
+  const [timingStrategy, setTimingStrategy] = useState<TimingStrategy>(() => TimingDistributor.getPreferredStrategy());
   const editInputRef = useRef<HTMLInputElement>(null);
   const projectFileManager = useRef<ProjectFileManager>(new ProjectFileManager(engine));
 
@@ -68,8 +79,7 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
     const updatedLyrics = lyrics.map(phrase => {
       if (phrase.id === editingCell.phraseId) {
         if (editingCell.field === 'phrase') {
-          // フレーズテキストの変更 - 文字タイミングを自動調整
-          return updatePhraseText(phrase, editValue);
+          return updatePhraseTextWithRuby(phrase, editValue);
         } else if (editingCell.field === 'start') {
           // 開始時刻の変更（秒単位からms単位に変換）
           const newStart = parseTimeFromSeconds(editValue);
@@ -95,98 +105,58 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
     setEditingCell(null);
   };
 
-  // フレーズテキスト更新と文字タイミング自動調整
+  // フレーズテキスト更新と文字タイミング自動調整（選択中の配分方法を使用）
   const updatePhraseText = (phrase: PhraseUnit, newText: string): PhraseUnit => {
     const newWords = splitIntoWords(newText);
-    const totalDuration = phrase.end - phrase.start;
     
     // 新しい文字数の合計を計算
-    const totalChars = newWords.reduce((sum, word) => sum + word.length, 0);
+    const totalChars = newWords.reduce((sum, word) => sum + Array.from(word).length, 0);
     if (totalChars === 0) {
       console.warn('LyricsEditor: 文字数が0のため、元のフレーズを返します');
       return phrase;
     }
 
-    // 文字あたりの時間を計算
-    const timePerChar = totalDuration / totalChars;
-    
-    let currentTime = phrase.start;
-    let wordIndex = 0;
-    
-    const newWordUnits: WordUnit[] = newWords.map((word, wIdx) => {
-      const wordStart = currentTime;
-      const wordChars = Array.from(word);
-      const wordDuration = wordChars.length * timePerChar;
-      const wordEnd = Math.min(wordStart + wordDuration, phrase.end);
-      
-      const charUnits: CharUnit[] = wordChars.map((char, cIdx) => {
-        const charStart = wordStart + (cIdx * timePerChar);
-        const charEnd = Math.min(charStart + timePerChar, wordEnd);
-        
-        return {
-          id: `${phrase.id}_word_${wIdx}_char_${cIdx}`,
-          char: char,
-          start: Math.round(charStart),
-          end: Math.round(charEnd)
-        };
-      });
-      
-      currentTime = wordEnd;
-      
-      return {
-        id: `${phrase.id}_word_${wIdx}`,
-        word: word,
-        start: Math.round(wordStart),
-        end: Math.round(wordEnd),
-        chars: charUnits
-      };
-    });
+    const newWordUnits: WordUnit[] = newWords.map((word, wIdx) => ({
+      id: `${phrase.id}_word_${wIdx}`,
+      word: word,
+      start: phrase.start,
+      end: phrase.end,
+      chars: Array.from(word).map((char, cIdx): CharUnit => ({
+        id: `${phrase.id}_word_${wIdx}_char_${cIdx}`,
+        char: char,
+        start: phrase.start,
+        end: phrase.end
+      }))
+    }));
+
+    return TimingDistributor.retimePhrase(
+      { ...phrase, phrase: newText, words: newWordUnits },
+      phrase.start,
+      phrase.end,
+      timingStrategy,
+      phrase
+    );
+  };
 
-    const updatedPhrase = {
-      ...phrase,
-      phrase: newText,
-      words: newWordUnits
-    };
-    
-    return updatedPhrase;
+  // ルビ記法（漢字{かんじ}）を含むテキストの反映
+  // テキストが変わらずルビだけ変更した場合は文字タイミングを保持する
+  const updatePhraseTextWithRuby = (phrase: PhraseUnit, markup: string): PhraseUnit => {
+    const { text, ruby } = RubyUtils.parse(markup);
+    if (text === phrase.phrase) {
+      return { ...phrase, words: RubyUtils.assignToWords(text, ruby, phrase.words) };
+    }
+
+    // フレーズテキストの変更 - 文字タイミングを自動調整
+    const updatedPhrase = updatePhraseText(phrase, text);
+    if (updatedPhrase === phrase) {
+      return phrase;
+    }
+    return { ...updatedPhrase, words: RubyUtils.assignToWords(text, ruby, updatedPhrase.words) };
   };
 
   // タイミング調整（開始・終了時刻変更時）
   const adjustPhraseTiming = (phrase: PhraseUnit, newStart: number, newEnd: number): PhraseUnit => {
-    const oldDuration = phrase.end - phrase.start;
-    const newDuration = newEnd - newStart;
-    const ratio = newDuration / oldDuration;
-
-    const adjustedWords = phrase.words.map(word => {
-      const wordRelativeStart = word.start - phrase.start;
-      const wordRelativeEnd = word.end - phrase.start;
-      const newWordStart = newStart + (wordRelativeStart * ratio);
-      const newWordEnd = newStart + (wordRelativeEnd * ratio);
-
-      const adjustedChars = word.chars.map(char => {
-        const charRelativeStart = char.start - phrase.start;
-        const charRelativeEnd = char.end - phrase.start;
-        return {
-          ...char,
-          start: Math.round(newStart + (charRelativeStart * ratio)),
-          end: Math.round(newStart + (charRelativeEnd * ratio))
-        };
-      });
-
-      return {
-        ...word,
-        start: Math.round(newWordStart),
-        end: Math.round(newWordEnd),
-        chars: adjustedChars
-      };
-    });
-
-    return {
-      ...phrase,
-      start: newStart,
-      end: newEnd,
-      words: adjustedWords
-    };
+    return TimingDistributor.retimePhrase(phrase, newStart, newEnd, timingStrategy);
   };
 
   // テキストを単語に分割
@@ -225,12 +195,18 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
     }
   };
 
+  // 構造編集を反映（パラメータ・テンプレート割り当ても新しいIDに移動し、1回のUndo単位になる）
+  const applyStructureEdit = (edit: LyricsStructureEdit | null, changeType: string) => {
+    if (!edit) return;
+    engine.applyLyricsStructureEdit(edit, changeType);
+  };
+
   // フレーズの削除
   const deletePhrase = (phraseId: string) => {
-    const updatedLyrics = lyrics.filter(phrase => phrase.id !== phraseId);
-    // 文字インデックスを再計算
-    const lyricsWithIndices = calculateCharacterIndices(updatedLyrics);
-    engine.updateLyricsData(lyricsWithIndices);
+    applyStructureEdit(LyricsStructureEditor.deletePhrases(lyrics, [phraseId]), 'フレーズ削除');
+    if (structurePhraseId === phraseId) {
+      setStructurePhraseId(null);
+    }
   };
 
   // 上に行を挿入
@@ -238,43 +214,39 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
     const currentIndex = lyrics.findIndex(phrase => phrase.id === currentPhraseId);
     if (currentIndex === -1) return;
 
+    // 前の行の終了時刻（先頭の行の場合は0）から現在の行の開始時刻まで
     const currentPhrase = lyrics[currentIndex];
-    let newStart: number;
-    let newEnd: number;
+    const previousIndex = LyricsStructureEditor.findAdjacentPhraseIndex(lyrics, currentPhraseId, 'previous');
+    const newStart = previousIndex === -1 ? 0 : Math.min(lyrics[previousIndex].end, currentPhrase.start);
+
+    applyStructureEdit(LyricsStructureEditor.insertPhrase(lyrics, newStart, {
+      end: currentPhrase.start,
+      // 挿入位置の行と同じ歌詞トラックに所属させる
+      trackId: currentPhrase.trackId,
+      strategy: timingStrategy
+    }), 'フレーズ挿入');
+  };
 
-    if (currentIndex === 0) {
-      // 先頭の行の場合: 0からcurrentPhraseの開始時刻まで
-      newStart = 0;
-      newEnd = currentPhrase.start;
-    } else {
-      // それ以外: 前の行の終了時刻からcurrentPhraseの開始時刻まで
-      const previousPhrase = lyrics[currentIndex - 1];
-      newStart = previousPhrase.end;
-      newEnd = currentPhrase.start;
-    }
+  // 再生位置に行を挿入
+  const insertAtPlayhead = () => {
+    applyStructureEdit(LyricsStructureEditor.insertPhrase(lyrics, engine.currentTime, {
+      strategy: timingStrategy
+    }), 'フレーズ挿入');
+  };
 
-    // 新しいフレーズを作成
-    const newPhrase: PhraseUnit = {
-      id: `phrase_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      phrase: '新しい歌詞',
-      start: newStart,
-      end: newEnd,
-      words: []
-    };
-
-    // 新しいフレーズのテキストと文字タイミングを設定
-    const updatedNewPhrase = updatePhraseText(newPhrase, '新しい歌詞');
-
-    // 歌詞配列に挿入
-    const updatedLyrics = [
-      ...lyrics.slice(0, currentIndex),
-      updatedNewPhrase,
-      ...lyrics.slice(currentIndex)
-    ];
+  // 指定した文字の直前でフレーズを分割
+  const splitPhraseAt = (phraseId: string, charId: string) => {
+    applyStructureEdit(LyricsStructureEditor.splitPhrase(lyrics, phraseId, charId), 'フレーズ分割');
+  };
 
-    // 文字インデックスを再計算
-    const lyricsWithIndices = calculateCharacterIndices(updatedLyrics);
-    engine.updateLyricsData(lyricsWithIndices);
+  // 単語を次の単語と結合
+  const mergeWordWithNext = (phraseId: string, wordId: string) => {
+    applyStructureEdit(LyricsStructureEditor.mergeWords(lyrics, phraseId, wordId), '単語結合');
+  };
+
+  // 単語を前後のフレーズへ移動
+  const moveWord = (phraseId: string, wordId: string, direction: WordMoveDirection) => {
+    applyStructureEdit(LyricsStructureEditor.moveWord(lyrics, phraseId, wordId, direction), '単語移動');
   };
 
   // プロジェクトの保存
@@ -323,36 +295,10 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
 
   // 上の行とマージ
   const mergeWithPreviousPhrase = (currentPhraseId: string) => {
-    const currentIndex = lyrics.findIndex(phrase => phrase.id === currentPhraseId);
-    if (currentIndex <= 0) return; // 最初の行はマージできない
-
-    const currentPhrase = lyrics[currentIndex];
-    const previousPhrase = lyrics[currentIndex - 1];
-
-    // テキストを結合（スペースで区切る）
-    const mergedText = previousPhrase.phrase + ' ' + currentPhrase.phrase;
-
-    // マージ先フレーズの時間範囲を拡張し、テキストを更新
-    const mergedPhrase: PhraseUnit = {
-      ...previousPhrase,
-      phrase: mergedText,
-      start: previousPhrase.start,
-      end: currentPhrase.end, // 終了時刻を現在の行まで拡張
-      words: [] // 新しいテキストで再構築されるため空にする
-    };
-
-    // 新しいテキストで単語・文字構造を再構築
-    const updatedMergedPhrase = updatePhraseText(mergedPhrase, mergedText);
+    const previousIndex = LyricsStructureEditor.findAdjacentPhraseIndex(lyrics, currentPhraseId, 'previous');
+    if (previousIndex === -1) return; // トラックの最初の行はマージできない
 
-    // 歌詞配列を更新（現在の行を削除し、前の行を更新）
-    const updatedLyrics = lyrics.filter((_, index) => index !== currentIndex)
-                                 .map(phrase => 
-                                   phrase.id === previousPhrase.id ? updatedMergedPhrase : phrase
-                                 );
-
-    // 文字インデックスを再計算
-    const lyricsWithIndices = calculateCharacterIndices(updatedLyrics);
-    engine.updateLyricsData(lyricsWithIndices);
+    applyStructureEdit(LyricsStructureEditor.mergePhrases(lyrics, lyrics[previousIndex].id), 'フレーズ結合');
   };
 
   // 時間フォーマット（秒単位で表示、1ms精度）
@@ -491,6 +437,28 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
           <Button variant="primary" onClick={handleSave}>
             プロジェクトを保存
           </Button>
+          <Button
+            variant={showTapTiming ? 'info' : 'secondary'}
+            onClick={() => setShowTapTiming(prev => !prev)}
+            title="再生しながらキー入力でタイミングを打刻します"
+          >
+            タップ入力
+          </Button>
+          <Button
+            variant={showOnsetAlignment ? 'info' : 'secondary'}
+            onClick={() => setShowOnsetAlignment(prev => !prev)}
+            title="音声の立ち上がりに文字の開始時刻を合わせます"
+          >
+            自動タイミング
+          </Button>
+          <TimingStrategySelect value={timingStrategy} onChange={setTimingStrategy} />
+          <Button
+            variant="success"
+            onClick={insertAtPlayhead}
+            title="現在の再生位置から始まる行を挿入します"
+          >
+            再生位置に挿入
+          </Button>
           <Button 
             variant="warning" 
             onClick={reinitializeIds}
@@ -518,6 +486,9 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
         </div>
       </div>
 
+      {showTapTiming && <TapTimingPanel engine={engine} />}
+      {showOnsetAlignment && <OnsetAlignmentPanel engine={engine} />}
+
       <div className="lyrics-editor-content">
         <table className="lyrics-table">
           <thead>
@@ -529,11 +500,12 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
             </tr>
           </thead>
           <tbody>
-            {lyrics.map((phrase, index) => (
-              <tr key={phrase.id}>
+            {lyrics.map(phrase => (
+              <React.Fragment key={phrase.id}>
+              <tr>
                 <td 
                   className="editable-cell"
-                  onClick={() => startEdit(phrase.id, 'phrase', phrase.phrase)}
+                  onClick={() => startEdit(phrase.id, 'phrase', RubyUtils.formatPhrase(phrase))}
                 >
                   {editingCell?.phraseId === phrase.id && editingCell.field === 'phrase' ? (
                     <input
@@ -544,9 +516,10 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
                       onBlur={confirmEdit}
                       onKeyDown={handleKeyDown}
                       className="edit-input"
+                      title="ルビは 漢字{かんじ} の形式で入力できます（親文字の範囲は ｜ で指定）"
                     />
                   ) : (
-                    phrase.phrase
+                    <RubyText text={phrase.phrase} ruby={RubyUtils.getPhraseRuby(phrase)} />
                   )}
                 </td>
                 <td 
@@ -594,7 +567,7 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
                   >
                     単語分割
                   </Button>
-                  {index > 0 && (
+                  {LyricsStructureEditor.findAdjacentPhraseIndex(lyrics, phrase.id, 'previous') !== -1 && (
                     <Button 
                       variant="info"
                       size="small"
@@ -612,6 +585,14 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
                   >
                     ↑挿入
                   </Button>
+                  <Button
+                    variant={structurePhraseId === phrase.id ? 'info' : 'secondary'}
+                    size="small"
+                    onClick={() => setStructurePhraseId(structurePhraseId === phrase.id ? null : phrase.id)}
+                    title="フレーズの分割・単語の結合と移動"
+                  >
+                    構造
+                  </Button>
                   <Button 
                     variant="danger"
                     size="small"
@@ -622,6 +603,57 @@ const LyricsEditor: React.FC<LyricsEditorProps> = ({ engine, onClose }) => {
                   </Button>
                 </td>
               </tr>
+              {structurePhraseId === phrase.id && (
+                <tr className="structure-row">
+                  <td colSpan={4}>
+                    <div className="structure-hint">
+                      文字をクリックするとその文字の直前でフレーズを分割します（分割位置はその文字の開始時刻）
+                    </div>
+                    <div className="structure-words">
+                      {phrase.words.map((word, wordIndex) => {
+                        const isFirst = wordIndex === 0;
+                        const isLast = wordIndex === phrase.words.length - 1;
+                        const canMove = phrase.words.length > 1;
+                        return (
+                          <div key={word.id} className="structure-word">
+                            <div className="structure-chars">
+                              {word.chars.map((char, charIndex) => (
+                                <button
+                                  key={char.id}
+                                  className="structure-char"
+                                  disabled={isFirst && charIndex === 0}
+                                  onClick={() => splitPhraseAt(phrase.id, char.id)}
+                                  title={`${formatTime(char.start)}秒 で分割`}
+                                >
+                                  {char.char}
+                                </button>
+                              ))}
+                            </div>
+                            <div className="structure-word-actions">
+                              {isFirst && canMove && LyricsStructureEditor.findAdjacentPhraseIndex(lyrics, phrase.id, 'previous') !== -1 && (
+                                <Button variant="secondary" size="small" onClick={() => moveWord(phrase.id, word.id, 'previous')} title="前のフレーズの末尾へ移動">
+                                  ↑前へ
+                                </Button>
+                              )}
+                              {!isLast && (
+                                <Button variant="info" size="small" onClick={() => mergeWordWithNext(phrase.id, word.id)} title="次の単語と結合">
+                                  結合→
+                                </Button>
+                              )}
+                              {isLast && canMove && LyricsStructureEditor.findAdjacentPhraseIndex(lyrics, phrase.id, 'next') !== -1 && (
+                                <Button variant="secondary" size="small" onClick={() => moveWord(phrase.id, word.id, 'next')} title="次のフレーズの先頭へ移動">
+                                  ↓次へ
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </td>
+                </tr>
+              )}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
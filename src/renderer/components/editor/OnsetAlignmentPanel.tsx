@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Engine from '../../engine/Engine';
+import { PhraseUnit } from '../../types/types';
+import { AudioAnalyzer, OnsetDetectionSettings, OnsetMarker } from '../../services/AudioAnalyzer';
+import { OnsetAligner, OnsetAlignmentProposal } from '../../utils/lyrics/OnsetAligner';
+import { Button } from '../common';
+import './OnsetAlignmentPanel.css';
+
+interface OnsetAlignmentPanelProps {
+  engine: Engine;
+}
+
+/**
+ * 音声オンセットによる文字タイミングの自動調整パネル
+ * 解析 → フレーズごとの調整案を確認・プレビュー → 選択したものを適用（1回のUndo単位）
+ */
+const OnsetAlignmentPanel: React.FC<OnsetAlignmentPanelProps> = ({ engine }) => {
+  const [settings, setSettings] = useState<OnsetDetectionSettings>(() => AudioAnalyzer.getDefaultOnsetSettings());
+  const [onlyEvenlySpread, setOnlyEvenlySpread] = useState(true);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [proposals, setProposals] = useState<OnsetAlignmentProposal[]>([]);
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  // 同じ設定での再解析を避けるためのキャッシュ
+  const onsetCacheRef = useRef<{ key: string; onsets: OnsetMarker[] } | null>(null);
+  // プレビュー前の歌詞データ（プレビュー中のみ）
+  const previewBaseRef = useRef<PhraseUnit[] | null>(null);
+
+  useEffect(() => {
+    analyzerRef.current = new AudioAnalyzer();
+    return () => {
+      analyzerRef.current?.dispose();
+      analyzerRef.current = null;
+      // 確定せずに閉じた場合はプレビューを取り消す
+      if (previewBaseRef.current) {
+        engine.updateLyricsData(previewBaseRef.current, false);
+        previewBaseRef.current = null;
+      }
+    };
+  }, []);
+
+  const updateSetting = <K extends keyof OnsetDetectionSettings>(key: K, value: OnsetDetectionSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleAnalyze = async () => {
+    revertPreview();
+    const audioElement = engine.getCurrentAudioElement();
+    if (!audioElement || !analyzerRef.current) {
+      setMessage('音楽ファイルが読み込まれていません');
+      return;
+    }
+
+    setIsAnalyzing(true);
+    setMessage('音声を解析しています...');
+    try {
+      const cacheKey = `${audioElement.src}|${JSON.stringify(settings)}`;
+      let onsets = onsetCacheRef.current?.key === cacheKey ? onsetCacheRef.current.onsets : null;
+      if (!onsets) {
+        onsets = await analyzerRef.current.detectOnsets(audioElement, settings);
+        if (!onsets) {
+          setMessage('音声の解析に失敗しました');
+          return;
+        }
+        onsetCacheRef.current = { key: cacheKey, onsets };
+      }
+
+      // オンセットは音楽ファイル上の時刻のため、音楽オフセットを差し引いて歌詞の時刻に合わせる
+      const audioOffset = engine.getAudioOffset();
+      const lyricOnsets = onsets.map(onset => ({ ...onset, timestamp: onset.timestamp - audioOffset }));
+      const { lyrics } = engine.getTimelineData();
+      const result = OnsetAligner.propose(lyrics, lyricOnsets, { onlyEvenlySpread });
+      setProposals(result);
+      setAcceptedIds(new Set(result.map(proposal => proposal.phraseId)));
+      setMessage(`オンセット ${onsets.length}個を検出、${result.length}フレーズの調整案を作成しました`);
+    } catch (error) {
+      console.error('OnsetAlignmentPanel: 解析エラー:', error);
+      setMessage(`解析エラー: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const toggleAccepted = (phraseId: string) => {
+    revertPreview();
+    setAcceptedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(phraseId)) {
+        next.delete(phraseId);
+      } else {
+        next.add(phraseId);
+      }
+      return next;
+    });
+  };
+
+  // 調整案の区間を再生して確認
+  const previewPhrase = (proposal: OnsetAlignmentProposal) => {
+    engine.pause();
+    engine.seek(proposal.aligned.start);
+    engine.play();
+  };
+
+  const getAcceptedProposals = () => proposals.filter(proposal => acceptedIds.has(proposal.phraseId));
+
+  // 選択した調整案を履歴に残さずに反映（タイムラインと一覧で確認）
+  const startPreview = () => {
+    const accepted = getAcceptedProposals();
+    if (accepted.length === 0) return;
+
+    const { lyrics } = engine.getTimelineData();
+    previewBaseRef.current = JSON.parse(JSON.stringify(lyrics));
+    engine.updateLyricsData(OnsetAligner.apply(lyrics, accepted), false);
+    setIsPreviewing(true);
+  };
+
+  function revertPreview() {
+    if (!previewBaseRef.current) return;
+    engine.updateLyricsData(previewBaseRef.current, false);
+    previewBaseRef.current = null;
+    setIsPreviewing(false);
+  }
+
+  const handleApply = () => {
+    const accepted = getAcceptedProposals();
+    if (accepted.length === 0) return;
+
+    // プレビュー前の状態に戻してから、Undo可能な変更として適用
+    revertPreview();
+    const { lyrics } = engine.getTimelineData();
+    engine.updateLyricsData(OnsetAligner.apply(lyrics, accepted), true, '自動タイミング調整');
+    setProposals([]);
+    setMessage(`${accepted.length}フレーズに適用しました`);
+  };
+
+  const handleDiscard = () => {
+    revertPreview();
+    setProposals([]);
+  };
+
+  return (
+    <div className="onset-alignment-panel">
+      <div className="onset-alignment-controls">
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.useVocalBand}
+            onChange={e => updateSetting('useVocalBand', e.target.checked)}
+          />
+          ボーカル帯域に限定
+        </label>
+        <label>
+          帯域
+          <input
+            type="number"
+            value={settings.lowFreqCutoff}
+            min={20}
+            max={settings.highFreqCutoff}
+            disabled={!settings.useVocalBand}
+            onChange={e => updateSetting('lowFreqCutoff', parseInt(e.target.value, 10) || 0)}
+          />
+          〜
+          <input
+            type="number"
+            value={settings.highFreqCutoff}
+            min={settings.lowFreqCutoff}
+            max={20000}
+            disabled={!settings.useVocalBand}
+            onChange={e => updateSetting('highFreqCutoff', parseInt(e.target.value, 10) || 0)}
+          />
+          Hz
+        </label>
+        <label>
+          閾値
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={settings.threshold}
+            onChange={e => updateSetting('threshold', parseFloat(e.target.value))}
+          />
+          {settings.threshold.toFixed(1)}
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={onlyEvenlySpread}
+            onChange={e => setOnlyEvenlySpread(e.target.checked)}
+          />
+          未調整（均等配置）のフレーズのみ
+        </label>
+        <Button variant="primary" size="small" onClick={handleAnalyze} disabled={isAnalyzing}>
+          {isAnalyzing ? '解析中...' : '解析して調整案を作成'}
+        </Button>
+        {message && <span className="onset-alignment-message">{message}</span>}
+      </div>
+
+      {proposals.length > 0 && (
+        <>
+          <div className="onset-alignment-proposals">
+            {proposals.map(proposal => (
+              <div key={proposal.phraseId} className="onset-alignment-proposal">
+                <div className="onset-alignment-proposal-header">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={acceptedIds.has(proposal.phraseId)}
+                      onChange={() => toggleAccepted(proposal.phraseId)}
+                    />
+                    <span className="onset-alignment-phrase">{proposal.phraseText}</span>
+                  </label>
+                  <span className="onset-alignment-stats">
+                    {proposal.matchedCount}/{proposal.charCount}文字一致・平均 {proposal.averageShiftMs}ms 移動
+                  </span>
+                  <Button size="small" onClick={() => previewPhrase(proposal)}>再生</Button>
+                </div>
+                <div className="onset-alignment-chars">
+                  {proposal.aligned.words.flatMap(word => word.chars).map((char, index, chars) => {
+                    const originalChar = proposal.original.words.flatMap(word => word.chars)[index] ?? chars[index];
+                    return (
+                      <span
+                        key={char.id}
+                        className="onset-alignment-char"
+                        title={`${(originalChar.start / 1000).toFixed(3)}s → ${(char.start / 1000).toFixed(3)}s`}
+                      >
+                        <span className="char-text">{char.char}</span>
+                        <span className="char-time">{(char.start / 1000).toFixed(2)}</span>
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="onset-alignment-actions">
+            {isPreviewing ? (
+              <Button size="small" onClick={revertPreview}>プレビューを戻す</Button>
+            ) : (
+              <Button variant="info" size="small" onClick={startPreview} disabled={acceptedIds.size === 0}>
+                プレビュー
+              </Button>
+            )}
+            <Button variant="success" size="small" onClick={handleApply} disabled={acceptedIds.size === 0}>
+              選択した調整案を適用
+            </Button>
+            <Button size="small" onClick={handleDiscard}>破棄</Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OnsetAlignmentPanel;
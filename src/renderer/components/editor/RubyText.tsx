@@ -0,0 +1,23 @@
+import React from 'react';
+import { RubySpan } from '../../types/types';
+import { RubyUtils } from '../../utils/RubyUtils';
+
+interface RubyTextProps {
+  text: string;
+  ruby?: RubySpan[];
+}
+
+/**
+ * ルビ付きテキストの表示（歌詞・単語の一覧用）
+ */
+const RubyText: React.FC<RubyTextProps> = ({ text, ruby }) => (
+  <>
+    {RubyUtils.toSegments(text, ruby).map((segment, index) => (
+      segment.reading
+        ? <ruby key={index}>{segment.text}<rt>{segment.reading}</rt></ruby>
+        : <React.Fragment key={index}>{segment.text}</React.Fragment>
+    ))}
+  </>
+);
+
+export default RubyText;
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Engine from '../../engine/Engine';
+import { PhraseUnit } from '../../types/types';
+import { TapGranularity, TapTarget, TapTimingSession } from '../../utils/lyrics/TapTimingSession';
+import { Button } from '../common';
+import './TapTimingPanel.css';
+
+interface TapTimingPanelProps {
+  engine: Engine;
+}
+
+const GRANULARITY_LABELS: Record<TapGranularity, string> = {
+  phrase: 'フレーズ',
+  word: '単語',
+  char: '文字'
+};
+
+const PLAYBACK_RATES = [1, 0.75, 0.5];
+
+// 次の対象として表示する件数
+const PREVIEW_COUNT = 6;
+
+/**
+ * タップ入力によるタイミング打刻パネル
+ * 再生中にスペースキーを押すと次の対象の開始、離すと終了を打刻する
+ * 停止時に打刻結果を Engine.updateLyricsData で反映（1回のUndo単位）
+ */
+const TapTimingPanel: React.FC<TapTimingPanelProps> = ({ engine }) => {
+  const [granularity, setGranularity] = useState<TapGranularity>('word');
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [, setRevision] = useState(0);
+  const sessionRef = useRef<TapTimingSession | null>(null);
+  const previousRateRef = useRef(1);
+  const previousLoopEnabledRef = useRef(false);
+
+  const refresh = () => setRevision(prev => prev + 1);
+
+  const startSession = () => {
+    const { lyrics } = engine.getTimelineData();
+    if (lyrics.length === 0) return;
+
+    // 再生位置以降で最初に始まる対象から打刻を開始（該当がなければ先頭から）
+    const currentTime = engine.getCurrentTime();
+    const targets = TapTimingSession.collectTargets(lyrics, granularity);
+    let startIndex = targets.findIndex(target => getOriginalStart(lyrics, target) >= currentTime);
+    if (startIndex === -1) {
+      startIndex = 0;
+      engine.seek(0);
+    }
+
+    sessionRef.current = new TapTimingSession(lyrics, granularity, startIndex);
+    previousRateRef.current = engine.getPlaybackRate();
+    engine.setPlaybackRate(playbackRate);
+    // 打刻中は時間が戻らないようにA–Bループを止める
+    previousLoopEnabledRef.current = engine.isLoopEnabled();
+    engine.setLoopEnabled(false);
+    engine.play();
+    setIsRunning(true);
+  };
+
+  const stopSession = () => {
+    const session = sessionRef.current;
+    engine.pause();
+    engine.setPlaybackRate(previousRateRef.current);
+    engine.setLoopEnabled(previousLoopEnabledRef.current);
+
+    if (session) {
+      // 押下中の対象は停止時刻で終了させる
+      session.release(engine.getCurrentTime());
+      if (session.getStampedCount() > 0) {
+        engine.updateLyricsData(session.getResult(), true, `タップ入力（${GRANULARITY_LABELS[session.getGranularity()]}）`);
+      }
+    }
+
+    sessionRef.current = null;
+    setIsRunning(false);
+  };
+
+  // 打刻キー（スペース）、取り消し（Backspace）、終了（Escape）
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const session = sessionRef.current;
+      if (!session) return;
+
+      if (event.code === 'Space') {
+        event.preventDefault();
+        event.stopPropagation();
+        if (event.repeat) return;
+        session.press(engine.getCurrentTime());
+        refresh();
+      } else if (event.code === 'Backspace') {
+        event.preventDefault();
+        session.stepBack();
+        refresh();
+      } else if (event.code === 'Escape') {
+        event.preventDefault();
+        stopSession();
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const session = sessionRef.current;
+      if (!session || event.code !== 'Space') return;
+      event.preventDefault();
+      session.release(engine.getCurrentTime());
+      refresh();
+    };
+
+    // 終端まで再生した場合は自動で確定
+    const handleEnded = () => stopSession();
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('keyup', handleKeyUp, true);
+    window.addEventListener('timeline-ended', handleEnded);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('keyup', handleKeyUp, true);
+      window.removeEventListener('timeline-ended', handleEnded);
+    };
+  }, [isRunning, engine]);
+
+  // パネルを閉じた場合も打刻結果を失わないよう確定
+  useEffect(() => {
+    return () => {
+      if (sessionRef.current) {
+        stopSession();
+      }
+    };
+  }, []);
+
+  const session = sessionRef.current;
+  const targets = session?.getTargets() || [];
+  const cursor = session?.getCursor() ?? 0;
+  const activeIndex = session?.getActiveIndex() ?? null;
+  const upcoming = targets.slice(cursor, cursor + PREVIEW_COUNT);
+
+  return (
+    <div className="tap-timing-panel">
+      <div className="tap-timing-controls">
+        <label>
+          単位
+          <select
+            value={granularity}
+            disabled={isRunning}
+            onChange={e => setGranularity(e.target.value as TapGranularity)}
+          >
+            {(Object.keys(GRANULARITY_LABELS) as TapGranularity[]).map(key => (
+              <option key={key} value={key}>{GRANULARITY_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          再生速度
+          <select
+            value={playbackRate}
+            disabled={isRunning}
+            onChange={e => setPlaybackRate(parseFloat(e.target.value))}
+          >
+            {PLAYBACK_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate}x</option>
+            ))}
+          </select>
+        </label>
+        {isRunning ? (
+          <Button variant="danger" size="small" onClick={stopSession}>停止して反映</Button>
+        ) : (
+          <Button variant="primary" size="small" onClick={startSession}>現在位置から開始</Button>
+        )}
+        {isRunning && session && (
+          <span className="tap-timing-progress">{cursor} / {targets.length}</span>
+        )}
+      </div>
+
+      {isRunning ? (
+        <div className="tap-timing-targets">
+          {activeIndex !== null && (
+            <span className="tap-timing-target active">{formatTarget(targets[activeIndex])}</span>
+          )}
+          {upcoming.map((target, index) => (
+            <span key={target.id} className={`tap-timing-target${index === 0 ? ' next' : ''}`}>
+              {formatTarget(target)}
+            </span>
+          ))}
+          {session?.isComplete() && <span className="tap-timing-done">すべて打刻しました</span>}
+        </div>
+      ) : (
+        <p className="tap-timing-help">
+          スペースキーを押すと次の{GRANULARITY_LABELS[granularity]}の開始、離すと終了を打刻します。
+          Backspaceで直前の打刻を取り消し、Escapeで停止して反映します。
+        </p>
+      )}
+    </div>
+  );
+};
+
+function formatTarget(target: TapTarget): string {
+  return target.text.trim() === '' ? '␣' : target.text;
+}
+
+function getOriginalStart(lyrics: PhraseUnit[], target: TapTarget): number {
+  const phrase = lyrics[target.phraseIndex];
+  if (target.wordIndex === undefined) return phrase.start;
+  const word = phrase.words[target.wordIndex];
+  if (target.charIndex === undefined) return word.start;
+  return word.chars[target.charIndex].start;
+}
+
+export default TapTimingPanel;
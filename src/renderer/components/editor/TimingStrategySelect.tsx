@@ -0,0 +1,33 @@
+import React from 'react';
+import { TimingDistributor, TimingStrategy, TIMING_STRATEGY_LABELS } from '../../utils/lyrics/TimingDistributor';
+
+interface TimingStrategySelectProps {
+  value: TimingStrategy;
+  onChange: (strategy: TimingStrategy) => void;
+}
+
+/**
+ * 文字タイミングの配分方法の選択（選択内容は次回以降も使う）
+ */
+const TimingStrategySelect: React.FC<TimingStrategySelectProps> = ({ value, onChange }) => (
+  <label
+    className="timing-strategy-select"
+    title="テキストや時間範囲を変更したときの文字タイミングの割り振り方"
+  >
+    文字配分
+    <select
+      value={value}
+      onChange={e => {
+        const strategy = e.target.value as TimingStrategy;
+        TimingDistributor.setPreferredStrategy(strategy);
+        onChange(strategy);
+      }}
+    >
+      {(Object.keys(TIMING_STRATEGY_LABELS) as TimingStrategy[]).map(key => (
+        <option key={key} value={key}>{TIMING_STRATEGY_LABELS[key]}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default TimingStrategySelect;
@@ -1,7 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { PhraseUnit, WordUnit, CharUnit } from '../../types/types';
 import { generateUniqueId } from '../../utils/idGenerator';
+import { RubyUtils } from '../../utils/RubyUtils';
+import { TimingDistributor, TimingStrategy } from '../../utils/lyrics/TimingDistributor';
+import { JapaneseSegmenter } from '../../utils/lyrics/JapaneseSegmenter';
 import { Button } from '../common';
+import RubyText from './RubyText';
+import TimingStrategySelect from './TimingStrategySelect';
 import './WordSplitEditor.css';
 
 // 階層的ID生成用のヘルパー関数
@@ -29,6 +34,7 @@ const WordSplitEditor: React.FC<WordSplitEditorProps> = ({ phrase, onSave, onClo
   const [words, setWords] = useState<WordUnit[]>([]);
   const [editingCell, setEditingCell] = useState<EditableWordCell | null>(null);
   const [editValue, setEditValue] = useState<string>('');
+  const [timingStrategy, setTimingStrategy] = useState<TimingStrategy>(() => TimingDistributor.getPreferredStrategy());
   const editInputRef = useRef<HTMLInputElement>(null);
 
   // 初期化時に現在のフレーズの単語データを設定
@@ -36,81 +42,39 @@ const WordSplitEditor: React.FC<WordSplitEditorProps> = ({ phrase, onSave, onClo
     setWords(JSON.parse(JSON.stringify(phrase.words)));
   }, [phrase]);
 
-  // 日本語対応の単語分割関数
-  const splitIntoWords = (text: string): string[] => {
-    const hasJapanese = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(text);
-    
-    if (hasJapanese) {
-      // 日本語の場合: 句読点や区切り文字で分割
-      const separators = /[、。，．！？!?\s]/;
-      const words: string[] = [];
-      const parts = text.split(separators);
-      
-      for (const part of parts) {
-        const trimmed = part.trim();
-        if (trimmed) {
-          words.push(trimmed);
-        }
-      }
-      return words.length > 0 ? words : [text.trim()];
-    } else {
-      // 英語等の場合: スペースとカンマ、ピリオドで分割
-      return text.split(/[\s,.!?]+/).filter(word => word !== '');
-    }
-  };
-
-  // 文字を新しい単語に再分配する関数
+  // 文字を新しい単語に再分配する関数（選択中の配分方法でタイミングを割り当てる）
   const redistributeCharactersToWords = (newWords: string[], originalPhrase: PhraseUnit): WordUnit[] => {
-    const totalDuration = originalPhrase.end - originalPhrase.start;
-    const totalChars = originalPhrase.phrase.length;
-    
-    let globalCharIndex = 0; // フレーズ全体での連続インデックス
-    const newWordUnits: WordUnit[] = [];
-    
-    newWords.forEach((wordText, wordIndex) => {
-      const wordLength = wordText.length;
-      const wordStartTime = originalPhrase.start + (globalCharIndex / totalChars) * totalDuration;
-      const wordEndTime = originalPhrase.start + ((globalCharIndex + wordLength) / totalChars) * totalDuration;
-      
-      // 単語内の文字を作成
-      const chars: CharUnit[] = [];
-      for (let i = 0; i < wordLength; i++) {
-        const charStartTime = wordStartTime + (i / wordLength) * (wordEndTime - wordStartTime);
-        const charEndTime = wordStartTime + ((i + 1) / wordLength) * (wordEndTime - wordStartTime);
-        
-        const charId = generateHierarchicalCharId(`${originalPhrase.id}_word_${wordIndex}`, i);
-        
-        chars.push({
-          id: charId,
-          char: wordText[i],
-          start: Math.round(charStartTime),
-          end: Math.round(charEndTime),
-          charIndex: globalCharIndex + i, // フレーズ全体での連続番号
-          totalChars: totalChars
-        });
-      }
-      
+    const newWordUnits: WordUnit[] = newWords.map((wordText, wordIndex) => {
       const wordId = generateHierarchicalWordId(originalPhrase.id, wordIndex);
-      
-      newWordUnits.push({
+      return {
         id: wordId,
         word: wordText,
-        start: Math.round(wordStartTime),
-        end: Math.round(wordEndTime),
-        chars: chars
-      });
-      
-      globalCharIndex += wordLength;
+        start: originalPhrase.start,
+        end: originalPhrase.end,
+        chars: Array.from(wordText).map((char, i) => ({
+          id: generateHierarchicalCharId(wordId, i),
+          char,
+          start: originalPhrase.start,
+          end: originalPhrase.end
+        }))
+      };
     });
     
-    return newWordUnits;
+    return TimingDistributor.retimePhrase(
+      { ...originalPhrase, words: newWordUnits },
+      originalPhrase.start,
+      originalPhrase.end,
+      timingStrategy,
+      originalPhrase
+    ).words;
   };
 
-  // 自動分割機能
+  // 自動分割機能（日本語は同梱辞書による文節単位、ルビは分割後の単語に振り直す）
   const handleAutoSplit = () => {
-    const newWordTexts = splitIntoWords(phrase.phrase);
+    const newWordTexts = JapaneseSegmenter.segment(phrase.phrase);
+    if (newWordTexts.length === 0) return;
     const newWords = redistributeCharactersToWords(newWordTexts, phrase);
-    setWords(newWords);
+    setWords(RubyUtils.assignToWords(phrase.phrase, RubyUtils.getPhraseRuby(phrase), newWords));
   };
 
   // 編集開始
@@ -134,51 +98,35 @@ const WordSplitEditor: React.FC<WordSplitEditorProps> = ({ phrase, onSave, onClo
         const newWord = { ...word };
         
         if (editingCell.field === 'word') {
-          newWord.word = editValue;
-          // 単語テキストが変更された場合、文字も再生成
-          const chars: CharUnit[] = [];
-          const wordDuration = word.end - word.start;
-          
-          const baseCharIndex = word.chars[0]?.charIndex || 0;
+          // ルビ記法（漢字{かんじ}）を解析
+          const { text, ruby } = RubyUtils.parse(editValue);
+          if (ruby.length > 0) {
+            newWord.ruby = ruby;
+          } else {
+            delete newWord.ruby;
+          }
           
-          for (let i = 0; i < editValue.length; i++) {
-            const charStart = word.start + (i / editValue.length) * wordDuration;
-            const charEnd = word.start + ((i + 1) / editValue.length) * wordDuration;
-            const charId = generateHierarchicalCharId(word.id, i);
-            
-            chars.push({
-              id: charId,
-              char: editValue[i],
-              start: Math.round(charStart),
-              end: Math.round(charEnd),
-              charIndex: baseCharIndex + i, // 元の位置を基準に連続番号
-              totalChars: phrase.phrase.length
-            });
+          // テキストが変わらずルビだけ変更した場合は文字タイミングを保持
+          if (text === word.word) {
+            return newWord;
           }
-          newWord.chars = chars;
+          
+          newWord.word = text;
+          // 単語テキストが変更された場合、文字も再生成
+          const chars: CharUnit[] = Array.from(text).map((char, i) => ({
+            id: generateHierarchicalCharId(word.id, i),
+            char,
+            start: word.start,
+            end: word.end
+          }));
           // 注意: 全体のcharIndex整合性はEngineで再計算される
+          return TimingDistributor.retimeWord({ ...newWord, chars }, word.start, word.end, timingStrategy, word);
         } else if (editingCell.field === 'start') {
-          // 開始時刻の変更（秒単位からms単位に変換）
-          const newStart = parseTimeFromSeconds(editValue);
-          newWord.start = newStart;
-          // 文字の時間も調整
-          const wordDuration = newWord.end - newWord.start;
-          newWord.chars = newWord.chars.map((char, index) => ({
-            ...char,
-            start: Math.round(newWord.start + (index / newWord.chars.length) * wordDuration),
-            end: Math.round(newWord.start + ((index + 1) / newWord.chars.length) * wordDuration)
-          }));
+          // 開始時刻の変更（秒単位からms単位に変換）。文字の時間も調整
+          return TimingDistributor.retimeWord(word, parseTimeFromSeconds(editValue), word.end, timingStrategy);
         } else if (editingCell.field === 'end') {
-          // 終了時刻の変更（秒単位からms単位に変換）
-          const newEnd = parseTimeFromSeconds(editValue);
-          newWord.end = newEnd;
-          // 文字の時間も調整
-          const wordDuration = newWord.end - newWord.start;
-          newWord.chars = newWord.chars.map((char, index) => ({
-            ...char,
-            start: Math.round(newWord.start + (index / newWord.chars.length) * wordDuration),
-            end: Math.round(newWord.start + ((index + 1) / newWord.chars.length) * wordDuration)
-          }));
+          // 終了時刻の変更（秒単位からms単位に変換）。文字の時間も調整
+          return TimingDistributor.retimeWord(word, word.start, parseTimeFromSeconds(editValue), timingStrategy);
         }
         
         return newWord;
@@ -190,6 +138,19 @@ const WordSplitEditor: React.FC<WordSplitEditorProps> = ({ phrase, onSave, onClo
     setEditingCell(null);
   };
 
+  // ルビの個別タイミング更新（空欄の場合は親文字のタイミングに配分）
+  const updateRubyTiming = (wordId: string, rubyIndex: number, field: 'start' | 'end', value: string) => {
+    setWords(words.map(word => {
+      if (word.id !== wordId || !word.ruby) return word;
+      const ruby = word.ruby.map((span, index) => (
+        index === rubyIndex
+          ? { ...span, [field]: value.trim() === '' ? undefined : parseTimeFromSeconds(value) }
+          : span
+      ));
+      return { ...word, ruby };
+    }));
+  };
+
   // 単語追加
   const addWord = (afterWordId?: string) => {
     // 新しい単語のインデックスを決定
@@ -227,44 +188,13 @@ const WordSplitEditor: React.FC<WordSplitEditorProps> = ({ phrase, onSave, onClo
     setWords(words.filter(w => w.id !== wordId));
   };
 
-  // 自動時間割り当て機能
+  // 自動時間割り当て機能（既存のタイミングを使わないため、比率維持の場合は均等に配分）
   const handleAutoAssignTime = () => {
-    // 全体の文字数を計算
-    const totalChars = words.reduce((sum, word) => sum + word.word.length, 0);
+    const totalChars = words.reduce((sum, word) => sum + word.chars.length, 0);
     if (totalChars === 0) return;
 
-    // フレーズの総時間
-    const totalDuration = phrase.end - phrase.start;
-    
-    // 各単語に時間を割り当て
-    let currentTime = phrase.start;
-    const updatedWords = words.map((word, index) => {
-      const wordCharCount = word.word.length;
-      const wordDuration = (wordCharCount / totalChars) * totalDuration;
-      
-      const newStart = currentTime;
-      const newEnd = index === words.length - 1 
-        ? phrase.end  // 最後の単語は正確にフレーズの終了時刻に
-        : currentTime + wordDuration;
-      
-      currentTime = newEnd;
-      
-      // 単語内の文字の時間も再計算
-      const chars = word.chars.map((char, charIndex) => ({
-        ...char,
-        start: Math.round(newStart + (charIndex / wordCharCount) * (newEnd - newStart)),
-        end: Math.round(newStart + ((charIndex + 1) / wordCharCount) * (newEnd - newStart))
-      }));
-      
-      return {
-        ...word,
-        start: Math.round(newStart),
-        end: Math.round(newEnd),
-        chars
-      };
-    });
-    
-    setWords(updatedWords);
+    const strategy = timingStrategy === 'keep-ratio' ? 'equal' : timingStrategy;
+    setWords(TimingDistributor.retimePhrase({ ...phrase, words }, phrase.start, phrase.end, strategy).words);
   };
 
   // 保存処理
@@ -312,7 +242,8 @@ const WordSplitEditor: React.FC<WordSplitEditorProps> = ({ phrase, onSave, onClo
       <div className="word-split-editor-header">
         <h3>単語分割編集: "{phrase.phrase}"</h3>
         <div className="word-split-editor-controls">
-          <Button variant="info" onClick={handleAutoSplit} disabled={true}>
+          <TimingStrategySelect value={timingStrategy} onChange={setTimingStrategy} />
+          <Button variant="info" onClick={handleAutoSplit}>
             自動分割
           </Button>
           <Button variant="info" onClick={handleAutoAssignTime}>
@@ -339,80 +270,116 @@ const WordSplitEditor: React.FC<WordSplitEditorProps> = ({ phrase, onSave, onClo
           </thead>
           <tbody>
             {words.map((word) => (
-              <tr key={word.id}>
-                <td 
-                  className="editable-cell"
-                  onClick={() => startEdit(word.id, 'word', word.word)}
-                >
-                  {editingCell?.wordId === word.id && editingCell.field === 'word' ? (
-                    <input
-                      ref={editInputRef}
-                      type="text"
-                      value={editValue}
-                      onChange={(e) => setEditValue(e.target.value)}
-                      onBlur={confirmEdit}
-                      onKeyDown={handleKeyDown}
-                      className="edit-input"
-                    />
-                  ) : (
-                    word.word
-                  )}
-                </td>
-                <td 
-                  className="editable-cell time-cell"
-                  onClick={() => startEdit(word.id, 'start', word.start)}
-                >
-                  {editingCell?.wordId === word.id && editingCell.field === 'start' ? (
-                    <input
-                      ref={editInputRef}
-                      type="text"
-                      value={editValue}
-                      onChange={(e) => setEditValue(e.target.value)}
-                      onBlur={confirmEdit}
-                      onKeyDown={handleKeyDown}
-                      className="edit-input time-input"
-                    />
-                  ) : (
-                    formatTime(word.start)
-                  )}
-                </td>
-                <td 
-                  className="editable-cell time-cell"
-                  onClick={() => startEdit(word.id, 'end', word.end)}
-                >
-                  {editingCell?.wordId === word.id && editingCell.field === 'end' ? (
-                    <input
-                      ref={editInputRef}
-                      type="text"
-                      value={editValue}
-                      onChange={(e) => setEditValue(e.target.value)}
-                      onBlur={confirmEdit}
-                      onKeyDown={handleKeyDown}
-                      className="edit-input time-input"
-                    />
-                  ) : (
-                    formatTime(word.end)
-                  )}
-                </td>
-                <td className="action-cell">
-                  <Button 
-                    variant="success"
-                    size="small"
-                    onClick={() => addWord(word.id)}
-                    title="下に単語を追加"
+              <React.Fragment key={word.id}>
+                <tr>
+                  <td 
+                    className="editable-cell"
+                    onClick={() => startEdit(word.id, 'word', RubyUtils.formatWord(word))}
+                  >
+                    {editingCell?.wordId === word.id && editingCell.field === 'word' ? (
+                      <input
+                        ref={editInputRef}
+                        type="text"
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onBlur={confirmEdit}
+                        onKeyDown={handleKeyDown}
+                        className="edit-input"
+                        title="ルビは 漢字{かんじ} の形式で入力できます（親文字の範囲は ｜ で指定）"
+                      />
+                    ) : (
+                      <RubyText text={word.word} ruby={word.ruby} />
+                    )}
+                  </td>
+                  <td 
+                    className="editable-cell time-cell"
+                    onClick={() => startEdit(word.id, 'start', word.start)}
                   >
-                    ↓追加
-                  </Button>
-                  <Button 
-                    variant="danger"
-                    size="small"
-                    onClick={() => deleteWord(word.id)}
-                    title="単語を削除"
+                    {editingCell?.wordId === word.id && editingCell.field === 'start' ? (
+                      <input
+                        ref={editInputRef}
+                        type="text"
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onBlur={confirmEdit}
+                        onKeyDown={handleKeyDown}
+                        className="edit-input time-input"
+                      />
+                    ) : (
+                      formatTime(word.start)
+                    )}
+                  </td>
+                  <td 
+                    className="editable-cell time-cell"
+                    onClick={() => startEdit(word.id, 'end', word.end)}
                   >
-                    削除
-                  </Button>
-                </td>
-              </tr>
+                    {editingCell?.wordId === word.id && editingCell.field === 'end' ? (
+                      <input
+                        ref={editInputRef}
+                        type="text"
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onBlur={confirmEdit}
+                        onKeyDown={handleKeyDown}
+                        className="edit-input time-input"
+                      />
+                    ) : (
+                      formatTime(word.end)
+                    )}
+                  </td>
+                  <td className="action-cell">
+                    <Button 
+                      variant="success"
+                      size="small"
+                      onClick={() => addWord(word.id)}
+                      title="下に単語を追加"
+                    >
+                      ↓追加
+                    </Button>
+                    <Button 
+                      variant="danger"
+                      size="small"
+                      onClick={() => deleteWord(word.id)}
+                      title="単語を削除"
+                    >
+                      削除
+                    </Button>
+                  </td>
+                </tr>
+                {word.ruby && word.ruby.length > 0 && (
+                  <tr className="ruby-timing-row">
+                    <td colSpan={4}>
+                      {word.ruby.map((span, index) => (
+                        <span key={index} className="ruby-timing-item">
+                          <span className="ruby-timing-label">
+                            {Array.from(word.word).slice(span.startCharIndex, span.endCharIndex + 1).join('')}
+                            （{span.reading}）
+                          </span>
+                          <input
+                            key={`start_${span.start}`}
+                            type="text"
+                            defaultValue={span.start !== undefined ? formatTime(span.start) : ''}
+                            placeholder="自動"
+                            onBlur={(e) => updateRubyTiming(word.id, index, 'start', e.target.value)}
+                            className="edit-input time-input"
+                            title="読みの開始時刻（秒）。空欄の場合は親文字のタイミングに配分"
+                          />
+                          〜
+                          <input
+                            key={`end_${span.end}`}
+                            type="text"
+                            defaultValue={span.end !== undefined ? formatTime(span.end) : ''}
+                            placeholder="自動"
+                            onBlur={(e) => updateRubyTiming(word.id, index, 'end', e.target.value)}
+                            className="edit-input time-input"
+                            title="読みの終了時刻（秒）。空欄の場合は親文字のタイミングに配分"
+                          />
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
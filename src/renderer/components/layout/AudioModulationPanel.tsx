@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Button, Input, Select, Section, StatusMessage } from '../common';
+import { AudioAnalyzer } from '../../services/AudioAnalyzer';
+import { AudioModulator } from '../../engine/AudioModulator';
+import {
+  AudioFeature,
+  AudioModulation,
+  AudioModulationData,
+  AudioModulationMode
+} from '../../../types/AudioModulation';
+import { generateUniqueIdWithPrefix } from '../../utils/idGenerator';
+import Engine from '../../engine/Engine';
+
+interface AudioModulationPanelProps {
+  engine?: Engine;
+}
+
+const FEATURE_LABELS: Record<AudioFeature, string> = {
+  rms: 'ラウドネス',
+  bass: '低域',
+  mid: '中域',
+  high: '高域'
+};
+
+const MODE_LABELS: Record<AudioModulationMode, string> = {
+  replace: '置き換え',
+  add: '加算',
+  multiply: '乗算'
+};
+
+/**
+ * オーディオリアクティブ変調パネル
+ * 楽曲の特徴量カーブを解析し、数値パラメータへの割り当てを編集する
+ */
+const AudioModulationPanel: React.FC<AudioModulationPanelProps> = ({ engine }) => {
+  const [data, setData] = useState<AudioModulationData>(() =>
+    engine?.getAudioModulation() ?? { envelopes: null, modulations: [] }
+  );
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  const parameterNames = useMemo(() => AudioModulator.getModulatableParameters(), []);
+
+  useEffect(() => {
+    analyzerRef.current = new AudioAnalyzer();
+    return () => {
+      analyzerRef.current?.dispose();
+      analyzerRef.current = null;
+    };
+  }, []);
+
+  // プロジェクト読み込み等による変更を反映
+  useEffect(() => {
+    if (engine) {
+      setData(engine.getAudioModulation());
+    }
+
+    const handleUpdated = (event: CustomEvent) => {
+      if (event.detail?.audioModulation) {
+        setData(event.detail.audioModulation);
+      }
+    };
+
+    window.addEventListener('audio-modulation-updated', handleUpdated as EventListener);
+    return () => {
+      window.removeEventListener('audio-modulation-updated', handleUpdated as EventListener);
+    };
+  }, [engine]);
+
+  // 楽曲全体の特徴量カーブを解析
+  const handleAnalyze = async () => {
+    if (!engine || !analyzerRef.current) return;
+
+    const audioElement = engine.getCurrentAudioElement();
+    if (!audioElement) {
+      setErrorMessage('音楽ファイルが読み込まれていません');
+      return;
+    }
+
+    setIsAnalyzing(true);
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    try {
+      const envelopes = await analyzerRef.current.analyzeEnvelopes(audioElement, engine.audioFileName || '');
+      if (!envelopes) {
+        setErrorMessage('音声の解析に失敗しました');
+        return;
+      }
+      engine.setAudioFeatureEnvelopes(envelopes);
+      setSuccessMessage(`解析完了: ${(envelopes.rms.length * envelopes.frameMs / 1000).toFixed(1)}秒分`);
+    } catch (error) {
+      console.error('AudioModulationPanel: 解析エラー:', error);
+      setErrorMessage(`解析エラー: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const updateModulations = (modulations: AudioModulation[]) => {
+    engine?.setAudioModulations(modulations);
+  };
+
+  const updateModulation = (id: string, changes: Partial<AudioModulation>) => {
+    updateModulations(data.modulations.map(modulation =>
+      modulation.id === id ? { ...modulation, ...changes } : modulation
+    ));
+  };
+
+  const addModulation = () => {
+    updateModulations([
+      ...data.modulations,
+      AudioModulator.createModulation(generateUniqueIdWithPrefix('modulation'))
+    ]);
+  };
+
+  const removeModulation = (id: string) => {
+    updateModulations(data.modulations.filter(modulation => modulation.id !== id));
+  };
+
+  const parseNumber = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  };
+
+  const envelopes = data.envelopes;
+  const isStale = !!envelopes && !!engine?.audioFileName && envelopes.sourceFileName !== engine.audioFileName;
+
+  return (
+    <div className="panel-content">
+      <Section title="オーディオ変調">
+        <div className="u-mb-md">
+          <Button
+            variant="primary"
+            onClick={handleAnalyze}
+            disabled={isAnalyzing || !engine}
+          >
+            {isAnalyzing ? '解析中...' : envelopes ? '音声を再解析' : '音声を解析'}
+          </Button>
+          {envelopes && (
+            <Button
+              variant="secondary"
+              onClick={() => engine?.setAudioFeatureEnvelopes(null)}
+              style={{ marginLeft: '10px' }}
+            >
+              解析結果をクリア
+            </Button>
+          )}
+        </div>
+
+        <div className="u-text-small u-text-secondary u-mb-sm">
+          {envelopes
+            ? `解析済み: ${envelopes.sourceFileName || '(不明)'}`
+            : '未解析（解析するまで変調は適用されません）'}
+        </div>
+
+        {isStale && (
+          <StatusMessage
+            type="warning"
+            message="読み込まれている音楽ファイルと解析結果のファイルが異なります。再解析してください"
+          />
+        )}
+
+        {data.modulations.map(modulation => (
+          <div key={modulation.id} className="u-bg-level-3 u-p-sm u-radius-small u-mb-sm">
+            <div className="u-flex u-gap-sm u-mb-xs">
+              <label className="u-text-small">
+                <input
+                  type="checkbox"
+                  checked={modulation.enabled}
+                  onChange={e => updateModulation(modulation.id, { enabled: e.target.checked })}
+                />
+                有効
+              </label>
+              <Button
+                variant="danger"
+                size="small"
+                onClick={() => removeModulation(modulation.id)}
+              >
+                削除
+              </Button>
+            </div>
+
+            <div className="u-grid u-grid-cols-2 u-gap-md">
+              <Select
+                label="パラメータ:"
+                value={modulation.parameterName}
+                onChange={e => updateModulation(modulation.id, { parameterName: e.target.value as AudioModulation['parameterName'] })}
+              >
+                {parameterNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </Select>
+              <Select
+                label="変調元:"
+                value={modulation.source}
+                onChange={e => updateModulation(modulation.id, { source: e.target.value as AudioFeature })}
+              >
+                {(Object.keys(FEATURE_LABELS) as AudioFeature[]).map(feature => (
+                  <option key={feature} value={feature}>{FEATURE_LABELS[feature]}</option>
+                ))}
+              </Select>
+              <Select
+                label="適用方法:"
+                value={modulation.mode}
+                onChange={e => updateModulation(modulation.id, { mode: e.target.value as AudioModulationMode })}
+              >
+                {(Object.keys(MODE_LABELS) as AudioModulationMode[]).map(mode => (
+                  <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                ))}
+              </Select>
+              <Input
+                label="ゲイン:"
+                type="number"
+                step="0.1"
+                value={modulation.gain}
+                onChange={e => updateModulation(modulation.id, { gain: parseNumber(e.target.value, modulation.gain) })}
+              />
+              <Input
+                label="平滑化 (ms):"
+                type="number"
+                min="0"
+                step="10"
+                value={modulation.smoothingMs}
+                onChange={e => updateModulation(modulation.id, { smoothingMs: Math.max(0, parseNumber(e.target.value, modulation.smoothingMs)) })}
+              />
+              <div />
+              <Input
+                label="最小値:"
+                type="number"
+                step="0.1"
+                value={modulation.min}
+                onChange={e => updateModulation(modulation.id, { min: parseNumber(e.target.value, modulation.min) })}
+              />
+              <Input
+                label="最大値:"
+                type="number"
+                step="0.1"
+                value={modulation.max}
+                onChange={e => updateModulation(modulation.id, { max: parseNumber(e.target.value, modulation.max) })}
+              />
+            </div>
+          </div>
+        ))}
+
+        <Button
+          variant="secondary"
+          onClick={addModulation}
+          disabled={!engine}
+        >
+          変調を追加
+        </Button>
+
+        {successMessage && (
+          <StatusMessage
+            type="success"
+            message={successMessage}
+            onClose={() => setSuccessMessage(null)}
+          />
+        )}
+
+        {errorMessage && (
+          <StatusMessage
+            type="error"
+            message={errorMessage}
+            onClose={() => setErrorMessage(null)}
+          />
+        )}
+      </Section>
+    </div>
+  );
+};
+
+export default AudioModulationPanel;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button, Section, StatusMessage } from '../common';
 import { AudioAnalyzer, BeatDetectionSettings, AnalysisResult } from '../../services/AudioAnalyzer';
+import { BeatGrid } from '../../../types/BeatGrid';
+import { BeatGridSnapper } from '../../utils/BeatGridSnapper';
 import Engine from '../../engine/Engine';
 
 interface BeatDetectionPanelProps {
@@ -14,6 +16,8 @@ const BeatDetectionPanel: React.FC<BeatDetectionPanelProps> = ({ engine }) => {
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  // プロジェクトに保存されているビートグリッド（Engineが正）
+  const [beatGrid, setBeatGrid] = useState<BeatGrid | null>(() => engine?.getBeatGrid() ?? null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   
@@ -32,6 +36,26 @@ const BeatDetectionPanel: React.FC<BeatDetectionPanelProps> = ({ engine }) => {
     };
   }, []);
 
+  // プロジェクト読み込み・Undo等によるビートグリッドの変更を反映
+  useEffect(() => {
+    setBeatGrid(engine?.getBeatGrid() ?? null);
+    
+    const handleBeatGridUpdated = (event: CustomEvent) => {
+      setBeatGrid(event.detail?.beatGrid ?? null);
+    };
+    
+    window.addEventListener('beat-grid-updated', handleBeatGridUpdated as EventListener);
+    return () => {
+      window.removeEventListener('beat-grid-updated', handleBeatGridUpdated as EventListener);
+    };
+  }, [engine]);
+
+  // 小節設定の更新（ビート位置はそのまま）
+  const updateBarSettings = (changes: Partial<Pick<BeatGrid, 'beatsPerBar' | 'barOffset'>>) => {
+    if (!engine || !beatGrid) return;
+    engine.setBeatGrid({ ...beatGrid, ...changes });
+  };
+
   // 設定更新ハンドラー
   const updateSetting = <K extends keyof BeatDetectionSettings>(
     key: K, 
@@ -68,10 +92,13 @@ const BeatDetectionPanel: React.FC<BeatDetectionPanelProps> = ({ engine }) => {
           `ビート検出完了: ${result.beats.length}個のビートを検出 (BPM: ${result.bpm})`
         );
         
-        // エンジンにビート情報を送信
-        if (engine.setBeatMarkers) {
-          engine.setBeatMarkers(result.beats);
-        }
+        // エンジンにビート情報を送信（小節設定は直前の値を引き継ぐ）
+        engine.setBeatGrid({
+          bpm: result.bpm,
+          beats: result.beats,
+          beatsPerBar: beatGrid?.beatsPerBar ?? BeatGridSnapper.DEFAULT_BEATS_PER_BAR,
+          barOffset: beatGrid?.barOffset ?? 0
+        });
         
         // タイムラインにビートマーカー表示イベントを発火
         const beatEvent = new CustomEvent('beat-detection-completed', {
@@ -131,8 +158,8 @@ const BeatDetectionPanel: React.FC<BeatDetectionPanelProps> = ({ engine }) => {
     setAnalysisResult(null);
     setSuccessMessage(null);
     
-    if (engine && engine.setBeatMarkers) {
-      engine.setBeatMarkers([]);
+    if (engine) {
+      engine.setBeatGrid(null);
     }
     
     const clearEvent = new CustomEvent('beat-detection-cleared');
@@ -151,7 +178,7 @@ const BeatDetectionPanel: React.FC<BeatDetectionPanelProps> = ({ engine }) => {
             {isAnalyzing ? 'ビート検出中...' : 'ビートを検出'}
           </Button>
           
-          {analysisResult && (
+          {beatGrid && (
             <Button 
               variant="secondary" 
               onClick={clearBeats}
@@ -166,13 +193,13 @@ const BeatDetectionPanel: React.FC<BeatDetectionPanelProps> = ({ engine }) => {
         <div className="u-mb-md">
           <label className="u-text-secondary u-mb-xs">プリセット設定:</label>
           <div className="u-flex u-gap-sm">
-            <Button variant="tertiary" onClick={() => applyPreset('sensitive')}>
+            <Button variant="secondary" onClick={() => applyPreset('sensitive')}>
               高感度
             </Button>
-            <Button variant="tertiary" onClick={() => applyPreset('standard')}>
+            <Button variant="secondary" onClick={() => applyPreset('standard')}>
               標準
             </Button>
-            <Button variant="tertiary" onClick={() => applyPreset('strict')}>
+            <Button variant="secondary" onClick={() => applyPreset('strict')}>
               厳格
             </Button>
           </div>
@@ -277,23 +304,69 @@ const BeatDetectionPanel: React.FC<BeatDetectionPanelProps> = ({ engine }) => {
           </div>
         </div>
 
-        {/* 結果表示 */}
-        {analysisResult && (
+        {/* 結果表示（保存済みのビートグリッドも表示） */}
+        {beatGrid && (
           <div className="u-bg-level-3 u-p-sm u-radius-small u-mb-sm">
             <div className="u-text-small">
               <div><strong>検出結果:</strong></div>
-              <div>ビート数: {analysisResult.beats.length}個</div>
-              <div>BPM: {analysisResult.bpm}</div>
-              <div>楽曲長: {(analysisResult.duration / 1000).toFixed(1)}秒</div>
+              <div>ビート数: {beatGrid.beats.length}個</div>
+              <div>BPM: {beatGrid.bpm}</div>
+              {analysisResult && (
+                <div>楽曲長: {(analysisResult.duration / 1000).toFixed(1)}秒</div>
+              )}
               <div>平均信頼度: {
-                analysisResult.beats.length > 0 
-                  ? (analysisResult.beats.reduce((sum, beat) => sum + beat.confidence, 0) / analysisResult.beats.length * 100).toFixed(1)
+                beatGrid.beats.length > 0 
+                  ? (beatGrid.beats.reduce((sum, beat) => sum + beat.confidence, 0) / beatGrid.beats.length * 100).toFixed(1)
                   : 0
               }%</div>
             </div>
           </div>
         )}
 
+        {/* 小節設定（タイムラインの小節線・小節スナップに使用） */}
+        {beatGrid && (
+          <div className="u-grid u-grid-cols-2 u-gap-md u-mb-md">
+            <div>
+              <label className="u-text-secondary u-mb-xs">
+                拍子: {beatGrid.beatsPerBar}拍
+              </label>
+              <input
+                type="range"
+                min="1"
+                max={BeatGridSnapper.MAX_BEATS_PER_BAR}
+                step="1"
+                value={beatGrid.beatsPerBar}
+                onChange={(e) => updateBarSettings({ beatsPerBar: parseInt(e.target.value) })}
+                className="slider u-w-full"
+              />
+            </div>
+            
+            <div>
+              <label className="u-text-secondary u-mb-xs">
+                小節頭: {beatGrid.barOffset + 1}拍目から
+              </label>
+              <div className="u-flex u-gap-sm">
+                <Button
+                  variant="secondary"
+                  size="small"
+                  onClick={() => updateBarSettings({ barOffset: beatGrid.barOffset - 1 })}
+                  title="小節頭を1拍前へ"
+                >
+                  ◀
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="small"
+                  onClick={() => updateBarSettings({ barOffset: beatGrid.barOffset + 1 })}
+                  title="小節頭を1拍後ろへ"
+                >
+                  ▶
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* メッセージ表示 */}
         {successMessage && (
           <StatusMessage 
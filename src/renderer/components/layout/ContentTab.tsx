@@ -2,8 +2,15 @@ import React, { useRef, useState, useEffect } from 'react';
 import Engine from '../../engine/Engine';
 import { electronMediaManager } from '../../services/ElectronMediaManager';
 import { logger } from '../../../utils/logger';
+import { LrcImporter } from '../../utils/lyrics/LrcImporter';
+import { AssImporter } from '../../utils/lyrics/AssImporter';
+import { getAllTemplates } from '../../templates/registry/templateRegistry';
 import { AspectRatio, Orientation, BackgroundType, BackgroundFitMode } from '../../types/types';
 import { Button, Select, Section, StatusMessage } from '../common';
+import BeatDetectionPanel from './BeatDetectionPanel';
+import AudioModulationPanel from './AudioModulationPanel';
+import LyricTrackPanel from './LyricTrackPanel';
+import { LyricTrack, MAIN_LYRIC_TRACK_ID } from '../../../types/LyricTrack';
 import '../../styles/components.css';
 
 interface ContentTabProps {
@@ -16,6 +23,9 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
   const [lyricsFileName, setLyricsFileName] = useState<string | null>(null);
   const [lyricsError, setLyricsError] = useState<string | null>(null);
   const [lyricsSuccessMessage, setLyricsSuccessMessage] = useState<string | null>(null);
+  const [applyAssStyleTemplates, setApplyAssStyleTemplates] = useState<boolean>(false);
+  const [lyricTracks, setLyricTracks] = useState<LyricTrack[]>([]);
+  const [lyricsTargetTrackId, setLyricsTargetTrackId] = useState<string>(MAIN_LYRIC_TRACK_ID);
   const lyricsFileInputRef = useRef<HTMLInputElement>(null);
 
   // 音楽関連の状態
@@ -117,6 +127,16 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
   };
 
   // 歌詞ファイル変更処理
+  // ASSのスタイル名と一致するテンプレート（ID または表示名）の対応表
+  const createStyleTemplateMap = (): Record<string, string> => {
+    const map: Record<string, string> = {};
+    getAllTemplates().forEach(template => {
+      map[template.name] = template.id;
+      map[template.id] = template.id;
+    });
+    return map;
+  };
+
   const handleLyricsFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -138,22 +158,42 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
       });
       
       let data;
-      try {
-        data = JSON.parse(text);
-        console.log('ContentTab: JSONパース成功', {
-          dataType: typeof data,
-          isArray: Array.isArray(data),
-          dataLength: Array.isArray(data) ? data.length : undefined
-        });
-      } catch (parseError) {
-        console.error('ContentTab: JSONパースエラー', {
-          error: parseError,
-          errorMessage: parseError instanceof Error ? parseError.message : String(parseError),
-          text: text.substring(0, 200) + '...',
-          fileName: file.name
-        });
-        setLyricsError(`JSONパースエラー: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-        return;
+      let styleTemplateAssignments: Record<string, string> = {};
+      if (/\.(lrc|ass)$/i.test(file.name)) {
+        try {
+          if (/\.ass$/i.test(file.name)) {
+            const result = AssImporter.parse(text, {
+              styleTemplateMap: applyAssStyleTemplates ? createStyleTemplateMap() : undefined
+            });
+            data = result.phrases;
+            styleTemplateAssignments = result.templateAssignments;
+          } else {
+            data = LrcImporter.parse(text).phrases;
+          }
+          console.log('ContentTab: 歌詞ファイル変換成功', { phraseCount: data.length });
+        } catch (importError) {
+          console.error('ContentTab: 歌詞ファイル変換エラー', importError);
+          setLyricsError(`歌詞ファイル変換エラー: ${importError instanceof Error ? importError.message : String(importError)}`);
+          return;
+        }
+      } else {
+        try {
+          data = JSON.parse(text);
+          console.log('ContentTab: JSONパース成功', {
+            dataType: typeof data,
+            isArray: Array.isArray(data),
+            dataLength: Array.isArray(data) ? data.length : undefined
+          });
+        } catch (parseError) {
+          console.error('ContentTab: JSONパースエラー', {
+            error: parseError,
+            errorMessage: parseError instanceof Error ? parseError.message : String(parseError),
+            text: text.substring(0, 200) + '...',
+            fileName: file.name
+          });
+          setLyricsError(`JSONパースエラー: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+          return;
+        }
       }
 
       if (!validateLyricsData(data)) {
@@ -163,7 +203,17 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
 
       if (engine) {
         try {
-          engine.loadLyrics(data);
+          // 読み込み先トラックの既存フレーズを置き換え（トラックによってはフレーズIDが振り直される）
+          const loadedIds = engine.loadLyricsToTrack(lyricsTargetTrackId, data);
+          const idMap = new Map<string, string>(
+            (data as Array<{ id?: string }>).map((phrase, index) => [phrase.id || '', loadedIds[index]])
+          );
+          Object.entries(styleTemplateAssignments).forEach(([phraseId, templateId]) => {
+            const loadedId = idMap.get(phraseId);
+            if (loadedId) {
+              engine.assignTemplate(loadedId, templateId, true, false);
+            }
+          });
           setLyricsFileName(file.name);
           setLyricsSuccessMessage('歌詞データを正常に読み込みました');
           console.log('ContentTab: 歌詞ファイルの読み込み完了', { fileName: file.name });
@@ -333,6 +383,25 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
     }
   }, [engine]);
 
+  // 歌詞トラック一覧（歌詞の読み込み先選択用）
+  useEffect(() => {
+    if (!engine) return;
+    setLyricTracks(engine.getLyricTracks());
+
+    const handleTracksUpdated = (event: CustomEvent) => {
+      const tracks: LyricTrack[] = event.detail?.lyricTracks ?? [];
+      setLyricTracks(tracks);
+      if (!tracks.some(track => track.id === lyricsTargetTrackId)) {
+        setLyricsTargetTrackId(MAIN_LYRIC_TRACK_ID);
+      }
+    };
+
+    window.addEventListener('lyric-tracks-updated', handleTracksUpdated as EventListener);
+    return () => {
+      window.removeEventListener('lyric-tracks-updated', handleTracksUpdated as EventListener);
+    };
+  }, [engine, lyricsTargetTrackId]);
+
   // 最近使用したファイル読み込み
   useEffect(() => {
     const loadRecentFiles = async () => {
@@ -369,7 +438,7 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
       <Section title="歌詞データ">
         <div className="u-flex u-gap-sm u-mb-md">
           <Button variant="primary" onClick={handleLyricsFileSelect}>
-            JSONファイルを読み込み
+            歌詞ファイルを読み込み (JSON/LRC/ASS)
           </Button>
           
           <Button 
@@ -383,12 +452,35 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
           <input
             ref={lyricsFileInputRef}
             type="file"
-            accept=".json"
+            accept=".json,.lrc,.ass"
             onChange={handleLyricsFileChange}
             style={{ display: 'none' }}
           />
         </div>
         
+        <div className="u-mb-md">
+          <label className="u-flex u-align-center u-gap-xs u-text-small">
+            <input
+              type="checkbox"
+              checked={applyAssStyleTemplates}
+              onChange={(e) => setApplyAssStyleTemplates(e.target.checked)}
+            />
+            ASSのスタイル名と同名のテンプレートを割り当てる
+          </label>
+        </div>
+        
+        {lyricTracks.length > 1 && (
+          <Select
+            label="読み込み先トラック:"
+            value={lyricsTargetTrackId}
+            onChange={(e) => setLyricsTargetTrackId(e.target.value)}
+          >
+            {lyricTracks.map(track => (
+              <option key={track.id} value={track.id}>{track.name}</option>
+            ))}
+          </Select>
+        )}
+        
         {!engine && (
           <StatusMessage 
             type="warning" 
@@ -421,6 +513,11 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
 
       <hr className="u-divider" />
 
+      {/* 歌詞トラックセクション（デュエット・訳詞など） */}
+      <LyricTrackPanel engine={engine} />
+
+      <hr className="u-divider" />
+
       {/* 音楽セクション */}
       <Section title="音楽データ">
         <div className="u-mb-md">
@@ -537,6 +634,16 @@ const ContentTab: React.FC<ContentTabProps> = ({ engine, onLyricsEditModeToggle
 
       <hr className="u-divider" />
 
+      {/* ビート検出セクション（結果はプロジェクトに保存） */}
+      <BeatDetectionPanel engine={engine} />
+
+      <hr className="u-divider" />
+
+      {/* オーディオ変調セクション（楽曲の音量・帯域エネルギーでパラメータを変化） */}
+      <AudioModulationPanel engine={engine} />
+
+      <hr className="u-divider" />
+
       {/* アスペクト比・向きセクション */}
       <Section title="表示設定">
         <Select
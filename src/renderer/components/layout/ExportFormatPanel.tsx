@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { Engine } from '../../engine/Engine';
+import { ASPECT_RATIO_RESOLUTIONS } from '../../export/video/ResolutionManager';
+import { AspectRatio, Orientation } from '../../types/types';
+import { ExportFormat, sanitizeExportFormatId } from '../../../shared/exportFormats';
+
+interface ExportFormatPanelProps {
+  engine: Engine;
+}
+
+type PresetQuality = 'LOW' | 'MEDIUM' | 'HIGH';
+
+// アスペクト比と向きの組み合わせ（1:1 は横向きのみ）
+const STAGE_OPTIONS: Array<{ aspectRatio: AspectRatio; orientation: Orientation; label: string }> = [
+  { aspectRatio: '16:9', orientation: 'landscape', label: '16:9 横' },
+  { aspectRatio: '16:9', orientation: 'portrait', label: '9:16 縦' },
+  { aspectRatio: '4:3', orientation: 'landscape', label: '4:3 横' },
+  { aspectRatio: '4:3', orientation: 'portrait', label: '3:4 縦' },
+  { aspectRatio: '1:1', orientation: 'landscape', label: '1:1' }
+];
+
+// 上書き値の入力をグローバル値と同じ型に変換
+const parseOverrideValue = (input: string, current: unknown): unknown => {
+  if (typeof current === 'number') {
+    const parsed = parseFloat(input);
+    return Number.isFinite(parsed) ? parsed : current;
+  }
+  if (typeof current === 'boolean') {
+    return input === 'true';
+  }
+  return input;
+};
+
+/**
+ * 一括書き出しフォーマットの編集
+ * フォーマットごとのアスペクト比・解像度と、そのフォーマットでのみ使うグローバルパラメータの上書きを設定する
+ */
+export const ExportFormatPanel: React.FC<ExportFormatPanelProps> = ({ engine }) => {
+  const [formats, setFormats] = useState<ExportFormat[]>(() => engine.getExportFormats());
+  const [newOverrideKeys, setNewOverrideKeys] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setFormats(engine.getExportFormats());
+
+    const handleFormatsUpdated = (event: CustomEvent) => {
+      if (event.detail?.exportFormats) {
+        setFormats(event.detail.exportFormats);
+      }
+    };
+    window.addEventListener('export-formats-updated', handleFormatsUpdated as EventListener);
+    return () => {
+      window.removeEventListener('export-formats-updated', handleFormatsUpdated as EventListener);
+    };
+  }, [engine]);
+
+  const globalParams = engine.getParameterManager().getGlobalDefaults() as unknown as Record<string, unknown>;
+  const parameterKeys = Object.keys(globalParams)
+    .filter(key => ['number', 'string', 'boolean'].includes(typeof globalParams[key]))
+    .sort();
+
+  const updateFormats = (next: ExportFormat[]) => {
+    engine.setExportFormats(next);
+  };
+
+  const updateFormat = (index: number, changes: Partial<ExportFormat>) => {
+    updateFormats(formats.map((format, i) => (i === index ? { ...format, ...changes } : format)));
+  };
+
+  const handleStageChange = (index: number, value: string) => {
+    const option = STAGE_OPTIONS[parseInt(value, 10)];
+    if (!option) return;
+    const preset = ASPECT_RATIO_RESOLUTIONS[option.aspectRatio][option.orientation].MEDIUM;
+    updateFormat(index, {
+      aspectRatio: option.aspectRatio,
+      orientation: option.orientation,
+      width: preset.width,
+      height: preset.height
+    });
+  };
+
+  const handleResolutionChange = (index: number, quality: PresetQuality) => {
+    const format = formats[index];
+    const preset = ASPECT_RATIO_RESOLUTIONS[format.aspectRatio][format.orientation][quality];
+    updateFormat(index, { width: preset.width, height: preset.height });
+  };
+
+  const handleAddFormat = () => {
+    const preset = ASPECT_RATIO_RESOLUTIONS['16:9'].landscape.MEDIUM;
+    updateFormats([
+      ...formats,
+      {
+        id: `format-${formats.length + 1}`,
+        name: `フォーマット${formats.length + 1}`,
+        aspectRatio: '16:9',
+        orientation: 'landscape',
+        width: preset.width,
+        height: preset.height,
+        enabled: true,
+        parameterOverrides: {}
+      }
+    ]);
+  };
+
+  const handleRemoveFormat = (index: number) => {
+    if (!window.confirm(`フォーマット「${formats[index].name}」を削除しますか？`)) return;
+    updateFormats(formats.filter((_, i) => i !== index));
+  };
+
+  // 上書きの追加は現在のグローバル値から始める
+  const handleAddOverride = (index: number) => {
+    const format = formats[index];
+    const selected = newOverrideKeys[format.id];
+    const key = selected && !(selected in format.parameterOverrides)
+      ? selected
+      : parameterKeys.find(item => !(item in format.parameterOverrides));
+    if (!key) return;
+    updateFormat(index, { parameterOverrides: { ...format.parameterOverrides, [key]: globalParams[key] } });
+  };
+
+  const handleOverrideChange = (index: number, key: string, input: string) => {
+    const format = formats[index];
+    const value = parseOverrideValue(input, globalParams[key] ?? format.parameterOverrides[key]);
+    updateFormat(index, { parameterOverrides: { ...format.parameterOverrides, [key]: value } });
+  };
+
+  const handleRemoveOverride = (index: number, key: string) => {
+    const { [key]: _removed, ...rest } = formats[index].parameterOverrides;
+    updateFormat(index, { parameterOverrides: rest });
+  };
+
+  return (
+    <div className="export-formats">
+      <h3>書き出しフォーマット</h3>
+      <div className="render-queue-note">
+        レンダーキューの「フォーマットをまとめて追加」で、有効なフォーマットを同じフォルダに書き出します。
+        パラメータの上書きは個別設定のないフレーズに適用されます。
+      </div>
+
+      {formats.map((format, index) => {
+        const stageIndex = STAGE_OPTIONS.findIndex(option =>
+          option.aspectRatio === format.aspectRatio && option.orientation === format.orientation
+        );
+        const presets = ASPECT_RATIO_RESOLUTIONS[format.aspectRatio][format.orientation];
+        const presetQuality = (['LOW', 'MEDIUM', 'HIGH'] as PresetQuality[]).find(quality =>
+          presets[quality].width === format.width && presets[quality].height === format.height
+        );
+        const availableKeys = parameterKeys.filter(key => !(key in format.parameterOverrides));
+
+        return (
+          <div key={`${index}-${format.id}`} className={`export-format ${format.enabled ? '' : 'disabled'}`}>
+            <div className="export-format-header">
+              <input
+                type="checkbox"
+                checked={format.enabled}
+                onChange={(e) => updateFormat(index, { enabled: e.target.checked })}
+                title="一括書き出しの対象"
+              />
+              <input
+                type="text"
+                value={format.name}
+                onChange={(e) => updateFormat(index, { name: e.target.value })}
+              />
+              <button onClick={() => handleRemoveFormat(index)} title="削除">✕</button>
+            </div>
+
+            <div className="info-item">
+              <span className="label">ID（ファイル名）:</span>
+              <input
+                type="text"
+                value={format.id}
+                onChange={(e) => updateFormat(index, { id: sanitizeExportFormatId(e.target.value) })}
+              />
+            </div>
+            <div className="info-item">
+              <span className="label">アスペクト比:</span>
+              <select value={stageIndex} onChange={(e) => handleStageChange(index, e.target.value)}>
+                {STAGE_OPTIONS.map((option, optionIndex) => (
+                  <option key={option.label} value={optionIndex}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="info-item">
+              <span className="label">解像度:</span>
+              <select
+                value={presetQuality ?? ''}
+                onChange={(e) => handleResolutionChange(index, e.target.value as PresetQuality)}
+              >
+                {!presetQuality && <option value="">{format.width}×{format.height}</option>}
+                {(['LOW', 'MEDIUM', 'HIGH'] as PresetQuality[]).map(quality => (
+                  <option key={quality} value={quality}>{presets[quality].label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* パラメータの上書き */}
+            {Object.entries(format.parameterOverrides).map(([key, value]) => (
+              <div key={key} className="export-format-override">
+                <span className="label">{key}</span>
+                {typeof value === 'boolean' ? (
+                  <select value={String(value)} onChange={(e) => handleOverrideChange(index, key, e.target.value)}>
+                    <option value="true">true</option>
+                    <option value="false">false</option>
+                  </select>
+                ) : (
+                  <input
+                    type={typeof value === 'number' ? 'number' : 'text'}
+                    value={String(value)}
+                    onChange={(e) => handleOverrideChange(index, key, e.target.value)}
+                  />
+                )}
+                <button onClick={() => handleRemoveOverride(index, key)} title="上書きを削除">✕</button>
+              </div>
+            ))}
+            {availableKeys.length > 0 && (
+              <div className="export-format-override">
+                <select
+                  value={newOverrideKeys[format.id] && availableKeys.includes(newOverrideKeys[format.id])
+                    ? newOverrideKeys[format.id]
+                    : availableKeys[0]}
+                  onChange={(e) => setNewOverrideKeys({ ...newOverrideKeys, [format.id]: e.target.value })}
+                >
+                  {availableKeys.map(key => (
+                    <option key={key} value={key}>{key}</option>
+                  ))}
+                </select>
+                <button onClick={() => handleAddOverride(index)} title="パラメータの上書きを追加">＋</button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button className="load-button export-formats-add" onClick={handleAddFormat}>
+        フォーマットを追加
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button, Input, Section, StatusMessage } from '../common';
+import { ProjectSnapshotSummary, SnapshotDiff, SnapshotPhraseDiff } from '../../../types/ProjectSnapshot';
+import Engine from '../../engine/Engine';
+
+interface HistoryPanelProps {
+  engine?: Engine;
+}
+
+interface HistoryEntry {
+  index: number;
+  label: string;
+  timestamp: number;
+}
+
+const STATUS_LABELS: Record<SnapshotPhraseDiff['status'], string> = {
+  added: '追加',
+  removed: '削除',
+  changed: '変更'
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('ja-JP');
+
+// 変更内容の要約（例: "タイミング / パラメータ"）
+const describePhraseDiff = (diff: SnapshotPhraseDiff) => {
+  if (diff.status !== 'changed') {
+    return diff.status === 'added' ? 'スナップショット後に追加' : 'スナップショット後に削除';
+  }
+  return [
+    diff.textChanged && '歌詞',
+    diff.timingChanged && 'タイミング',
+    diff.templateChanged && 'テンプレート',
+    diff.paramsChanged && 'パラメータ'
+  ].filter(Boolean).join(' / ');
+};
+
+/**
+ * 編集履歴・スナップショットパネル
+ * Undo履歴の一覧と、プロジェクトに保存される名前付きスナップショットの作成・比較・復元を行う
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ engine }) => {
+  const [snapshots, setSnapshots] = useState<ProjectSnapshotSummary[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [selectedPhraseIds, setSelectedPhraseIds] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const refreshHistory = useCallback(() => {
+    if (!engine) return;
+    const { history: states, currentIndex } = engine.getUndoRedoHistory();
+    setHistory(states.map((state, index) => ({
+      index,
+      label: state.label || '(ラベルなし)',
+      timestamp: state.timestamp
+    })));
+    setHistoryIndex(currentIndex);
+  }, [engine]);
+
+  useEffect(() => {
+    if (!engine) return;
+    setSnapshots(engine.getSnapshots());
+    refreshHistory();
+
+    const handleSnapshotsUpdated = (event: CustomEvent) => {
+      const updated: ProjectSnapshotSummary[] = event.detail?.snapshots ?? engine.getSnapshots();
+      setSnapshots(updated);
+      // 表示中の差分のスナップショットが削除された場合は閉じる
+      setDiff(prev => (prev && !updated.some(item => item.id === prev.snapshotId) ? null : prev));
+    };
+
+    window.addEventListener('snapshots-updated', handleSnapshotsUpdated as EventListener);
+    window.addEventListener('history-updated', refreshHistory);
+    return () => {
+      window.removeEventListener('snapshots-updated', handleSnapshotsUpdated as EventListener);
+      window.removeEventListener('history-updated', refreshHistory);
+    };
+  }, [engine, refreshHistory]);
+
+  const handleCreate = () => {
+    if (!engine) return;
+    const name = snapshotName.trim() || `スナップショット ${formatTime(Date.now())}`;
+    const created = engine.createSnapshot(name);
+    if (created) {
+      setSnapshotName('');
+      setMessage({ type: 'success', text: `スナップショット「${created.name}」を保存しました` });
+    }
+  };
+
+  const handleRename = (id: string) => {
+    if (!engine) return;
+    if (engine.renameSnapshot(id, editingName)) {
+      setEditingId(null);
+    } else {
+      setMessage({ type: 'error', text: '名前を入力してください' });
+    }
+  };
+
+  const handleDelete = (snapshot: ProjectSnapshotSummary) => {
+    if (!engine || !window.confirm(`スナップショット「${snapshot.name}」を削除しますか？`)) return;
+    engine.deleteSnapshot(snapshot.id);
+  };
+
+  const handleShowDiff = (id: string) => {
+    if (!engine) return;
+    if (diff?.snapshotId === id) {
+      setDiff(null);
+      return;
+    }
+    const result = engine.diffSnapshot(id);
+    setDiff(result);
+    setSelectedPhraseIds(new Set());
+  };
+
+  const handleRestore = (snapshot: ProjectSnapshotSummary, phraseIds?: string[]) => {
+    if (!engine) return;
+    const target = phraseIds ? `選択した${phraseIds.length}フレーズ` : '全体';
+    if (!window.confirm(`スナップショット「${snapshot.name}」の${target}を復元しますか？（元に戻すで取り消せます）`)) return;
+
+    if (engine.restoreSnapshot(snapshot.id, phraseIds)) {
+      setMessage({ type: 'success', text: `スナップショット「${snapshot.name}」の${target}を復元しました` });
+      setDiff(engine.diffSnapshot(snapshot.id));
+      setSelectedPhraseIds(new Set());
+    } else {
+      setMessage({ type: 'error', text: 'スナップショットの復元に失敗しました' });
+    }
+  };
+
+  const togglePhrase = (phraseId: string) => {
+    setSelectedPhraseIds(prev => {
+      const next = new Set(prev);
+      if (next.has(phraseId)) {
+        next.delete(phraseId);
+      } else {
+        next.add(phraseId);
+      }
+      return next;
+    });
+  };
+
+  const renderDiff = (snapshot: ProjectSnapshotSummary) => {
+    if (!diff || diff.snapshotId !== snapshot.id) return null;
+
+    const hasChanges = diff.phrases.length > 0 || diff.globalParamsChanged || diff.defaultTemplateChanged;
+    return (
+      <div className="snapshot-diff u-mt-sm">
+        {!hasChanges && <div className="u-text-small u-text-secondary">現在の状態との差分はありません</div>}
+        {diff.globalParamsChanged && (
+          <div className="u-text-small u-mb-xs">グローバルパラメータが変更されています（全体の復元で戻ります）</div>
+        )}
+        {diff.defaultTemplateChanged && (
+          <div className="u-text-small u-mb-xs">デフォルトテンプレートが変更されています（全体の復元で戻ります）</div>
+        )}
+
+        {diff.phrases.length > 0 && (
+          <>
+            <div className="snapshot-diff-list u-mb-sm">
+              {diff.phrases.map(phrase => (
+                <label key={phrase.phraseId} className="snapshot-diff-item u-text-small">
+                  <input
+                    type="checkbox"
+                    checked={selectedPhraseIds.has(phrase.phraseId)}
+                    onChange={() => togglePhrase(phrase.phraseId)}
+                  />
+                  <span className={`snapshot-diff-status ${phrase.status}`}>{STATUS_LABELS[phrase.status]}</span>
+                  <span className="snapshot-diff-text">{phrase.text}</span>
+                  <span className="u-text-secondary">{describePhraseDiff(phrase)}</span>
+                </label>
+              ))}
+            </div>
+            <div className="u-flex u-gap-sm">
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => setSelectedPhraseIds(new Set(diff.phrases.map(phrase => phrase.phraseId)))}
+              >
+                全選択
+              </Button>
+              <Button
+                variant="warning"
+                size="small"
+                onClick={() => handleRestore(snapshot, Array.from(selectedPhraseIds))}
+                disabled={selectedPhraseIds.size === 0}
+              >
+                選択したフレーズを復元
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Section title="スナップショット">
+        <div className="u-flex u-gap-sm u-mb-md">
+          <Input
+            placeholder="スナップショット名（例: サビ変更前）"
+            value={snapshotName}
+            onChange={e => setSnapshotName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+          />
+          <Button variant="primary" onClick={handleCreate} disabled={!engine}>
+            保存
+          </Button>
+        </div>
+
+        {snapshots.length === 0 && (
+          <div className="u-text-small u-text-secondary u-mb-sm">保存されたスナップショットはありません</div>
+        )}
+
+        {[...snapshots].reverse().map(snapshot => (
+          <div key={snapshot.id} className="u-bg-level-3 u-p-sm u-radius-small u-mb-sm">
+            {editingId === snapshot.id ? (
+              <div className="u-flex u-gap-sm u-mb-xs">
+                <Input
+                  value={editingName}
+                  onChange={e => setEditingName(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleRename(snapshot.id); }}
+                  autoFocus
+                />
+                <Button variant="primary" size="small" onClick={() => handleRename(snapshot.id)}>確定</Button>
+                <Button variant="secondary" size="small" onClick={() => setEditingId(null)}>取消</Button>
+              </div>
+            ) : (
+              <div className="u-mb-xs">
+                <span className="snapshot-name">{snapshot.name}</span>
+                {snapshot.auto && <span className="snapshot-auto-badge">自動</span>}
+              </div>
+            )}
+            <div className="u-text-small u-text-secondary u-mb-xs">
+              {formatTime(snapshot.createdAt)} / {snapshot.phraseCount}フレーズ
+            </div>
+            <div className="u-flex u-gap-sm">
+              <Button variant="info" size="small" onClick={() => handleShowDiff(snapshot.id)}>
+                {diff?.snapshotId === snapshot.id ? '差分を閉じる' : '差分'}
+              </Button>
+              <Button variant="warning" size="small" onClick={() => handleRestore(snapshot)}>
+                全体を復元
+              </Button>
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => { setEditingId(snapshot.id); setEditingName(snapshot.name); }}
+              >
+                名前変更
+              </Button>
+              <Button variant="danger" size="small" onClick={() => handleDelete(snapshot)}>
+                削除
+              </Button>
+            </div>
+            {renderDiff(snapshot)}
+          </div>
+        ))}
+
+        {message && (
+          <StatusMessage
+            type={message.type}
+            message={message.text}
+            onClose={() => setMessage(null)}
+          />
+        )}
+      </Section>
+
+      <hr className="u-divider" />
+
+      <Section title="編集履歴">
+        <div className="u-flex u-gap-sm u-mb-sm">
+          <Button variant="secondary" size="small" onClick={() => engine?.undo()} disabled={!engine?.canUndo()}>
+            元に戻す
+          </Button>
+          <Button variant="secondary" size="small" onClick={() => engine?.redo()} disabled={!engine?.canRedo()}>
+            やり直し
+          </Button>
+        </div>
+        <div className="u-text-small u-text-secondary u-mb-xs">
+          直近{history.length}件（クリックでその時点に移動。移動後に編集すると以降の履歴は自動スナップショットに退避されます）
+        </div>
+        <div className="history-list">
+          {[...history].reverse().map(entry => (
+            <button
+              key={`${entry.index}-${entry.timestamp}`}
+              className={`history-item ${entry.index === historyIndex ? 'current' : ''} ${entry.index > historyIndex ? 'redo' : ''}`}
+              onClick={() => engine?.jumpToHistory(entry.index)}
+            >
+              <span className="history-label">{entry.label}</span>
+              <span className="history-time">{new Date(entry.timestamp).toLocaleTimeString('ja-JP')}</span>
+            </button>
+          ))}
+        </div>
+      </Section>
+    </>
+  );
+};
+
+export default HistoryPanel;
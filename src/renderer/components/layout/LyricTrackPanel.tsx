@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button, Input, Select, Section } from '../common';
+import { LyricTrack, MAIN_LYRIC_TRACK_ID } from '../../../types/LyricTrack';
+import Engine from '../../engine/Engine';
+
+interface LyricTrackPanelProps {
+  engine?: Engine;
+}
+
+/**
+ * 歌詞トラックパネル
+ * デュエット・掛け合い・訳詞などのトラックを追加し、表示位置・重なり順・ミュート/ソロを設定する
+ */
+const LyricTrackPanel: React.FC<LyricTrackPanelProps> = ({ engine }) => {
+  const [tracks, setTracks] = useState<LyricTrack[]>(() => engine?.getLyricTracks() ?? []);
+  const [newTrackName, setNewTrackName] = useState('');
+  const [selectedPhraseIds, setSelectedPhraseIds] = useState<string[]>([]);
+
+  const templates = useMemo(
+    () => engine?.getTemplateManager().getAllTemplates() ?? [],
+    [engine]
+  );
+
+  useEffect(() => {
+    if (engine) {
+      setTracks(engine.getLyricTracks());
+    }
+
+    const handleTracksUpdated = (event: CustomEvent) => {
+      if (event.detail?.lyricTracks) {
+        setTracks(event.detail.lyricTracks);
+      }
+    };
+
+    // タイムラインで選択中のフレーズ（トラック移動用）
+    const handleObjectsSelected = (event: CustomEvent) => {
+      const { objectIds, objectType } = event.detail || {};
+      setSelectedPhraseIds(objectType === 'phrase' && Array.isArray(objectIds) ? objectIds : []);
+    };
+
+    window.addEventListener('lyric-tracks-updated', handleTracksUpdated as EventListener);
+    window.addEventListener('objects-selected', handleObjectsSelected as EventListener);
+    return () => {
+      window.removeEventListener('lyric-tracks-updated', handleTracksUpdated as EventListener);
+      window.removeEventListener('objects-selected', handleObjectsSelected as EventListener);
+    };
+  }, [engine]);
+
+  const handleAdd = () => {
+    if (!engine) return;
+    engine.addLyricTrack(newTrackName);
+    setNewTrackName('');
+  };
+
+  const handleRemove = (track: LyricTrack) => {
+    if (!engine) return;
+    if (!window.confirm(`トラック「${track.name}」を削除しますか？（フレーズはメイントラックに移動します）`)) return;
+    engine.removeLyricTrack(track.id);
+  };
+
+  const updateTrack = (id: string, changes: Partial<Omit<LyricTrack, 'id'>>) => {
+    engine?.updateLyricTrack(id, changes);
+  };
+
+  const parseNumber = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  };
+
+  return (
+    <Section title="歌詞トラック">
+      {tracks.map(track => (
+        <div key={track.id} className="u-bg-level-3 u-p-sm u-radius-small u-mb-sm">
+          <div className="u-flex u-gap-sm u-mb-xs">
+            <Input
+              value={track.name}
+              onChange={e => updateTrack(track.id, { name: e.target.value })}
+            />
+            <Button
+              variant={track.muted ? 'warning' : 'secondary'}
+              size="small"
+              onClick={() => updateTrack(track.id, { muted: !track.muted })}
+              title="ミュート（非表示）"
+            >
+              M
+            </Button>
+            <Button
+              variant={track.solo ? 'success' : 'secondary'}
+              size="small"
+              onClick={() => updateTrack(track.id, { solo: !track.solo })}
+              title="ソロ（このトラックのみ表示）"
+            >
+              S
+            </Button>
+            {track.id !== MAIN_LYRIC_TRACK_ID && (
+              <Button variant="danger" size="small" onClick={() => handleRemove(track)}>
+                削除
+              </Button>
+            )}
+          </div>
+
+          <div className="u-grid u-grid-cols-2 u-gap-md">
+            <Select
+              label="デフォルトテンプレート:"
+              value={track.defaultTemplateId || ''}
+              onChange={e => updateTrack(track.id, { defaultTemplateId: e.target.value || undefined })}
+            >
+              <option value="">プロジェクトのデフォルト</option>
+              {templates.map(({ id, config }) => (
+                <option key={id} value={id}>{config.name || id}</option>
+              ))}
+            </Select>
+            <Input
+              label="重なり順:"
+              type="number"
+              step="1"
+              value={track.zIndex}
+              onChange={e => updateTrack(track.id, { zIndex: Math.round(parseNumber(e.target.value, track.zIndex)) })}
+            />
+            <Input
+              label="オフセットX (px):"
+              type="number"
+              step="10"
+              value={track.offsetX}
+              onChange={e => updateTrack(track.id, { offsetX: parseNumber(e.target.value, track.offsetX) })}
+            />
+            <Input
+              label="オフセットY (px):"
+              type="number"
+              step="10"
+              value={track.offsetY}
+              onChange={e => updateTrack(track.id, { offsetY: parseNumber(e.target.value, track.offsetY) })}
+            />
+          </div>
+
+          {tracks.length > 1 && (
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={() => engine?.movePhrasesToTrack(selectedPhraseIds, track.id)}
+              disabled={selectedPhraseIds.length === 0}
+              title={selectedPhraseIds.length === 0 ? 'タイムラインでフレーズを選択してください' : undefined}
+            >
+              選択中のフレーズ（{selectedPhraseIds.length}）をこのトラックへ移動
+            </Button>
+          )}
+        </div>
+      ))}
+
+      <div className="u-flex u-gap-sm">
+        <Input
+          placeholder="トラック名（例: 訳詞）"
+          value={newTrackName}
+          onChange={e => setNewTrackName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleAdd(); }}
+        />
+        <Button variant="primary" onClick={handleAdd} disabled={!engine}>
+          トラックを追加
+        </Button>
+      </div>
+    </Section>
+  );
+};
+
+export default LyricTrackPanel;
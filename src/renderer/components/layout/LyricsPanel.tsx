@@ -1,5 +1,9 @@
 import React, { useRef, useState } from 'react';
 import Engine from '../../engine/Engine';
+import { LrcImporter } from '../../utils/lyrics/LrcImporter';
+import { AssImporter } from '../../utils/lyrics/AssImporter';
+import { PlainTextImportResult } from '../../utils/lyrics/PlainTextImporter';
+import PlainTextImportDialog from '../PlainTextImportDialog';
 import '../../styles/components.css';
 
 interface LyricsPanelProps {
@@ -11,6 +15,9 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
   const [fileName, setFileName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [segmentWords, setSegmentWords] = useState(false);
+  // プレーンテキスト読み込みダイアログ（貼り付け、または .txt ファイルの内容）
+  const [plainTextImport, setPlainTextImport] = useState<{ text: string; sourceName?: string } | null>(null);
 
 
   // 歌詞データのバリデーション関数
@@ -85,6 +92,17 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
     return true;
   };
 
+  // 拡張子に応じて歌詞ファイルを解析（LRC/ASSはPhraseUnit配列に変換）
+  const parseLyricsFile = (fileName: string, text: string): any => {
+    if (/\.lrc$/i.test(fileName)) {
+      return LrcImporter.parse(text, { segmentWords }).phrases;
+    }
+    if (/\.ass$/i.test(fileName)) {
+      return AssImporter.parse(text, { segmentWords }).phrases;
+    }
+    return JSON.parse(text);
+  };
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = () => {
@@ -97,11 +115,19 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
     const file = event.target.files?.[0];
     
     if (file) {
-      setFileName(file.name);
+      // 同じファイルを続けて選択できるようにする
+      event.target.value = '';
       
       file.text().then(text => {
+        // プレーンテキストは時間範囲などを指定してから読み込む
+        if (/\.txt$/i.test(file.name)) {
+          setPlainTextImport({ text, sourceName: file.name });
+          return;
+        }
+        setFileName(file.name);
+        
         try {
-          const json = JSON.parse(text);
+          const json = parseLyricsFile(file.name, text);
           
           // データバリデーション
           if (!validateLyricsData(json)) {
@@ -135,8 +161,8 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
           }
         } catch (e) {
           const errorMessage = e instanceof Error ? e.message : String(e);
-          setError(`JSONの解析中にエラーが発生しました: ${errorMessage}`);
-          console.error('JSON parse error:', e);
+          setError(`歌詞ファイルの解析中にエラーが発生しました: ${errorMessage}`);
+          console.error('Lyrics file parse error:', e);
           console.error('Error details:', {
             fileName: file.name,
             fileSize: file.size,
@@ -162,6 +188,32 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
   };
 
 
+  // プレーンテキストから作成した歌詞をロード
+  const handlePlainTextImport = (result: PlainTextImportResult, sourceName: string) => {
+    if (!engine) {
+      setError('Engineが初期化されていません。');
+      return;
+    }
+    if (!validateLyricsData(result.phrases)) {
+      return;
+    }
+
+    try {
+      engine.loadLyrics(result.phrases);
+      setPlainTextImport(null);
+      setFileName(sourceName);
+      setError(null);
+      setSuccessMessage(`"${sourceName}" から ${result.phrases.length} フレーズ（${result.sections.length} セクション）を作成しました。`);
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 5000);
+    } catch (engineError) {
+      const errorMessage = engineError instanceof Error ? engineError.message : String(engineError);
+      setError(`歌詞データのロード中にエラーが発生しました: ${errorMessage}`);
+      console.error('Engine.loadLyrics error:', engineError);
+    }
+  };
+
   return (
     <div className="panel-content">
       <h3>歌詞データ</h3>
@@ -186,7 +238,24 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
             fontWeight: 'bold'
           }}
         >
-          JSONファイルを読み込み
+          歌詞ファイルを読み込み (JSON/LRC/ASS/TXT)
+        </button>
+        
+        <button
+          onClick={() => setPlainTextImport({ text: '' })}
+          disabled={!engine}
+          style={{
+            padding: '10px 16px',
+            backgroundColor: engine ? '#555' : '#666',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: engine ? 'pointer' : 'not-allowed',
+            fontSize: '14px',
+            fontWeight: 'bold'
+          }}
+        >
+          テキストを貼り付け
         </button>
         
         <button
@@ -209,12 +278,29 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json"
+          accept=".json,.lrc,.ass,.txt"
           onChange={handleFileChange}
           style={{ display: 'none' }}
         />
       </div>
       
+      {/* 読み込みオプション */}
+      <label style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        marginBottom: '16px',
+        fontSize: '12px',
+        cursor: 'pointer'
+      }}>
+        <input
+          type="checkbox"
+          checked={segmentWords}
+          onChange={(e) => setSegmentWords(e.target.checked)}
+        />
+        単語タイミングのない日本語の行を文節ごとの単語に自動分割
+      </label>
+      
       {/* エンジン未初期化警告 */}
       {!engine && (
         <div style={{ 
@@ -268,6 +354,17 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({ engine, onLyricsEditModeToggl
         </div>
       )}
       
+      
+      <PlainTextImportDialog
+        isOpen={plainTextImport !== null}
+        engine={engine}
+        initialText={plainTextImport?.text}
+        sourceName={plainTextImport?.sourceName}
+        segmentWords={segmentWords}
+        onSegmentWordsChange={setSegmentWords}
+        onImport={handlePlainTextImport}
+        onClose={() => setPlainTextImport(null)}
+      />
     </div>
   );
 };
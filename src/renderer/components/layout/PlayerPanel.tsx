@@ -1,4 +1,6 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
+import Engine from '../../engine/Engine';
+import { LoopRegion, PLAYBACK_RATES } from '../../engine/PlaybackSession';
 import '../../styles/components.css';
 
 interface PlayerPanelProps {
@@ -9,6 +11,7 @@ interface PlayerPanelProps {
   onPause: () => void;
   onReset: () => void;
   onSeek: (value: number) => void;
+  engine?: Engine; // 再生速度・A–Bループの操作用
 }
 
 const PlayerPanel: React.FC<PlayerPanelProps> = ({
@@ -18,8 +21,33 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
   onPlay,
   onPause,
   onReset,
-  onSeek
+  onSeek,
+  engine
 }) => {
+  const [playbackRate, setPlaybackRate] = useState(() => engine?.getPlaybackRate() ?? 1);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(() => engine?.getLoopRegion() ?? null);
+  const [loopEnabled, setLoopEnabled] = useState(() => engine?.isLoopEnabled() ?? false);
+  
+  // 再生速度・ループの変更を監視（タイムライン・波形からの設定、セッションからの復元を含む）
+  useEffect(() => {
+    if (!engine) return;
+    setPlaybackRate(engine.getPlaybackRate());
+    setLoopRegion(engine.getLoopRegion());
+    setLoopEnabled(engine.isLoopEnabled());
+    
+    const handleRateChanged = () => setPlaybackRate(engine.getPlaybackRate());
+    const handleLoopChanged = () => {
+      setLoopRegion(engine.getLoopRegion());
+      setLoopEnabled(engine.isLoopEnabled());
+    };
+    
+    window.addEventListener('playback-rate-changed', handleRateChanged);
+    window.addEventListener('loop-region-changed', handleLoopChanged);
+    return () => {
+      window.removeEventListener('playback-rate-changed', handleRateChanged);
+      window.removeEventListener('loop-region-changed', handleLoopChanged);
+    };
+  }, [engine]);
   
   // シークイベントの監視
   useEffect(() => {
@@ -134,6 +162,52 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
         </button>
       </div>
       
+      {engine && (
+        <div className="playback-session-controls">
+          <select
+            className="playback-rate-select"
+            value={playbackRate}
+            onChange={(e) => engine.setPlaybackRate(parseFloat(e.target.value))}
+            title="再生速度（音程は変わりません）"
+          >
+            {PLAYBACK_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate}x</option>
+            ))}
+          </select>
+          
+          <button
+            className={`control-button loop-button ${loopEnabled ? 'active' : ''}`}
+            onClick={() => engine.setLoopEnabled(!loopEnabled)}
+            disabled={!loopRegion}
+            title={loopRegion
+              ? `A–Bループ ${formatTime(loopRegion.start)} – ${formatTime(loopRegion.end)}（クリックで${loopEnabled ? '無効' : '有効'}化）`
+              : 'A–Bループ（タイムラインの選択範囲、または波形を Shift+ドラッグで設定）'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="20" height="20" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M17 2l4 4-4 4"></path>
+              <path d="M3 11V9a3 3 0 0 1 3-3h15"></path>
+              <path d="M7 22l-4-4 4-4"></path>
+              <path d="M21 13v2a3 3 0 0 1-3 3H3"></path>
+            </svg>
+          </button>
+          
+          {loopRegion && (
+            <>
+              <span className={`loop-range ${loopEnabled ? 'active' : ''}`}>
+                {formatTime(loopRegion.start)} – {formatTime(loopRegion.end)}
+              </span>
+              <button
+                className="loop-clear-button"
+                onClick={() => engine.setLoopRegion(null)}
+                title="ループ範囲を解除"
+              >
+                ×
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      
       <div className="seek-controls">
         <div className="time-display current-time">
           {formatTime(currentTime)}
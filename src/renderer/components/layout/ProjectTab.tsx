@@ -5,7 +5,19 @@ import { DebugEventBus } from '../../utils/DebugEventBus';
 import { ModernVideoExportOptions } from '../../export/video/VideoExporter';
 import { Button, Select, Input, Section, StatusMessage } from '../common';
 import './ProjectTab.css';
-import { WebCodecsLockstepExporter } from '../../export';
+import { VideoExporter, WebCodecsLockstepExporter } from '../../export';
+import {
+  VideoCodec,
+  VideoContainer,
+  VideoPixelFormat,
+  VIDEO_CODECS,
+  VIDEO_CONTAINER_LABELS,
+  VIDEO_CONTAINER_EXTENSIONS,
+  VIDEO_PIXEL_FORMAT_LABELS,
+  DEFAULT_VIDEO_ENCODING,
+  hasAlphaChannel
+} from '../../../shared/videoCodecs';
+import HistoryPanel from './HistoryPanel';
 
 interface ProjectTabProps {
   engine: Engine;
@@ -34,6 +46,9 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
   const [startTime, setStartTime] = useState(0);
   const [endTime, setEndTime] = useState(60000);
   const [includeMusicTrack, setIncludeMusicTrack] = useState(true);
+  const [codec, setCodec] = useState<VideoCodec>(DEFAULT_VIDEO_ENCODING.codec);
+  const [container, setContainer] = useState<VideoContainer>(DEFAULT_VIDEO_ENCODING.container);
+  const [pixelFormat, setPixelFormat] = useState<VideoPixelFormat>(DEFAULT_VIDEO_ENCODING.pixelFormat);
   const [startTimeInput, setStartTimeInput] = useState('00:00.000');
   const [endTimeInput, setEndTimeInput] = useState('03:12.500');
   const [isExporting, setIsExporting] = useState(false);
@@ -46,7 +61,7 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
   const [memoryUsage, setMemoryUsage] = useState<number | undefined>();
   const [exportError, setExportError] = useState<string | null>(null);
   // ロックステップエクスポーター参照（キャンセル対応）
-  const exporterRef = useRef<WebCodecsLockstepExporter | null>(null);
+  const exporterRef = useRef<WebCodecsLockstepExporter | VideoExporter | null>(null);
   // WebCodecsサポート状況（現在の設定に対する）
   const [webcodecsUnsupportedMsg, setWebcodecsUnsupportedMsg] = useState<string | null>(null);
   
@@ -302,9 +317,81 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
   }, [showStatus]);
 
 
-  // 実際のエクスポート処理（ロックステップに一本化）
+  // コーデック変更時はコンテナ・ピクセルフォーマットをコーデックの既定に戻す
+  const handleCodecChange = (nextCodec: VideoCodec) => {
+    setCodec(nextCodec);
+    setContainer(VIDEO_CODECS[nextCodec].containers[0]);
+    setPixelFormat(VIDEO_CODECS[nextCodec].pixelFormats[0]);
+  };
+
+  // WebCodecs のロックステップは H.264/MP4（YUV 4:2:0）専用のため、それ以外は FFmpeg で書き出す
+  const usesLockstep = codec === DEFAULT_VIDEO_ENCODING.codec
+    && container === DEFAULT_VIDEO_ENCODING.container
+    && pixelFormat === DEFAULT_VIDEO_ENCODING.pixelFormat;
+
+  // 実際のエクスポート処理
   const handleExport = async () => {
-    await handleLockstepExport();
+    if (usesLockstep) {
+      await handleLockstepExport();
+    } else {
+      await handleSeekAndSnapExport();
+    }
+  };
+
+  // シークアンドスナップ（FFmpeg）エクスポート（H.264/MP4 以外のコーデック・コンテナ用）
+  const handleSeekAndSnapExport = async () => {
+    const electronAPI = (window as any).electronAPI;
+    if (!electronAPI) {
+      setExportError('Electron APIが利用できません');
+      return;
+    }
+
+    try {
+      const extension = VIDEO_CONTAINER_EXTENSIONS[container];
+      const defaultFileName = `utavista_${new Date().toISOString().replace(/[:.]/g, '-')}${extension ? `.${extension}` : ''}`;
+      const filePath = await electronAPI.showSaveDialogForVideo(defaultFileName);
+      if (!filePath) return; // キャンセル
+
+      setIsExporting(true);
+      setProgress(0);
+      setExportError(null);
+
+      exporterRef.current = engine.videoExporter;
+      const stageConfig = engine.getStageConfig();
+      const outPath = await engine.videoExporter.startSeekAndSnapExport({
+        aspectRatio: stageConfig.aspectRatio,
+        orientation: stageConfig.orientation,
+        quality: 'CUSTOM',
+        customResolution: getCurrentResolution(),
+        videoQuality,
+        fps,
+        fileName: filePath.split(/[/\\]/).pop() || defaultFileName,
+        startTime: useCustomRange ? startTime : 0,
+        endTime: useCustomRange ? endTime : engine.getMaxTime(),
+        includeMusicTrack,
+        outputPath: filePath,
+        codec,
+        container,
+        pixelFormat
+      }, (p) => {
+        setProgress(p.overallProgress);
+        setStepIndex(null); setStepCount(null); setStepName(null); setEtaSeconds(null);
+        setBatchProgress(p.currentBatch && p.totalBatches ? (p.currentBatch / p.totalBatches) * 100 : undefined);
+        setMemoryUsage(p.memoryUsage);
+      });
+
+      if (outPath) {
+        showStatus(`動画を出力しました: ${outPath}`, 'success');
+      }
+    } catch (error) {
+      console.error('Seek and snap export failed:', error);
+      setExportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExporting(false);
+      setBatchProgress(undefined);
+      setMemoryUsage(undefined);
+      exporterRef.current = null;
+    }
   };
 
   // ロックステップ（WebCodecs）高速エクスポート（プロジェクトタブ版・デバッグUI）
@@ -379,7 +466,12 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
   const handleCancelExport = async () => {
     if (!isExporting) return;
     try {
-      exporterRef.current?.cancel();
+      const exporter = exporterRef.current;
+      if (exporter instanceof VideoExporter) {
+        await exporter.cancelExport();
+      } else {
+        exporter?.cancel();
+      }
       setExportError(null);
       showStatus('動画出力をキャンセルしました', 'info');
     } catch (error) {
@@ -585,6 +677,11 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
 
       <hr className="u-divider" />
 
+      {/* スナップショット・編集履歴セクション */}
+      <HistoryPanel engine={engine} />
+
+      <hr className="u-divider" />
+
       {/* 動画出力セクション */}
       <Section title="動画出力">
         <div className="export-settings">
@@ -627,6 +724,44 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
             ))}
           </Select>
 
+          {/* コーデック・コンテナ・ピクセルフォーマット設定 */}
+          <Select 
+            label="コーデック:"
+            value={codec} 
+            onChange={(e) => handleCodecChange(e.target.value as VideoCodec)}
+          >
+            {(Object.keys(VIDEO_CODECS) as VideoCodec[]).map(value => (
+              <option key={value} value={value}>
+                {VIDEO_CODECS[value].label}
+              </option>
+            ))}
+          </Select>
+          <Select 
+            label="コンテナ:"
+            value={container} 
+            onChange={(e) => setContainer(e.target.value as VideoContainer)}
+          >
+            {VIDEO_CODECS[codec].containers.map(value => (
+              <option key={value} value={value}>
+                {VIDEO_CONTAINER_LABELS[value]}
+              </option>
+            ))}
+          </Select>
+          <Select 
+            label="ピクセルフォーマット:"
+            value={pixelFormat} 
+            onChange={(e) => setPixelFormat(e.target.value as VideoPixelFormat)}
+          >
+            {VIDEO_CODECS[codec].pixelFormats.map(value => (
+              <option key={value} value={value}>
+                {VIDEO_PIXEL_FORMAT_LABELS[value]}
+              </option>
+            ))}
+          </Select>
+          {hasAlphaChannel(pixelFormat) && (
+            <div className="u-text-muted">背景は書き出さず、歌詞のみを透過付きで出力します</div>
+          )}
+
           {/* FPS設定 */}
           <Select 
             label="フレームレート:"
@@ -734,7 +869,7 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
 
           {/* エクスポートボタン（進捗の下に配置） */}
           <div className="u-mt-lg">
-            {!isExporting && webcodecsUnsupportedMsg && (
+            {!isExporting && usesLockstep && webcodecsUnsupportedMsg && (
               <div className="export-warning u-mb-sm">{webcodecsUnsupportedMsg}</div>
             )}
             {!isExporting ? (
@@ -743,7 +878,7 @@ const ProjectTab: React.FC<ProjectTabProps> = ({ engine }) => {
                 size="large"
                 fullWidth
                 onClick={handleExport}
-                disabled={!!webcodecsUnsupportedMsg}
+                disabled={usesLockstep && !!webcodecsUnsupportedMsg}
               >
                 動画を出力
               </Button>
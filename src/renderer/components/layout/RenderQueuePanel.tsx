@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Engine } from '../../engine/Engine';
+import { ProjectFileManager } from '../../services/ProjectFileManager';
+import { ASPECT_RATIO_RESOLUTIONS } from '../../export/video/ResolutionManager';
+import { getElectronAPI } from '../../../shared/electronAPI';
+import type { ExportOptions, RenderJobSummary, RenderJobStatus, RenderQueueState } from '../../../shared/types';
+import {
+  VideoCodec,
+  VideoContainer,
+  VideoPixelFormat,
+  VIDEO_CODECS,
+  VIDEO_CONTAINER_LABELS,
+  VIDEO_CONTAINER_EXTENSIONS,
+  VIDEO_PIXEL_FORMAT_LABELS,
+  DEFAULT_VIDEO_ENCODING,
+  hasAlphaChannel
+} from '../../../shared/videoCodecs';
+import { applyExportFormatOverrides, getExportFormatFileName } from '../../../shared/exportFormats';
+
+interface RenderQueuePanelProps {
+  engine: Engine;
+  onStatus: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+type PresetQuality = 'LOW' | 'MEDIUM' | 'HIGH';
+
+const STATUS_LABELS: Record<RenderJobStatus, string> = {
+  queued: '待機中',
+  paused: '一時停止',
+  running: '書き出し中',
+  completed: '完了',
+  failed: '失敗',
+  cancelled: 'キャンセル'
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)}GB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+};
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * レンダーキュー（メインプロセスで順に書き出す複数ジョブ）の表示・操作
+ * ジョブは現在のプロジェクトのスナップショットとして登録される
+ */
+export const RenderQueuePanel: React.FC<RenderQueuePanelProps> = ({ engine, onStatus }) => {
+  const [queueState, setQueueState] = useState<RenderQueueState>({ running: false, jobs: [] });
+  const [presetQuality, setPresetQuality] = useState<PresetQuality>('MEDIUM');
+  const [videoQuality, setVideoQuality] = useState<ExportOptions['videoQuality']>('medium');
+  const [fps, setFps] = useState<24 | 30 | 60>(30);
+  const [includeMusicTrack, setIncludeMusicTrack] = useState(true);
+  const [codec, setCodec] = useState<VideoCodec>(DEFAULT_VIDEO_ENCODING.codec);
+  const [container, setContainer] = useState<VideoContainer>(DEFAULT_VIDEO_ENCODING.container);
+  const [pixelFormat, setPixelFormat] = useState<VideoPixelFormat>(DEFAULT_VIDEO_ENCODING.pixelFormat);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
+  const projectFileManager = useRef<ProjectFileManager>(new ProjectFileManager(engine));
+
+  // キューの状態を購読
+  useEffect(() => {
+    const electronAPI = getElectronAPI();
+    electronAPI.exportQueue.getState().then(setQueueState).catch(error => {
+      console.error('RenderQueuePanel: キュー状態の取得に失敗:', error);
+    });
+    return electronAPI.exportQueue.onUpdated(setQueueState);
+  }, []);
+
+  // 現在のステージ設定に対応する解像度プリセット
+  const { aspectRatio, orientation } = engine.getStageConfig();
+  const presets = ASPECT_RATIO_RESOLUTIONS[aspectRatio][orientation];
+
+  // コーデック変更時はコンテナ・ピクセルフォーマットをコーデックの既定に戻す
+  const handleCodecChange = (nextCodec: VideoCodec) => {
+    setCodec(nextCodec);
+    setContainer(VIDEO_CODECS[nextCodec].containers[0]);
+    setPixelFormat(VIDEO_CODECS[nextCodec].pixelFormats[0]);
+  };
+
+  const runQueueAction = useCallback(async (action: () => Promise<RenderQueueState>) => {
+    try {
+      setQueueState(await action());
+    } catch (error) {
+      console.error('RenderQueuePanel: キュー操作エラー:', error);
+      onStatus(error instanceof Error ? error.message : String(error), 'error');
+    }
+  }, [onStatus]);
+
+  const handleAddJob = useCallback(async () => {
+    const electronAPI = getElectronAPI();
+    const { lyrics } = engine.getTimelineData();
+    if (!lyrics || lyrics.length === 0) {
+      onStatus('書き出す歌詞データがありません', 'error');
+      return;
+    }
+
+    try {
+      const extension = VIDEO_CONTAINER_EXTENSIONS[container];
+      const defaultFileName = `utavista_${new Date().toISOString().replace(/[:.]/g, '-')}${extension ? `.${extension}` : ''}`;
+      const filePath = await electronAPI.showSaveDialogForVideo(defaultFileName);
+      if (!filePath) return; // キャンセル
+
+      let audioPath: string | undefined = undefined;
+      if (includeMusicTrack) {
+        const { electronMediaManager } = await import('../../services/ElectronMediaManager');
+        audioPath = electronMediaManager.getCurrentAudioFilePath() || undefined;
+      }
+
+      const fileName = filePath.split(/[/\\]/).pop() || defaultFileName;
+      const preset = presets[presetQuality];
+      const options: ExportOptions = {
+        aspectRatio,
+        orientation,
+        quality: presetQuality.toLowerCase() as ExportOptions['quality'],
+        videoQuality,
+        fps,
+        fileName,
+        outputDir: filePath.slice(0, filePath.length - fileName.length),
+        startTime: 0,
+        endTime: engine.getMaxTime(),
+        width: preset.width,
+        height: preset.height,
+        includeDebugVisuals: false,
+        audioPath,
+        codec,
+        container,
+        pixelFormat
+      };
+
+      const projectData = projectFileManager.current.getProjectData(fileName.replace(/\.[^.]+$/, ''));
+      await electronAPI.exportQueue.add(projectData, options);
+      onStatus(`キューに追加しました: ${fileName}`, 'success');
+    } catch (error) {
+      console.error('RenderQueuePanel: ジョブ追加エラー:', error);
+      onStatus(`キューへの追加に失敗しました: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }, [engine, presets, presetQuality, videoQuality, fps, includeMusicTrack, codec, container, pixelFormat, aspectRatio, orientation, onStatus]);
+
+  // 有効な書き出しフォーマットごとにジョブを追加
+  // 出力は選択したフォルダに <名前>_<フォーマットID>_<幅>x<高さ>.<拡張子> でまとめて保存する
+  const handleAddFormatJobs = useCallback(async () => {
+    const electronAPI = getElectronAPI();
+    const { lyrics } = engine.getTimelineData();
+    if (!lyrics || lyrics.length === 0) {
+      onStatus('書き出す歌詞データがありません', 'error');
+      return;
+    }
+    const formats = engine.getExportFormats().filter(format => format.enabled);
+    if (formats.length === 0) {
+      onStatus('有効な書き出しフォーマットがありません', 'error');
+      return;
+    }
+
+    try {
+      const extension = VIDEO_CONTAINER_EXTENSIONS[container];
+      const defaultBaseName = `utavista_${new Date().toISOString().replace(/[:.]/g, '-')}`;
+      const filePath = await electronAPI.showSaveDialogForVideo(`${defaultBaseName}${extension ? `.${extension}` : ''}`);
+      if (!filePath) return; // キャンセル
+
+      let audioPath: string | undefined = undefined;
+      if (includeMusicTrack) {
+        const { electronMediaManager } = await import('../../services/ElectronMediaManager');
+        audioPath = electronMediaManager.getCurrentAudioFilePath() || undefined;
+      }
+
+      const selectedName = filePath.split(/[/\\]/).pop() || defaultBaseName;
+      const outputDir = filePath.slice(0, filePath.length - selectedName.length);
+      const baseName = selectedName.replace(/\.[^.]+$/, '');
+      const projectData = projectFileManager.current.getProjectData(baseName);
+
+      for (const format of formats) {
+        const options: ExportOptions = {
+          aspectRatio: format.aspectRatio,
+          orientation: format.orientation,
+          quality: presetQuality.toLowerCase() as ExportOptions['quality'],
+          videoQuality,
+          fps,
+          fileName: getExportFormatFileName(baseName, format, extension),
+          outputDir,
+          startTime: 0,
+          endTime: engine.getMaxTime(),
+          width: format.width,
+          height: format.height,
+          includeDebugVisuals: false,
+          audioPath,
+          codec,
+          container,
+          pixelFormat
+        };
+        await electronAPI.exportQueue.add(
+          applyExportFormatOverrides(projectData, format),
+          options,
+          `${baseName}（${format.name}）`
+        );
+      }
+      onStatus(`${formats.length}件のフォーマットをキューに追加しました: ${outputDir}`, 'success');
+    } catch (error) {
+      console.error('RenderQueuePanel: フォーマット一括追加エラー:', error);
+      onStatus(`キューへの追加に失敗しました: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }, [engine, presetQuality, videoQuality, fps, includeMusicTrack, codec, container, pixelFormat, onStatus]);
+
+  const renderJobActions = (job: RenderJobSummary, index: number) => {
+    const exportQueue = getElectronAPI().exportQueue;
+    const isFinished = job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+    return (
+      <div className="render-job-actions">
+        {(job.status === 'queued' || job.status === 'running') && (
+          <button onClick={() => runQueueAction(() => exportQueue.pause(job.id))} title="一時停止">⏸</button>
+        )}
+        {job.status === 'paused' && (
+          <button onClick={() => runQueueAction(() => exportQueue.resume(job.id))} title="再開">▶</button>
+        )}
+        <button
+          onClick={() => runQueueAction(() => exportQueue.move(job.id, 'up'))}
+          disabled={index === 0}
+          title="上へ"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => runQueueAction(() => exportQueue.move(job.id, 'down'))}
+          disabled={index === queueState.jobs.length - 1}
+          title="下へ"
+        >
+          ↓
+        </button>
+        {isFinished ? (
+          <>
+            <button onClick={() => runQueueAction(() => exportQueue.retry(job.id))} title="再実行">↻</button>
+            <button onClick={() => runQueueAction(() => exportQueue.remove(job.id))} title="削除">✕</button>
+          </>
+        ) : (
+          <button onClick={() => runQueueAction(() => exportQueue.cancel(job.id))} title="キャンセル">■</button>
+        )}
+      </div>
+    );
+  };
+
+  const exportQueue = getElectronAPI().exportQueue;
+  const hasFinishedJobs = queueState.jobs.some(job =>
+    job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled'
+  );
+
+  return (
+    <div className="render-queue">
+      <h3>レンダーキュー</h3>
+
+      {/* ジョブ追加 */}
+      <div className="info-item">
+        <span className="label">解像度 ({aspectRatio} {orientation === 'portrait' ? '縦' : '横'}):</span>
+        <select value={presetQuality} onChange={(e) => setPresetQuality(e.target.value as PresetQuality)}>
+          {(['LOW', 'MEDIUM', 'HIGH'] as PresetQuality[]).map(quality => (
+            <option key={quality} value={quality}>{presets[quality].label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="info-item">
+        <span className="label">動画品質:</span>
+        <select value={videoQuality} onChange={(e) => setVideoQuality(e.target.value as ExportOptions['videoQuality'])}>
+          <option value="low">低 (CRF 28)</option>
+          <option value="medium">中 (CRF 23)</option>
+          <option value="high">高 (CRF 18)</option>
+        </select>
+      </div>
+      <div className="info-item">
+        <span className="label">コーデック:</span>
+        <select value={codec} onChange={(e) => handleCodecChange(e.target.value as VideoCodec)}>
+          {(Object.keys(VIDEO_CODECS) as VideoCodec[]).map(value => (
+            <option key={value} value={value}>{VIDEO_CODECS[value].label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="info-item">
+        <span className="label">コンテナ:</span>
+        <select value={container} onChange={(e) => setContainer(e.target.value as VideoContainer)}>
+          {VIDEO_CODECS[codec].containers.map(value => (
+            <option key={value} value={value}>{VIDEO_CONTAINER_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="info-item">
+        <span className="label">ピクセルフォーマット:</span>
+        <select value={pixelFormat} onChange={(e) => setPixelFormat(e.target.value as VideoPixelFormat)}>
+          {VIDEO_CODECS[codec].pixelFormats.map(value => (
+            <option key={value} value={value}>{VIDEO_PIXEL_FORMAT_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+      {hasAlphaChannel(pixelFormat) && (
+        <div className="render-queue-note">背景は書き出さず、歌詞のみを透過付きで出力します</div>
+      )}
+      <div className="info-item">
+        <span className="label">フレームレート:</span>
+        <select value={fps} onChange={(e) => setFps(parseInt(e.target.value) as 24 | 30 | 60)}>
+          <option value={24}>24 FPS</option>
+          <option value={30}>30 FPS</option>
+          <option value={60}>60 FPS</option>
+        </select>
+      </div>
+      <div className="info-item">
+        <label>
+          <input
+            type="checkbox"
+            checked={includeMusicTrack}
+            onChange={(e) => setIncludeMusicTrack(e.target.checked)}
+          />
+          楽曲を含める
+        </label>
+      </div>
+
+      <div className="render-queue-buttons">
+        <button className="load-button" onClick={handleAddJob}>
+          現在のプロジェクトを追加
+        </button>
+        <button className="load-button" onClick={handleAddFormatJobs} title="書き出しフォーマットの設定で一括追加">
+          フォーマットをまとめて追加
+        </button>
+        {queueState.running ? (
+          <button className="load-button" onClick={() => runQueueAction(() => exportQueue.stop())}>
+            キューを停止
+          </button>
+        ) : (
+          <button
+            className="save-button"
+            onClick={() => runQueueAction(() => exportQueue.start())}
+            disabled={!queueState.jobs.some(job => job.status === 'queued')}
+          >
+            キューを開始
+          </button>
+        )}
+      </div>
+
+      {/* ジョブ一覧 */}
+      {queueState.jobs.length === 0 ? (
+        <div className="render-queue-empty">ジョブはありません</div>
+      ) : (
+        <ul className="render-job-list">
+          {queueState.jobs.map((job, index) => (
+            <li key={job.id} className={`render-job ${job.status}`}>
+              <div className="render-job-header">
+                <button
+                  className="render-job-name"
+                  onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                  title="ログを表示"
+                >
+                  {job.name}
+                </button>
+                <span className="render-job-status">{STATUS_LABELS[job.status]}</span>
+                {renderJobActions(job, index)}
+              </div>
+              <div className="render-job-detail">
+                {job.options.width}×{job.options.height} / {job.options.fps}fps / {job.options.videoQuality}
+                {' / '}{VIDEO_CODECS[job.options.codec ?? DEFAULT_VIDEO_ENCODING.codec].label}
+              </div>
+              {(job.status === 'running' || (job.status === 'paused' && job.progress > 0)) && (
+                <div className="render-job-progress">
+                  <div className="render-job-progress-bar" style={{ width: `${job.progress}%` }} />
+                </div>
+              )}
+              {job.result && (
+                <div className="render-job-result">
+                  {job.result.outputPath}（{formatFileSize(job.result.fileSize)}・{formatElapsed(job.result.elapsedMs)}）
+                </div>
+              )}
+              {job.error && <div className="render-job-error">{job.error}</div>}
+              {expandedJobId === job.id && (
+                <pre className="render-job-log">
+                  {job.log.map(entry =>
+                    `[${new Date(entry.timestamp).toLocaleTimeString('ja-JP')}] ${entry.message}`
+                  ).join('\n')}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasFinishedJobs && (
+        <button className="load-button render-queue-clear" onClick={() => runQueueAction(() => exportQueue.clearFinished())}>
+          終了したジョブを削除
+        </button>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,10 @@ import { Engine } from '../../engine/Engine';
 import { ProjectFileManager } from '../../services/ProjectFileManager';
 import { unifiedFileManager } from '../../services/UnifiedFileManager';
 import { DebugEventBus } from '../../utils/DebugEventBus';
+import { getElectronAPI } from '../../../shared/electronAPI';
+import type { SubtitleFormat } from '../../../shared/subtitleFormats';
+import { RenderQueuePanel } from './RenderQueuePanel';
+import { ExportFormatPanel } from './ExportFormatPanel';
 import './SaveTab.css';
 
 interface SaveTabProps {
@@ -14,6 +18,7 @@ export const SaveTab: React.FC<SaveTabProps> = ({ engine }) => {
   const [status, setStatus] = useState<string>('');
   const [statusType, setStatusType] = useState<'success' | 'error' | 'info'>('info');
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [assKaraokeTag, setAssKaraokeTag] = useState<'k' | 'kf'>('kf');
   
   const projectFileManager = useRef<ProjectFileManager>(new ProjectFileManager(engine));
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -60,6 +65,76 @@ export const SaveTab: React.FC<SaveTabProps> = ({ engine }) => {
     }
   }, [showStatus]);
 
+  // プロジェクトバンドル保存（音声・背景メディア・フォントを同梱）
+  const handleSaveBundle = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { bundlePath, missing } = await projectFileManager.current.saveProjectBundle('project');
+      setLastSaved(new Date().toLocaleString('ja-JP'));
+      if (missing.length > 0) {
+        showStatus(`バンドルを保存しました（見つからない素材: ${missing.join(', ')}）: ${bundlePath}`, 'info');
+      } else {
+        showStatus(`バンドルを保存しました: ${bundlePath}`, 'success');
+      }
+    } catch (error) {
+      if (String(error).includes('cancelled')) {
+        return;
+      }
+      console.error('Bundle save error:', error);
+      showStatus('バンドルの保存に失敗しました', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showStatus]);
+
+  // プロジェクトバンドルを開く
+  const handleOpenBundle = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { missing } = await projectFileManager.current.loadProjectBundle();
+      if (missing.length > 0) {
+        showStatus(`バンドルを読み込みました（見つからない素材: ${missing.join(', ')}）`, 'info');
+      } else {
+        showStatus('バンドルを読み込みました', 'success');
+      }
+    } catch (error) {
+      if (String(error).includes('cancelled')) {
+        return;
+      }
+      console.error('Bundle load error:', error);
+      showStatus('バンドルの読み込みに失敗しました', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showStatus]);
+
+  // 字幕ファイル書き出し（SRT / WebVTT / ASS）
+  const handleExportSubtitles = useCallback(async (format: SubtitleFormat) => {
+    const { lyrics } = engine.getTimelineData();
+    if (!lyrics || lyrics.length === 0) {
+      showStatus('書き出す歌詞データがありません', 'error');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const savedPath = await getElectronAPI().exportSubtitles(format, lyrics, {
+        assKaraokeTag,
+        defaultFileName: 'lyrics'
+      });
+      showStatus(`字幕を書き出しました: ${savedPath}`, 'success');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('cancelled')) {
+        return;
+      }
+      console.error('Subtitle export error:', error);
+      showStatus('字幕の書き出しに失敗しました', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [engine, assKaraokeTag, showStatus]);
+
   // エレクトロン専用のため、ファイル選択は不要
 
   // エレクトロン専用のため、ドラッグ&ドロップは不要
@@ -127,6 +202,74 @@ export const SaveTab: React.FC<SaveTabProps> = ({ engine }) => {
         </div>
       </div>
 
+      {/* プロジェクトバンドル */}
+      <div className="project-bundle">
+        <h3>プロジェクトバンドル</h3>
+        <div className="render-queue-note">
+          音声・背景メディア・追加フォントをプロジェクトと同じフォルダにまとめ、別の環境でもそのまま開けるようにします。
+        </div>
+        <div className="subtitle-export-buttons">
+          <button
+            className="load-button"
+            onClick={handleSaveBundle}
+            disabled={isLoading}
+          >
+            バンドルとして保存
+          </button>
+          <button
+            className="load-button"
+            onClick={handleOpenBundle}
+            disabled={isLoading}
+          >
+            バンドルを開く
+          </button>
+        </div>
+      </div>
+
+      {/* 字幕書き出し */}
+      <div className="subtitle-export">
+        <h3>字幕書き出し</h3>
+        <div className="subtitle-export-buttons">
+          <button
+            className="load-button"
+            onClick={() => handleExportSubtitles('srt')}
+            disabled={isLoading}
+          >
+            SRT
+          </button>
+          <button
+            className="load-button"
+            onClick={() => handleExportSubtitles('vtt')}
+            disabled={isLoading}
+          >
+            WebVTT
+          </button>
+          <button
+            className="load-button"
+            onClick={() => handleExportSubtitles('ass')}
+            disabled={isLoading}
+          >
+            ASS
+          </button>
+        </div>
+        <div className="info-item">
+          <span className="label">ASSカラオケタグ:</span>
+          <select
+            value={assKaraokeTag}
+            onChange={(e) => setAssKaraokeTag(e.target.value as 'k' | 'kf')}
+          >
+            <option value="kf">\kf（ワイプ）</option>
+            <option value="k">\k（一括切替）</option>
+          </select>
+        </div>
+      </div>
+
+      {/* 書き出しフォーマット */}
+      <ExportFormatPanel engine={engine} />
+
+      {/* レンダーキュー */}
+      <RenderQueuePanel engine={engine} onStatus={showStatus} />
+
       {/* ステータス */}
       <div className="status-section">
         {status && (
@@ -3,6 +3,7 @@ import { FontService, FontFamily } from '../../services/FontService';
 import Engine from '../../engine/Engine';
 import FontPickerModal from '../FontPickerModal';
 import TemplateAddModal from '../TemplateAddModal';
+import { UserTemplateService, UserTemplateStatus } from '../../services/UserTemplateService';
 import '../../styles/SettingsTab.css';
 
 interface SettingsTabProps {
@@ -25,6 +26,10 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ engine }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isTemplateAddModalOpen, setIsTemplateAddModalOpen] = useState(false);
+  const [userTemplates, setUserTemplates] = useState<UserTemplateStatus[]>(() => UserTemplateService.getStatuses());
+
+  // ユーザーテンプレートの読み込み状態を購読
+  useEffect(() => UserTemplateService.subscribe(setUserTemplates), []);
 
   // フォント一覧を取得
   useEffect(() => {
@@ -215,6 +220,49 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ engine }) => {
           </div>
         </div>
 
+        <div className="user-template-setting">
+          <h4>ユーザーテンプレート</h4>
+          <p className="setting-description">
+            ユーザーテンプレートフォルダに置いたコンパイル済みの.jsファイルと宣言的テンプレート（.json）を自動で読み込みます。<br />
+            ファイルを更新すると再起動なしで反映されます。
+          </p>
+
+          <div className="user-template-actions">
+            <button className="add-template-button" onClick={() => UserTemplateService.openFolder()}>
+              フォルダを開く
+            </button>
+            <button className="add-template-button" onClick={() => UserTemplateService.loadAll()}>
+              再読み込み
+            </button>
+          </div>
+
+          {userTemplates.length === 0 ? (
+            <p className="template-management-note">ユーザーテンプレートはありません</p>
+          ) : (
+            <ul className="user-template-list">
+              {userTemplates.map(status => (
+                <li key={status.fileName} className={`user-template-item ${status.state}`}>
+                  <div className="user-template-header">
+                    <span className="user-template-name">{status.name || status.fileName}</span>
+                    <span className="user-template-state">
+                      {status.state === 'loaded' ? '読み込み済み' : status.state === 'disabled' ? '無効化' : 'エラー'}
+                    </span>
+                  </div>
+                  <div className="user-template-meta">
+                    {status.fileName}{status.templateId && ` / ${status.templateId}`}
+                  </div>
+                  {status.errors.map((error, index) => (
+                    <div key={`e${index}`} className="user-template-error">{error}</div>
+                  ))}
+                  {status.warnings.map((warning, index) => (
+                    <div key={`w${index}`} className="user-template-warning">{warning}</div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
       </div>
       
       <FontPickerModal
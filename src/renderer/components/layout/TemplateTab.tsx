@@ -2,8 +2,10 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { getAllTemplates, getTemplateById } from '../../templates/registry/templateRegistry';
 import TemplateSelector from '../TemplatePanel/TemplateSelector';
 import ParamEditor from '../ParamEditor/ParamEditor';
+import ParameterPresetPanel from '../ParamEditor/ParameterPresetPanel';
 import Engine from '../../engine/Engine';
 import { IAnimationTemplate } from '../../types/types';
+import type { ParameterPreset } from '../../../shared/types';
 import '../../styles/TemplateTab.css';
 
 interface TemplateTabProps {
@@ -817,6 +819,32 @@ const TemplateTab: React.FC<TemplateTabProps> = ({
     // （updateObjectParams内で既にインスタンス更新が行われているため）
   }, [engine, selectedObjectIds, selectedObjectType]);
   
+  // プリセット適用後の表示同期（テンプレート・個別設定・パラメータ）
+  const handlePresetApplied = useCallback((preset: ParameterPreset, phraseIds: string[]) => {
+    if (!engine) return;
+    
+    const newMap = new Map(state.selectionTemplateMap);
+    phraseIds.forEach(id => newMap.set(id, preset.templateId));
+    updateState({
+      selectionTemplateMap: newMap,
+      hasMixedTemplates: false,
+      selectedPhraseTemplateId: preset.templateId,
+      useIndividualSettings: true
+    });
+    
+    if (selectedObjectIds.length > 0) {
+      setObjectParams(engine.parameterManager.getParameters(selectedObjectIds[0]));
+    }
+    
+    // タイムラインマーカーの色変更をトリガー（フレーズIDで通知）
+    window.dispatchEvent(new CustomEvent('individual-settings-enabled', {
+      detail: {
+        objectIds: phraseIds,
+        objectType: 'phrase'
+      }
+    }));
+  }, [engine, selectedObjectIds, state.selectionTemplateMap, updateState]);
+  
   // フォント更新のためのリロード状態
   const [fontReloadTrigger, setFontReloadTrigger] = useState(0);
   
@@ -1299,6 +1327,17 @@ const TemplateTab: React.FC<TemplateTabProps> = ({
                 onChange={handleGlobalParamChange}
               />
               
+              {engine && (
+                <ParameterPresetPanel
+                  engine={engine}
+                  templateId={selectedTemplate}
+                  params={state.globalParams}
+                  paramConfig={getTemplateParamConfig(selectedTemplate)}
+                  selectedObjectIds={selectedObjectIds}
+                  onApplied={handlePresetApplied}
+                />
+              )}
+              
               {/* 全個別設定強制クリアセクション */}
               <div className="force-clean-section">
                 <h4>システムメンテナンス</h4>
@@ -1415,6 +1454,17 @@ const TemplateTab: React.FC<TemplateTabProps> = ({
                 disabled={state.hasMixedTemplates}
               />
             )}
+            
+            {engine && (
+              <ParameterPresetPanel
+                engine={engine}
+                templateId={getCurrentTemplateId()}
+                params={objectParams}
+                paramConfig={getTemplateParamConfig(getCurrentTemplateId())}
+                selectedObjectIds={selectedObjectIds}
+                onApplied={handlePresetApplied}
+              />
+            )}
           </div>
         </div>
       )}
@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
 import HierarchicalMarker from '../timeline/HierarchicalMarker';
+import KeyframeLane from '../timeline/KeyframeLane';
+import BeatMarkers from '../timeline/BeatMarkers';
 import WaveformPanel from './WaveformPanel';
 import { PhraseUnit, WordUnit, CharUnit, IAnimationTemplate } from '../../types/types';
 import { MarkerLevel, SelectionState } from '../timeline/types/HierarchicalMarkerTypes';
@@ -7,11 +9,28 @@ import { getMarkerLevel, getParentObjectId, MIN_DURATIONS, calculateBlockConstra
 import { getCurrentTimeMarkerStyle, getTimeIndicatorStyle, getDragSelectionStyle } from '../timeline/MarkerStyles';
 import Engine from '../../engine/Engine';
 import { ViewportManager } from '../../utils/ViewportManager';
+import { KeyframeEvaluator } from '../../utils/KeyframeEvaluator';
+import { StandardParameters } from '../../../types/StandardParameters';
+import { BeatGrid, BeatSnapMode } from '../../../types/BeatGrid';
+import { BeatGridSnapper } from '../../utils/BeatGridSnapper';
+import { LyricTrack } from '../../../types/LyricTrack';
+import { LyricTrackUtils } from '../../utils/LyricTrackUtils';
 import '../../styles/components.css';
 
+// 2つ目以降の歌詞トラックで増える行グループの高さ（フレーズ・単語・文字の3行）
+const TRACK_GROUP_HEIGHT = 48;
+
 // ズームレベルの定義（ピクセル密度: ms per pixel）
 const ZOOM_LEVELS = [50, 20, 10, 5, 2]; // 50ms/px から 2ms/px まで
 
+// ビートスナップの選択肢
+const BEAT_SNAP_MODES: Array<{ value: BeatSnapMode; label: string }> = [
+  { value: 'off', label: 'スナップなし' },
+  { value: 'beat', label: 'ビート' },
+  { value: 'halfBeat', label: '半拍' },
+  { value: 'bar', label: '小節' }
+];
+
 interface TimelinePanelProps {
   currentTime: number;
   totalDuration: number;
@@ -36,9 +55,31 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
   const timelineAreaRef = useRef<HTMLDivElement>(null);
   const [lyrics, setLyrics] = useState<PhraseUnit[]>([]);
+  const [lyricTracks, setLyricTracks] = useState<LyricTrack[]>(() => engine?.getLyricTracks() ?? []);
+  // キーフレームレーンに表示するパラメータ
+  const [keyframeParameter, setKeyframeParameter] = useState<keyof StandardParameters>('fontSize');
+  const keyframeableParameters = useMemo(() => KeyframeEvaluator.getKeyframeableParameters(), []);
   const [width, setWidth] = useState(800);
   const [localDuration, setLocalDuration] = useState(totalDuration || 10000);
   
+  // 歌詞トラックごとのフレーズ（トラック未設定時はメイントラックのみ）
+  const trackGroups = useMemo(() => {
+    const tracks = lyricTracks.length > 0 ? lyricTracks : [LyricTrackUtils.createMainTrack()];
+    return tracks.map(track => ({
+      track,
+      phrases: lyrics.filter(phrase => LyricTrackUtils.resolveTrackId(phrase, tracks) === track.id)
+    }));
+  }, [lyrics, lyricTracks]);
+  
+  // ビートグリッドとスナップ設定（許容範囲はズームに依存しないようピクセルで指定）
+  const [beatGrid, setBeatGrid] = useState<BeatGrid | null>(() => engine?.getBeatGrid() ?? null);
+  const [beatSnapMode, setBeatSnapMode] = useState<BeatSnapMode>('off');
+  const [snapTolerancePx, setSnapTolerancePx] = useState(8);
+  const beatSnapPoints = useMemo(
+    () => BeatGridSnapper.getSnapPoints(beatGrid, beatSnapMode),
+    [beatGrid, beatSnapMode]
+  );
+  
   // 選択状態管理
   const [selectionState, setSelectionState] = useState<SelectionState>({
     selectedIds: [],
@@ -105,6 +146,21 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
   
   const timelineWidth = Math.max(width, duration / msPerPixel);
   
+  /**
+   * ドラッグ量をビートグリッドにスナップ（スナップ対象がない場合はそのまま）
+   */
+  const snapDelta = (
+    start: number,
+    end: number,
+    deltaMs: number,
+    operationType: 'move' | 'resizeLeft' | 'resizeRight'
+  ): number => {
+    if (beatSnapPoints.length === 0) {
+      return deltaMs;
+    }
+    return BeatGridSnapper.snapDelta(start, end, deltaMs, operationType, beatSnapPoints, snapTolerancePx * msPerPixel);
+  };
+  
   // viewStartが変更されたときに実際のスクロール位置を更新
   useEffect(() => {
     if (timelineAreaRef.current && externalViewStart !== undefined && msPerPixel > 0) {
@@ -334,9 +390,22 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
     dragState.isLocked = true;
     dragState.lastUpdateTime = now;
 
+    // ビートグリッドへのスナップ（選択ブロック全体の端を基準にする）
+    const blockPositions = dragState.selectedIds
+      .map(id => dragState.initialPositions.get(id))
+      .filter((pos): pos is { start: number; end: number } => pos !== undefined);
+    const snappedDeltaMs = blockPositions.length > 0
+      ? snapDelta(
+          Math.min(...blockPositions.map(pos => pos.start)),
+          Math.max(...blockPositions.map(pos => pos.end)),
+          deltaMs,
+          operationType
+        )
+      : deltaMs;
+
     // ❗重要: 累積移動量の更新（deltaMs の増分分だけ加算）
-    const deltaMsIncrement = deltaMs - dragState.totalDeltaMs;
-    dragState.totalDeltaMs = deltaMs;
+    const deltaMsIncrement = snappedDeltaMs - dragState.totalDeltaMs;
+    dragState.totalDeltaMs = snappedDeltaMs;
 
     // デバッグログ（詳細版）
 
@@ -893,6 +962,20 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
     return markers;
   };
 
+  /**
+   * 選択中のマーカー全体の範囲をA–Bループに設定する
+   */
+  const handleSetLoopFromSelection = () => {
+    if (!engine || !selectionState.selectedLevel) return;
+    const selectedMarkers = getSelectedMarkersData(lyrics, selectionState.selectedIds, selectionState.selectedLevel);
+    if (selectedMarkers.length === 0) return;
+    
+    engine.setLoopRegion({
+      start: Math.min(...selectedMarkers.map(marker => marker.start)),
+      end: Math.max(...selectedMarkers.map(marker => marker.end))
+    });
+  };
+
   /**
    * マーカー更新ハンドラー（単一選択時）
    */
@@ -972,6 +1055,37 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
     return () => observer.disconnect();
   }, []);
 
+  // ビートグリッドの変更を反映（検出・小節設定の変更・プロジェクト読み込み）
+  useEffect(() => {
+    setBeatGrid(engine?.getBeatGrid() ?? null);
+    
+    const handleBeatGridUpdated = (event: CustomEvent) => {
+      setBeatGrid(event.detail?.beatGrid ?? null);
+    };
+    
+    window.addEventListener('beat-grid-updated', handleBeatGridUpdated as EventListener);
+    return () => {
+      window.removeEventListener('beat-grid-updated', handleBeatGridUpdated as EventListener);
+    };
+  }, [engine]);
+
+  // 歌詞トラックの変更を反映
+  useEffect(() => {
+    if (!engine) return;
+    setLyricTracks(engine.getLyricTracks());
+    
+    const handleLyricTracksUpdated = (event: CustomEvent) => {
+      if (event.detail?.lyricTracks) {
+        setLyricTracks(event.detail.lyricTracks);
+      }
+    };
+    
+    window.addEventListener('lyric-tracks-updated', handleLyricTracksUpdated as EventListener);
+    return () => {
+      window.removeEventListener('lyric-tracks-updated', handleLyricTracksUpdated as EventListener);
+    };
+  }, [engine]);
+
   // 歌詞データの読み込み
   useEffect(() => {
     if (engine) {
@@ -1230,12 +1344,12 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
         return;
       }
       
-      // 各行の要素を取得
-      const phraseRowElement = timelineAreaRef.current?.querySelector('.phrase-row');
-      const wordRowElement = timelineAreaRef.current?.querySelector('.word-row');
-      const charRowElement = timelineAreaRef.current?.querySelector('.char-row');
+      // 各行の要素を取得（歌詞トラックごとにフレーズ・単語・文字の行がある）
+      const rowElements = Array.from(
+        timelineAreaRef.current?.querySelectorAll<HTMLElement>('.row[data-level]') ?? []
+      );
       
-      if (!phraseRowElement || !wordRowElement || !charRowElement) {
+      if (rowElements.length === 0) {
         console.error('行要素が見つかりません');
         setIsDragSelecting(false);
         return;
@@ -1245,35 +1359,31 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
       const timelineTop = timelineAreaRef.current!.offsetTop;
       const scrollTop = timelineAreaRef.current!.scrollTop;
       
-      const phraseRowTop = (phraseRowElement as HTMLElement).offsetTop - timelineTop + scrollTop;
-      const phraseRowBottom = phraseRowTop + (phraseRowElement as HTMLElement).offsetHeight;
-      
-      const wordRowTop = (wordRowElement as HTMLElement).offsetTop - timelineTop + scrollTop;
-      const wordRowBottom = wordRowTop + (wordRowElement as HTMLElement).offsetHeight;
-      
-      const charRowTop = (charRowElement as HTMLElement).offsetTop - timelineTop + scrollTop;
-      const charRowBottom = charRowTop + (charRowElement as HTMLElement).offsetHeight;
-      
       // ドラッグ範囲の重心を計算
       const centerY = (minY + maxY) / 2;
       
       // 重心がどの行にあるかで排他的に判定
       let targetLevel: MarkerLevel | null = null;
+      let targetTrackId: string | null = null;
       
-      if (centerY >= phraseRowTop && centerY <= phraseRowBottom) {
-        targetLevel = 'phrase';
-      } else if (centerY >= wordRowTop && centerY <= wordRowBottom) {
-        targetLevel = 'word';
-      } else if (centerY >= charRowTop && centerY <= charRowBottom) {
-        targetLevel = 'char';
+      for (const rowElement of rowElements) {
+        const rowTop = rowElement.offsetTop - timelineTop + scrollTop;
+        const rowBottom = rowTop + rowElement.offsetHeight;
+        if (centerY >= rowTop && centerY <= rowBottom) {
+          targetLevel = rowElement.dataset.level as MarkerLevel;
+          targetTrackId = rowElement.dataset.trackId ?? null;
+          break;
+        }
       }
       
+      // 判定された行のトラックに属するフレーズのみを対象にする
+      const targetPhrases = trackGroups.find(group => group.track.id === targetTrackId)?.phrases ?? lyrics;
       
       let selectedIds: string[] = [];
       
       // 判定された行に基づいて選択処理
       if (targetLevel === 'phrase') {
-        const selectedPhrasesInRange = lyrics.filter(phrase => {
+        const selectedPhrasesInRange = targetPhrases.filter(phrase => {
           const phraseStartX = (phrase.start / duration) * timelineWidth;
           const phraseEndX = (phrase.end / duration) * timelineWidth;
           
@@ -1284,7 +1394,7 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
         selectedIds = selectedPhrasesInRange.map(p => p.id);
         
       } else if (targetLevel === 'word') {
-        const selectedWordsInRange = lyrics.flatMap(phrase => 
+        const selectedWordsInRange = targetPhrases.flatMap(phrase => 
           phrase.words.filter(word => {
             const wordStartX = (word.start / duration) * timelineWidth;
             const wordEndX = (word.end / duration) * timelineWidth;
@@ -1296,7 +1406,7 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
         selectedIds = selectedWordsInRange.map(w => w.id);
         
       } else if (targetLevel === 'char') {
-        const selectedCharsInRange = lyrics.flatMap(phrase => 
+        const selectedCharsInRange = targetPhrases.flatMap(phrase => 
           phrase.words.flatMap(word => 
             word.chars.filter(char => {
               const charStartX = (char.start / duration) * timelineWidth;
@@ -1363,10 +1473,62 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
       <div className="timeline-container">
         {/* 左側の固定ラベル領域 */}
         <div className="timeline-labels">
-          <div className="label-item waveform-label">波形</div>
-          <div className="label-item phrase-label">フレーズ</div>
-          <div className="label-item word-label">単語</div>
-          <div className="label-item char-label">文字</div>
+          <div className="label-item waveform-label">
+            <span>波形</span>
+            <select
+              value={beatSnapMode}
+              onChange={e => setBeatSnapMode(e.target.value as BeatSnapMode)}
+              disabled={!beatGrid}
+              title={beatGrid ? 'マーカー操作のスナップ先' : 'ビート検出後にスナップできます'}
+            >
+              {BEAT_SNAP_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+            <div className="waveform-label-row">
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={snapTolerancePx}
+                onChange={e => setSnapTolerancePx(Math.max(1, parseInt(e.target.value) || 1))}
+                disabled={!beatGrid || beatSnapMode === 'off'}
+                title="スナップの許容範囲（px）"
+              />
+              <button
+                onClick={handleSetLoopFromSelection}
+                disabled={!engine || selectionState.selectedIds.length === 0}
+                title="選択中のマーカーの範囲をA–Bループに設定"
+              >
+                A–B
+              </button>
+            </div>
+          </div>
+          {trackGroups.map(({ track }, groupIndex) => (
+            <React.Fragment key={track.id}>
+              <div
+                className={`label-item phrase-label ${LyricTrackUtils.isAudible(track, lyricTracks) ? '' : 'track-hidden'}`}
+                title={trackGroups.length > 1 ? `トラック: ${track.name}` : undefined}
+              >
+                {trackGroups.length > 1 ? track.name || 'フレーズ' : 'フレーズ'}
+              </div>
+              {groupIndex === 0 && (
+                <div className="label-item keyframe-label">
+                  <select
+                    value={keyframeParameter}
+                    onChange={e => setKeyframeParameter(e.target.value as keyof StandardParameters)}
+                    title="キーフレームを表示するパラメータ"
+                  >
+                    {keyframeableParameters.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="label-item word-label">単語</div>
+              <div className="label-item char-label">文字</div>
+            </React.Fragment>
+          ))}
         </div>
         
         {/* 右側のスクロール可能タイムライン領域 */}
@@ -1398,7 +1560,14 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
             lastOperationRef.current = null;
           }}
         >
-          <div className="timeline-content" style={{ width: `${timelineWidth}px`, position: 'relative' }}>
+          <div
+            className="timeline-content"
+            style={{
+              width: `${timelineWidth}px`,
+              position: 'relative',
+              height: `${176 + (trackGroups.length - 1) * TRACK_GROUP_HEIGHT}px`
+            }}
+          >
           {/* 波形表示 */}
           <div className="waveform-wrapper">
             <WaveformPanel 
@@ -1411,6 +1580,19 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
             />
           </div>
           
+          {/* ビートマーカー（小節頭を強調） */}
+          {beatGrid && (
+            <BeatMarkers
+              beats={beatGrid.beats}
+              duration={duration}
+              timelineWidth={timelineWidth}
+              msPerPixel={msPerPixel}
+              currentTime={currentTime}
+              beatsPerBar={beatGrid.beatsPerBar}
+              barOffset={beatGrid.barOffset}
+            />
+          )}
+          
           {/* 現在時間のマーカー */}
           <div 
             className="current-time-marker"
@@ -1420,172 +1602,191 @@ const TimelinePanel: React.FC<TimelinePanelProps> = ({
             }}
           />
           
-          {/* フレーズ行 */}
-          <div className="row phrase-row">
-            {lyrics.map(phrase => {
-              const isSelected = selectionState.selectedIds.includes(phrase.id) && selectionState.selectedLevel === 'phrase';
-              const isMultiSelected = selectionState.selectedIds.length > 1 && selectionState.selectedLevel === 'phrase' && isSelected;
-              
-              // 複数選択時の左端・右端マーカー判定
-              let isLeftOuterMarker = false;
-              let isRightOuterMarker = false;
-              
-              if (isMultiSelected) {
-                const selectedPhrases = lyrics.filter(p => selectionState.selectedIds.includes(p.id));
-                const leftmostPhrase = selectedPhrases.reduce((prev, curr) => 
-                  prev.start < curr.start ? prev : curr
-                );
-                const rightmostPhrase = selectedPhrases.reduce((prev, curr) => 
-                  prev.end > curr.end ? prev : curr
-                );
-                
-                isLeftOuterMarker = phrase.id === leftmostPhrase.id;
-                isRightOuterMarker = phrase.id === rightmostPhrase.id;
-              }
-              
-              // V2統一管理で個別設定状態を取得
-              const isActivated = engine?.parameterManager?.isIndividualSettingEnabled?.(phrase.id) || false;
+          {/* 歌詞トラックごとの行グループ */}
+          {trackGroups.map(({ track, phrases }, groupIndex) => (
+            <React.Fragment key={track.id}>
+              {/* フレーズ行 */}
+              <div className="row phrase-row" data-level="phrase" data-track-id={track.id}>
+                {phrases.map(phrase => {
+                  const isSelected = selectionState.selectedIds.includes(phrase.id) && selectionState.selectedLevel === 'phrase';
+                  const isMultiSelected = selectionState.selectedIds.length > 1 && selectionState.selectedLevel === 'phrase' && isSelected;
               
-              return (
-                <HierarchicalMarker
-                  key={phrase.id}
-                  unit={phrase}
-                  level="phrase"
-                  duration={duration}
-                  timelineWidth={timelineWidth}
-                  msPerPixel={msPerPixel}
-                  isSelected={isSelected}
-                  multiSelected={isMultiSelected}
-                  isLeftOuterMarker={isLeftOuterMarker}
-                  isRightOuterMarker={isRightOuterMarker}
-                  isActivated={isActivated}
-                  onUpdate={handleMarkerUpdate('phrase')}
-                  onMultiUpdate={handleMultiUpdate}
-                  onSelectionChange={handleSelectionChange}
-                  onDragStart={handleDragStart}
-                />
-              );
-            })}
-          </div>
-          
-          {/* 単語行 */}
-          <div className="row word-row">
-            {lyrics.flatMap(phrase =>
-              phrase.words.map(word => {
-                const parentConstraints = {
-                  minDuration: 100,
-                  parentStart: phrase.start,
-                  parentEnd: phrase.end
-                };
-                
-                const isSelected = selectionState.selectedIds.includes(word.id) && selectionState.selectedLevel === 'word';
-                const isMultiSelected = selectionState.selectedIds.length > 1 && selectionState.selectedLevel === 'word' && isSelected;
-                
-                // 複数選択時の左端・右端マーカー判定
-                let isLeftOuterMarker = false;
-                let isRightOuterMarker = false;
-                
-                if (isMultiSelected) {
-                  const selectedWords = lyrics.flatMap(p => p.words)
-                    .filter(w => selectionState.selectedIds.includes(w.id));
-                  const leftmostWord = selectedWords.reduce((prev, curr) => 
-                    prev.start < curr.start ? prev : curr
-                  );
-                  const rightmostWord = selectedWords.reduce((prev, curr) => 
-                    prev.end > curr.end ? prev : curr
-                  );
-                  
-                  isLeftOuterMarker = word.id === leftmostWord.id;
-                  isRightOuterMarker = word.id === rightmostWord.id;
-                }
-                
-                // V2統一管理で個別設定状態を取得（単語はフレーズの状態を継承）
-                const isActivated = engine?.parameterManager?.isIndividualSettingEnabled?.(phrase.id) || false;
-                
-                return (
-                  <HierarchicalMarker
-                    key={word.id}
-                    unit={word}
-                    level="word"
-                    duration={duration}
-                    timelineWidth={timelineWidth}
-                    msPerPixel={msPerPixel}
-                    parentConstraints={parentConstraints}
-                    isSelected={isSelected}
-                    multiSelected={isMultiSelected}
-                    isLeftOuterMarker={isLeftOuterMarker}
-                    isRightOuterMarker={isRightOuterMarker}
-                    isActivated={isActivated}
-                    onUpdate={handleMarkerUpdate('word')}
-                    onMultiUpdate={handleMultiUpdate}
-                    onSelectionChange={handleSelectionChange}
-                    onDragStart={handleDragStart}
-                  />
-                );
-              })
-            )}
-          </div>
-          
-          {/* 文字行 */}
-          <div className="row char-row">
-            {lyrics.flatMap(phrase =>
-              phrase.words.flatMap(word =>
-                word.chars.map(char => {
-                  const parentConstraints = {
-                    minDuration: 50,
-                    parentStart: word.start,
-                    parentEnd: word.end
-                  };
-                  
-                  const isSelected = selectionState.selectedIds.includes(char.id) && selectionState.selectedLevel === 'char';
-                  const isMultiSelected = selectionState.selectedIds.length > 1 && selectionState.selectedLevel === 'char' && isSelected;
-                  
                   // 複数選択時の左端・右端マーカー判定
                   let isLeftOuterMarker = false;
                   let isRightOuterMarker = false;
-                  
+              
                   if (isMultiSelected) {
-                    const selectedChars = lyrics.flatMap(p => 
-                      p.words.flatMap(w => w.chars)
-                    ).filter(c => selectionState.selectedIds.includes(c.id));
-                    const leftmostChar = selectedChars.reduce((prev, curr) => 
+                    const selectedPhrases = lyrics.filter(p => selectionState.selectedIds.includes(p.id));
+                    const leftmostPhrase = selectedPhrases.reduce((prev, curr) => 
                       prev.start < curr.start ? prev : curr
                     );
-                    const rightmostChar = selectedChars.reduce((prev, curr) => 
+                    const rightmostPhrase = selectedPhrases.reduce((prev, curr) => 
                       prev.end > curr.end ? prev : curr
                     );
-                    
-                    isLeftOuterMarker = char.id === leftmostChar.id;
-                    isRightOuterMarker = char.id === rightmostChar.id;
+                
+                    isLeftOuterMarker = phrase.id === leftmostPhrase.id;
+                    isRightOuterMarker = phrase.id === rightmostPhrase.id;
                   }
-                  
-                  // V2統一管理で個別設定状態を取得（文字はフレーズの状態を継承）
+              
+                  // V2統一管理で個別設定状態を取得
                   const isActivated = engine?.parameterManager?.isIndividualSettingEnabled?.(phrase.id) || false;
-                  
+              
                   return (
                     <HierarchicalMarker
-                      key={char.id}
-                      unit={char}
-                      level="char"
+                      key={phrase.id}
+                      unit={phrase}
+                      level="phrase"
                       duration={duration}
                       timelineWidth={timelineWidth}
                       msPerPixel={msPerPixel}
-                      parentConstraints={parentConstraints}
                       isSelected={isSelected}
                       multiSelected={isMultiSelected}
                       isLeftOuterMarker={isLeftOuterMarker}
                       isRightOuterMarker={isRightOuterMarker}
                       isActivated={isActivated}
-                      onUpdate={handleMarkerUpdate('char')}
+                      onUpdate={handleMarkerUpdate('phrase')}
                       onMultiUpdate={handleMultiUpdate}
                       onSelectionChange={handleSelectionChange}
                       onDragStart={handleDragStart}
+                      snapDelta={snapDelta}
                     />
                   );
-                })
-              )
-            )}
-          </div>
+                })}
+              </div>
+          
+              {/* キーフレーム行（先頭トラックのフレーズ行の下に1つだけ表示） */}
+              {groupIndex === 0 && (
+                <KeyframeLane
+                  engine={engine}
+                  lyrics={lyrics}
+                  parameterName={keyframeParameter}
+                  msPerPixel={msPerPixel}
+                />
+              )}
+          
+              {/* 単語行 */}
+              <div className="row word-row" data-level="word" data-track-id={track.id}>
+                {phrases.flatMap(phrase =>
+                  phrase.words.map(word => {
+                    const parentConstraints = {
+                      minDuration: 100,
+                      parentStart: phrase.start,
+                      parentEnd: phrase.end
+                    };
+                
+                    const isSelected = selectionState.selectedIds.includes(word.id) && selectionState.selectedLevel === 'word';
+                    const isMultiSelected = selectionState.selectedIds.length > 1 && selectionState.selectedLevel === 'word' && isSelected;
+                
+                    // 複数選択時の左端・右端マーカー判定
+                    let isLeftOuterMarker = false;
+                    let isRightOuterMarker = false;
+                
+                    if (isMultiSelected) {
+                      const selectedWords = lyrics.flatMap(p => p.words)
+                        .filter(w => selectionState.selectedIds.includes(w.id));
+                      const leftmostWord = selectedWords.reduce((prev, curr) => 
+                        prev.start < curr.start ? prev : curr
+                      );
+                      const rightmostWord = selectedWords.reduce((prev, curr) => 
+                        prev.end > curr.end ? prev : curr
+                      );
+                  
+                      isLeftOuterMarker = word.id === leftmostWord.id;
+                      isRightOuterMarker = word.id === rightmostWord.id;
+                    }
+                
+                    // V2統一管理で個別設定状態を取得（単語はフレーズの状態を継承）
+                    const isActivated = engine?.parameterManager?.isIndividualSettingEnabled?.(phrase.id) || false;
+                
+                    return (
+                      <HierarchicalMarker
+                        key={word.id}
+                        unit={word}
+                        level="word"
+                        duration={duration}
+                        timelineWidth={timelineWidth}
+                        msPerPixel={msPerPixel}
+                        parentConstraints={parentConstraints}
+                        isSelected={isSelected}
+                        multiSelected={isMultiSelected}
+                        isLeftOuterMarker={isLeftOuterMarker}
+                        isRightOuterMarker={isRightOuterMarker}
+                        isActivated={isActivated}
+                        onUpdate={handleMarkerUpdate('word')}
+                        onMultiUpdate={handleMultiUpdate}
+                        onSelectionChange={handleSelectionChange}
+                        onDragStart={handleDragStart}
+                        snapDelta={snapDelta}
+                      />
+                    );
+                  })
+                )}
+              </div>
+          
+              {/* 文字行 */}
+              <div className="row char-row" data-level="char" data-track-id={track.id}>
+                {phrases.flatMap(phrase =>
+                  phrase.words.flatMap(word =>
+                    word.chars.map(char => {
+                      const parentConstraints = {
+                        minDuration: 50,
+                        parentStart: word.start,
+                        parentEnd: word.end
+                      };
+                  
+                      const isSelected = selectionState.selectedIds.includes(char.id) && selectionState.selectedLevel === 'char';
+                      const isMultiSelected = selectionState.selectedIds.length > 1 && selectionState.selectedLevel === 'char' && isSelected;
+                  
+                      // 複数選択時の左端・右端マーカー判定
+                      let isLeftOuterMarker = false;
+                      let isRightOuterMarker = false;
+                  
+                      if (isMultiSelected) {
+                        const selectedChars = lyrics.flatMap(p => 
+                          p.words.flatMap(w => w.chars)
+                        ).filter(c => selectionState.selectedIds.includes(c.id));
+                        const leftmostChar = selectedChars.reduce((prev, curr) => 
+                          prev.start < curr.start ? prev : curr
+                        );
+                        const rightmostChar = selectedChars.reduce((prev, curr) => 
+                          prev.end > curr.end ? prev : curr
+                        );
+                    
+                        isLeftOuterMarker = char.id === leftmostChar.id;
+                        isRightOuterMarker = char.id === rightmostChar.id;
+                      }
+                  
+                      // V2統一管理で個別設定状態を取得（文字はフレーズの状態を継承）
+                      const isActivated = engine?.parameterManager?.isIndividualSettingEnabled?.(phrase.id) || false;
+                  
+                      return (
+                        <HierarchicalMarker
+                          key={char.id}
+                          unit={char}
+                          level="char"
+                          duration={duration}
+                          timelineWidth={timelineWidth}
+                          msPerPixel={msPerPixel}
+                          parentConstraints={parentConstraints}
+                          isSelected={isSelected}
+                          multiSelected={isMultiSelected}
+                          isLeftOuterMarker={isLeftOuterMarker}
+                          isRightOuterMarker={isRightOuterMarker}
+                          isActivated={isActivated}
+                          onUpdate={handleMarkerUpdate('char')}
+                          onMultiUpdate={handleMultiUpdate}
+                          onSelectionChange={handleSelectionChange}
+                          onDragStart={handleDragStart}
+                          snapDelta={snapDelta}
+                        />
+                      );
+                    })
+                  )
+                )}
+              </div>
+          
+            </React.Fragment>
+          ))}
           
           {/* 時間マーカー */}
           <div className="time-indicators">
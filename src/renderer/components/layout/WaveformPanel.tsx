@@ -2,6 +2,7 @@ import React, { useRef, useEffect, useState, useCallback } from 'react';
 import WaveSurfer from 'wavesurfer.js';
 import Engine from '../../engine/Engine';
 import { ViewportManager } from '../../utils/ViewportManager';
+import { LoopRegion, MIN_LOOP_DURATION } from '../../engine/PlaybackSession';
 import '../../styles/components.css';
 
 interface WaveformPanelProps {
@@ -23,6 +24,7 @@ const WaveformPanel: React.FC<WaveformPanelProps> = ({
   onSeek,
   viewportManager
 }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
   const waveformRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
   const [audioUrl, setAudioUrl] = useState<string>('');
@@ -38,6 +40,11 @@ const WaveformPanel: React.FC<WaveformPanelProps> = ({
   const dataArrayRef = useRef<Uint8Array | null>(null);
   const volumeAnimationFrameRef = useRef<number>();
   
+  // A–Bループ（Shift+ドラッグで設定、ドラッグ中の範囲は全体に対する割合）
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(() => engine?.getLoopRegion() ?? null);
+  const [loopEnabled, setLoopEnabled] = useState(() => engine?.isLoopEnabled() ?? false);
+  const [loopDrag, setLoopDrag] = useState<{ from: number; to: number } | null>(null);
+  
   // シーク状態管理
   const isSeekingRef = useRef(false);
   const lastSeekTimeRef = useRef(0);
@@ -525,6 +532,83 @@ const WaveformPanel: React.FC<WaveformPanelProps> = ({
     }
   }, [isReady, handleSeek]);
   
+  // ループ範囲の変更を監視
+  useEffect(() => {
+    if (!engine) return;
+    const handleLoopChanged = () => {
+      setLoopRegion(engine.getLoopRegion());
+      setLoopEnabled(engine.isLoopEnabled());
+    };
+    handleLoopChanged();
+    window.addEventListener('loop-region-changed', handleLoopChanged);
+    return () => window.removeEventListener('loop-region-changed', handleLoopChanged);
+  }, [engine]);
+  
+  // Shift+ドラッグでA–Bループを設定（WaveSurfer のシーク・タイムラインの範囲選択より先に処理する）
+  useEffect(() => {
+    const panel = panelRef.current;
+    if (!panel || !engine) return;
+    
+    let anchor: number | null = null;
+    let suppressClick = false;
+    
+    const toProgress = (clientX: number) => {
+      const rect = panel.getBoundingClientRect();
+      return rect.width > 0 ? Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) : 0;
+    };
+    
+    const handlePointerMove = (event: PointerEvent) => {
+      if (anchor === null) return;
+      setLoopDrag({ from: anchor, to: toProgress(event.clientX) });
+    };
+    
+    const handlePointerUp = (event: PointerEvent) => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      if (anchor === null) return;
+      
+      const duration = totalDurationRef.current;
+      const start = Math.min(anchor, toProgress(event.clientX)) * duration;
+      const end = Math.max(anchor, toProgress(event.clientX)) * duration;
+      anchor = null;
+      setLoopDrag(null);
+      suppressClick = true;
+      
+      // 短すぎるドラッグ（Shift+クリック）は無視
+      if (end - start >= MIN_LOOP_DURATION) {
+        engine.setLoopRegion({ start, end });
+      }
+    };
+    
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!event.shiftKey || event.button !== 0) return;
+      // preventDefault で後続の mousedown（タイムラインの範囲選択）も抑止される
+      event.preventDefault();
+      event.stopPropagation();
+      anchor = toProgress(event.clientX);
+      setLoopDrag({ from: anchor, to: anchor });
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+    };
+    
+    // ドラッグ終了時のクリックでシークしないようにする
+    const handleClickCapture = (event: MouseEvent) => {
+      if (!suppressClick) return;
+      suppressClick = false;
+      event.preventDefault();
+      event.stopPropagation();
+    };
+    
+    panel.addEventListener('pointerdown', handlePointerDown, true);
+    panel.addEventListener('click', handleClickCapture, true);
+    return () => {
+      panel.removeEventListener('pointerdown', handlePointerDown, true);
+      panel.removeEventListener('click', handleClickCapture, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [engine]);
+  
   // 簡素化されたデバッグ機能（開発時のみ）
   const outputDebugReport = useCallback(() => {
     if (!import.meta.env.DEV) return;
@@ -556,7 +640,7 @@ const WaveformPanel: React.FC<WaveformPanelProps> = ({
   }, [engine]);
 
   return (
-    <div className="waveform-panel" style={{ position: 'relative' }}>
+    <div className="waveform-panel" ref={panelRef} style={{ position: 'relative' }}>
       <div 
         ref={waveformRef} 
         className="waveform-container"
@@ -566,6 +650,25 @@ const WaveformPanel: React.FC<WaveformPanelProps> = ({
         }}
       />
       
+      {/* A–Bループの範囲（ドラッグ中はドラッグ範囲） */}
+      {(loopDrag || (loopRegion && totalDuration > 0)) && (
+        <div
+          title={loopDrag ? undefined : `A–Bループ ${(loopRegion!.start / 1000).toFixed(2)}s – ${(loopRegion!.end / 1000).toFixed(2)}s`}
+          style={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: `${(loopDrag ? Math.min(loopDrag.from, loopDrag.to) : loopRegion!.start / totalDuration) * 100}%`,
+            width: `${(loopDrag ? Math.abs(loopDrag.to - loopDrag.from) : (loopRegion!.end - loopRegion!.start) / totalDuration) * 100}%`,
+            background: loopDrag || loopEnabled ? 'rgba(240, 5, 157, 0.18)' : 'rgba(255, 255, 255, 0.06)',
+            borderLeft: `1px solid ${loopDrag || loopEnabled ? '#F0059D' : '#666'}`,
+            borderRight: `1px solid ${loopDrag || loopEnabled ? '#F0059D' : '#666'}`,
+            pointerEvents: 'none',
+            zIndex: 5
+          }}
+        />
+      )}
+      
       {!isReady && audioUrl && (
         <div style={{
           position: 'absolute',
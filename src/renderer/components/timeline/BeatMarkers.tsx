@@ -8,6 +8,8 @@ interface BeatMarkersProps {
   msPerPixel: number;
   viewStart?: number;
   currentTime: number;
+  beatsPerBar?: number; // 指定時は小節頭のビートを強調表示
+  barOffset?: number;
 }
 
 interface BeatMarkerProps {
@@ -15,6 +17,7 @@ interface BeatMarkerProps {
   position: number;
   isHighConfidence: boolean;
   isPastCurrentTime: boolean;
+  isDownbeat: boolean;
 }
 
 /**
@@ -24,7 +27,8 @@ const SingleBeatMarker: React.FC<BeatMarkerProps> = ({
   beat,
   position,
   isHighConfidence,
-  isPastCurrentTime
+  isPastCurrentTime,
+  isDownbeat
 }) => {
   // 信頼度に基づいてスタイルを決定
   const getMarkerStyle = () => {
@@ -40,7 +44,15 @@ const SingleBeatMarker: React.FC<BeatMarkerProps> = ({
       transition: 'opacity 0.1s ease'
     };
 
-    if (isHighConfidence) {
+    if (isDownbeat) {
+      // 小節頭: 信頼度に関係なく明るい線
+      return {
+        ...baseStyle,
+        width: '3px',
+        backgroundColor: '#ffffff',
+        boxShadow: '0 0 4px rgba(255, 255, 255, 0.6)'
+      };
+    } else if (isHighConfidence) {
       // 高信頼度: より太くて明るいマーク
       return {
         ...baseStyle,
@@ -75,7 +87,9 @@ const BeatMarkers: React.FC<BeatMarkersProps> = ({
   timelineWidth,
   msPerPixel,
   viewStart = 0,
-  currentTime
+  currentTime,
+  beatsPerBar,
+  barOffset = 0
 }) => {
   if (!beats || beats.length === 0) {
     return null;
@@ -83,10 +97,13 @@ const BeatMarkers: React.FC<BeatMarkersProps> = ({
 
   // 表示範囲内のビートをフィルタリング
   const viewEnd = viewStart + (timelineWidth * msPerPixel);
-  const visibleBeats = beats.filter(beat => 
-    beat.timestamp >= viewStart && 
-    beat.timestamp <= viewEnd
-  );
+  // 小節頭の判定に元のインデックスが必要なため保持しておく
+  const visibleBeats = beats
+    .map((beat, beatIndex) => ({ beat, beatIndex }))
+    .filter(({ beat }) => 
+      beat.timestamp >= viewStart && 
+      beat.timestamp <= viewEnd
+    );
 
   // ビートマーカーをレンダリング
   return (
@@ -101,7 +118,7 @@ const BeatMarkers: React.FC<BeatMarkersProps> = ({
         zIndex: 4
       }}
     >
-      {visibleBeats.map((beat, index) => {
+      {visibleBeats.map(({ beat, beatIndex }) => {
         // タイムライン上の位置を計算
         const relativeTime = beat.timestamp - viewStart;
         const position = relativeTime / msPerPixel;
@@ -111,14 +128,18 @@ const BeatMarkers: React.FC<BeatMarkersProps> = ({
         
         // 現在時刻より前かどうか
         const isPastCurrentTime = beat.timestamp < currentTime;
+        
+        const isDownbeat = beatsPerBar !== undefined &&
+          beatIndex >= barOffset && (beatIndex - barOffset) % beatsPerBar === 0;
 
         return (
           <SingleBeatMarker
-            key={`beat-${index}-${beat.timestamp}`}
+            key={`beat-${beatIndex}-${beat.timestamp}`}
             beat={beat}
             position={position}
             isHighConfidence={isHighConfidence}
             isPastCurrentTime={isPastCurrentTime}
+            isDownbeat={isDownbeat}
           />
         );
       })}
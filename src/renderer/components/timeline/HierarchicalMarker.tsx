@@ -35,7 +35,8 @@ const HierarchicalMarker: React.FC<HierarchicalMarkerProps> = ({
   isRightOuterMarker = false,
   children,
   onDragStart,
-  isActivated = false
+  isActivated = false,
+  snapDelta
 }) => {
   // ドラッグ状態管理（React再レンダリングから完全保護）
   const dragStateRef = useRef<{
@@ -245,6 +246,11 @@ const HierarchicalMarker: React.FC<HierarchicalMarkerProps> = ({
       return;
     }
 
+    // 単一選択時はビートグリッドにスナップ（複数選択時はTimelinePanel側で選択ブロック単位に行う）
+    const snappedDeltaMs = !multiSelected && snapDelta && dragData.operationType
+      ? snapDelta(dragData.startUnitStart, dragData.startUnitEnd, deltaMs, dragData.operationType)
+      : deltaMs;
+
     let newStart: number;
     let newEnd: number;
     let operationType: 'move' | 'resizeLeft' | 'resizeRight';
@@ -252,18 +258,18 @@ const HierarchicalMarker: React.FC<HierarchicalMarkerProps> = ({
     // ❗重要: 基準点からの絶対移動量で計算
     if (dragData.operationType === 'move') {
       // ドラッグ移動
-      newStart = dragData.startUnitStart + deltaMs;
-      newEnd = dragData.startUnitEnd + deltaMs;
+      newStart = dragData.startUnitStart + snappedDeltaMs;
+      newEnd = dragData.startUnitEnd + snappedDeltaMs;
       operationType = 'move';
     } else if (dragData.operationType === 'resizeLeft') {
       // 左リサイズ
-      newStart = dragData.startUnitStart + deltaMs;
+      newStart = dragData.startUnitStart + snappedDeltaMs;
       newEnd = dragData.startUnitEnd;
       operationType = 'resizeLeft';
     } else if (dragData.operationType === 'resizeRight') {
       // 右リサイズ
       newStart = dragData.startUnitStart;
-      newEnd = dragData.startUnitEnd + deltaMs;
+      newEnd = dragData.startUnitEnd + snappedDeltaMs;
       operationType = 'resizeRight';
     } else {
       console.error(`[Marker:${unit.id}] 不明な操作タイプ: ${dragData.operationType}`);
@@ -289,7 +295,7 @@ const HierarchicalMarker: React.FC<HierarchicalMarkerProps> = ({
       const updatedUnit = updateUnitWithChildren(unit, validatedPosition.start, validatedPosition.end, level);
       onUpdate(updatedUnit);
     }
-  }, [unit, level, duration, timelineWidth, parentConstraints, onUpdate, onMultiUpdate, multiSelected, updateUnitWithChildren]);
+  }, [unit, level, duration, timelineWidth, parentConstraints, onUpdate, onMultiUpdate, multiSelected, updateUnitWithChildren, snapDelta]);
 
   /**
    * ポインターアップハンドラー（改良版）
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhraseUnit } from '../../types/types';
+import { StandardParameters } from '../../../types/StandardParameters';
+import { KeyframeInterpolation, ParameterKeyframe } from '../../../types/ParameterKeyframes';
+import { KeyframeEvaluator } from '../../utils/KeyframeEvaluator';
+import Engine from '../../engine/Engine';
+
+interface KeyframeLaneProps {
+  engine?: Engine;
+  lyrics: PhraseUnit[];
+  parameterName: keyof StandardParameters;
+  msPerPixel: number;
+}
+
+// ドラッグ中のキーフレーム
+interface KeyframeDragState {
+  phraseId: string;
+  fromMs: number;
+  startX: number;
+  currentMs: number;
+}
+
+// 編集中のキーフレーム
+interface KeyframeEditState {
+  phraseId: string;
+  keyframe: ParameterKeyframe;
+}
+
+const INTERPOLATION_LABELS: Record<KeyframeInterpolation, string> = {
+  linear: 'リニア',
+  ease: 'イーズ',
+  hold: 'ホールド'
+};
+
+/**
+ * フレーズ単位のパラメータキーフレームを表示・編集するレーン
+ * - フレーズ区間内のダブルクリックで現在値のキーフレームを追加
+ * - ひし形マーカーのドラッグで移動、右クリックで削除、クリックで値と補間方式を編集
+ */
+const KeyframeLane: React.FC<KeyframeLaneProps> = ({
+  engine,
+  lyrics,
+  parameterName,
+  msPerPixel
+}) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const [, setRevision] = useState(0);
+  const [dragState, setDragState] = useState<KeyframeDragState | null>(null);
+  const [editState, setEditState] = useState<KeyframeEditState | null>(null);
+  const [editValue, setEditValue] = useState('');
+  // ドラッグ直後のクリックで編集を開かない
+  const suppressClickRef = useRef(false);
+
+  // キーフレーム更新（Undo/Redoを含む）で再描画
+  useEffect(() => {
+    const handleUpdate = () => setRevision(prev => prev + 1);
+    window.addEventListener('keyframes-updated', handleUpdate);
+    window.addEventListener('timeline-updated', handleUpdate);
+    return () => {
+      window.removeEventListener('keyframes-updated', handleUpdate);
+      window.removeEventListener('timeline-updated', handleUpdate);
+    };
+  }, []);
+
+  // パラメータ切替時は編集を閉じる
+  useEffect(() => {
+    setEditState(null);
+  }, [parameterName]);
+
+  const clientXToTime = (clientX: number): number => {
+    const rect = rowRef.current?.getBoundingClientRect();
+    const x = rect ? clientX - rect.left : 0;
+    return Math.max(0, Math.round(x * msPerPixel));
+  };
+
+  const getKeyframes = (phraseId: string): ParameterKeyframe[] => {
+    if (!engine) return [];
+    return engine.getKeyframeTracks(phraseId)
+      .find(track => track.parameterName === parameterName)?.keyframes || [];
+  };
+
+  // ドラッグ中はウィンドウ全体でマウスを追跡
+  useEffect(() => {
+    if (!dragState) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const deltaMs = (e.clientX - dragState.startX) * msPerPixel;
+      setDragState(prev => prev ? { ...prev, currentMs: Math.max(0, Math.round(prev.fromMs + deltaMs)) } : prev);
+    };
+
+    const handleMouseUp = () => {
+      if (engine && dragState.currentMs !== dragState.fromMs) {
+        suppressClickRef.current = true;
+        engine.moveParameterKeyframe(dragState.phraseId, parameterName, dragState.fromMs, dragState.currentMs);
+      }
+      setDragState(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragState, engine, msPerPixel, parameterName]);
+
+  const handleRowDoubleClick = (e: React.MouseEvent) => {
+    if (!engine) return;
+    const timeMs = clientXToTime(e.clientX);
+    const phrase = lyrics.find(p => timeMs >= p.start && timeMs <= p.end);
+    if (!phrase) return;
+
+    // その時刻で評価中の値をキーフレームの初期値にする
+    const baseParams = engine.parameterManager.getParameters(phrase.id) as Record<string, any>;
+    const evaluated = engine.parameterManager.evaluateKeyframes(phrase.id, baseParams, timeMs);
+    engine.setParameterKeyframe(phrase.id, parameterName, {
+      timeMs,
+      value: evaluated[parameterName],
+      interpolation: 'linear'
+    });
+  };
+
+  const handleKeyframeMouseDown = (phraseId: string, keyframe: ParameterKeyframe) => (e: React.MouseEvent) => {
+    // タイムラインの範囲選択を開始させない
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    setDragState({ phraseId, fromMs: keyframe.timeMs, startX: e.clientX, currentMs: keyframe.timeMs });
+  };
+
+  const handleKeyframeClick = (phraseId: string, keyframe: ParameterKeyframe) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    setEditState({ phraseId, keyframe });
+    setEditValue(String(keyframe.value));
+  };
+
+  const handleKeyframeContextMenu = (phraseId: string, keyframe: ParameterKeyframe) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    engine?.removeParameterKeyframe(phraseId, parameterName, keyframe.timeMs);
+    setEditState(null);
+  };
+
+  const applyEdit = (interpolation?: KeyframeInterpolation) => {
+    if (!engine || !editState) return;
+    const value = KeyframeEvaluator.normalizeValue(parameterName, editValue);
+    if (value === null) {
+      setEditValue(String(editState.keyframe.value));
+      return;
+    }
+    const keyframe = { ...editState.keyframe, value, interpolation: interpolation ?? editState.keyframe.interpolation };
+    if (engine.setParameterKeyframe(editState.phraseId, parameterName, keyframe)) {
+      setEditState({ ...editState, keyframe });
+    }
+  };
+
+  const deleteEditing = () => {
+    if (!engine || !editState) return;
+    engine.removeParameterKeyframe(editState.phraseId, parameterName, editState.keyframe.timeMs);
+    setEditState(null);
+  };
+
+  const isColor = KeyframeEvaluator.isColorParameter(parameterName);
+
+  return (
+    <div
+      className="row keyframe-row"
+      ref={rowRef}
+      onMouseDown={e => e.stopPropagation()}
+      onDoubleClick={handleRowDoubleClick}
+      title="ダブルクリック: キーフレーム追加 / ドラッグ: 移動 / 右クリック: 削除"
+    >
+      {lyrics.map(phrase => getKeyframes(phrase.id).map(keyframe => {
+        const isDragging = dragState?.phraseId === phrase.id && dragState.fromMs === keyframe.timeMs;
+        const timeMs = isDragging ? dragState!.currentMs : keyframe.timeMs;
+        const isEditing = editState?.phraseId === phrase.id && editState.keyframe.timeMs === keyframe.timeMs;
+
+        return (
+          <div
+            key={`${phrase.id}-${keyframe.timeMs}`}
+            className={`keyframe-diamond keyframe-${keyframe.interpolation}${isEditing ? ' editing' : ''}`}
+            style={{ left: `${timeMs / msPerPixel}px` }}
+            title={`${phrase.phrase} ${parameterName}: ${keyframe.value} (${INTERPOLATION_LABELS[keyframe.interpolation]}, ${(timeMs / 1000).toFixed(2)}s)`}
+            onMouseDown={handleKeyframeMouseDown(phrase.id, keyframe)}
+            onClick={handleKeyframeClick(phrase.id, keyframe)}
+            onDoubleClick={e => e.stopPropagation()}
+            onContextMenu={handleKeyframeContextMenu(phrase.id, keyframe)}
+          />
+        );
+      }))}
+
+      {editState && (
+        <div
+          className="keyframe-editor"
+          style={{ left: `${editState.keyframe.timeMs / msPerPixel}px` }}
+          onMouseDown={e => e.stopPropagation()}
+          onDoubleClick={e => e.stopPropagation()}
+        >
+          <input
+            type={isColor ? 'color' : 'number'}
+            value={editValue}
+            onChange={e => setEditValue(e.target.value)}
+            onBlur={() => applyEdit()}
+            onKeyDown={e => {
+              if (e.key === 'Enter') applyEdit();
+              if (e.key === 'Escape') setEditState(null);
+            }}
+          />
+          <select
+            value={editState.keyframe.interpolation}
+            onChange={e => applyEdit(e.target.value as KeyframeInterpolation)}
+          >
+            {(Object.keys(INTERPOLATION_LABELS) as KeyframeInterpolation[]).map(interpolation => (
+              <option key={interpolation} value={interpolation}>{INTERPOLATION_LABELS[interpolation]}</option>
+            ))}
+          </select>
+          <button onClick={deleteEditing}>削除</button>
+          <button onClick={() => setEditState(null)}>×</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyframeLane;
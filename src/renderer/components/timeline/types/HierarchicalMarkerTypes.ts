@@ -30,6 +30,7 @@ export interface HierarchicalMarkerProps {
   children?: React.ReactNode;
   onDragStart?: (unitId: string, operationType: string) => void;
   isActivated?: boolean;         // 明示的にアクティブ化されているかどうか
+  snapDelta?: (start: number, end: number, deltaMs: number, operationType: 'move' | 'resizeLeft' | 'resizeRight') => number; // ビートグリッドへのスナップ（単一選択時）
 }
 
 // ドラッグ状態
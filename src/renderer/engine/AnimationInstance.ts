@@ -1,6 +1,9 @@
 import * as PIXI from 'pixi.js';
 import { IAnimationTemplate, HierarchyType, AnimationPhase } from '../types/types';
 
+// 描画直前にパラメータを解決する関数（キーフレーム評価など）
+export type ParamResolver = (objectId: string, params: Record<string, any>, nowMs: number) => Record<string, any>;
+
 export class AnimationInstance {
   id: string;
   objectId: string; // ParameterManager 連携用のプロパティ
@@ -104,7 +107,13 @@ export class AnimationInstance {
     // ログ出力を無効化
   }
 
-  update(nowMs: number) {
+  /**
+   * @param resolveParams 描画直前にパラメータを解決する関数（キーフレーム評価など）
+   */
+  update(
+    nowMs: number,
+    resolveParams?: ParamResolver
+  ) {
     
     try {
       // 重要: コンテナの有効性確認
@@ -162,12 +171,15 @@ export class AnimationInstance {
       
       // 子要素のコンテナ状態は維持したまま、このコンテナの変形のみを処理
       try {
+        // 現在時刻のキーフレーム値を反映したパラメータ（静的パラメータ自体は変更しない）
+        const params = resolveParams ? resolveParams(this.objectId, this.params, nowMs) : this.params;
+        
         if (typeof this.template.animateContainer === 'function') {
           // アニメーションコンテナメソッドを呼び出し
           this.template.animateContainer(
             this.container,
             this.text,
-            this.params,
+            params,
             nowMs,
             this.startMs,
             this.endMs,
@@ -182,7 +194,7 @@ export class AnimationInstance {
             this.text,
             this.x,
             this.y,
-            this.params,
+            params,
             nowMs,
             this.startMs,
             this.endMs
@@ -0,0 +1,194 @@
+import { DEFAULT_PARAMETERS } from '../../types/StandardParameters';
+import {
+  AudioFeature,
+  AudioFeatureEnvelopes,
+  AudioModulation,
+  AudioModulationData,
+  AudioModulationMode
+} from '../../types/AudioModulation';
+
+const AUDIO_FEATURES: AudioFeature[] = ['rms', 'bass', 'mid', 'high'];
+const MODULATION_MODES: AudioModulationMode[] = ['replace', 'add', 'multiply'];
+
+/**
+ * オーディオリアクティブ変調
+ * 事前解析した特徴量カーブを描画時刻 nowMs で評価し、数値パラメータに反映する
+ *
+ * 平滑化は再生履歴に依存しないよう、設定ごとにカーブ全体を事前計算してキャッシュする。
+ * そのためプレビューとロックステップの動画出力で同じ値になる。
+ */
+export class AudioModulator {
+  private envelopes: AudioFeatureEnvelopes | null = null;
+  private modulations: AudioModulation[] = [];
+  // `${source}:${smoothingMs}` → 平滑化済みカーブ
+  private smoothedCache: Map<string, Float32Array> = new Map();
+
+  /**
+   * @param getTimeOffsetMs アニメーション時刻から音楽上の時刻への補正（音楽オフセット）
+   */
+  constructor(private getTimeOffsetMs: () => number = () => 0) {}
+
+  /**
+   * 変調対象にできるパラメータか（数値パラメータのみ）
+   */
+  static isModulatableParameter(parameterName: string): boolean {
+    return typeof (DEFAULT_PARAMETERS as Record<string, any>)[parameterName] === 'number';
+  }
+
+  static getModulatableParameters(): string[] {
+    return Object.keys(DEFAULT_PARAMETERS).filter(name => this.isModulatableParameter(name));
+  }
+
+  static createModulation(id: string, parameterName: AudioModulation['parameterName'] = 'glowStrength'): AudioModulation {
+    return {
+      id,
+      enabled: true,
+      parameterName,
+      source: 'rms',
+      mode: 'replace',
+      gain: 1,
+      smoothingMs: 100,
+      min: 0,
+      max: 1
+    };
+  }
+
+  getEnvelopes(): AudioFeatureEnvelopes | null {
+    return this.envelopes;
+  }
+
+  getModulations(): AudioModulation[] {
+    return this.modulations.map(modulation => ({ ...modulation }));
+  }
+
+  setEnvelopes(envelopes: AudioFeatureEnvelopes | null): void {
+    this.envelopes = this.normalizeEnvelopes(envelopes);
+    this.smoothedCache.clear();
+  }
+
+  setModulations(modulations: AudioModulation[]): void {
+    this.modulations = modulations
+      .map(modulation => this.normalizeModulation(modulation))
+      .filter((modulation): modulation is AudioModulation => modulation !== null);
+  }
+
+  hasActiveModulations(): boolean {
+    return this.envelopes !== null && this.modulations.some(modulation => modulation.enabled);
+  }
+
+  /**
+   * 指定時刻の特徴量（平滑化後、0.0〜1.0）
+   */
+  sampleFeature(source: AudioFeature, smoothingMs: number, nowMs: number): number {
+    if (!this.envelopes) return 0;
+    const curve = this.getSmoothedCurve(source, smoothingMs);
+    if (curve.length === 0) return 0;
+
+    // i 番目の値はフレーム中央の値なので 0.5 フレームずらして線形補間
+    const position = (nowMs + this.getTimeOffsetMs()) / this.envelopes.frameMs - 0.5;
+    if (position <= 0) return position < -0.5 ? 0 : curve[0];
+    if (position >= curve.length - 1) return position > curve.length - 0.5 ? 0 : curve[curve.length - 1];
+
+    const index = Math.floor(position);
+    const t = position - index;
+    return curve[index] + (curve[index + 1] - curve[index]) * t;
+  }
+
+  /**
+   * 変調を評価して静的パラメータに上書きしたコピーを返す
+   */
+  apply<T extends Record<string, any>>(params: T, nowMs: number): T {
+    if (!this.hasActiveModulations()) return params;
+
+    const result: Record<string, any> = { ...params };
+    for (const modulation of this.modulations) {
+      if (!modulation.enabled) continue;
+
+      const feature = this.sampleFeature(modulation.source, modulation.smoothingMs, nowMs);
+      const amount = Math.min(1, Math.max(0, feature * modulation.gain));
+      const value = modulation.min + (modulation.max - modulation.min) * amount;
+      const current = typeof result[modulation.parameterName] === 'number'
+        ? result[modulation.parameterName]
+        : (DEFAULT_PARAMETERS as Record<string, any>)[modulation.parameterName];
+
+      switch (modulation.mode) {
+        case 'add':
+          result[modulation.parameterName] = current + value;
+          break;
+        case 'multiply':
+          result[modulation.parameterName] = current * value;
+          break;
+        case 'replace':
+        default:
+          result[modulation.parameterName] = value;
+          break;
+      }
+    }
+    return result as T;
+  }
+
+  exportData(): AudioModulationData {
+    return {
+      envelopes: this.envelopes,
+      modulations: this.getModulations()
+    };
+  }
+
+  importData(data: AudioModulationData | null | undefined): void {
+    this.setEnvelopes(data?.envelopes ?? null);
+    this.setModulations(Array.isArray(data?.modulations) ? data!.modulations : []);
+  }
+
+  /**
+   * 1次ローパスで平滑化したカーブ（時定数 smoothingMs）
+   */
+  private getSmoothedCurve(source: AudioFeature, smoothingMs: number): Float32Array {
+    const key = `${source}:${smoothingMs}`;
+    const cached = this.smoothedCache.get(key);
+    if (cached) return cached;
+
+    const raw = this.envelopes ? this.envelopes[source] : [];
+    const curve = new Float32Array(raw.length);
+    const alpha = smoothingMs > 0 && this.envelopes
+      ? 1 - Math.exp(-this.envelopes.frameMs / smoothingMs)
+      : 1;
+    let previous = raw.length > 0 ? raw[0] : 0;
+    for (let i = 0; i < raw.length; i++) {
+      previous += alpha * (raw[i] - previous);
+      curve[i] = previous;
+    }
+
+    this.smoothedCache.set(key, curve);
+    return curve;
+  }
+
+  private normalizeEnvelopes(envelopes: AudioFeatureEnvelopes | null): AudioFeatureEnvelopes | null {
+    if (!envelopes || !(envelopes.frameMs > 0)) return null;
+    if (!AUDIO_FEATURES.every(feature => Array.isArray(envelopes[feature]))) {
+      console.warn('AudioModulator: 特徴量カーブが不正なため破棄します');
+      return null;
+    }
+    return envelopes;
+  }
+
+  private normalizeModulation(modulation: AudioModulation): AudioModulation | null {
+    if (!modulation || !AudioModulator.isModulatableParameter(modulation.parameterName)) {
+      console.warn(`AudioModulator: ${modulation?.parameterName} は変調に対応していません`);
+      return null;
+    }
+    const finite = (value: unknown, fallback: number) =>
+      typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+    return {
+      id: String(modulation.id),
+      enabled: modulation.enabled !== false,
+      parameterName: modulation.parameterName,
+      source: AUDIO_FEATURES.includes(modulation.source) ? modulation.source : 'rms',
+      mode: MODULATION_MODES.includes(modulation.mode) ? modulation.mode : 'replace',
+      gain: finite(modulation.gain, 1),
+      smoothingMs: Math.max(0, finite(modulation.smoothingMs, 0)),
+      min: finite(modulation.min, 0),
+      max: finite(modulation.max, 1)
+    };
+  }
+}
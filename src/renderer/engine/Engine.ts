@@ -3,11 +3,12 @@ import { InstanceManager } from './InstanceManager';
 import { PhraseUnit, CharUnit, WordUnit, LyricsData, AspectRatio, Orientation, StageConfig, BackgroundConfig, BackgroundFitMode } from '../types/types';
 import { IAnimationTemplate } from '../types/types';
 import { VideoExporter } from '../export/video/VideoExporter';
+import { isHeadlessRenderMode } from '../export/headless/HeadlessRenderClient';
 import { Howl } from 'howler';
 import { GridOverlay } from '../utils/GridOverlay';
 import { DebugManager } from '../utils/debug';
 import { TemplateManager } from './TemplateManager';
-import { ParameterManagerV2 } from './ParameterManagerV2';
+import { ParameterManagerV2, CompleteParameters, CompressedPhrase } from './ParameterManagerV2';
 import { ParameterProcessor } from '../utils/ParameterProcessor';
 import { ProjectStateManager } from './ProjectStateManager';
 import { calculateStageSize, getDefaultStageConfig } from '../utils/stageCalculator';
@@ -21,6 +22,24 @@ import { UnifiedRestoreManager } from './UnifiedRestoreManager';
 import { SparkleEffectPrimitive } from '../primitives/effects/SparkleEffectPrimitive';
 import { ProjectFileData, AutoSaveData } from '../../types/UnifiedProjectData';
 import { OptimizedParameterUpdater } from './OptimizedParameterUpdater';
+import { ParameterKeyframe, ParameterKeyframeTrack } from '../../types/ParameterKeyframes';
+import { BeatGrid } from '../../types/BeatGrid';
+import type { BeatMarker } from '../services/AudioAnalyzer';
+import { BeatGridSnapper } from '../utils/BeatGridSnapper';
+import { AudioModulator } from './AudioModulator';
+import { AudioFeatureEnvelopes, AudioModulation, AudioModulationData } from '../../types/AudioModulation';
+import { SnapshotManager } from './SnapshotManager';
+import { LyricTrack, MAIN_LYRIC_TRACK_ID } from '../../types/LyricTrack';
+import { LyricTrackUtils } from '../utils/LyricTrackUtils';
+import { LyricsStructureEdit } from '../utils/lyrics/LyricsStructureEditor';
+import { PlaybackSession, LoopRegion } from './PlaybackSession';
+import {
+  ExportFormat,
+  normalizeExportFormats,
+  cloneExportFormats,
+  isDefaultExportFormats
+} from '../../shared/exportFormats';
+import { ProjectSnapshot, ProjectSnapshotContent, ProjectSnapshotSummary, SnapshotDiff } from '../../types/ProjectSnapshot';
 
 export class Engine {
   // パラメータカテゴリ分類
@@ -63,6 +82,16 @@ export class Engine {
   audioDuration: number = 10000; // デフォルト10秒
   audioFilePath?: string; // 音楽ファイルパス
   audioFileName?: string; // 音楽ファイル名
+  private playbackRate: number = 1; // 再生速度（プレビュー用）
+  private loopRegion: LoopRegion | null = null; // A–Bループの範囲（プレビュー用）
+  private loopEnabled: boolean = false;
+  private audioSourceUrl?: string; // Howlに渡した音声ソース（音声解析用）
+  private beatGrid: BeatGrid | null = null; // ビート検出結果（プロジェクトに保存）
+  private audioModulator: AudioModulator = new AudioModulator(() => this.getAudioOffset()); // オーディオリアクティブ変調
+  private snapshotManager: SnapshotManager = new SnapshotManager(); // 名前付きスナップショット（プロジェクトに保存）
+  private pendingBranchSnapshot: ProjectSnapshot | null = null; // Undo前の最新状態（新規編集で分岐が破棄されたら保存）
+  private lyricTracks: LyricTrack[] = [LyricTrackUtils.createMainTrack()]; // 歌詞トラック（プロジェクトに保存）
+  private exportFormats: ExportFormat[] = normalizeExportFormats(undefined); // 一括書き出しのフォーマット（プロジェクトに保存）
 
   // 方眼目盛りと座標表示用のオーバーレイ
   private gridOverlay?: GridOverlay;
@@ -139,6 +168,10 @@ export class Engine {
       objectParams: {},
       defaultTemplateId: templateId
     });
+    this.projectStateManager.setHistoryListener({
+      onHistoryChanged: () => this.dispatchHistoryUpdatedEvent(),
+      onBranchDiscarded: () => this.handleBranchDiscarded()
+    });
     
     // 個別設定変更リスナーの登録
     this.parameterManager.addIndividualSettingListener('engine-timeline-sync', (phraseId: string, enabled: boolean) => {
@@ -205,6 +238,11 @@ export class Engine {
     
     // インスタンスマネージャーにV2パラメータマネージャーを設定
     this.instanceManager.setParameterManagerV2(this.parameterManager);
+    this.instanceManager.setAudioModulator(this.audioModulator);
+    
+    // 歌詞トラックの表示設定とデフォルトテンプレートを反映
+    this.instanceManager.setLyricTracks(this.lyricTracks);
+    this.templateManager.setTrackTemplateResolver(phraseId => this.getTrackDefaultTemplateId(phraseId));
     
     // V2変更リスナーを設定（スロットリング付き）
     let updateTimeout: NodeJS.Timeout | null = null;
@@ -262,6 +300,7 @@ export class Engine {
     
     // システムスリープ/ウェイクイベントのハンドラを設定
     this.setupSleepWakeHandlers();
+    this.restorePlaybackSession();
     
     // updateFn をプロパティに保存して、ticker.remove 時に参照できるようにする
     this.updateFn = this.update.bind(this);
@@ -272,6 +311,12 @@ export class Engine {
 
     // デバッグ出力
     
+    // ヘッドレスレンダリング時は自動保存・自動復元を行わない（ユーザーの自動保存データを上書きしない）
+    if (isHeadlessRenderMode()) {
+      this.autoSaveEnabled = false;
+      return;
+    }
+    
     // 自動保存機能を初期化
     this.setupAutoSave();
     
@@ -434,6 +479,197 @@ export class Engine {
     });
   }
 
+  // =============================================================================
+  // 歌詞トラック
+  // =============================================================================
+  
+  /**
+   * 歌詞トラック一覧を取得（先頭はメイントラック）
+   */
+  getLyricTracks(): LyricTrack[] {
+    return this.lyricTracks.map(track => ({ ...track }));
+  }
+  
+  /**
+   * 歌詞トラックをまとめて設定（プロジェクト読み込み用、未保存の旧データはメイントラックのみ）
+   */
+  setLyricTracks(tracks: LyricTrack[] | null | undefined): void {
+    this.lyricTracks = LyricTrackUtils.normalize(tracks);
+    this.handleLyricTracksChanged(true);
+  }
+  
+  /**
+   * 歌詞トラックを追加
+   * @param name トラック名
+   */
+  addLyricTrack(name: string): LyricTrack {
+    const zIndex = Math.max(...this.lyricTracks.map(track => track.zIndex)) + 1;
+    const track = LyricTrackUtils.createTrack(
+      `track_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name.trim() || `トラック${this.lyricTracks.length + 1}`,
+      zIndex
+    );
+    this.lyricTracks.push(track);
+    this.handleLyricTracksChanged(false);
+    return { ...track };
+  }
+  
+  /**
+   * 歌詞トラックの設定を変更
+   * @param id トラックID
+   * @param changes 変更内容
+   */
+  updateLyricTrack(id: string, changes: Partial<Omit<LyricTrack, 'id'>>): boolean {
+    const track = this.lyricTracks.find(item => item.id === id);
+    if (!track) {
+      return false;
+    }
+    
+    const templateChanged = 'defaultTemplateId' in changes && changes.defaultTemplateId !== track.defaultTemplateId;
+    Object.assign(track, changes);
+    if (templateChanged && !track.defaultTemplateId) {
+      delete track.defaultTemplateId;
+    }
+    this.lyricTracks = LyricTrackUtils.normalize(this.lyricTracks);
+    this.handleLyricTracksChanged(templateChanged);
+    return true;
+  }
+  
+  /**
+   * 歌詞トラックを削除（所属フレーズはメイントラックに移動、メイントラックは削除不可）
+   */
+  removeLyricTrack(id: string): boolean {
+    if (id === MAIN_LYRIC_TRACK_ID || !this.lyricTracks.some(track => track.id === id)) {
+      return false;
+    }
+    
+    this.lyricTracks = this.lyricTracks.filter(track => track.id !== id);
+    const phraseIds = this.phrases
+      .filter(phrase => phrase.trackId === id)
+      .map(phrase => phrase.id);
+    if (phraseIds.length > 0) {
+      this.movePhrasesToTrack(phraseIds, MAIN_LYRIC_TRACK_ID);
+    }
+    this.handleLyricTracksChanged(true);
+    return true;
+  }
+  
+  /**
+   * フレーズを別のトラックに移動（Undo対応）
+   */
+  movePhrasesToTrack(phraseIds: string[], trackId: string): boolean {
+    if (!this.lyricTracks.some(track => track.id === trackId)) {
+      return false;
+    }
+    
+    const targets = new Set(phraseIds);
+    const updatedLyrics = this.phrases.map(phrase => {
+      if (!targets.has(phrase.id)) {
+        return phrase;
+      }
+      const { trackId: _previous, ...rest } = phrase;
+      return trackId === MAIN_LYRIC_TRACK_ID ? rest : { ...rest, trackId };
+    });
+    this.updateLyricsData(updatedLyrics, true, 'トラック移動');
+    return true;
+  }
+  
+  /**
+   * 歌詞データを指定トラックに読み込む（そのトラックの既存フレーズは置き換え）
+   * メイントラック以外はフレーズIDが重複しないようトラックごとのIDを振り直す
+   * @returns 読み込んだフレーズのID（入力順）
+   */
+  loadLyricsToTrack(trackId: string, data: PhraseUnit[]): string[] {
+    if (!this.lyricTracks.some(track => track.id === trackId)) {
+      throw new Error(`歌詞トラックが見つかりません: ${trackId}`);
+    }
+    
+    const otherPhrases = this.phrases.filter(phrase =>
+      LyricTrackUtils.resolveTrackId(phrase, this.lyricTracks) !== trackId
+    );
+    const trackPhrases: PhraseUnit[] = JSON.parse(JSON.stringify(data)).map((phrase: PhraseUnit, index: number) => {
+      if (trackId === MAIN_LYRIC_TRACK_ID) {
+        const { trackId: _previous, ...rest } = phrase;
+        return rest;
+      }
+      // IDを空にして ensureUniqueIds で単語・文字IDまで再生成する
+      return {
+        ...phrase,
+        id: `phrase_${trackId.replace(/^track_/, '')}_${index}`,
+        trackId,
+        words: phrase.words.map(word => ({
+          ...word,
+          id: '',
+          chars: word.chars.map(char => ({ ...char, id: '' }))
+        }))
+      };
+    });
+    
+    this.loadLyrics([...otherPhrases, ...trackPhrases]);
+    return this.phrases.slice(otherPhrases.length).map(phrase => phrase.id);
+  }
+  
+  // 保存対象の歌詞トラック（メイントラックのみで初期状態の場合は undefined）
+  getLyricTracksForSave(): LyricTrack[] | undefined {
+    return LyricTrackUtils.isDefaultOnly(this.lyricTracks) ? undefined : this.getLyricTracks();
+  }
+  
+  // フレーズが属するトラックのデフォルトテンプレートID
+  private getTrackDefaultTemplateId(phraseId: string): string | undefined {
+    if (!this.lyricTracks.some(track => track.defaultTemplateId)) {
+      return undefined;
+    }
+    const phrase = this.phrases.find(item => item.id === phraseId);
+    if (!phrase) {
+      return undefined;
+    }
+    const trackId = LyricTrackUtils.resolveTrackId(phrase, this.lyricTracks);
+    return this.lyricTracks.find(track => track.id === trackId)?.defaultTemplateId;
+  }
+  
+  /**
+   * 歌詞トラック変更の反映
+   * @param rebuild インスタンスを再構築するか（所属・テンプレートが変わる場合）
+   */
+  private handleLyricTracksChanged(rebuild: boolean): void {
+    if (this.instanceManager) {
+      this.instanceManager.setLyricTracks(this.lyricTracks);
+      if (rebuild && this.phrases.length > 0) {
+        this.charPositions.clear();
+        this.arrangeCharsOnStage();
+        this.instanceManager.loadPhrases(this.phrases, this.charPositions);
+        this.instanceManager.updateTemplate(this.template, this.parameterManager.getGlobalDefaults());
+      }
+      this.instanceManager.update(this.currentTime);
+    }
+    this.dispatchCustomEvent('lyric-tracks-updated', { lyricTracks: this.getLyricTracks() });
+  }
+  
+  // =============================================================================
+  // 一括書き出しフォーマット
+  // =============================================================================
+  
+  /**
+   * 一括書き出しのフォーマット一覧を取得
+   */
+  getExportFormats(): ExportFormat[] {
+    return cloneExportFormats(this.exportFormats);
+  }
+  
+  /**
+   * 一括書き出しのフォーマット一覧を設定（未保存の旧データは既定のフォーマット）
+   * プレビューには影響しないため再描画は行わない
+   */
+  setExportFormats(formats: ExportFormat[] | null | undefined): void {
+    this.exportFormats = normalizeExportFormats(formats);
+    this.dispatchCustomEvent('export-formats-updated', { exportFormats: this.getExportFormats() });
+  }
+  
+  // 保存対象のフォーマット（既定のままの場合は undefined）
+  getExportFormatsForSave(): ExportFormat[] | undefined {
+    return isDefaultExportFormats(this.exportFormats) ? undefined : this.getExportFormats();
+  }
+
   /**
    * 文字配列から半角・全角文字数をカウント
    */
@@ -470,15 +706,7 @@ export class Engine {
     }
     
     // 音楽データの長さを取得
-    let musicMaxTime = 0;
-    if (this.audioPlayer) {
-      const state = this.audioPlayer.state();
-      const duration = this.audioPlayer.duration ? this.audioPlayer.duration() : 0;
-      
-      if (this.audioPlayer.duration && duration > 0) {
-        musicMaxTime = duration * 1000; // ミリ秒に変換
-      }
-    }
+    const musicMaxTime = this.getMusicDuration();
     
     // 歌詞データと音楽データの長い方を選択
     const maxTime = Math.max(lyricsMaxTime, musicMaxTime);
@@ -797,11 +1025,18 @@ export class Engine {
         }
       } catch (error) {
         // 音楽プレイヤーからの時間取得に失敗した場合は独立した時間進行にフォールバック
-        newTime = this.currentTime + (elapsed || this.app.ticker.deltaMS);
+        newTime = this.currentTime + (elapsed || this.app.ticker.deltaMS) * this.playbackRate;
       }
     } else {
       // 音楽が読み込まれていない場合は独立した時間進行
-      newTime = this.currentTime + (elapsed || this.app.ticker.deltaMS);
+      newTime = this.currentTime + (elapsed || this.app.ticker.deltaMS) * this.playbackRate;
+    }
+    
+    // A–Bループ: 再生位置がループ終了を越えたら開始位置に戻る
+    const loop = this.loopEnabled ? this.loopRegion : null;
+    if (loop && this.currentTime < loop.end && newTime >= loop.end) {
+      this.seek(loop.start);
+      return;
     }
     
     // 終了時刻チェック - タイムライン終端で自動停止
@@ -828,6 +1063,12 @@ export class Engine {
 
   // 再生制御メソッド
   play() {
+    // ループ有効時に範囲外から再生を始めた場合はループの開始位置から再生
+    const loop = this.loopEnabled ? this.loopRegion : null;
+    if (loop && (this.currentTime < loop.start || this.currentTime >= loop.end)) {
+      this.seek(loop.start);
+    }
+    
     this.isRunning = true;
     this.lastUpdateTime = performance.now();
     console.log('[Engine] 再生開始');
@@ -837,6 +1078,7 @@ export class Engine {
       const audioOffset = this.getAudioOffset();
       const adjustedTime = Math.max(0, (this.currentTime + audioOffset) / 1000); // 秒単位に変換、負の値は0にクランプ
       this.audioPlayer.seek(adjustedTime);
+      this.applyPlaybackRateToMedia();
       this.audioPlayer.play();
       console.log(`[Engine] 音楽再生開始 - 現在時間: ${this.currentTime}ms, オフセット: ${audioOffset}ms, 調整後: ${adjustedTime}s`);
     } else {
@@ -847,9 +1089,82 @@ export class Engine {
     // 背景動画がある場合は再生
     if (this.backgroundVideo) {
       this.backgroundVideo.currentTime = this.currentTime / 1000;
+      this.applyPlaybackRateToMedia();
       this.backgroundVideo.play().catch(console.error);
     }
   }
+  
+  /**
+   * プレビューの再生速度を設定（0.25〜2倍、音程は保持。タイミング調整用で動画出力には影響しない）
+   */
+  setPlaybackRate(rate: number): void {
+    if (!Number.isFinite(rate) || rate <= 0) {
+      console.warn(`Engine: 無効な再生速度です: ${rate}`);
+      return;
+    }
+    this.playbackRate = PlaybackSession.clampRate(rate);
+    this.applyPlaybackRateToMedia();
+    this.savePlaybackSession();
+    
+    this.dispatchCustomEvent('playback-rate-changed', { playbackRate: this.playbackRate });
+  }
+  
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+  
+  /**
+   * A–Bループの範囲を設定（null で解除）。範囲を設定するとループを有効にする
+   */
+  setLoopRegion(region: LoopRegion | null): void {
+    this.loopRegion = PlaybackSession.normalizeRegion(region);
+    this.loopEnabled = this.loopRegion !== null;
+    this.savePlaybackSession();
+    this.dispatchCustomEvent('loop-region-changed', { loopRegion: this.loopRegion, loopEnabled: this.loopEnabled });
+  }
+  
+  getLoopRegion(): LoopRegion | null {
+    return this.loopRegion ? { ...this.loopRegion } : null;
+  }
+  
+  /**
+   * 範囲を保持したままループの有効・無効を切り替え
+   */
+  setLoopEnabled(enabled: boolean): void {
+    this.loopEnabled = enabled && this.loopRegion !== null;
+    this.savePlaybackSession();
+    this.dispatchCustomEvent('loop-region-changed', { loopRegion: this.loopRegion, loopEnabled: this.loopEnabled });
+  }
+  
+  isLoopEnabled(): boolean {
+    return this.loopEnabled;
+  }
+  
+  // 再生速度を音声・背景動画に反映（HTML5 Audio・video は既定の preservesPitch により音程を保つ）
+  private applyPlaybackRateToMedia(): void {
+    if (this.audioPlayer) {
+      this.audioPlayer.rate(this.playbackRate);
+    }
+    if (this.backgroundVideo) {
+      this.backgroundVideo.playbackRate = this.playbackRate;
+    }
+  }
+  
+  // セッション中の再生設定（再生速度・ループ）を復元
+  private restorePlaybackSession(): void {
+    const session = PlaybackSession.load();
+    this.playbackRate = session.playbackRate;
+    this.loopRegion = session.loopRegion;
+    this.loopEnabled = session.loopEnabled;
+  }
+  
+  private savePlaybackSession(): void {
+    PlaybackSession.save({
+      playbackRate: this.playbackRate,
+      loopRegion: this.loopRegion,
+      loopEnabled: this.loopEnabled
+    });
+  }
 
   pause() {
     this.isRunning = false;
@@ -1177,17 +1492,49 @@ export class Engine {
     return this.phrases;
   }
 
+  /**
+   * 歌詞の構造編集（フレーズの挿入・削除・分割・結合、単語の結合・移動）を反映（1回のUndo単位）
+   * 旧IDをキーにしたパラメータ・テンプレート割り当て・キーフレームを内容と一緒に新しいIDへ移動する
+   */
+  applyLyricsStructureEdit(edit: LyricsStructureEdit, changeType: string): PhraseUnit[] {
+    // 変更前の状態を保存（パラメータも移動するため歌詞と一緒に記録）
+    this.projectStateManager.updateCurrentState({
+      lyricsData: JSON.parse(JSON.stringify(this.phrases)),
+      currentTime: this.currentTime,
+      templateAssignments: this.templateManager.exportAssignments(),
+      globalParams: this.parameterManager.getGlobalDefaults(),
+      objectParams: this.parameterManager.exportCompressed().phrases || {},
+      keyframeTracks: this.parameterManager.exportKeyframeTracks(),
+      defaultTemplateId: this.templateManager.getDefaultTemplateId()
+    });
+    this.projectStateManager.saveBeforeLyricsChange(changeType);
+    
+    this.templateManager.remapAssignments(edit.idMap, edit.createdIds);
+    this.parameterManager.remapObjectIds(edit.idMap, edit.createdIds);
+    this.instanceManager.updateTemplateAssignments(this.templateManager);
+    
+    this.updateLyricsData(edit.lyrics, false, changeType);
+    
+    this.projectStateManager.updateCurrentState({
+      templateAssignments: this.templateManager.exportAssignments(),
+      objectParams: this.parameterManager.exportCompressed().phrases || {},
+      keyframeTracks: this.parameterManager.exportKeyframeTracks()
+    });
+    return this.phrases;
+  }
+
   // オブジェクト固有のパラメータを設定
   updateObjectParams(objectId: string, type: 'phrase' | 'word' | 'char' | 'global', params: Partial<StandardParameters>) {
     try {
       if (import.meta.env.DEV && Math.random() < 0.05) { // 5%の確率でのみ出力
       }
       
-      // parameterManagerに統一
-      this.parameterManager.updateObjectParams(objectId, params);
-      
-      // 強制パラメータ同期を実行
-      this.parameterManager.forceSynchronizeParameters();
+      // parameterManagerに統一（グローバルはデフォルト、それ以外はフレーズ単位で更新）
+      if (type === 'global') {
+        this.parameterManager.updateGlobalDefaults(params);
+      } else {
+        this.parameterManager.updateParameters(objectId, params);
+      }
       
       // ① デフォルト＋オブジェクトパラメータを反映
       if (!this.template || !this.instanceManager) {
@@ -1248,6 +1595,74 @@ export class Engine {
   }
 
   
+  /**
+   * オブジェクトのキーフレームトラックを取得
+   */
+  getKeyframeTracks(objectId: string): ParameterKeyframeTrack[] {
+    return this.parameterManager.getKeyframeTracks(objectId);
+  }
+  
+  // キーフレームを追加・更新（Undo対応）
+  setParameterKeyframe(objectId: string, parameterName: ParameterKeyframeTrack['parameterName'], keyframe: ParameterKeyframe): boolean {
+    return this.applyKeyframeChange(`キーフレーム設定: ${parameterName} (${objectId})`, () =>
+      this.parameterManager.setKeyframe(objectId, parameterName, keyframe)
+    );
+  }
+  
+  // キーフレームを削除（Undo対応）
+  removeParameterKeyframe(objectId: string, parameterName: ParameterKeyframeTrack['parameterName'], timeMs: number): boolean {
+    return this.applyKeyframeChange(`キーフレーム削除: ${parameterName} (${objectId})`, () =>
+      this.parameterManager.removeKeyframe(objectId, parameterName, timeMs)
+    );
+  }
+  
+  // キーフレームの時刻を移動（Undo対応）
+  moveParameterKeyframe(objectId: string, parameterName: ParameterKeyframeTrack['parameterName'], fromMs: number, toMs: number): boolean {
+    const keyframe = this.parameterManager.getKeyframeTracks(objectId)
+      .find(track => track.parameterName === parameterName)?.keyframes
+      .find(item => item.timeMs === Math.round(fromMs));
+    if (!keyframe) {
+      return false;
+    }
+    
+    return this.applyKeyframeChange(`キーフレーム移動: ${parameterName} (${objectId})`, () =>
+      this.parameterManager.removeKeyframe(objectId, parameterName, fromMs) &&
+      this.parameterManager.setKeyframe(objectId, parameterName, { ...keyframe, timeMs: Math.max(0, toMs) })
+    );
+  }
+  
+  /**
+   * キーフレーム変更の共通処理（変更前の状態保存・再描画・通知）
+   */
+  private applyKeyframeChange(label: string, change: () => boolean): boolean {
+    try {
+      // 変更前の状態を現在状態に反映（履歴への保存は変更成功後）
+      this.projectStateManager.updateCurrentState({
+        lyricsData: JSON.parse(JSON.stringify(this.phrases)),
+        currentTime: this.currentTime,
+        keyframeTracks: this.parameterManager.exportKeyframeTracks()
+      });
+      
+      if (!change()) {
+        return false;
+      }
+      
+      this.projectStateManager.saveCurrentState(label);
+      const after = this.parameterManager.exportKeyframeTracks();
+      this.projectStateManager.updateCurrentState({ keyframeTracks: after });
+      
+      if (this.instanceManager) {
+        this.instanceManager.update(this.currentTime);
+      }
+      
+      this.dispatchCustomEvent('keyframes-updated', { keyframeTracks: after });
+      return true;
+    } catch (error) {
+      console.error('Engine: キーフレーム更新エラー:', error);
+      return false;
+    }
+  }
+  
   // グローバルパラメータを更新（Undo対応）
   updateGlobalParams(params: Partial<StandardParameters>, saveState: boolean = true) {
     console.log('[Engine] updateGlobalParams (OLD METHOD) called - redirecting to updateGlobalParameters');
@@ -1444,6 +1859,7 @@ export class Engine {
     // Howlerで音声を読み込む（フォーマットを明示的に指定）
     this.audioFilePath = filePath;
     this.audioFileName = fileName;
+    this.audioSourceUrl = filePath;
     this.audioPlayer = new Howl({
       src: [filePath],
       format: ['mp3', 'wav', 'ogg', 'm4a'], // フォーマットを明示的に指定
@@ -1507,6 +1923,77 @@ export class Engine {
     }
   }
   
+  /**
+   * 現在読み込まれている音声のAudioElementを取得（音声解析用、再生には使用しない）
+   */
+  getCurrentAudioElement(): HTMLAudioElement | null {
+    if (!this.audioPlayer || !this.audioSourceUrl) {
+      return null;
+    }
+    const audioElement = new Audio();
+    audioElement.preload = 'none';
+    audioElement.src = this.audioSourceUrl;
+    return audioElement;
+  }
+  
+  /**
+   * ビートグリッドを設定（null でクリア、プロジェクトと一緒に保存される）
+   */
+  setBeatGrid(beatGrid: BeatGrid | null): void {
+    this.beatGrid = BeatGridSnapper.normalize(beatGrid);
+    this.dispatchCustomEvent('beat-grid-updated', { beatGrid: this.beatGrid });
+  }
+  
+  getBeatGrid(): BeatGrid | null {
+    return this.beatGrid;
+  }
+  
+  /**
+   * ビート位置の一覧（BeatSyncEffectPrimitive などから参照）
+   */
+  getBeatMarkers(): BeatMarker[] {
+    return this.beatGrid?.beats ?? [];
+  }
+  
+  /**
+   * オーディオリアクティブ変調（特徴量カーブと変調設定）を取得
+   */
+  getAudioModulation(): AudioModulationData {
+    return this.audioModulator.exportData();
+  }
+  
+  /**
+   * オーディオリアクティブ変調をまとめて設定（プロジェクト読み込み用、null でクリア）
+   */
+  setAudioModulation(data: AudioModulationData | null): void {
+    this.audioModulator.importData(data);
+    this.handleAudioModulationChanged();
+  }
+  
+  setAudioFeatureEnvelopes(envelopes: AudioFeatureEnvelopes | null): void {
+    this.audioModulator.setEnvelopes(envelopes);
+    this.handleAudioModulationChanged();
+  }
+  
+  setAudioModulations(modulations: AudioModulation[]): void {
+    this.audioModulator.setModulations(modulations);
+    this.handleAudioModulationChanged();
+  }
+  
+  // 保存対象のオーディオ変調データ（未使用の場合は undefined）
+  getAudioModulationForSave(): AudioModulationData | undefined {
+    const data = this.audioModulator.exportData();
+    return data.envelopes || data.modulations.length > 0 ? data : undefined;
+  }
+  
+  private handleAudioModulationChanged(): void {
+    // 停止中でも変更が見えるよう現在時刻で再描画
+    if (this.instanceManager) {
+      this.instanceManager.update(this.currentTime);
+    }
+    this.dispatchCustomEvent('audio-modulation-updated', { audioModulation: this.audioModulator.exportData() });
+  }
+  
   /**
    * HTMLAudioElement/HTMLVideoElementから音声を読み込み（Electron用）
    */
@@ -1518,6 +2005,7 @@ export class Engine {
     // ElectronMediaManagerから現在のファイルパスを取得して更新（非同期）
     this.updateAudioFilePathFromElectronManager();
     
+    this.audioSourceUrl = audioElement.src;
     this.audioPlayer = new Howl({
       src: [audioElement.src],
       format: ['mp3', 'wav', 'ogg', 'm4a'],
@@ -2188,6 +2676,15 @@ export class Engine {
     return this.audioDuration;
   }
   
+  // 読み込み済みの音楽データの長さ（ms）を取得するメソッド（未読み込みの場合は0）
+  getMusicDuration(): number {
+    if (!this.audioPlayer || !this.audioPlayer.duration) {
+      return 0;
+    }
+    const duration = this.audioPlayer.duration();
+    return duration > 0 ? duration * 1000 : 0;
+  }
+  
   // 現在時刻を取得するメソッド（動画出力用）
   getCurrentTime(): number {
     return this.currentTime;
@@ -2224,9 +2721,15 @@ export class Engine {
         templateAssignments: this.templateManager.exportAssignments(),
         globalParams: this.parameterManager.getGlobalDefaults(),
         objectParams: this.parameterManager.exportCompressed().phrases || {},
+        keyframeTracks: this.parameterManager.exportKeyframeTracks(),
         defaultTemplateId: this.templateManager.getDefaultTemplateId()
       });
       
+      // 最新位置からのUndoでは、分岐として残せるよう現在の状態を控えておく
+      if (!this.projectStateManager.canRedo()) {
+        this.pendingBranchSnapshot = this.captureBranchSnapshot();
+      }
+      
       // Undoを実行
       const success = this.projectStateManager.undo();
       
@@ -2261,6 +2764,11 @@ export class Engine {
         // 状態を復元
         const restoredState = this.projectStateManager.getCurrentState();
         this.restoreProjectState(restoredState);
+        
+        // 最新位置まで戻った場合は分岐にならない
+        if (!this.projectStateManager.canRedo()) {
+          this.pendingBranchSnapshot = null;
+        }
       }
       
       return success;
@@ -2301,27 +2809,26 @@ export class Engine {
         this.instanceManager.loadPhrases(this.phrases, this.charPositions);
       }
       
-      // テンプレート割り当ての復元
+      // テンプレート割り当ての復元（構造編集で移動した割り当てが残らないよう置き換える）
       if (state.templateAssignments) {
+        this.templateManager.clearAllAssignments();
         this.templateManager.importAssignments(state.templateAssignments);
       }
       
-      // パラメータの完全復元（改善版）
-      if (state.globalParams || state.objectParams) {
-        // ParameterManagerの完全復元メソッドを使用
-        this.parameterManager.restoreCompleteState({
-          global: state.globalParams,
-          objects: state.objectParams,
-          individualSettingsEnabled: state.individualSettingsEnabled
+      // パラメータの完全復元（objectParams は exportCompressed().phrases 形式、空の履歴は現在の値を維持）
+      if (state.objectParams && Object.keys(state.objectParams).length > 0) {
+        this.parameterManager.importCompressed({
+          version: '2.0',
+          globalDefaults: (state.globalParams || this.parameterManager.getGlobalDefaults()) as CompleteParameters,
+          phrases: state.objectParams as Record<string, CompressedPhrase>
         });
-        
-        // パラメータマネージャーを更新
-        if (state.globalParams) {
-          this.parameterManager.updateGlobalDefaults(state.globalParams);
-        }
-        
+      } else if (state.globalParams) {
+        this.parameterManager.updateGlobalDefaults(state.globalParams);
       }
       
+      // キーフレームの復元（キーフレーム導入前の履歴には含まれないため、その場合は空にする）
+      this.parameterManager.importKeyframeTracks(state.keyframeTracks ?? {});
+      
       // デフォルトテンプレートの復元
       if (state.defaultTemplateId) {
         this.templateManager.setDefaultTemplateId(state.defaultTemplateId);
@@ -2371,6 +2878,240 @@ export class Engine {
       canRedo: this.canRedo()
     };
   }
+  
+  /**
+   * 履歴の任意の位置へ移動（履歴パネル用）
+   * @param index 履歴インデックス
+   * @returns 成功したかどうか
+   */
+  jumpToHistory(index: number): boolean {
+    const currentIndex = this.projectStateManager.getHistoryIndex();
+    if (index === currentIndex) {
+      return false;
+    }
+    
+    try {
+      // Undoと同様に、最新位置から戻る場合は現在の状態を分岐として控える
+      if (index < currentIndex && !this.projectStateManager.canRedo()) {
+        this.pendingBranchSnapshot = this.captureBranchSnapshot();
+      }
+      
+      if (!this.projectStateManager.rollbackTo(index)) {
+        return false;
+      }
+      this.restoreProjectState(this.projectStateManager.getCurrentState());
+      
+      if (!this.projectStateManager.canRedo()) {
+        this.pendingBranchSnapshot = null;
+      }
+      return true;
+    } catch (error) {
+      console.error('Engine: 履歴移動エラー:', error);
+      return false;
+    }
+  }
+  
+  private dispatchHistoryUpdatedEvent(): void {
+    this.dispatchCustomEvent('history-updated', {
+      currentIndex: this.projectStateManager.getHistoryIndex(),
+      canUndo: this.projectStateManager.canUndo(),
+      canRedo: this.projectStateManager.canRedo()
+    });
+  }
+  
+  // =============================================================================
+  // 名前付きスナップショット
+  // =============================================================================
+  
+  /**
+   * スナップショット一覧を取得
+   */
+  getSnapshots(): ProjectSnapshotSummary[] {
+    return this.snapshotManager.getSnapshots();
+  }
+  
+  /**
+   * 現在の編集状態を名前付きスナップショットとして保存
+   * @param name スナップショット名
+   */
+  createSnapshot(name: string): ProjectSnapshotSummary | null {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return null;
+    }
+    
+    const snapshot: ProjectSnapshot = {
+      id: `snapshot_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: trimmed,
+      createdAt: Date.now(),
+      ...this.captureSnapshotContent()
+    };
+    this.snapshotManager.addSnapshot(snapshot);
+    this.dispatchSnapshotsUpdatedEvent();
+    return this.snapshotManager.getSnapshots().find(item => item.id === snapshot.id) || null;
+  }
+  
+  renameSnapshot(id: string, name: string): boolean {
+    const success = this.snapshotManager.renameSnapshot(id, name);
+    if (success) {
+      this.dispatchSnapshotsUpdatedEvent();
+    }
+    return success;
+  }
+  
+  deleteSnapshot(id: string): boolean {
+    const success = this.snapshotManager.deleteSnapshot(id);
+    if (success) {
+      this.dispatchSnapshotsUpdatedEvent();
+    }
+    return success;
+  }
+  
+  /**
+   * スナップショットと現在の状態の差分（歌詞タイミング・テンプレート割り当て・パラメータ）
+   */
+  diffSnapshot(id: string): SnapshotDiff | null {
+    const snapshot = this.snapshotManager.getSnapshot(id);
+    if (!snapshot) {
+      return null;
+    }
+    return SnapshotManager.diff(snapshot, this.captureSnapshotContent());
+  }
+  
+  /**
+   * スナップショットを復元（Undo対応）
+   * @param id スナップショットID
+   * @param phraseIds 指定した場合はそのフレーズのみ復元
+   * @returns 成功したかどうか
+   */
+  restoreSnapshot(id: string, phraseIds?: string[]): boolean {
+    const snapshot = this.snapshotManager.getSnapshot(id);
+    if (!snapshot || (phraseIds && phraseIds.length === 0)) {
+      return false;
+    }
+    
+    try {
+      // 復元前の状態を履歴に保存
+      this.projectStateManager.updateCurrentState({
+        lyricsData: JSON.parse(JSON.stringify(this.phrases)),
+        currentTime: this.currentTime,
+        templateAssignments: this.templateManager.exportAssignments(),
+        globalParams: this.parameterManager.getGlobalDefaults(),
+        objectParams: this.parameterManager.exportCompressed().phrases || {},
+        keyframeTracks: this.parameterManager.exportKeyframeTracks(),
+        defaultTemplateId: this.templateManager.getDefaultTemplateId()
+      });
+      this.projectStateManager.saveCurrentState(
+        `スナップショット復元: ${snapshot.name}${phraseIds ? ` (${phraseIds.length}フレーズ)` : ''}`
+      );
+      
+      const content = phraseIds
+        ? SnapshotManager.mergePhrases(snapshot, this.captureSnapshotContent(), phraseIds)
+        : snapshot;
+      this.applySnapshotContent(content);
+      
+      // 復元後の状態を現在状態に反映
+      const paramExport = this.parameterManager.exportCompressed();
+      this.projectStateManager.updateCurrentState({
+        lyricsData: JSON.parse(JSON.stringify(this.phrases)),
+        templateAssignments: this.templateManager.exportAssignments(),
+        globalParams: this.parameterManager.getGlobalDefaults(),
+        objectParams: paramExport.phrases || {},
+        keyframeTracks: this.parameterManager.exportKeyframeTracks(),
+        defaultTemplateId: this.templateManager.getDefaultTemplateId()
+      });
+      return true;
+    } catch (error) {
+      console.error('Engine: スナップショット復元エラー:', error);
+      return false;
+    }
+  }
+  
+  /**
+   * 保存対象のスナップショット（ない場合は undefined）
+   */
+  getSnapshotsForSave(): ProjectSnapshot[] | undefined {
+    const snapshots = this.snapshotManager.exportSnapshots();
+    return snapshots.length > 0 ? snapshots : undefined;
+  }
+  
+  /**
+   * スナップショットをまとめて設定（プロジェクト読み込み用）
+   */
+  setSnapshots(snapshots: ProjectSnapshot[] | null | undefined): void {
+    this.snapshotManager.importSnapshots(snapshots ?? []);
+    this.pendingBranchSnapshot = null;
+    this.dispatchSnapshotsUpdatedEvent();
+  }
+  
+  private captureSnapshotContent(): ProjectSnapshotContent {
+    return {
+      lyricsData: JSON.parse(JSON.stringify(this.phrases)),
+      templateAssignments: this.templateManager.exportAssignments(),
+      defaultTemplateId: this.templateManager.getDefaultTemplateId(),
+      parameterData: JSON.parse(JSON.stringify(this.parameterManager.exportCompressed()))
+    };
+  }
+  
+  private captureBranchSnapshot(): ProjectSnapshot {
+    const { history, currentIndex } = this.getUndoRedoHistory();
+    const label = history[currentIndex]?.label;
+    return {
+      id: `snapshot_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: `破棄された分岐${label ? `: ${label}` : ''}`,
+      createdAt: Date.now(),
+      auto: true,
+      ...this.captureSnapshotContent()
+    };
+  }
+  
+  // 新規編集で分岐が破棄されたら、控えておいた最新状態を自動スナップショットにする
+  private handleBranchDiscarded(): void {
+    if (!this.pendingBranchSnapshot) {
+      return;
+    }
+    this.snapshotManager.addSnapshot(this.pendingBranchSnapshot);
+    this.pendingBranchSnapshot = null;
+    this.dispatchSnapshotsUpdatedEvent();
+  }
+  
+  private applySnapshotContent(content: ProjectSnapshotContent): void {
+    this.phrases = JSON.parse(JSON.stringify(content.lyricsData));
+    
+    if (content.parameterData) {
+      this.parameterManager.importCompressed(content.parameterData);
+    }
+    
+    this.templateManager.clearAllAssignments();
+    this.templateManager.importAssignments(content.templateAssignments);
+    
+    if (content.defaultTemplateId && this.templateManager.getTemplateById(content.defaultTemplateId)) {
+      this.templateManager.setDefaultTemplateId(content.defaultTemplateId);
+      this.parameterManager.setDefaultTemplateId(content.defaultTemplateId);
+      this.template = this.templateManager.getTemplateById(content.defaultTemplateId)!;
+    }
+    
+    // スナップショットにないフレーズ（旧データ等）はデフォルトで初期化
+    this.phrases.forEach(phrase => {
+      if (!this.parameterManager.isPhraseInitialized(phrase.id)) {
+        const templateId = this.templateManager.getAssignment(phrase.id) || this.templateManager.getDefaultTemplateId();
+        this.parameterManager.initializePhrase(phrase.id, templateId);
+      }
+    });
+    
+    this.charPositions.clear();
+    this.arrangeCharsOnStage();
+    this.instanceManager.loadPhrases(this.phrases, this.charPositions);
+    this.instanceManager.updateTemplateAssignments(this.templateManager);
+    this.instanceManager.updateTemplate(this.template, this.parameterManager.getGlobalDefaults());
+    this.instanceManager.update(this.currentTime);
+    
+    this.dispatchTimelineUpdatedEvent();
+  }
+  
+  private dispatchSnapshotsUpdatedEvent(): void {
+    this.dispatchCustomEvent('snapshots-updated', { snapshots: this.snapshotManager.getSnapshots() });
+  }
 
   // プロジェクト読み込み（統一復元マネージャー使用）
   async loadProject(config: any): Promise<boolean> {
@@ -3007,8 +3748,9 @@ export class Engine {
   /**
    * オフスクリーンフレームキャプチャ（シークアンドスナップ方式用）
    * RenderTexturePoolを使用してメモリ効率を最適化
+   * transparentBackground 指定時は背景レイヤーを描画せず、歌詞のみをアルファ付きで取得する
    */
-  captureOffscreenFrame(outputWidth: number, outputHeight: number, includeDebugVisuals: boolean = false): Uint8Array {
+  captureOffscreenFrame(outputWidth: number, outputHeight: number, includeDebugVisuals: boolean = false, transparentBackground: boolean = false): Uint8Array {
     if (!this.renderTexturePool) {
       throw new Error('Export resources not initialized. Call initializeExportResources first.');
     }
@@ -3059,6 +3801,12 @@ export class Engine {
         // 一時的にスケーリングを適用
         this.app.stage.scale.set(scaleX, scaleY);
         
+        // アルファ付き出力では背景（画像・動画）を合成しない
+        const originalBackgroundVisible = this.backgroundLayer.visible;
+        if (transparentBackground) {
+          this.backgroundLayer.visible = false;
+        }
+        
         try {
           // スケーリング済みステージをオフスクリーンテクスチャに描画
           this.app.renderer.render(this.app.stage, { renderTexture });
@@ -3079,6 +3827,7 @@ export class Engine {
         } finally {
           // スケーリングを元に戻す
           this.app.stage.scale.set(originalScaleX, originalScaleY);
+          this.backgroundLayer.visible = originalBackgroundVisible;
           
           // パーティクル解像度スケールもリセット
           this.resetParticleResolutionScale();
@@ -3578,7 +4327,12 @@ export class Engine {
           stageConfig: this.stageConfig,
           selectedTemplate: this.templateManager.getDefaultTemplateId(),
           templateParams: this.parameterManager.exportCompressed(),
-          backgroundConfig: this.backgroundConfig
+          backgroundConfig: this.backgroundConfig,
+          beatGrid: this.beatGrid ?? undefined,
+          audioModulation: this.getAudioModulationForSave(),
+          snapshots: this.getSnapshotsForSave(),
+          lyricTracks: this.getLyricTracksForSave(),
+          exportFormats: this.getExportFormatsForSave()
         },
         // 既存のrecentFilesデータを保持
         recentFiles: existingData?.recentFiles || { audioFiles: [], backgroundVideoFiles: [] }
@@ -5,7 +5,7 @@
  * 参照: development-directive-final.md#2.1, existing-system-integration-design.md#2.2
  */
 
-import AnimationInstance from './AnimationInstance';
+import AnimationInstance, { ParamResolver } from './AnimationInstance';
 import { CoreSynchronizationEngine, SyncResult } from './CoreSynchronizationEngine';
 import { SimplePrecisionTimeManager } from './SimplePrecisionTimeManager';
 
@@ -35,7 +35,7 @@ export class HierarchicalWrapper {
   private config: IntegrationConfig;
   
   // 既存メソッドの保存（非破壊的統合）
-  private originalUpdate: (nowMs: number) => boolean | void;
+  private originalUpdate: (nowMs: number, resolveParams?: ParamResolver) => boolean | void;
   private originalMethods: Map<string, Function> = new Map();
   
   constructor(
@@ -103,8 +103,8 @@ export class HierarchicalWrapper {
    */
   private enableHierarchicalIntegration(): void {
     // updateメソッドをオーバーライド
-    this.originalInstance.update = (nowMs: number) => {
-      return this.hybridUpdate(nowMs);
+    this.originalInstance.update = (nowMs: number, resolveParams?: ParamResolver) => {
+      return this.hybridUpdate(nowMs, resolveParams);
     };
   }
   
@@ -112,9 +112,9 @@ export class HierarchicalWrapper {
    * ハイブリッド更新メソッド
    * 階層システムを試行し、エラー時は既存システムにフォールバック
    */
-  private hybridUpdate(nowMs: number): boolean | void {
+  private hybridUpdate(nowMs: number, resolveParams?: ParamResolver): boolean | void {
     if (!this.data.hierarchicalEnabled) {
-      return this.originalUpdate(nowMs);
+      return this.originalUpdate(nowMs, resolveParams);
     }
     
     try {
@@ -135,7 +135,7 @@ export class HierarchicalWrapper {
       }
       
       // 既存システムで実行
-      return this.originalUpdate(nowMs);
+      return this.originalUpdate(nowMs, resolveParams);
     }
   }
   
@@ -3,6 +3,9 @@ import { PhraseUnit, CharUnit, WordUnit, HierarchyType } from '../types/types';
 import AnimationInstance from './AnimationInstance';
 import { IAnimationTemplate } from '../types/types';
 import { TemplateManager } from './TemplateManager';
+import { AudioModulator } from './AudioModulator';
+import { LyricTrack } from '../../types/LyricTrack';
+import { LyricTrackUtils } from '../utils/LyricTrackUtils';
 
 export class InstanceManager {
   private app: PIXI.Application;
@@ -25,6 +28,11 @@ export class InstanceManager {
   private defaultTemplateId: string = '';
   private templateManager: TemplateManager | null = null;
   private parameterManagerV2: any = null; // ParameterManagerV2への参照
+  private audioModulator: AudioModulator | null = null; // オーディオリアクティブ変調
+  
+  // 歌詞トラック（トラックごとのコンテナでオフセット・重なり順・ミュート/ソロを反映）
+  private lyricTracks: LyricTrack[] = [LyricTrackUtils.createMainTrack()];
+  private trackContainers: Map<string, PIXI.Container> = new Map();
   
   // 前回のログ出力時間
   private lastLogTime: number = 0;
@@ -43,6 +51,7 @@ export class InstanceManager {
     this.mainContainer = new PIXI.Container();
     (this.mainContainer as any).name = 'mainContainer'; // デバッグ用に名前を設定
     this.mainContainer.zIndex = 0; // テキストレイヤーのzIndex
+    this.mainContainer.sortableChildren = true; // トラックコンテナをzIndexで並べる
     this.app.stage.addChild(this.mainContainer);
     this.app.stage.sortChildren(); // zIndexでソート
     
@@ -61,6 +70,18 @@ export class InstanceManager {
     }
   }
 
+  // 描画直前のパラメータ解決（ParameterManagerV2のキーフレーム → オーディオ変調の順に現在時刻で評価）
+  private resolveAnimatedParams = (objectId: string, params: Record<string, any>, nowMs: number): Record<string, any> => {
+    let resolved = params;
+    if (this.parameterManagerV2 && typeof this.parameterManagerV2.evaluateKeyframes === 'function') {
+      resolved = this.parameterManagerV2.evaluateKeyframes(objectId, resolved, nowMs);
+    }
+    if (this.audioModulator) {
+      resolved = this.audioModulator.apply(resolved, nowMs);
+    }
+    return resolved;
+  };
+
   // インスタンス取得用メソッド
   getInstance(id: string): AnimationInstance | undefined {
     return this.instances.get(id);
@@ -139,9 +160,9 @@ export class InstanceManager {
         }
       }
       
-      // フレーズコンテナを作成
+      // フレーズコンテナを作成（所属トラックのコンテナに配置）
       const phraseContainer = new PIXI.Container();
-      this.mainContainer.addChild(phraseContainer);
+      this.getTrackContainer(LyricTrackUtils.resolveTrackId(phrase, this.lyricTracks)).addChild(phraseContainer);
       
       // パラメータにIDと単語データを追加
       params = {
@@ -236,6 +257,7 @@ export class InstanceManager {
         // V2完全移行: word.paramsは無視する（レガシー互換性を削除）
         id: word.id, // IDを明示的に設定
         chars: word.chars, // 文字データを渡す
+        ruby: word.ruby, // ルビ（レイアウトプリミティブで描画）
         wordIndex: wordIndex, // 単語インデックスを追加
         totalWords: totalWords, // 総単語数を追加
         // フレーズ情報を単語パラメータに追加
@@ -426,6 +448,7 @@ export class InstanceManager {
       id: instance.params.id,
       words: instance.params.words,
       chars: instance.params.chars,
+      ruby: instance.params.ruby,
       charIndex: instance.params.charIndex,
       totalChars: instance.params.totalChars,
       totalWords: instance.params.totalWords,
@@ -486,7 +509,7 @@ export class InstanceManager {
       // まず文字レベルの更新
       this.charInstances.forEach(instance => {
         if (this.isInstanceInTimeRange(instance, nowMs, maxHeadTime, maxTailTime)) {
-          instance.update(nowMs);
+          instance.update(nowMs, this.resolveAnimatedParams);
           this.activeInstances.add(instance.id);
           activeCount++;
         } else {
@@ -498,7 +521,7 @@ export class InstanceManager {
       this.wordInstances.forEach(instance => {
         wordProcessed++;
         if (this.isInstanceInTimeRange(instance, nowMs, maxHeadTime, maxTailTime)) {
-          const result = instance.update(nowMs);
+          const result = instance.update(nowMs, this.resolveAnimatedParams);
           wordActive++;
           this.activeInstances.add(instance.id);
           activeCount++;
@@ -512,7 +535,7 @@ export class InstanceManager {
       // 最後にフレーズレベルの更新
       this.phraseInstances.forEach(instance => {
         if (this.isInstanceInTimeRange(instance, nowMs, maxHeadTime, maxTailTime)) {
-          instance.update(nowMs);
+          instance.update(nowMs, this.resolveAnimatedParams);
           this.activeInstances.add(instance.id);
           activeCount++;
         } else {
@@ -701,6 +724,7 @@ export class InstanceManager {
       id: instance.params.id,
       words: instance.params.words,
       chars: instance.params.chars,
+      ruby: instance.params.ruby,
       charIndex: instance.params.charIndex,
       totalChars: instance.params.totalChars,
       totalWords: instance.params.totalWords,
@@ -726,6 +750,10 @@ export class InstanceManager {
     this.charInstances.clear();
     this.hierarchyMap.clear();
     this.mainContainer.removeChildren();
+    for (const container of this.trackContainers.values()) {
+      container.destroy();
+    }
+    this.trackContainers.clear();
   }
 
   // テンプレートを更新（歌詞データを保持）（改善版）
@@ -773,6 +801,7 @@ export class InstanceManager {
             id: instance.params.id || instanceId,
             words: instance.params.words,
             chars: instance.params.chars,
+            ruby: instance.params.ruby,
             charIndex: instance.params.charIndex,
             totalChars: instance.params.totalChars,
             totalWords: instance.params.totalWords,
@@ -800,6 +829,7 @@ export class InstanceManager {
             id: instance.params.id,
             words: instance.params.words,
             chars: instance.params.chars,
+            ruby: instance.params.ruby,
             charIndex: instance.params.charIndex,
             totalChars: instance.params.totalChars,
             totalWords: instance.params.totalWords,
@@ -920,6 +950,45 @@ export class InstanceManager {
     this.parameterManagerV2 = parameterManagerV2;
   }
   
+  // オーディオリアクティブ変調の設定
+  setAudioModulator(audioModulator: AudioModulator | null): void {
+    this.audioModulator = audioModulator;
+  }
+  
+  // 歌詞トラック設定の更新（インスタンスは再生成せず表示のみ反映）
+  setLyricTracks(tracks: LyricTrack[]): void {
+    this.lyricTracks = tracks.map(track => ({ ...track }));
+    for (const [trackId, container] of this.trackContainers.entries()) {
+      this.applyTrackDisplay(trackId, container);
+    }
+  }
+  
+  // トラックのコンテナを取得（なければ作成）
+  private getTrackContainer(trackId: string): PIXI.Container {
+    let container = this.trackContainers.get(trackId);
+    if (!container) {
+      container = new PIXI.Container();
+      (container as any).name = `track_container_${trackId}`;
+      this.mainContainer.addChild(container);
+      this.trackContainers.set(trackId, container);
+      this.applyTrackDisplay(trackId, container);
+    }
+    return container;
+  }
+  
+  private applyTrackDisplay(trackId: string, container: PIXI.Container): void {
+    const track = this.lyricTracks.find(item => item.id === trackId);
+    if (!track) {
+      container.position.set(0, 0);
+      container.zIndex = 0;
+      container.visible = true;
+      return;
+    }
+    container.position.set(track.offsetX, track.offsetY);
+    container.zIndex = track.zIndex;
+    container.visible = LyricTrackUtils.isAudible(track, this.lyricTracks);
+  }
+  
 }
 
 export default InstanceManager;
\ No newline at end of file
@@ -2,6 +2,9 @@ import { StandardParameters, DEFAULT_PARAMETERS } from '../../types/StandardPara
 import { ParameterValidator } from '../../utils/ParameterValidator';
 import { templateRegistry } from '../templates/registry/templateRegistry';
 import { ParameterProcessor } from '../utils/ParameterProcessor';
+import { KeyframeEvaluator } from '../utils/KeyframeEvaluator';
+import { ParameterKeyframe, ParameterKeyframeTrack, KeyframeTrackMap } from '../../types/ParameterKeyframes';
+import { LyricsStructureEditor } from '../utils/lyrics/LyricsStructureEditor';
 
 // 完全なパラメータセット（すべて必須）
 export type CompleteParameters = Required<StandardParameters>;
@@ -11,6 +14,8 @@ export interface CompressedProjectData {
   version: "2.0";
   globalDefaults: CompleteParameters;
   phrases: Record<string, CompressedPhrase>;
+  // パラメータキーフレーム（オブジェクトID → トラック一覧、トラックがない場合は省略）
+  keyframeTracks?: KeyframeTrackMap;
 }
 
 export interface CompressedPhrase {
@@ -44,6 +49,9 @@ export class ParameterManagerV2 {
   // デフォルトテンプレートID
   private defaultTemplateId: string = 'fadeslidetext';
   
+  // パラメータキーフレーム（オブジェクトID → パラメータ名 → トラック）
+  private keyframeTracks: Map<string, Map<string, ParameterKeyframeTrack>> = new Map();
+  
   // 変更通知用のコールバック
   private changeListeners: Map<string, (phraseId: string, params: CompleteParameters) => void> = new Map();
   
@@ -566,11 +574,17 @@ export class ParameterManagerV2 {
       };
     }
     
-    return {
+    const result: CompressedProjectData = {
       version: "2.0",
       globalDefaults: this.globalDefaults,
       phrases: compressed
     };
+    
+    if (this.keyframeTracks.size > 0) {
+      result.keyframeTracks = this.exportKeyframeTracks();
+    }
+    
+    return result;
   }
   
   /**
@@ -649,6 +663,9 @@ export class ParameterManagerV2 {
       this.phraseTemplates.set(phraseId, templateIdToStore);
     }
     
+    // キーフレームの復元（旧データにはないため空にする）
+    this.importKeyframeTracks(data.keyframeTracks || {});
+    
     // 復元完了後の統計をログ出力
     const individualCount = Array.from(this.phraseIndividualSettings.values()).filter(v => v).length;
   }
@@ -824,6 +841,21 @@ export class ParameterManagerV2 {
     this.phraseIndividualSettings.delete(phraseId);
   }
   
+  /**
+   * 歌詞の構造編集に合わせて、フレーズのパラメータ・個別設定とキーフレームを新しいIDに移動
+   */
+  remapObjectIds(idMap: Record<string, string[]>, createdIds: string[] = []): void {
+    LyricsStructureEditor.remapKeys(this.phraseParameters, idMap, createdIds, params => JSON.parse(JSON.stringify(params)));
+    LyricsStructureEditor.remapKeys(this.phraseTemplates, idMap, createdIds);
+    LyricsStructureEditor.remapKeys(this.phraseIndividualSettings, idMap, createdIds);
+    LyricsStructureEditor.remapKeys(this.keyframeTracks, idMap, createdIds, tracks => new Map(
+      Array.from(tracks.entries()).map(([name, track]) => [name, {
+        parameterName: track.parameterName,
+        keyframes: track.keyframes.map(keyframe => ({ ...keyframe }))
+      }])
+    ));
+  }
+  
   /**
    * フレーズが初期化されているかチェック
    */
@@ -937,6 +969,132 @@ export class ParameterManagerV2 {
     
   }
   
+  /**
+   * オブジェクトに設定されたキーフレームトラックを取得
+   */
+  getKeyframeTracks(objectId: string): ParameterKeyframeTrack[] {
+    const tracks = this.keyframeTracks.get(objectId);
+    if (!tracks) return [];
+    return Array.from(tracks.values()).map(track => ({
+      parameterName: track.parameterName,
+      keyframes: track.keyframes.map(keyframe => ({ ...keyframe }))
+    }));
+  }
+  
+  /**
+   * キーフレームを追加（同一時刻のキーフレームは置き換え）
+   */
+  setKeyframe(objectId: string, parameterName: keyof StandardParameters, keyframe: ParameterKeyframe): boolean {
+    if (!KeyframeEvaluator.isKeyframeableParameter(parameterName)) {
+      console.warn(`ParameterManagerV2: ${parameterName} はキーフレームに対応していません`);
+      return false;
+    }
+    
+    const value = KeyframeEvaluator.normalizeValue(parameterName, keyframe.value);
+    if (value === null) {
+      console.warn(`ParameterManagerV2: キーフレーム値が不正です (${parameterName}: ${keyframe.value})`);
+      return false;
+    }
+    
+    const tracks = this.keyframeTracks.get(objectId) || new Map<string, ParameterKeyframeTrack>();
+    const track = tracks.get(parameterName) || { parameterName, keyframes: [] };
+    track.keyframes = KeyframeEvaluator.sortKeyframes([...track.keyframes, { ...keyframe, value }]);
+    tracks.set(parameterName, track);
+    this.keyframeTracks.set(objectId, tracks);
+    return true;
+  }
+  
+  /**
+   * 指定時刻のキーフレームを削除（トラックが空になった場合はトラックごと削除）
+   */
+  removeKeyframe(objectId: string, parameterName: keyof StandardParameters, timeMs: number): boolean {
+    const tracks = this.keyframeTracks.get(objectId);
+    const track = tracks?.get(parameterName);
+    if (!tracks || !track) return false;
+    
+    const remaining = track.keyframes.filter(keyframe => keyframe.timeMs !== Math.round(timeMs));
+    if (remaining.length === track.keyframes.length) return false;
+    
+    if (remaining.length === 0) {
+      tracks.delete(parameterName);
+      if (tracks.size === 0) {
+        this.keyframeTracks.delete(objectId);
+      }
+    } else {
+      track.keyframes = remaining;
+    }
+    return true;
+  }
+  
+  /**
+   * キーフレームトラックを削除
+   */
+  clearKeyframeTrack(objectId: string, parameterName?: keyof StandardParameters): void {
+    if (!parameterName) {
+      this.keyframeTracks.delete(objectId);
+      return;
+    }
+    const tracks = this.keyframeTracks.get(objectId);
+    if (!tracks) return;
+    tracks.delete(parameterName);
+    if (tracks.size === 0) {
+      this.keyframeTracks.delete(objectId);
+    }
+  }
+  
+  /**
+   * 指定時刻のキーフレーム値を静的パラメータに上書き
+   * フレーズのトラックを先に適用し、単語・文字に個別のトラックがあればさらに上書きする
+   */
+  evaluateKeyframes<T extends Record<string, any>>(objectId: string, params: T, nowMs: number): T {
+    if (this.keyframeTracks.size === 0) return params;
+    
+    const phraseId = this.extractPhraseId(objectId);
+    let result = params;
+    const phraseTracks = this.keyframeTracks.get(phraseId);
+    if (phraseTracks) {
+      result = KeyframeEvaluator.applyTracks(result, Array.from(phraseTracks.values()), nowMs);
+    }
+    if (objectId !== phraseId) {
+      const objectTracks = this.keyframeTracks.get(objectId);
+      if (objectTracks) {
+        result = KeyframeEvaluator.applyTracks(result, Array.from(objectTracks.values()), nowMs);
+      }
+    }
+    return result;
+  }
+  
+  /**
+   * キーフレームトラックのエクスポート
+   */
+  exportKeyframeTracks(): KeyframeTrackMap {
+    const result: KeyframeTrackMap = {};
+    for (const objectId of this.keyframeTracks.keys()) {
+      result[objectId] = this.getKeyframeTracks(objectId);
+    }
+    return result;
+  }
+  
+  /**
+   * キーフレームトラックのインポート（既存のトラックは置き換え）
+   */
+  importKeyframeTracks(data: KeyframeTrackMap): void {
+    this.keyframeTracks.clear();
+    for (const [objectId, tracks] of Object.entries(data)) {
+      if (!Array.isArray(tracks)) continue;
+      tracks.forEach(track => {
+        if (!track || !Array.isArray(track.keyframes)) return;
+        track.keyframes.forEach(keyframe => {
+          this.setKeyframe(objectId, track.parameterName, {
+            timeMs: keyframe.timeMs,
+            value: keyframe.value,
+            interpolation: keyframe.interpolation || 'linear'
+          });
+        });
+      });
+    }
+  }
+  
   /**
    * デバッグ用: 現在の状態をダンプ
    */
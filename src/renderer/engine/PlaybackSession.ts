@@ -0,0 +1,82 @@
+/**
+ * プレビュー再生のセッション設定（A–Bループと再生速度）
+ * プロジェクトには保存せず、ウィンドウを開いている間（再読み込みを含む）だけ sessionStorage に保持する
+ *
+ * 設定の適用（音声・背景動画・アニメーション時間への反映）は Engine が行う
+ */
+
+// A–Bループの範囲（アニメーション時間、ms）
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+export interface PlaybackSessionState {
+  playbackRate: number;
+  loopRegion: LoopRegion | null;
+  loopEnabled: boolean;
+}
+
+// 選択できる再生速度
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 2;
+// これより短いループ範囲は設定しない
+export const MIN_LOOP_DURATION = 100;
+
+const STORAGE_KEY = 'utavista-playback-session';
+
+export class PlaybackSession {
+  static getDefaultState(): PlaybackSessionState {
+    return { playbackRate: 1, loopRegion: null, loopEnabled: false };
+  }
+
+  /**
+   * 保存済みの設定を読み込む（不正な値は既定値に戻す）
+   */
+  static load(): PlaybackSessionState {
+    const state = this.getDefaultState();
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || 'null');
+      if (!stored || typeof stored !== 'object') {
+        return state;
+      }
+      if (typeof stored.playbackRate === 'number') {
+        state.playbackRate = this.clampRate(stored.playbackRate);
+      }
+      state.loopRegion = this.normalizeRegion(stored.loopRegion);
+      state.loopEnabled = state.loopRegion !== null && stored.loopEnabled === true;
+    } catch (error) {
+      console.warn('PlaybackSession: 再生設定の読み込みに失敗しました', error);
+    }
+    return state;
+  }
+
+  static save(state: PlaybackSessionState): void {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.warn('PlaybackSession: 再生設定の保存に失敗しました', error);
+    }
+  }
+
+  static clampRate(rate: number): number {
+    return Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+  }
+
+  /**
+   * ループ範囲を開始 < 終了の順に整え、短すぎる範囲は null にする
+   */
+  static normalizeRegion(region: unknown): LoopRegion | null {
+    if (!region || typeof region !== 'object') {
+      return null;
+    }
+    const { start, end } = region as Partial<LoopRegion>;
+    if (typeof start !== 'number' || typeof end !== 'number' || !Number.isFinite(start) || !Number.isFinite(end)) {
+      return null;
+    }
+    const from = Math.max(0, Math.round(Math.min(start, end)));
+    const to = Math.round(Math.max(start, end));
+    return to - from >= MIN_LOOP_DURATION ? { start: from, end: to } : null;
+  }
+}
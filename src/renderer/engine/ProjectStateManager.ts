@@ -1,4 +1,5 @@
 import { PhraseUnit, StageConfig, BackgroundConfig } from '../types/types';
+import { KeyframeTrackMap } from '../../types/ParameterKeyframes';
 
 // プロジェクト状態の型定義
 export interface ProjectState {
@@ -19,6 +20,15 @@ export interface ProjectState {
   audioOffset?: number; // 音楽再生タイミングオフセット（ms）、デフォルトは0
   // 個別設定情報
   individualSettingsEnabled?: string[]; // 個別設定が有効化されたオブジェクトID
+  // パラメータキーフレーム
+  keyframeTracks?: KeyframeTrackMap;
+}
+
+// 履歴変更の通知
+export interface ProjectHistoryListener {
+  onHistoryChanged?: () => void;
+  // Undo後の新規編集で破棄される履歴（分岐）
+  onBranchDiscarded?: (discarded: ProjectState[]) => void;
 }
 
 export class ProjectStateManager {
@@ -30,6 +40,9 @@ export class ProjectStateManager {
   private historyIndex: number = -1;
   private maxHistorySize: number = 20;
   
+  // 履歴変更の通知先
+  private historyListener: ProjectHistoryListener | null = null;
+  
   constructor(initialState: ProjectState) {
     this.currentState = { ...initialState };
   }
@@ -46,7 +59,9 @@ export class ProjectStateManager {
     // 履歴を保存
     if (this.historyIndex < this.stateHistory.length - 1) {
       // 現在位置が最新でない場合、以降の履歴を破棄
+      const discarded = this.stateHistory.slice(this.historyIndex + 1);
       this.stateHistory = this.stateHistory.slice(0, this.historyIndex + 1);
+      this.historyListener?.onBranchDiscarded?.(discarded);
     }
     
     this.stateHistory.push(state);
@@ -57,6 +72,17 @@ export class ProjectStateManager {
       this.stateHistory.shift();
       this.historyIndex--;
     }
+    
+    this.notifyHistoryChanged();
+  }
+  
+  // 履歴変更の通知先を設定
+  setHistoryListener(listener: ProjectHistoryListener | null): void {
+    this.historyListener = listener;
+  }
+  
+  private notifyHistoryChanged(): void {
+    this.historyListener?.onHistoryChanged?.();
   }
   
   // 特定ポイントへのロールバック
@@ -67,6 +93,7 @@ export class ProjectStateManager {
     
     this.currentState = { ...this.stateHistory[index] };
     this.historyIndex = index;
+    this.notifyHistoryChanged();
     return true;
   }
   
@@ -78,6 +105,7 @@ export class ProjectStateManager {
     
     this.historyIndex--;
     this.currentState = { ...this.stateHistory[this.historyIndex] };
+    this.notifyHistoryChanged();
     return true;
   }
   
@@ -89,6 +117,7 @@ export class ProjectStateManager {
     
     this.historyIndex++;
     this.currentState = { ...this.stateHistory[this.historyIndex] };
+    this.notifyHistoryChanged();
     return true;
   }
   
@@ -145,6 +174,7 @@ export class ProjectStateManager {
     };
     this.stateHistory = [{ ...this.currentState }];
     this.historyIndex = 0;
+    this.notifyHistoryChanged();
   }
   
   // 現在の状態を取得
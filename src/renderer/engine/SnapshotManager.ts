@@ -0,0 +1,271 @@
+import { PhraseUnit } from '../types/types';
+import {
+  ProjectSnapshot,
+  ProjectSnapshotContent,
+  ProjectSnapshotSummary,
+  SnapshotDiff,
+  SnapshotPhraseDiff
+} from '../../types/ProjectSnapshot';
+
+/**
+ * 名前付きスナップショット管理
+ * Undo履歴とは独立して保持し、プロジェクトファイル・自動保存に含める
+ *
+ * スナップショットの適用（エンジンへの反映）は Engine が行い、
+ * ここでは一覧の管理と差分計算・フレーズ単位の合成のみを扱う
+ */
+export class SnapshotManager {
+  // 破棄された分岐の自動スナップショットは古いものから削除する
+  static readonly MAX_AUTO_SNAPSHOTS = 10;
+
+  private snapshots: ProjectSnapshot[] = [];
+
+  /**
+   * 一覧（作成順）
+   */
+  getSnapshots(): ProjectSnapshotSummary[] {
+    return this.snapshots.map(snapshot => ({
+      id: snapshot.id,
+      name: snapshot.name,
+      createdAt: snapshot.createdAt,
+      auto: snapshot.auto === true,
+      phraseCount: snapshot.lyricsData.length
+    }));
+  }
+
+  getSnapshot(id: string): ProjectSnapshot | undefined {
+    return this.snapshots.find(snapshot => snapshot.id === id);
+  }
+
+  addSnapshot(snapshot: ProjectSnapshot): void {
+    this.snapshots.push(snapshot);
+
+    const autoSnapshots = this.snapshots.filter(item => item.auto);
+    if (autoSnapshots.length > SnapshotManager.MAX_AUTO_SNAPSHOTS) {
+      const overflow = new Set(
+        autoSnapshots.slice(0, autoSnapshots.length - SnapshotManager.MAX_AUTO_SNAPSHOTS)
+      );
+      this.snapshots = this.snapshots.filter(item => !overflow.has(item));
+    }
+  }
+
+  renameSnapshot(id: string, name: string): boolean {
+    const snapshot = this.getSnapshot(id);
+    const trimmed = name.trim();
+    if (!snapshot || !trimmed) {
+      return false;
+    }
+    snapshot.name = trimmed;
+    // 名前を付けた分岐は自動削除の対象から外す
+    snapshot.auto = false;
+    return true;
+  }
+
+  deleteSnapshot(id: string): boolean {
+    const before = this.snapshots.length;
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.id !== id);
+    return this.snapshots.length !== before;
+  }
+
+  exportSnapshots(): ProjectSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  /**
+   * 読み込んだスナップショットの復元（不正な項目は破棄）
+   */
+  importSnapshots(data: unknown): void {
+    this.snapshots = [];
+    if (!Array.isArray(data)) {
+      return;
+    }
+
+    for (const item of data) {
+      if (!item || typeof item !== 'object' || typeof item.id !== 'string' || !Array.isArray(item.lyricsData)) {
+        console.warn('SnapshotManager: 不正なスナップショットを破棄します', item);
+        continue;
+      }
+      this.snapshots.push({
+        id: item.id,
+        name: typeof item.name === 'string' && item.name ? item.name : item.id,
+        createdAt: Number.isFinite(item.createdAt) ? item.createdAt : 0,
+        auto: item.auto === true ? true : undefined,
+        lyricsData: item.lyricsData,
+        templateAssignments: item.templateAssignments && typeof item.templateAssignments === 'object'
+          ? item.templateAssignments
+          : {},
+        defaultTemplateId: typeof item.defaultTemplateId === 'string' ? item.defaultTemplateId : '',
+        parameterData: item.parameterData ?? null
+      });
+    }
+  }
+
+  /**
+   * オブジェクトIDがフレーズ（またはその単語・文字）に属するか
+   */
+  static belongsToPhrase(objectId: string, phraseId: string): boolean {
+    return objectId === phraseId || objectId.startsWith(`${phraseId}_word_`);
+  }
+
+  /**
+   * スナップショットと現在の状態の差分
+   */
+  static diff(snapshot: ProjectSnapshot, current: ProjectSnapshotContent): SnapshotDiff {
+    const snapshotPhrases = new Map(snapshot.lyricsData.map(phrase => [phrase.id, phrase]));
+    const currentPhrases = new Map(current.lyricsData.map(phrase => [phrase.id, phrase]));
+    const phrases: SnapshotPhraseDiff[] = [];
+
+    for (const phrase of current.lyricsData) {
+      const before = snapshotPhrases.get(phrase.id);
+      if (!before) {
+        phrases.push(this.createPhraseDiff(phrase, 'added'));
+        continue;
+      }
+
+      const entry: SnapshotPhraseDiff = {
+        phraseId: phrase.id,
+        text: phrase.phrase,
+        status: 'changed',
+        textChanged: before.phrase !== phrase.phrase,
+        timingChanged: this.timingSignature(before) !== this.timingSignature(phrase),
+        templateChanged: this.isPhraseSliceChanged(
+          snapshot.templateAssignments, current.templateAssignments, phrase.id
+        ),
+        paramsChanged: this.isPhraseParamsChanged(snapshot.parameterData, current.parameterData, phrase.id)
+      };
+      if (entry.textChanged || entry.timingChanged || entry.templateChanged || entry.paramsChanged) {
+        phrases.push(entry);
+      }
+    }
+
+    for (const phrase of snapshot.lyricsData) {
+      if (!currentPhrases.has(phrase.id)) {
+        phrases.push(this.createPhraseDiff(phrase, 'removed'));
+      }
+    }
+
+    return {
+      snapshotId: snapshot.id,
+      globalParamsChanged: JSON.stringify(snapshot.parameterData?.globalDefaults ?? null)
+        !== JSON.stringify(current.parameterData?.globalDefaults ?? null),
+      defaultTemplateChanged: snapshot.defaultTemplateId !== current.defaultTemplateId,
+      phrases
+    };
+  }
+
+  /**
+   * 指定フレーズのみスナップショットの内容に置き換えた状態を合成する
+   * 歌詞・テンプレート割り当て・個別パラメータ・キーフレームをフレーズ単位で差し替える
+   */
+  static mergePhrases(
+    snapshot: ProjectSnapshot,
+    current: ProjectSnapshotContent,
+    phraseIds: string[]
+  ): ProjectSnapshotContent {
+    const targets = new Set(phraseIds);
+    const isTarget = (objectId: string) =>
+      phraseIds.some(phraseId => this.belongsToPhrase(objectId, phraseId));
+
+    // 歌詞: 対象フレーズを入れ替え、スナップショットにしかないものは追加して開始時刻順に並べる
+    const lyricsData: PhraseUnit[] = current.lyricsData.filter(phrase => !targets.has(phrase.id));
+    for (const phrase of snapshot.lyricsData) {
+      if (targets.has(phrase.id)) {
+        lyricsData.push(JSON.parse(JSON.stringify(phrase)));
+      }
+    }
+    lyricsData.sort((a, b) => a.start - b.start);
+
+    const templateAssignments = this.mergeSlice(
+      current.templateAssignments, snapshot.templateAssignments, isTarget
+    ) as Record<string, string>;
+
+    const currentParams = current.parameterData || {};
+    const snapshotParams = snapshot.parameterData || {};
+    const parameterData = {
+      ...currentParams,
+      phrases: this.mergeSlice(currentParams.phrases || {}, snapshotParams.phrases || {}, isTarget)
+    };
+    const keyframeTracks = this.mergeSlice(
+      currentParams.keyframeTracks || {}, snapshotParams.keyframeTracks || {}, isTarget
+    );
+    if (Object.keys(keyframeTracks).length > 0) {
+      parameterData.keyframeTracks = keyframeTracks;
+    } else {
+      delete parameterData.keyframeTracks;
+    }
+
+    return {
+      lyricsData,
+      templateAssignments,
+      defaultTemplateId: current.defaultTemplateId,
+      parameterData
+    };
+  }
+
+  private static createPhraseDiff(phrase: PhraseUnit, status: 'added' | 'removed'): SnapshotPhraseDiff {
+    return {
+      phraseId: phrase.id,
+      text: phrase.phrase,
+      status,
+      textChanged: true,
+      timingChanged: true,
+      templateChanged: false,
+      paramsChanged: false
+    };
+  }
+
+  // フレーズ・単語・文字の構成とタイミングを比較用の文字列にする
+  private static timingSignature(phrase: PhraseUnit): string {
+    return JSON.stringify([
+      phrase.start,
+      phrase.end,
+      phrase.words.map(word => [
+        word.id,
+        word.start,
+        word.end,
+        word.chars.map(char => [char.id, char.start, char.end])
+      ])
+    ]);
+  }
+
+  private static isPhraseSliceChanged(
+    before: Record<string, unknown> | undefined,
+    after: Record<string, unknown> | undefined,
+    phraseId: string
+  ): boolean {
+    const isTarget = (objectId: string) => this.belongsToPhrase(objectId, phraseId);
+    return JSON.stringify(this.pickSlice(before || {}, isTarget))
+      !== JSON.stringify(this.pickSlice(after || {}, isTarget));
+  }
+
+  private static isPhraseParamsChanged(before: any, after: any, phraseId: string): boolean {
+    return this.isPhraseSliceChanged(before?.phrases, after?.phrases, phraseId)
+      || this.isPhraseSliceChanged(before?.keyframeTracks, after?.keyframeTracks, phraseId);
+  }
+
+  // キー順に並べた部分集合（比較用）
+  private static pickSlice(
+    record: Record<string, unknown>,
+    predicate: (key: string) => boolean
+  ): [string, unknown][] {
+    return Object.keys(record)
+      .filter(predicate)
+      .sort()
+      .map(key => [key, record[key]]);
+  }
+
+  private static mergeSlice(
+    base: Record<string, unknown>,
+    source: Record<string, unknown>,
+    predicate: (key: string) => boolean
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(base)) {
+      if (!predicate(key)) result[key] = value;
+    }
+    for (const [key, value] of Object.entries(source)) {
+      if (predicate(key)) result[key] = JSON.parse(JSON.stringify(value));
+    }
+    return result;
+  }
+}
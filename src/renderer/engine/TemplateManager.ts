@@ -1,4 +1,5 @@
 import { IAnimationTemplate } from '../types/types';
+import { LyricsStructureEditor } from '../utils/lyrics/LyricsStructureEditor';
 
 export interface TemplateConfig {
   name: string;
@@ -16,6 +17,8 @@ export class TemplateManager {
   private defaultTemplateId: string = '';
   // テンプレート割り当て (フェーズ1ではフレーズIDのみが格納される)
   private assignments: Map<string, string> = new Map();
+  // フレーズが属する歌詞トラックのデフォルトテンプレートID（個別割り当てがない場合に使用）
+  private trackTemplateResolver: ((phraseId: string) => string | undefined) | null = null;
   
   constructor(defaultTemplateId?: string) {
     if (defaultTemplateId) {
@@ -108,10 +111,23 @@ export class TemplateManager {
       return this.getTemplateForObject(parentId);
     }
     
+    // フレーズの場合は所属トラックのデフォルトテンプレートを確認
+    if (this.trackTemplateResolver) {
+      const trackTemplateId = this.trackTemplateResolver(objectId);
+      if (trackTemplateId && this.templates.has(trackTemplateId)) {
+        return this.templates.get(trackTemplateId)!;
+      }
+    }
+    
     // どちらもなければデフォルトテンプレートを返す
     return this.templates.get(this.defaultTemplateId)!;
   }
   
+  // 歌詞トラックのデフォルトテンプレート解決関数を設定
+  setTrackTemplateResolver(resolver: ((phraseId: string) => string | undefined) | null): void {
+    this.trackTemplateResolver = resolver;
+  }
+  
   // 親オブジェクトIDを取得するヘルパーメソッド（正規表現による堅牢な実装）
   private getParentObjectId(objectId: string): string | null {
     // 文字ID: 任意の文字列_char_数字または任意文字列 → 親は単語
@@ -230,6 +246,11 @@ export class TemplateManager {
     return this.assignments.get(objectId);
   }
   
+  // 歌詞の構造編集に合わせて割り当てを新しいIDに移動
+  remapAssignments(idMap: Record<string, string[]>, createdIds: string[] = []): void {
+    LyricsStructureEditor.remapKeys(this.assignments, idMap, createdIds);
+  }
+  
   // 全ての個別テンプレート割り当てをクリア
   clearAllAssignments(): void {
     this.assignments.clear();
@@ -73,6 +73,21 @@ export class UnifiedRestoreManager {
       // 4. 音声情報の復元
       await this.restoreAudioInfo(normalizedData.audioInfo);
 
+      // 4.5. ビートグリッドの復元（保存されていない場合はクリア）
+      this.engine.setBeatGrid(normalizedData.beatGrid ?? null);
+
+      // 4.6. オーディオ変調の復元（保存されていない場合はクリア）
+      this.engine.setAudioModulation(normalizedData.audioModulation ?? null);
+
+      // 4.7. スナップショットの復元（保存されていない場合はクリア）
+      this.engine.setSnapshots(normalizedData.snapshots);
+
+      // 4.8. 歌詞トラックの復元（保存されていない場合はメイントラックのみ）
+      this.engine.setLyricTracks(normalizedData.lyricTracks);
+
+      // 4.9. 一括書き出しフォーマットの復元（保存されていない場合は既定のフォーマット）
+      this.engine.setExportFormats(normalizedData.exportFormats);
+
       // 5. プロジェクト状態の復元
       await this.restoreProjectState(normalizedData);
 
@@ -133,6 +148,7 @@ export class UnifiedRestoreManager {
                       id: instance.params.id,
                       words: instance.params.words,
                       chars: instance.params.chars,
+                      ruby: instance.params.ruby,
                       charIndex: instance.params.charIndex,
                       totalChars: instance.params.totalChars,
                       totalWords: instance.params.totalWords,
@@ -260,7 +276,8 @@ export class UnifiedRestoreManager {
         globalParams: normalizedData.globalParams,
         objectParams: normalizedData.objectParams,
         individualSettingsEnabled: normalizedData.individualSettingsEnabled,
-        defaultTemplateId: normalizedData.templateId
+        defaultTemplateId: normalizedData.templateId,
+        keyframeTracks: normalizedData.keyframeTracks || {}
       };
       
       this.projectStateManager.importState(projectStateData);
@@ -311,6 +328,11 @@ export class UnifiedRestoreManager {
         throw new Error('V1データは非対応です。プロジェクトをV2形式で再保存してください。');
       }
 
+      // キーフレームの復元（V2データに含まれない場合も正規化データ側を優先）
+      if (normalizedData.keyframeTracks) {
+        this.parameterManager.importKeyframeTracks(normalizedData.keyframeTracks);
+      }
+
       // テンプレート割り当ての復元と強化同期
       if (normalizedData.templateAssignments) {
         this.templateManager.importAssignments(normalizedData.templateAssignments);
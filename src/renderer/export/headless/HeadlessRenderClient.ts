@@ -0,0 +1,143 @@
+import type { Engine } from '../../engine/Engine';
+import type { HeadlessRenderJob } from '../../../shared/types';
+import { getElectronAPI } from '../../../shared/electronAPI';
+import { ProjectFileManager, ProjectFileData } from '../../services/ProjectFileManager';
+import { AspectRatio, Orientation } from '../../types/types';
+import { BASE_RESOLUTIONS } from '../../utils/stageCalculator';
+import { getTemplateById } from '../../templates/registry/templateRegistry';
+
+// 歌詞読み込み・テンプレート適用の完了を待つ上限
+// （ProjectFileManagerは遅延して歌詞を読み込み、テンプレートは project-loaded → App の changeTemplate で適用される）
+const PROJECT_READY_TIMEOUT_MS = 10000;
+// アスペクト比の一致判定の許容誤差
+const ASPECT_TOLERANCE = 0.01;
+
+/**
+ * ヘッドレスレンダリング（コマンドライン・レンダーキュー）モードで起動されているか
+ * メインプロセスは非表示ウィンドウを ?headless=1 付きで読み込む
+ */
+export function isHeadlessRenderMode(): boolean {
+  return typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('headless');
+}
+
+/**
+ * ヘッドレスレンダリングのレンダラー側処理
+ * メインプロセスからジョブを受け取り、プロジェクトを読み込んで
+ * setTimeForVideoCapture → captureOffscreenFrame で1フレームずつキャプチャして送信する
+ */
+export class HeadlessRenderClient {
+  private electronAPI = getElectronAPI();
+
+  constructor(private engine: Engine) {}
+
+  async run(): Promise<void> {
+    let exportResourcesInitialized = false;
+    try {
+      const job = await this.electronAPI.headless.getJob();
+
+      if (job.aspectRatio && job.orientation) {
+        this.engine.resizeStage(job.aspectRatio as AspectRatio, job.orientation);
+      } else {
+        this.applyStageForResolution(job.width, job.height);
+      }
+      await this.loadProject(job.projectData as ProjectFileData);
+
+      this.engine.pause();
+      this.engine.initializeExportResources(job.width, job.height);
+      exportResourcesInitialized = true;
+
+      await this.captureFrames(job);
+      await this.electronAPI.headless.complete();
+
+    } catch (error) {
+      console.error('HeadlessRenderClient: レンダリングエラー:', error);
+      await this.electronAPI.headless.complete(error instanceof Error ? error.message : String(error));
+
+    } finally {
+      if (exportResourcesInitialized) {
+        this.engine.cleanupExportResources();
+      }
+    }
+  }
+
+  /**
+   * 出力解像度のアスペクト比にステージを合わせる（プロジェクトファイルはステージ設定を持たないため）
+   */
+  private applyStageForResolution(width: number, height: number): void {
+    const ratio = width / height;
+    for (const aspectRatio of Object.keys(BASE_RESOLUTIONS) as AspectRatio[]) {
+      const base = BASE_RESOLUTIONS[aspectRatio];
+      const orientations: Orientation[] = aspectRatio === '1:1' ? ['landscape'] : ['landscape', 'portrait'];
+      for (const orientation of orientations) {
+        const baseRatio = orientation === 'landscape' ? base.width / base.height : base.height / base.width;
+        if (Math.abs(ratio - baseRatio) / baseRatio <= ASPECT_TOLERANCE) {
+          this.engine.resizeStage(aspectRatio, orientation);
+          return;
+        }
+      }
+    }
+    throw new Error(`対応していないアスペクト比の解像度です: ${width}x${height}（16:9, 4:3, 1:1 とその縦向きに対応）`);
+  }
+
+  private async loadProject(projectData: ProjectFileData): Promise<void> {
+    await new ProjectFileManager(this.engine).loadProjectData(projectData);
+
+    const expectedPhrases = projectData.lyricsData.length;
+    await waitUntil(() => this.engine.phrases.length === expectedPhrases, '歌詞データの読み込みがタイムアウトしました');
+
+    // プロジェクトのテンプレートがエンジンに適用されるまで待つ（未登録のテンプレートはフォールバックされるため待たない）
+    const templateId = projectData.globalTemplateId || projectData.defaultTemplateId || 'FadeSlideText';
+    const template = getTemplateById(templateId);
+    if (template) {
+      await waitUntil(() => this.engine.template === template, `テンプレート ${templateId} の適用がタイムアウトしました`);
+    }
+
+    // テキストのテクスチャ生成に使うフォントの読み込みを待ち、適用後の状態を1フレーム描画させる
+    await document.fonts.ready;
+    await nextAnimationFrame();
+  }
+
+  /**
+   * 固定タイムベース t_n = startTime + n * (1000 / fps) でフレームをキャプチャ
+   * 送信はメイン側の保存・バッチ動画化の完了を待つ（バックプレッシャ）
+   */
+  private async captureFrames(job: HeadlessRenderJob): Promise<void> {
+    const expectedSize = job.width * job.height * 4; // RGBA
+
+    for (let frame = 0; frame < job.totalFrames; frame++) {
+      const timeMs = job.startTime + (frame / job.fps) * 1000;
+      this.engine.setTimeForVideoCapture(timeMs);
+
+      const frameData = this.engine.captureOffscreenFrame(
+        job.width,
+        job.height,
+        !!job.includeDebugVisuals,
+        !!job.transparentBackground
+      );
+      if (!frameData || frameData.length !== expectedSize) {
+        throw new Error(`フレーム${frame}のキャプチャに失敗しました（${frameData?.length ?? 0} / ${expectedSize} bytes）`);
+      }
+
+      await this.electronAPI.headless.sendFrame(frame, frameData);
+    }
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function nextAnimationFrame(): Promise<void> {
+  return new Promise(resolve => requestAnimationFrame(() => resolve()));
+}
+
+// 条件が満たされるまで待つ（PROJECT_READY_TIMEOUT_MS を超えたらエラー）
+async function waitUntil(condition: () => boolean, timeoutMessage: string): Promise<void> {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > PROJECT_READY_TIMEOUT_MS) {
+      throw new Error(timeoutMessage);
+    }
+    await wait(50);
+  }
+}
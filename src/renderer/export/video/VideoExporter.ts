@@ -10,6 +10,13 @@ import { ResolutionManager } from './ResolutionManager';
 import { getElectronAPI } from '../../../shared/electronAPI';
 import { electronMediaManager } from '../../services/ElectronMediaManager';
 import type { AspectRatio, Orientation, VideoQuality, CustomResolution } from '../../types/types';
+import {
+  VideoCodec,
+  VideoContainer,
+  VideoPixelFormat,
+  hasAlphaChannel,
+  resolveVideoEncoding
+} from '../../../shared/videoCodecs';
 
 // Legacy compatibility types
 export interface VideoExportOptions {
@@ -25,6 +32,9 @@ export interface VideoExportOptions {
   includeDebugVisuals?: boolean;
   includeMusicTrack?: boolean;
   outputPath?: string; // 保存先のフルパス（オプション）
+  codec?: VideoCodec;             // 省略時は H.264
+  container?: VideoContainer;     // 省略時はコーデックの既定
+  pixelFormat?: VideoPixelFormat; // 省略時はコーデックの既定
 }
 
 export interface ModernVideoExportOptions extends VideoExportOptions {}
@@ -98,6 +108,9 @@ export class VideoExporter {
     this.sessionId = crypto.randomUUID();
     
     try {
+      // コーデック・コンテナ・ピクセルフォーマットの組み合わせをキャプチャ前に検証
+      resolveVideoEncoding(options);
+
       // 解像度設定
       const { width, height } = this.resolutionManager.getResolutionSize(
         options.aspectRatio,
@@ -239,6 +252,7 @@ export class VideoExporter {
         width,
         height,
         options.includeDebugVisuals || false,
+        hasAlphaChannel(resolveVideoEncoding(options).pixelFormat),
         frame,
         totalFrames
       );
@@ -370,7 +384,10 @@ export class VideoExporter {
         fps: options.fps,
         width,
         height,
-        videoQuality: options.videoQuality || 'medium'
+        videoQuality: options.videoQuality || 'medium',
+        codec: options.codec,
+        container: options.container,
+        pixelFormat: options.pixelFormat
       });
 
       // エレクトロンメインプロセスでFFmpeg実行
@@ -382,7 +399,10 @@ export class VideoExporter {
         fps: options.fps,
         width,
         height,
-        videoQuality: options.videoQuality || 'medium'
+        videoQuality: options.videoQuality || 'medium',
+        codec: options.codec,
+        container: options.container,
+        pixelFormat: options.pixelFormat
       });
       
       console.log(`🎥 [BATCH_CREATE] バッチ${batchIndex} 作成完了:`, batchVideoPath);
@@ -493,7 +513,10 @@ export class VideoExporter {
         backgroundVideoLoop,
         totalDurationMs,
         outputWidth: width,
-        outputHeight: height
+        outputHeight: height,
+        codec: options.codec,
+        container: options.container,
+        pixelFormat: options.pixelFormat
       });
       
       console.log('🚀 [FINAL_COMPOSE] composeFinalVideo IPC呼び出し完了:', finalVideoPath);
@@ -536,11 +559,12 @@ export class VideoExporter {
     width: number,
     height: number,
     includeDebugVisuals: boolean,
+    transparentBackground: boolean,
     frameIndex: number,
     totalFrames: number
   ): Promise<Uint8Array> {
-    // フレームキャプチャ実行
-    const frameData = this.engine.captureOffscreenFrame(width, height, includeDebugVisuals);
+    // フレームキャプチャ実行（アルファ付き出力では背景を描画しない）
+    const frameData = this.engine.captureOffscreenFrame(width, height, includeDebugVisuals, transparentBackground);
     
     // データ検証
     if (!frameData || frameData.length === 0) {
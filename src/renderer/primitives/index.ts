@@ -38,6 +38,11 @@ export {
   type VerticalLayoutParams,
   type VerticalCharacterManagementResult
 } from './layout/VerticalLayoutPrimitive';
+export {
+  RubyLayoutPrimitive,
+  type RubyLayoutParams,
+  type RubyBaseCharacter
+} from './layout/RubyLayoutPrimitive';
 
 // アニメーションプリミティブ
 export { SlideAnimationPrimitive } from './animation/SlideAnimationPrimitive';
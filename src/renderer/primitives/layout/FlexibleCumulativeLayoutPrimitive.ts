@@ -7,6 +7,7 @@
 import * as PIXI from 'pixi.js';
 import { LayoutPrimitive, LayoutItem, LayoutParams, LayoutResult } from '../types';
 import { WordContainerAttributeManager } from '../../types/WordContainerExtensions';
+import { RubyLayoutPrimitive, RubyLayoutParams } from './RubyLayoutPrimitive';
 
 /**
  * 単語表示モード
@@ -77,6 +78,8 @@ export interface FlexibleCumulativeLayoutParams extends LayoutParams {
   };
   /** 全単語の拡張ID情報（正確なオフセット計算用）（オプション） */
   allWordExtendedIds?: string[];
+  /** ルビ描画パラメータ（オプション） */
+  ruby?: RubyLayoutParams;
 }
 
 /**
@@ -110,6 +113,7 @@ function isHalfWidthChar(char: string): boolean {
  */
 export class FlexibleCumulativeLayoutPrimitive implements LayoutPrimitive {
   name = 'FlexibleCumulativeLayoutPrimitive';
+  private rubyLayoutPrimitive = new RubyLayoutPrimitive();
   
   /**
    * wordDisplayModeの利用可能な選択肢を取得
@@ -367,6 +371,17 @@ export class FlexibleCumulativeLayoutPrimitive implements LayoutPrimitive {
         }
       });
       
+      // ルビの配置（文字コンテナの表示状態が確定した後に行う）
+      this.rubyLayoutPrimitive.manageRubyContainers(
+        wordContainer,
+        characters,
+        layoutResults,
+        params.fontSize,
+        params.containerPrefix,
+        'horizontal',
+        params.ruby
+      );
+      
       return {
         success: true,
         containersManaged: characters.length,
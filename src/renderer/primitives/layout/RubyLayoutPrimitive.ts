@@ -0,0 +1,179 @@
+/**
+ * RubyLayoutPrimitive
+ * ルビ（ふりがな）の配置・描画を行うプリミティブ
+ * 横書きでは親文字の上、縦書きでは親文字の右に小さく配置し、
+ * 親文字のタイミングに合わせて読みの色を切り替える
+ */
+
+import * as PIXI from 'pixi.js';
+import { LayoutResult } from '../types';
+import { RubySpan } from '../../types/types';
+import { RubyUtils } from '../../utils/RubyUtils';
+import { TextStyleFactory } from '../../utils/TextStyleFactory';
+import { TextDirection } from './VerticalLayoutPrimitive';
+
+/**
+ * ルビ描画パラメータ
+ */
+export interface RubyLayoutParams {
+  /** 単語のルビ */
+  spans: RubySpan[];
+  /** 現在時刻 */
+  nowMs: number;
+  /** フォントファミリー */
+  fontFamily: string;
+  /** 親文字に対するルビの大きさ */
+  fontSizeRatio: number;
+  /** 親文字の発音前の色 */
+  color: string;
+  /** 発音中の色 */
+  activeColor: string;
+  /** 発音後の色 */
+  completedColor: string;
+}
+
+/**
+ * ルビ配置の対象となる親文字
+ */
+export interface RubyBaseCharacter {
+  id: string;
+  start: number;
+  end: number;
+}
+
+// 再利用判定用に保持する描画内容
+interface RubyContainer extends PIXI.Container {
+  rubySignature?: string;
+}
+
+/**
+ * ルビレイアウトプリミティブ
+ */
+export class RubyLayoutPrimitive {
+  name = 'RubyLayoutPrimitive';
+
+  static readonly DEFAULT_FONT_SIZE_RATIO = 0.5;
+
+  /**
+   * テンプレートパラメータからルビ描画パラメータを作成（ルビがなければ undefined）
+   */
+  static createParams(
+    params: Record<string, unknown>,
+    nowMs: number,
+    colors: { color: string; activeColor: string; completedColor?: string }
+  ): RubyLayoutParams | undefined {
+    const spans = params.ruby as RubySpan[] | undefined;
+    if (!Array.isArray(spans) || spans.length === 0) {
+      return undefined;
+    }
+
+    const ratio = params.rubyFontSizeRatio as number;
+    return {
+      spans,
+      nowMs,
+      fontFamily: params.fontFamily as string || 'Arial',
+      fontSizeRatio: Number.isFinite(ratio) && ratio > 0 ? ratio : this.DEFAULT_FONT_SIZE_RATIO,
+      color: colors.color,
+      activeColor: colors.activeColor,
+      completedColor: colors.completedColor ?? colors.color
+    };
+  }
+
+  /**
+   * 単語コンテナ内のルビコンテナを管理
+   * 文字コンテナの配置後に呼び出し、ルビがなくなった場合は既存のルビコンテナを削除する
+   */
+  manageRubyContainers(
+    wordContainer: PIXI.Container,
+    chars: RubyBaseCharacter[],
+    layoutResults: LayoutResult[],
+    fontSize: number,
+    containerPrefix: string,
+    textDirection: TextDirection,
+    ruby?: RubyLayoutParams
+  ): void {
+    const prefix = `${containerPrefix}ruby_`;
+    const spans = RubyUtils.normalize(ruby?.spans, Math.min(chars.length, layoutResults.length));
+
+    // 不要になったルビコンテナを削除
+    [...wordContainer.children].forEach(child => {
+      const name = (child as PIXI.Container).name;
+      if (name && name.startsWith(prefix) && parseInt(name.slice(prefix.length), 10) >= spans.length) {
+        wordContainer.removeChild(child);
+        child.destroy({ children: true });
+      }
+    });
+
+    if (!ruby) {
+      return;
+    }
+
+    const rubyFontSize = fontSize * ruby.fontSizeRatio;
+
+    spans.forEach((span, spanIndex) => {
+      const containerName = `${prefix}${spanIndex}`;
+      let rubyContainer = wordContainer.getChildByName(containerName) as RubyContainer | null;
+      if (!rubyContainer) {
+        rubyContainer = new PIXI.Container() as RubyContainer;
+        rubyContainer.name = containerName;
+        wordContainer.addChild(rubyContainer);
+      }
+
+      const readingChars = RubyUtils.getReadingTimings(span, chars);
+
+      // 読み・サイズ・フォントが変わった場合のみテキストを作り直す
+      const signature = `${span.reading}|${rubyFontSize}|${ruby.fontFamily}`;
+      if (rubyContainer.rubySignature !== signature) {
+        rubyContainer.removeChildren().forEach(child => child.destroy());
+        readingChars.forEach(readingChar => {
+          const textObj = TextStyleFactory.createHighDPIText(readingChar.char, {
+            fontFamily: ruby.fontFamily,
+            fontSize: rubyFontSize,
+            fill: ruby.color
+          });
+          textObj.anchor.set(0.5, 0.5);
+          rubyContainer!.addChild(textObj);
+        });
+        rubyContainer.rubySignature = signature;
+      }
+
+      // 親文字の範囲の中央に配置（読みが短い場合は親文字の幅に広げる）
+      const first = layoutResults[span.startCharIndex].position;
+      const last = layoutResults[span.endCharIndex].position;
+      const count = readingChars.length;
+      const isVertical = textDirection === 'vertical';
+      const baseLength = (isVertical ? last.y - first.y : last.x - first.x) + fontSize;
+      const pitch = Math.max(rubyFontSize, baseLength / Math.max(count, 1));
+      const offset = fontSize / 2 + rubyFontSize / 2;
+
+      if (isVertical) {
+        rubyContainer.position.set(first.x + offset, (first.y + last.y) / 2);
+      } else {
+        rubyContainer.position.set((first.x + last.x) / 2, first.y - offset);
+      }
+
+      readingChars.forEach((readingChar, index) => {
+        const textObj = rubyContainer!.children[index] as PIXI.Text | undefined;
+        if (!textObj) return;
+
+        const along = (index - (count - 1) / 2) * pitch;
+        textObj.position.set(isVertical ? 0 : along, isVertical ? along : 0);
+
+        // 親文字のタイミングに合わせた色
+        const fill = ruby.nowMs < readingChar.start
+          ? ruby.color
+          : ruby.nowMs < readingChar.end ? ruby.activeColor : ruby.completedColor;
+        if (textObj.style.fill !== fill) {
+          textObj.style.fill = fill;
+        }
+      });
+
+      // 表示状態は親文字に合わせる（フレーズ一括入場の制御など）
+      const baseContainer = wordContainer.getChildByName(`${containerPrefix}${chars[span.startCharIndex].id}`);
+      if (baseContainer) {
+        rubyContainer.visible = baseContainer.visible;
+        rubyContainer.alpha = baseContainer.alpha;
+      }
+    });
+  }
+}
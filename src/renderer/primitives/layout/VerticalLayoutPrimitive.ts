@@ -7,6 +7,7 @@
 import * as PIXI from 'pixi.js';
 import { LayoutPrimitive, LayoutItem, LayoutParams, LayoutResult } from '../types';
 import { WordContainerAttributeManager } from '../../types/WordContainerExtensions';
+import { RubyLayoutPrimitive, RubyLayoutParams } from './RubyLayoutPrimitive';
 import { FlexibleCharacterData, WordDisplayMode } from './FlexibleCumulativeLayoutPrimitive';
 
 /**
@@ -94,6 +95,9 @@ export interface VerticalLayoutParams extends LayoutParams {
     headTime?: number;
     tailTime?: number;
   };
+  
+  /** ルビ描画パラメータ（オプション） */
+  ruby?: RubyLayoutParams;
 }
 
 /**
@@ -144,6 +148,7 @@ function isHalfWidthChar(char: string): boolean {
  */
 export class VerticalLayoutPrimitive implements LayoutPrimitive {
   name = 'VerticalLayoutPrimitive';
+  private rubyLayoutPrimitive = new RubyLayoutPrimitive();
   
   /**
    * 親階層からの制御を受け入れ
@@ -589,6 +594,17 @@ export class VerticalLayoutPrimitive implements LayoutPrimitive {
         }
       });
       
+      // ルビの配置（文字コンテナの表示状態が確定した後に行う）
+      this.rubyLayoutPrimitive.manageRubyContainers(
+        wordContainer,
+        characters,
+        layoutResults,
+        params.fontSize,
+        params.containerPrefix,
+        params.textDirection,
+        params.ruby
+      );
+      
       return {
         success: true,
         containersManaged: characters.length,
@@ -1,3 +1,5 @@
+import { AudioFeatureEnvelopes } from '../../types/AudioModulation';
+
 /**
  * 音楽ファイルの解析とビート検出を行うサービス
  */
@@ -16,6 +18,19 @@ export interface BeatMarker {
   energy: number;     // そのポイントのエネルギー値
 }
 
+export interface OnsetDetectionSettings {
+  threshold: number;       // 適応閾値に対する倍率 (0.0-2.0)
+  minIntervalMs: number;   // オンセット間の最小間隔 (ms)
+  useVocalBand: boolean;   // ボーカル帯域に制限して検出するか
+  lowFreqCutoff: number;   // ボーカル帯域の下限 (Hz)
+  highFreqCutoff: number;  // ボーカル帯域の上限 (Hz)
+}
+
+export interface OnsetMarker {
+  timestamp: number; // オンセットのタイムスタンプ (ms)
+  strength: number;  // 立ち上がりの強さ (0.0-1.0)
+}
+
 export interface AnalysisResult {
   beats: BeatMarker[];
   bpm: number;
@@ -24,6 +39,12 @@ export interface AnalysisResult {
 }
 
 export class AudioAnalyzer {
+  // 特徴量カーブの1フレームの長さ（ms）
+  static readonly ENVELOPE_FRAME_MS = 20;
+  // 帯域分割のクロスオーバー周波数（Hz）
+  private static readonly BASS_CROSSOVER_HZ = 200;
+  private static readonly HIGH_CROSSOVER_HZ = 4000;
+
   private audioContext: AudioContext | null = null;
   private analyserNode: AnalyserNode | null = null;
   
@@ -142,6 +163,206 @@ export class AudioAnalyzer {
     }
   }
   
+  /**
+   * 音楽ファイルからオンセット（発音の立ち上がり）を検出
+   */
+  async detectOnsets(
+    audioElement: HTMLAudioElement,
+    settings: OnsetDetectionSettings
+  ): Promise<OnsetMarker[] | null> {
+    try {
+      const audioBuffer = await this.createAudioBuffer(audioElement);
+      if (!audioBuffer) {
+        return null;
+      }
+      return this.detectOnsetsFromBuffer(audioBuffer, settings);
+    } catch (error) {
+      console.error('Onset detection failed:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * オーディオバッファからオンセットを検出
+   * 対数エネルギーの増加量（ノベルティ）を局所平均による適応閾値でピーク検出する
+   */
+  detectOnsetsFromBuffer(audioBuffer: AudioBuffer, settings: OnsetDetectionSettings): OnsetMarker[] {
+    const sampleRate = audioBuffer.sampleRate;
+    const channelData = this.getMonoChannelData(audioBuffer);
+    const sourceData = settings.useVocalBand
+      ? this.applyFrequencyFiltering(channelData, sampleRate, settings.lowFreqCutoff, settings.highFreqCutoff)
+      : channelData;
+    
+    const energyData = this.calculateEnergyData(sourceData, sampleRate);
+    if (energyData.length < 2) {
+      return [];
+    }
+    
+    // calculateEnergyData と同じ窓・ホップ長
+    const windowSize = Math.floor(sampleRate * 0.05);
+    const hopSize = Math.floor(windowSize / 4);
+    const hopMs = hopSize / sampleRate * 1000;
+    const windowMs = windowSize / sampleRate * 1000;
+    
+    // 対数エネルギーの半波整流差分
+    const novelty = new Float32Array(energyData.length);
+    const epsilon = 1e-6;
+    for (let i = 1; i < energyData.length; i++) {
+      novelty[i] = Math.max(0, Math.log(energyData[i] + epsilon) - Math.log(energyData[i - 1] + epsilon));
+    }
+    
+    let maxNovelty = 0;
+    for (let i = 0; i < novelty.length; i++) {
+      maxNovelty = Math.max(maxNovelty, novelty[i]);
+    }
+    if (maxNovelty === 0) {
+      return [];
+    }
+    
+    // 前後0.5秒の局所平均を適応閾値とする（累積和で計算）
+    const averageRadius = Math.max(1, Math.round(500 / hopMs));
+    const cumulative = new Float64Array(novelty.length + 1);
+    for (let i = 0; i < novelty.length; i++) {
+      cumulative[i + 1] = cumulative[i] + novelty[i];
+    }
+    
+    const onsets: OnsetMarker[] = [];
+    const peakRadius = 2;
+    
+    for (let i = 1; i < novelty.length; i++) {
+      const from = Math.max(0, i - averageRadius);
+      const to = Math.min(novelty.length, i + averageRadius + 1);
+      const localAverage = (cumulative[to] - cumulative[from]) / (to - from);
+      const threshold = localAverage * (1 + settings.threshold) + maxNovelty * 0.05;
+      if (novelty[i] <= threshold) continue;
+      
+      // 前後数フレームでの極大のみ採用
+      let isPeak = true;
+      for (let j = Math.max(1, i - peakRadius); j <= Math.min(novelty.length - 1, i + peakRadius); j++) {
+        if (j !== i && novelty[j] > novelty[i]) {
+          isPeak = false;
+          break;
+        }
+      }
+      if (!isPeak) continue;
+      
+      // 立ち上がりはフレーム i の窓の末尾側で発生している
+      const timestamp = i * hopMs + windowMs - hopMs / 2;
+      const strength = novelty[i] / maxNovelty;
+      const last = onsets[onsets.length - 1];
+      
+      if (last && timestamp - last.timestamp < settings.minIntervalMs) {
+        // 間隔が近すぎる場合は強い方を残す
+        if (strength > last.strength) {
+          onsets[onsets.length - 1] = { timestamp, strength };
+        }
+        continue;
+      }
+      onsets.push({ timestamp, strength });
+    }
+    
+    console.log('Onset detection completed:', { onsetsCount: onsets.length });
+    return onsets;
+  }
+  
+  /**
+   * 音楽ファイル全体のラウドネス・帯域エネルギーのカーブを解析
+   */
+  async analyzeEnvelopes(
+    audioElement: HTMLAudioElement,
+    sourceFileName: string
+  ): Promise<AudioFeatureEnvelopes | null> {
+    try {
+      const audioBuffer = await this.createAudioBuffer(audioElement);
+      if (!audioBuffer) {
+        return null;
+      }
+      return this.analyzeEnvelopesFromBuffer(audioBuffer, sourceFileName);
+    } catch (error) {
+      console.error('Envelope analysis failed:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * オーディオバッファから特徴量カーブを求める
+   * 1次フィルタで bass / mid / high に分割し、フレームごとのRMSを99パーセンタイルで 0〜1 に正規化する
+   */
+  analyzeEnvelopesFromBuffer(
+    audioBuffer: AudioBuffer,
+    sourceFileName: string,
+    frameMs: number = AudioAnalyzer.ENVELOPE_FRAME_MS
+  ): AudioFeatureEnvelopes {
+    const sampleRate = audioBuffer.sampleRate;
+    const data = this.getMonoChannelData(audioBuffer);
+    const frameSize = Math.max(1, Math.round(sampleRate * frameMs / 1000));
+    const frameCount = Math.ceil(data.length / frameSize);
+    
+    const bassCoeff = 1 - Math.exp(-2 * Math.PI * AudioAnalyzer.BASS_CROSSOVER_HZ / sampleRate);
+    const highCoeff = 1 - Math.exp(-2 * Math.PI * AudioAnalyzer.HIGH_CROSSOVER_HZ / sampleRate);
+    let bassLowPass = 0;
+    let highLowPass = 0;
+    
+    const rms = new Float32Array(frameCount);
+    const bass = new Float32Array(frameCount);
+    const mid = new Float32Array(frameCount);
+    const high = new Float32Array(frameCount);
+    
+    for (let frame = 0; frame < frameCount; frame++) {
+      const from = frame * frameSize;
+      const to = Math.min(data.length, from + frameSize);
+      let sumAll = 0;
+      let sumBass = 0;
+      let sumMid = 0;
+      let sumHigh = 0;
+      
+      for (let i = from; i < to; i++) {
+        const sample = data[i];
+        bassLowPass += bassCoeff * (sample - bassLowPass);
+        highLowPass += highCoeff * (sample - highLowPass);
+        const midSample = highLowPass - bassLowPass;
+        const highSample = sample - highLowPass;
+        
+        sumAll += sample * sample;
+        sumBass += bassLowPass * bassLowPass;
+        sumMid += midSample * midSample;
+        sumHigh += highSample * highSample;
+      }
+      
+      const count = Math.max(1, to - from);
+      rms[frame] = Math.sqrt(sumAll / count);
+      bass[frame] = Math.sqrt(sumBass / count);
+      mid[frame] = Math.sqrt(sumMid / count);
+      high[frame] = Math.sqrt(sumHigh / count);
+    }
+    
+    console.log('Envelope analysis completed:', { frameCount, frameMs });
+    
+    return {
+      sourceFileName,
+      frameMs,
+      rms: this.normalizeEnvelope(rms),
+      bass: this.normalizeEnvelope(bass),
+      mid: this.normalizeEnvelope(mid),
+      high: this.normalizeEnvelope(high)
+    };
+  }
+  
+  /**
+   * カーブを99パーセンタイル基準で 0〜1 に正規化（保存サイズのため小数3桁に丸める）
+   */
+  private normalizeEnvelope(values: Float32Array): number[] {
+    if (values.length === 0) {
+      return [];
+    }
+    const sorted = Array.from(values).sort((a, b) => a - b);
+    const reference = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.99))];
+    if (reference <= 0) {
+      return new Array(values.length).fill(0);
+    }
+    return Array.from(values, value => Math.round(Math.min(1, value / reference) * 1000) / 1000);
+  }
+  
   /**
    * ステレオをモノラルに変換
    */
@@ -343,6 +564,19 @@ export class AudioAnalyzer {
     };
   }
   
+  /**
+   * デフォルトのオンセット検出設定
+   */
+  static getDefaultOnsetSettings(): OnsetDetectionSettings {
+    return {
+      threshold: 0.5,
+      minIntervalMs: 80,
+      useVocalBand: true,
+      lowFreqCutoff: 200,   // ベース・キックを除外
+      highFreqCutoff: 3500  // シンバル等の高域を除外
+    };
+  }
+  
   /**
    * リソースをクリーンアップ
    */
@@ -1,6 +1,7 @@
 // エレクトロン専用メディアファイル管理
 
 import { unifiedFileManager } from './UnifiedFileManager';
+import { MissingMediaManager } from './MissingMediaManager';
 
 export class ElectronMediaManager {
   private backgroundVideo: HTMLVideoElement | null = null;
@@ -103,12 +104,13 @@ export class ElectronMediaManager {
         console.warn(`[ElectronMediaManager] 最近使用したファイルからの復元に失敗:`, error);
       }
       
-      // ファイルが見つからない場合、ユーザーに再選択を求める（通知付き）
-      const message = `音楽ファイル "${originalFileName}" が見つかりません。\n同じファイルを選択してください。`;
-      if (window.confirm(message)) {
-        const mediaInfo = await unifiedFileManager.selectAudioFile();
-        return await this.loadMediaFileFromPath(mediaInfo.path, 'audio');
-      }
+      // ファイルが見つからない場合は再リンクダイアログで候補を探す
+      MissingMediaManager.notifyMissing([{
+        id: `audio:${savedFilePath || originalFileName}`,
+        kind: 'audio',
+        fileName: originalFileName,
+        originalPath: savedFilePath
+      }]);
       
       return null;
       
@@ -153,12 +155,13 @@ export class ElectronMediaManager {
         console.warn(`ElectronMediaManager: 最近使用したファイルからの復元に失敗:`, error);
       }
       
-      // ファイルが見つからない場合、ユーザーに再選択を求める（通知付き）
-      const message = `背景動画 "${originalFileName}" が見つかりません。\n同じファイルを選択してください。`;
-      if (window.confirm(message)) {
-        const mediaInfo = await unifiedFileManager.selectVideoFile();
-        return await this.loadMediaFileFromPath(mediaInfo.path, 'video');
-      }
+      // ファイルが見つからない場合は再リンクダイアログで候補を探す
+      MissingMediaManager.notifyMissing([{
+        id: `backgroundVideo:${savedFilePath || originalFileName}`,
+        kind: 'backgroundVideo',
+        fileName: originalFileName,
+        originalPath: savedFilePath
+      }]);
       
       return null;
       
@@ -372,6 +372,45 @@ export class FontService {
            this.validatedFonts.includes(FontValidator.normalizeFontName(fontFamily));
   }
 
+  /**
+   * フォントファミリーのフォントファイル情報を取得（プロジェクトバンドルへの同梱用）
+   * @param fontFamily フォントファミリー名
+   * @returns ファイルパスを持つフォント情報の配列
+   */
+  static getFontFiles(fontFamily: string): FontInfo[] {
+    return (this.fontFamilyMap.get(fontFamily) || []).filter(font => !!font.path);
+  }
+
+  /**
+   * システムにないフォントファイルを登録（プロジェクトバンドルの同梱フォント用）
+   * @param fonts フォント情報（パスは絶対パス）
+   * @returns 登録に成功したフォントファミリー名の配列
+   */
+  static async registerFontFiles(fonts: FontInfo[]): Promise<string[]> {
+    const registered: string[] = [];
+
+    for (const font of fonts) {
+      if (!(await FontLoader.loadSystemFont(font))) {
+        continue;
+      }
+      if (!this.fontFamilyMap.has(font.family)) {
+        this.fontFamilyMap.set(font.family, []);
+        this.fontInfoMap.set(font.family, font);
+      }
+      const familyFonts = this.fontFamilyMap.get(font.family)!;
+      if (!familyFonts.some(item => item.path === font.path)) {
+        familyFonts.push(font);
+      }
+      if (!this.validatedFonts.includes(font.family)) {
+        this.validatedFonts.push(font.family);
+        this.validatedFonts.sort((a, b) => a.localeCompare(b, 'ja', { sensitivity: 'base' }));
+      }
+      registered.push(font.family);
+    }
+
+    return registered;
+  }
+
   /**
    * デフォルトフォントを取得
    * @returns デフォルトのフォントファミリー名（システムフォントから選択）
@@ -0,0 +1,294 @@
+import type { Engine } from '../engine/Engine';
+import { unifiedFileManager } from './UnifiedFileManager';
+import { FontService } from './FontService';
+import type {
+  ProjectBundleAssets,
+  ProjectBundleBackground,
+  ProjectMediaReferences,
+  MissingMediaReference,
+  MediaSearchResult
+} from '../../shared/types';
+
+// 見つからない素材を MissingMediaDialog に知らせるイベント（detail: { references }）
+export const MISSING_MEDIA_EVENT = 'missing-media-detected';
+
+// 候補の再生時間を元の長さと同じとみなす誤差（ミリ秒）
+const DURATION_TOLERANCE_MS = 500;
+const DURATION_PROBE_TIMEOUT_MS = 5000;
+
+// 音声ファイル参照（プロジェクトファイルの audio）
+interface AudioInfo {
+  fileName: string;
+  duration: number;
+}
+
+export interface MediaCheckResult {
+  resolved: ProjectBundleAssets;        // そのまま復元できる素材
+  missing: MissingMediaReference[];     // 再リンクが必要な素材
+}
+
+const getFileName = (filePath: string) =>
+  decodeURI(filePath.replace(/^file:\/\//, '')).split(/[\\/]/).pop() || filePath;
+
+const toFileUrl = (filePath: string) =>
+  filePath.startsWith('file://') ? filePath : 'file://' + encodeURI(filePath.replace(/\\/g, '/'));
+
+/**
+ * 見つからない素材（音声・背景画像/動画・フォント）の確認と再リンク
+ *
+ * プロジェクトファイルの media に記録したパスを確認し、見つからないものは
+ * メインプロセスで最近使用したファイルと周辺フォルダから同名のファイルを探す。
+ * 再リンクした素材はエンジンの状態に反映されるため、次回の保存・自動保存で新しいパスが記録される
+ */
+export class MissingMediaManager {
+  constructor(private engine: Engine) {}
+
+  /**
+   * 見つからない素材を通知（MissingMediaDialog が一覧に追加する）
+   */
+  static notifyMissing(references: MissingMediaReference[]): void {
+    if (references.length === 0) return;
+    window.dispatchEvent(new CustomEvent(MISSING_MEDIA_EVENT, {
+      detail: { references }
+    }));
+  }
+
+  /**
+   * 保存用の素材参照（ファイルサイズ付き）
+   */
+  static async withFileSizes(assets: ProjectBundleAssets): Promise<ProjectMediaReferences> {
+    const paths = [
+      assets.audioPath,
+      assets.backgroundImagePath,
+      assets.backgroundVideoPath,
+      ...assets.fonts.map(font => font.path)
+    ].filter((value): value is string => !!value);
+    const sizes = new Map<string, number | undefined>();
+    if (paths.length > 0) {
+      for (const status of await unifiedFileManager.statMediaFiles(paths)) {
+        sizes.set(status.path, status.size);
+      }
+    }
+
+    const file = (filePath: string | undefined) =>
+      filePath ? { path: filePath, size: sizes.get(filePath) } : undefined;
+    return {
+      audio: file(assets.audioPath),
+      backgroundImage: file(assets.backgroundImagePath),
+      backgroundVideo: file(assets.backgroundVideoPath),
+      background: assets.background,
+      fonts: assets.fonts.map(font => ({ ...font, size: sizes.get(font.path) }))
+    };
+  }
+
+  /**
+   * プロジェクトの素材参照を確認し、見つかった素材と見つからない素材に分ける
+   * media がない旧データは音声のファイル名のみで確認する
+   */
+  async checkReferences(media: ProjectMediaReferences | undefined, audio: AudioInfo): Promise<MediaCheckResult> {
+    const resolved: ProjectBundleAssets = { background: media?.background, fonts: [] };
+    const missing: MissingMediaReference[] = [];
+
+    const fonts = (media?.fonts || []).filter(font => font.path && !FontService.isAvailable(font.family));
+    const paths = [
+      media?.audio?.path,
+      media?.backgroundImage?.path,
+      media?.backgroundVideo?.path,
+      ...fonts.map(font => font.path)
+    ].filter((value): value is string => !!value);
+    const exists = new Set<string>();
+    if (paths.length > 0) {
+      for (const status of await unifiedFileManager.statMediaFiles(paths)) {
+        if (status.exists) exists.add(status.path);
+      }
+    }
+
+    if (media?.audio?.path) {
+      if (exists.has(media.audio.path)) {
+        resolved.audioPath = media.audio.path;
+      } else {
+        missing.push(this.createReference('audio', media.audio.path, media.audio.size, { duration: audio.duration }));
+      }
+    } else if (audio.fileName && audio.fileName !== 'no-audio') {
+      missing.push({
+        id: `audio:${audio.fileName}`,
+        kind: 'audio',
+        fileName: audio.fileName,
+        duration: audio.duration || undefined
+      });
+    }
+
+    const background = media?.background;
+    if (background?.type === 'image' && media?.backgroundImage?.path) {
+      if (exists.has(media.backgroundImage.path)) {
+        resolved.backgroundImagePath = media.backgroundImage.path;
+      } else {
+        missing.push(this.createReference('backgroundImage', media.backgroundImage.path, media.backgroundImage.size, { background }));
+      }
+    } else if (background?.type === 'video' && media?.backgroundVideo?.path) {
+      if (exists.has(media.backgroundVideo.path)) {
+        resolved.backgroundVideoPath = media.backgroundVideo.path;
+      } else {
+        missing.push(this.createReference('backgroundVideo', media.backgroundVideo.path, media.backgroundVideo.size, { background }));
+      }
+    }
+
+    // 同じフォントファイル（コレクション内の別スタイルなど）は1件にまとめる
+    const missingFontPaths = new Set<string>();
+    for (const font of fonts) {
+      const { size, ...fontInfo } = font;
+      if (exists.has(font.path)) {
+        resolved.fonts.push(fontInfo);
+      } else if (!missingFontPaths.has(font.path)) {
+        missingFontPaths.add(font.path);
+        missing.push(this.createReference('font', font.path, size, { font: fontInfo }));
+      }
+    }
+
+    return { resolved, missing };
+  }
+
+  /**
+   * 見つからない素材の候補を検索
+   * 元の再生時間が分かる音声は、候補の再生時間も確認して一致するものを先に並べる
+   */
+  async findCandidates(references: MissingMediaReference[], searchDirs?: string[]): Promise<MediaSearchResult[]> {
+    const results = await unifiedFileManager.findMediaCandidates(references, searchDirs);
+
+    for (const result of results) {
+      const reference = references.find(item => item.id === result.referenceId);
+      if (!reference?.duration || reference.kind !== 'audio') continue;
+
+      for (const candidate of result.candidates) {
+        const duration = await this.probeDuration(candidate.path);
+        if (duration !== undefined) {
+          candidate.durationMatches = Math.abs(duration - reference.duration) <= DURATION_TOLERANCE_MS;
+        }
+      }
+      const score = (candidate: typeof result.candidates[number]) =>
+        Number(candidate.sizeMatches === true) + Number(candidate.durationMatches === true);
+      result.candidates.sort((a, b) => score(b) - score(a));
+    }
+    return results;
+  }
+
+  /**
+   * 素材を指定したファイルに再リンク
+   */
+  async relink(reference: MissingMediaReference, filePath: string): Promise<void> {
+    const current = this.engine.getBackgroundConfig();
+    const background: ProjectBundleBackground = reference.background || {
+      type: current.type,
+      fitMode: current.fitMode,
+      opacity: current.opacity,
+      videoLoop: current.videoLoop
+    };
+
+    switch (reference.kind) {
+      case 'audio':
+        await this.restoreMedia({ audioPath: filePath, fonts: [] });
+        break;
+      case 'backgroundImage':
+        await this.restoreMedia({ backgroundImagePath: filePath, background: { ...background, type: 'image' }, fonts: [] });
+        break;
+      case 'backgroundVideo':
+        await this.restoreMedia({ backgroundVideoPath: filePath, background: { ...background, type: 'video' }, fonts: [] });
+        break;
+      case 'font': {
+        if (!reference.font) {
+          throw new Error(`フォント情報がありません: ${reference.fileName}`);
+        }
+        const registered = await FontService.registerFontFiles([{ ...reference.font, path: filePath }]);
+        if (registered.length === 0) {
+          throw new Error(`フォントを登録できませんでした: ${reference.fileName}`);
+        }
+        this.refreshLayout();
+        break;
+      }
+    }
+  }
+
+  /**
+   * 音声・背景メディアを確認なしで読み込む（フォントは含まない）
+   */
+  async restoreMedia(assets: ProjectBundleAssets): Promise<void> {
+    const { electronMediaManager } = await import('./ElectronMediaManager');
+
+    if (assets.audioPath) {
+      const result = await electronMediaManager.loadRecentAudioFile(assets.audioPath);
+      if (result?.audio) {
+        this.engine.loadAudioElement(result.audio, result.fileName);
+        window.dispatchEvent(new CustomEvent('music-file-loaded', {
+          detail: {
+            filePath: assets.audioPath,
+            fileName: result.fileName,
+            timestamp: Date.now(),
+            isRestored: true
+          }
+        }));
+      }
+    }
+
+    const background = assets.background;
+    if (background?.type === 'video' && assets.backgroundVideoPath) {
+      const result = await electronMediaManager.loadRecentBackgroundVideo(assets.backgroundVideoPath);
+      if (result?.video) {
+        this.engine.setBackgroundVideoElement(result.video, background.fitMode, result.fileName, !!background.videoLoop);
+      }
+    } else if (background?.type === 'image' && assets.backgroundImagePath) {
+      this.engine.setBackgroundImage(toFileUrl(assets.backgroundImagePath), background.fitMode);
+    }
+    if (background && (assets.backgroundVideoPath || assets.backgroundImagePath)) {
+      if (background.opacity !== undefined) {
+        this.engine.updateBackgroundConfig({ opacity: background.opacity });
+      }
+      this.engine.projectStateManager?.updateCurrentState({
+        backgroundConfig: this.engine.getBackgroundConfig()
+      });
+    }
+  }
+
+  private createReference(
+    kind: MissingMediaReference['kind'],
+    filePath: string,
+    size: number | undefined,
+    extra: Partial<MissingMediaReference> = {}
+  ): MissingMediaReference {
+    return {
+      id: `${kind}:${filePath}`,
+      kind,
+      fileName: getFileName(filePath),
+      originalPath: filePath,
+      size,
+      ...extra
+    };
+  }
+
+  // メタデータから再生時間（ミリ秒）を取得。読み込めない場合は undefined
+  private probeDuration(filePath: string): Promise<number | undefined> {
+    return new Promise(resolve => {
+      const media = document.createElement('audio');
+      const finish = (duration?: number) => {
+        clearTimeout(timer);
+        media.removeAttribute('src');
+        media.load();
+        resolve(duration);
+      };
+      const timer = setTimeout(() => finish(), DURATION_PROBE_TIMEOUT_MS);
+
+      media.preload = 'metadata';
+      media.onloadedmetadata = () => finish(Number.isFinite(media.duration) ? media.duration * 1000 : undefined);
+      media.onerror = () => finish();
+      media.src = toFileUrl(filePath);
+    });
+  }
+
+  // フォント登録後に文字配置をやり直す
+  private refreshLayout(): void {
+    this.engine.arrangeCharsOnStage();
+    if (this.engine.instanceManager) {
+      this.engine.instanceManager.loadPhrases(this.engine.phrases, this.engine.charPositions);
+      this.engine.instanceManager.update(this.engine.currentTime);
+    }
+  }
+}
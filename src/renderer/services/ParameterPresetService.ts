@@ -0,0 +1,279 @@
+/**
+ * ParameterPresetService - テンプレートパラメータのプリセット管理
+ *
+ * プリセットはテンプレートIDとパラメータの部分集合に名前を付けたもの。
+ * ユーザーデータ（persistenceManager の parameter-presets.json）に保存し、
+ * JSONファイルへの書き出し・読み込みと、選択フレーズへの一括適用を提供する。
+ * パラメータは ParameterRegistry で検証し、未登録（旧仕様を含む）のキーは受け付けない。
+ */
+
+import type Engine from '../engine/Engine';
+import type { ParameterPreset } from '../../shared/types';
+import type { StandardParameters } from '../../types/StandardParameters';
+import type { TemplateId } from '../types/TemplateParameters';
+import { ParameterRegistry } from '../utils/ParameterRegistry';
+import { getAllTemplates, getTemplateById } from '../templates/registry/templateRegistry';
+import { generateUniqueIdWithPrefix } from '../utils/idGenerator';
+import { getElectronAPI } from '../../shared/electronAPI';
+
+export interface PresetValidationResult {
+  preset?: ParameterPreset;
+  errors: string[];
+}
+
+export interface PresetImportResult {
+  imported: ParameterPreset[];
+  errors: string[];
+}
+
+export class ParameterPresetService {
+  private static presets: ParameterPreset[] = [];
+  private static loaded: boolean = false;
+
+  /**
+   * 保存済みプリセットを読み込む（2回目以降はキャッシュを返す）
+   * 保存ファイルにも検証を通らないプリセットがあれば除外する
+   */
+  static async loadPresets(): Promise<ParameterPreset[]> {
+    if (this.loaded) {
+      return [...this.presets];
+    }
+
+    const result = await getElectronAPI().parameterPresets.load();
+    if (!result.success) {
+      throw new Error(result.error || 'プリセットの読み込みに失敗しました');
+    }
+
+    this.presets = [];
+    for (const raw of result.presets || []) {
+      const validation = this.validatePreset(raw);
+      if (validation.preset) {
+        this.presets.push(validation.preset);
+      } else {
+        console.warn('[ParameterPresetService] 無効なプリセットを除外しました:', validation.errors);
+      }
+    }
+    this.loaded = true;
+    return [...this.presets];
+  }
+
+  /**
+   * パラメータが ParameterRegistry に登録されているものか検証する
+   */
+  static validateParams(templateId: string, params: unknown): string[] {
+    if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+      return ['params はオブジェクトである必要があります'];
+    }
+
+    const registry = ParameterRegistry.getInstance();
+    const errors: string[] = [];
+    const entries = Object.entries(params as Record<string, unknown>);
+    if (entries.length === 0) {
+      errors.push('パラメータが1つもありません');
+    }
+
+    for (const [key, value] of entries) {
+      if (!registry.isRegistered(key, templateId as TemplateId)) {
+        errors.push(`未登録のパラメータです: ${key}`);
+        continue;
+      }
+      const validation = registry.validateParameter(key, value, templateId as TemplateId);
+      if (!validation.valid) {
+        errors.push(validation.error!);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * 外部から受け取ったプリセットを検証する（id・日時が欠けていれば補う）
+   */
+  static validatePreset(raw: unknown): PresetValidationResult {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return { errors: ['プリセットの形式が不正です'] };
+    }
+
+    const data = raw as Record<string, unknown>;
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    const label = name || '(名前なし)';
+    const errors: string[] = [];
+
+    if (!name) {
+      errors.push('プリセット名がありません');
+    }
+    if (typeof data.templateId !== 'string' || !getTemplateById(data.templateId)) {
+      errors.push(`${label}: 不明なテンプレートIDです: ${String(data.templateId)}`);
+    } else {
+      errors.push(...this.validateParams(data.templateId, data.params).map(error => `${label}: ${error}`));
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const now = Date.now();
+    return {
+      preset: {
+        id: typeof data.id === 'string' && data.id ? data.id : generateUniqueIdWithPrefix('preset'),
+        name,
+        templateId: data.templateId as string,
+        params: { ...(data.params as Record<string, unknown>) },
+        createdAt: typeof data.createdAt === 'number' ? data.createdAt : now,
+        updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : now
+      },
+      errors: []
+    };
+  }
+
+  /**
+   * 現在のパラメータから指定キーのみを取り出してプリセットを作成・保存する
+   * 同名・同テンプレートのプリセットがあれば上書きする
+   */
+  static async savePreset(
+    name: string,
+    templateId: string,
+    params: Record<string, unknown>,
+    keys: string[]
+  ): Promise<ParameterPreset> {
+    const subset: Record<string, unknown> = {};
+    for (const key of keys) {
+      if (params[key] !== undefined) {
+        subset[key] = params[key];
+      }
+    }
+
+    const validation = this.validatePreset({ name, templateId, params: subset });
+    if (!validation.preset) {
+      throw new Error(validation.errors.join('\n'));
+    }
+
+    await this.loadPresets();
+    const existing = this.presets.find(p => p.name === validation.preset!.name && p.templateId === templateId);
+    const preset: ParameterPreset = existing
+      ? { ...validation.preset, id: existing.id, createdAt: existing.createdAt }
+      : validation.preset;
+
+    await this.persist(existing
+      ? this.presets.map(p => p.id === existing.id ? preset : p)
+      : [...this.presets, preset]);
+    return preset;
+  }
+
+  static async deletePreset(presetId: string): Promise<void> {
+    await this.loadPresets();
+    await this.persist(this.presets.filter(p => p.id !== presetId));
+  }
+
+  /**
+   * プリセットをJSONファイルに書き出す（キャンセル時はnull）
+   */
+  static async exportPresets(presets: ParameterPreset[]): Promise<string | null> {
+    const defaultFileName = presets.length === 1
+      ? `${presets[0].name}.json`
+      : 'utavista-presets.json';
+    const result = await getElectronAPI().parameterPresets.exportToFile(presets, defaultFileName);
+    if (!result.success) {
+      throw new Error(result.error || 'プリセットの書き出しに失敗しました');
+    }
+    return result.filePath ?? null;
+  }
+
+  /**
+   * JSONファイルからプリセットを読み込む
+   * 単一プリセット・配列・{ presets: [...] } のいずれにも対応し、検証を通ったものだけ追加する
+   * 読み込み時は新しいIDを振り、既存プリセットと衝突しないようにする
+   */
+  static async importPresets(): Promise<PresetImportResult | null> {
+    const result = await getElectronAPI().parameterPresets.importFromFile();
+    if (!result.success) {
+      throw new Error(result.error || 'プリセットの読み込みに失敗しました');
+    }
+    if (result.data === null || result.data === undefined) {
+      return null;
+    }
+
+    const data = result.data as any;
+    const rawPresets: unknown[] = Array.isArray(data)
+      ? data
+      : Array.isArray(data?.presets) ? data.presets : [data];
+
+    const imported: ParameterPreset[] = [];
+    const errors: string[] = [];
+    for (const raw of rawPresets) {
+      const validation = this.validatePreset(raw);
+      if (validation.preset) {
+        imported.push({ ...validation.preset, id: generateUniqueIdWithPrefix('preset') });
+      } else {
+        errors.push(...validation.errors);
+      }
+    }
+
+    if (imported.length > 0) {
+      await this.loadPresets();
+      await this.persist([...this.presets, ...imported]);
+    }
+    return { imported, errors };
+  }
+
+  /**
+   * 選択フレーズにプリセットを適用する
+   * テンプレートを割り当てて個別設定を有効化し、Engine.updateObjectParams でパラメータを反映する
+   * 履歴は適用前の状態を1件だけ保存する（Undo 1回で全フレーズを元に戻せる）
+   * @returns 適用できたフレーズID
+   */
+  static applyToPhrases(engine: Engine, preset: ParameterPreset, objectIds: string[]): string[] {
+    const template = getTemplateById(preset.templateId);
+    if (!template) {
+      throw new Error(`テンプレート「${preset.templateId}」が見つかりません`);
+    }
+
+    const defaultParams: Record<string, unknown> = {};
+    template.getParameterConfig().forEach(param => {
+      defaultParams[param.name] = param.default;
+    });
+    const templateName = getAllTemplates().find(t => t.id === preset.templateId)?.name || preset.templateId;
+    engine.addTemplate(preset.templateId, template, { name: templateName }, defaultParams as Partial<StandardParameters>);
+
+    // 単語・文字IDが混ざっていてもフレーズ単位で1回だけ適用する
+    const phraseIds = Array.from(new Set(objectIds.map(id => engine.parameterManager.extractPhraseId(id))));
+
+    // 適用前の状態を1件だけ履歴に保存し、フレーズごとの割り当てでは履歴を積まない
+    engine.projectStateManager.updateCurrentState({
+      lyricsData: JSON.parse(JSON.stringify(engine.phrases)),
+      currentTime: engine.currentTime,
+      templateAssignments: engine.templateManager.exportAssignments(),
+      globalParams: engine.parameterManager.getGlobalDefaults(),
+      objectParams: engine.parameterManager.exportCompressed().phrases || {},
+      defaultTemplateId: engine.templateManager.getDefaultTemplateId()
+    });
+    engine.projectStateManager.saveCurrentState(`プリセット適用: ${preset.name} (${phraseIds.length}フレーズ)`);
+
+    const applied: string[] = [];
+    for (const phraseId of phraseIds) {
+      engine.parameterManager.enableIndividualSetting(phraseId);
+      if (!engine.assignTemplate(phraseId, preset.templateId, true, false)) {
+        console.error(`[ParameterPresetService] ${phraseId} のテンプレート適用に失敗しました`);
+        continue;
+      }
+      if (engine.updateObjectParams(phraseId, 'phrase', preset.params as Partial<StandardParameters>)) {
+        applied.push(phraseId);
+      }
+    }
+
+    // 適用後の状態を現在状態に反映
+    engine.projectStateManager.updateCurrentState({
+      lyricsData: JSON.parse(JSON.stringify(engine.phrases)),
+      templateAssignments: engine.templateManager.exportAssignments(),
+      objectParams: engine.parameterManager.exportCompressed().phrases || {}
+    });
+    return applied;
+  }
+
+  private static async persist(presets: ParameterPreset[]): Promise<void> {
+    const result = await getElectronAPI().parameterPresets.save(presets);
+    if (!result.success) {
+      throw new Error(result.error || 'プリセットの保存に失敗しました');
+    }
+    this.presets = presets;
+  }
+}
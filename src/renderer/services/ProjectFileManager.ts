@@ -7,6 +7,20 @@ import { calculateCharacterIndices } from '../utils/characterIndexCalculator';
 import { StandardParameters } from '../types/StandardParameters';
 import { ParameterValidator } from '../../utils/ParameterValidator';
 import { ParameterProcessor } from '../utils/ParameterProcessor';
+import { BeatGrid } from '../../types/BeatGrid';
+import { AudioModulationData } from '../../types/AudioModulation';
+import { ProjectSnapshot } from '../../types/ProjectSnapshot';
+import { LyricTrack } from '../../types/LyricTrack';
+import type { ExportFormat } from '../../shared/exportFormats';
+import type {
+  ProjectBundleAssets,
+  ProjectBundleSaveResult,
+  ProjectBundleLoadResult,
+  ProjectMediaReferences,
+  MissingMediaReference
+} from '../../shared/types';
+import { FontService } from './FontService';
+import { MissingMediaManager } from './MissingMediaManager';
 
 // プロジェクトファイルのメタデータ
 export interface ProjectMetadata {
@@ -33,6 +47,20 @@ export interface ProjectFileData {
   backgroundColor?: string;
   // 個別設定情報
   individualSettingsEnabled?: string[];
+  // ビート検出結果と小節設定
+  beatGrid?: BeatGrid;
+  // オーディオリアクティブ変調（特徴量カーブと変調設定）
+  audioModulation?: AudioModulationData;
+  // 名前付きスナップショット
+  snapshots?: ProjectSnapshot[];
+  // 歌詞トラック（旧データにはないためメイントラックのみとして扱う）
+  lyricTracks?: LyricTrack[];
+  // 一括書き出しのフォーマット（旧データにはないため既定のフォーマットとして扱う）
+  exportFormats?: ExportFormat[];
+  // プロジェクトバンドルの同梱素材（バンドルフォルダからの相対パス）
+  bundle?: ProjectBundleAssets;
+  // 使用している素材の絶対パスとサイズ（移動した素材の再リンク用）
+  media?: ProjectMediaReferences;
   // 後方互換性のため（読み込み時のみ使用）
   defaultTemplateId?: string;
   templateAssignments?: Record<string, string>;
@@ -67,6 +95,74 @@ export class ProjectFileManager {
     return this.buildProjectData(fileName || 'project');
   }
   
+  // バンドルに含める素材（現在の音声・背景メディアと使用中フォントのファイル）
+  private async collectBundleAssets(projectData: ProjectFileData): Promise<ProjectBundleAssets> {
+    const { electronMediaManager } = await import('./ElectronMediaManager');
+    const backgroundConfig = this.engine.getBackgroundConfig();
+    // data: / blob: のURLはファイルではないため同梱しない
+    const localPath = (value: string | null | undefined) =>
+      value && !/^(data|blob|https?):/.test(value) ? value : undefined;
+    
+    const fonts = this.collectFontFamilies(projectData).flatMap(family =>
+      FontService.getFontFiles(family).map(font => ({
+        family: font.family,
+        fullName: font.fullName,
+        style: font.style,
+        weight: font.weight,
+        path: font.path!
+      }))
+    );
+    
+    return {
+      audioPath: localPath(electronMediaManager.getCurrentAudioFilePath() || this.engine.audioFilePath),
+      backgroundImagePath: backgroundConfig.type === 'image' ? localPath(backgroundConfig.imageFilePath) : undefined,
+      backgroundVideoPath: backgroundConfig.type === 'video'
+        ? localPath(electronMediaManager.getCurrentVideoFilePath() || backgroundConfig.videoFilePath)
+        : undefined,
+      background: {
+        type: backgroundConfig.type,
+        backgroundColor: backgroundConfig.backgroundColor,
+        fitMode: backgroundConfig.fitMode,
+        opacity: backgroundConfig.opacity,
+        videoLoop: backgroundConfig.videoLoop
+      },
+      fonts
+    };
+  }
+  
+  // プロジェクトで使用しているフォントファミリー（グローバル・フレーズ個別・書き出しフォーマットの上書き）
+  private collectFontFamilies(projectData: ProjectFileData): string[] {
+    const families = new Set<string>();
+    const add = (params: Record<string, any> | undefined) => {
+      if (typeof params?.fontFamily === 'string' && params.fontFamily) {
+        families.add(params.fontFamily);
+      }
+    };
+    
+    add(projectData.globalParams);
+    Object.values(projectData.objectParams || {}).forEach(add);
+    const parameterData = (projectData as any).parameterData;
+    add(parameterData?.globalDefaults);
+    Object.values<any>(parameterData?.phrases || {}).forEach(phrase => add(phrase.parameterDiff));
+    (projectData.exportFormats || []).forEach(format => add(format.parameterOverrides));
+    
+    return Array.from(families);
+  }
+  
+  // 記録した素材を確認して復元し、見つからない素材は再リンクダイアログに渡す
+  private async restoreProjectMedia(projectData: ProjectFileData): Promise<MissingMediaReference[]> {
+    const manager = new MissingMediaManager(this.engine);
+    const { resolved, missing } = await manager.checkReferences(projectData.media, projectData.audio);
+    
+    if (resolved.fonts.length > 0) {
+      await FontService.registerFontFiles(resolved.fonts);
+    }
+    await manager.restoreMedia(resolved);
+    MissingMediaManager.notifyMissing(missing);
+    
+    return missing;
+  }
+  
   /**
    * パラメータを正規化するヘルパーメソッド
    */
@@ -85,11 +181,37 @@ export class ProjectFileManager {
     return validation.sanitized;
   }
   
+  /**
+   * 歌詞・パラメータ以外のプロジェクト設定を復元（保存されていない項目は既定の状態に戻す）
+   */
+  private restoreProjectSettings(projectData: ProjectFileData): void {
+    // 背景色を復元
+    if (projectData.backgroundColor) {
+      this.engine.setBackgroundColor(projectData.backgroundColor);
+    }
+    
+    // ビートグリッドを復元（保存されていない場合はクリア）
+    this.engine.setBeatGrid(projectData.beatGrid ?? null);
+    
+    // オーディオ変調を復元（保存されていない場合はクリア）
+    this.engine.setAudioModulation(projectData.audioModulation ?? null);
+    
+    // スナップショットを復元（保存されていない場合はクリア）
+    this.engine.setSnapshots(projectData.snapshots);
+    
+    // 歌詞トラックを復元（保存されていない場合はメイントラックのみ）
+    this.engine.setLyricTracks(projectData.lyricTracks);
+    
+    // 一括書き出しのフォーマットを復元（保存されていない場合は既定のフォーマット）
+    this.engine.setExportFormats(projectData.exportFormats);
+  }
+  
   /**
    * プロジェクトデータを読み込み（Electron経由など）
    * @param projectData プロジェクトデータ
+   * @param bundledAudioPath バンドルから見つかった音声ファイルのパス（ある場合は音楽ファイルを要求しない）
    */
-  async loadProjectData(projectData: ProjectFileData): Promise<void> {
+  async loadProjectData(projectData: ProjectFileData, bundledAudioPath?: string): Promise<void> {
     
     // バリデーション
     const validation = this.validateProjectData(projectData);
@@ -140,16 +262,16 @@ export class ProjectFileManager {
       }
     }
     
-    // 背景色を復元
-    if (projectData.backgroundColor) {
-      this.engine.setBackgroundColor(projectData.backgroundColor);
-    }
+    // 背景色・ビートグリッドなどのプロジェクト設定を復元
+    this.restoreProjectSettings(projectData);
     
-    // 音楽ファイル要求イベントを発行
-    DebugEventBus.emit('request-audio-file', {
-      fileName: projectData.audio.fileName,
-      duration: projectData.audio.duration
-    });
+    // 音楽ファイル要求イベントを発行（バンドルに同梱された音声が見つかった場合は不要）
+    if (!bundledAudioPath) {
+      DebugEventBus.emit('request-audio-file', {
+        fileName: projectData.audio.fileName,
+        duration: projectData.audio.duration
+      });
+    }
     
     // プロジェクトロードイベント発行
     window.dispatchEvent(new CustomEvent('project-loaded', { 
@@ -192,6 +314,8 @@ export class ProjectFileManager {
       // プロジェクトデータを構築
       const projectData = this.buildProjectData(fileName);
       
+      // 素材の場所を記録（移動した場合に再リンクで探せるようにサイズも記録）
+      projectData.media = await MissingMediaManager.withFileSizes(await this.collectBundleAssets(projectData));
     
       // エレクトロンのファイル保存APIを使用
       const filePath = await unifiedFileManager.saveProject(projectData);
@@ -209,6 +333,46 @@ export class ProjectFileManager {
     }
   }
 
+  /**
+   * プロジェクトと音声・背景メディア・フォントをバンドルとして保存
+   * @param fileName プロジェクト名（拡張子なし）
+   */
+  async saveProjectBundle(fileName: string): Promise<ProjectBundleSaveResult> {
+    try {
+      const projectData = this.buildProjectData(fileName);
+      const result = await unifiedFileManager.saveProjectBundle(
+        projectData,
+        await this.collectBundleAssets(projectData)
+      );
+      
+      await this.engine.clearAutoSave();
+      DebugEventBus.emit('project-saved', { fileName: result.bundlePath });
+      
+      return result;
+    } catch (error) {
+      console.error('Project bundle save error:', error);
+      throw new Error(`プロジェクトバンドルの保存に失敗しました: ${error}`);
+    }
+  }
+
+  /**
+   * プロジェクトバンドルを読み込み
+   * 同梱フォントを登録してからプロジェクトを読み込み、同梱の音声・背景メディアを確認なしで復元する
+   */
+  async loadProjectBundle(): Promise<ProjectBundleLoadResult> {
+    const result = await unifiedFileManager.loadProjectBundle();
+    const { assets } = result;
+    
+    if (assets.fonts.length > 0) {
+      await FontService.registerFontFiles(assets.fonts);
+    }
+    
+    await this.loadProjectData(result.projectData, assets.audioPath);
+    await new MissingMediaManager(this.engine).restoreMedia(assets);
+    
+    return result;
+  }
+
   /**
    * プロジェクトファイルを読み込み（エレクトロン専用）
    */
@@ -281,13 +445,19 @@ export class ProjectFileManager {
         }
       }
       
-      // 背景色を設定
-      if (projectData.backgroundColor) {
-        this.engine.setBackgroundColor(projectData.backgroundColor);
+      // 背景色・ビートグリッドなどのプロジェクト設定を復元
+      this.restoreProjectSettings(projectData);
+      
+      // 記録した素材を復元（見つからない素材は再リンクダイアログで選び直す）
+      let missingMedia: MissingMediaReference[] = [];
+      try {
+        missingMedia = await this.restoreProjectMedia(projectData);
+      } catch (error) {
+        console.warn('[ProjectFileManager] 素材の復元に失敗:', error);
       }
       
-      // 音楽ファイルの再読み込みを促す
-      if (projectData.audio.fileName) {
+      // 音楽ファイルが見つからない場合は再読み込みを促す
+      if (projectData.audio.fileName && (!projectData.media?.audio || missingMedia.some(item => item.kind === 'audio'))) {
         DebugEventBus.emit('request-audio-file', {
           fileName: projectData.audio.fileName,
           duration: projectData.audio.duration
@@ -496,7 +666,12 @@ export class ProjectFileManager {
       globalParams: this.normalizeParameters(this.engine.getParameterManager().getGlobalDefaults()),
       objectParams: enhancedObjectParams,
       backgroundColor: state.backgroundColor,
-      individualSettingsEnabled: this.engine.getParameterManager().getIndividualSettingsEnabled() // V2統一管理で個別設定リストを取得
+      individualSettingsEnabled: this.engine.getParameterManager().getIndividualSettingsEnabled(), // V2統一管理で個別設定リストを取得
+      beatGrid: this.engine.getBeatGrid() ?? undefined,
+      audioModulation: this.engine.getAudioModulationForSave(),
+      snapshots: this.engine.getSnapshotsForSave(),
+      lyricTracks: this.engine.getLyricTracksForSave(),
+      exportFormats: this.engine.getExportFormatsForSave()
     };
     
     // V2パラメータデータを別フィールドとして追加
@@ -1,4 +1,9 @@
 import { TemplateConfig, TemplatesJson } from '../templates/registry/types';
+import { IAnimationTemplate } from '../types/types';
+import {
+  registerRuntimeTemplateEntry,
+  unregisterRuntimeTemplateEntry
+} from '../templates/registry/templateRegistry';
 
 export class TemplateRegistryService {
   private static readonly REGISTRY_PATH = 'src/renderer/templates/registry/templates.json';
@@ -115,6 +120,21 @@ export class TemplateRegistryService {
     }
   }
   
+  // 実行時に読み込んだユーザーテンプレートを登録（templates.json には書き込まない）
+  static registerRuntimeTemplate(id: string, name: string, template: IAnimationTemplate, fileName: string): void {
+    registerRuntimeTemplateEntry({ id, name, template, fileName });
+    window.dispatchEvent(new CustomEvent('templateRegistryChanged', { detail: { templateId: id } }));
+  }
+  
+  // ユーザーテンプレートの登録を解除
+  static unregisterRuntimeTemplate(id: string): boolean {
+    const removed = unregisterRuntimeTemplateEntry(id);
+    if (removed) {
+      window.dispatchEvent(new CustomEvent('templateRegistryChanged', { detail: { templateId: id } }));
+    }
+    return removed;
+  }
+  
   // レジストリをリロード（アプリケーション再起動なしで反映）
   static async reloadRegistry(): Promise<void> {
     try {
@@ -3,7 +3,17 @@
  * ブラウザ環境の条件分岐を排除し、エレクトロンのfsモジュールを直接活用
  */
 
-import type { ProjectData, MediaFileInfo } from '../../shared/types';
+import type {
+  ProjectData,
+  MediaFileInfo,
+  ProjectBundleAssets,
+  ProjectBundleSaveResult,
+  ProjectBundleLoadResult,
+  MissingMediaReference,
+  MediaSearchResult,
+  MediaFileStatus
+} from '../../shared/types';
+import type { ProjectFileData } from './ProjectFileManager';
 
 export class UnifiedFileManager {
   private electronAPI: any;
@@ -29,7 +39,7 @@ export class UnifiedFileManager {
   /**
    * プロジェクト読み込み
    */
-  async loadProject(): Promise<ProjectData> {
+  async loadProject(): Promise<ProjectFileData> {
     try {
       const projectData = await this.electronAPI.loadProject();
       return projectData;
@@ -39,6 +49,66 @@ export class UnifiedFileManager {
     }
   }
   
+  /**
+   * プロジェクトバンドル保存（音声・背景メディア・フォントをまとめる）
+   */
+  async saveProjectBundle(projectData: any, assets: ProjectBundleAssets): Promise<ProjectBundleSaveResult> {
+    try {
+      return await this.electronAPI.saveProjectBundle(projectData, assets);
+    } catch (error) {
+      console.error('UnifiedFileManager: プロジェクトバンドル保存エラー:', error);
+      throw new Error(`プロジェクトバンドルの保存に失敗しました: ${error}`);
+    }
+  }
+  
+  /**
+   * プロジェクトバンドル読み込み
+   */
+  async loadProjectBundle(): Promise<ProjectBundleLoadResult> {
+    try {
+      return await this.electronAPI.loadProjectBundle();
+    } catch (error) {
+      console.error('UnifiedFileManager: プロジェクトバンドル読み込みエラー:', error);
+      throw new Error(`プロジェクトバンドルの読み込みに失敗しました: ${error}`);
+    }
+  }
+  
+  /**
+   * 素材ファイルの存在とサイズを確認
+   */
+  async statMediaFiles(paths: string[]): Promise<MediaFileStatus[]> {
+    try {
+      return await this.electronAPI.statMediaFiles(paths);
+    } catch (error) {
+      console.error('UnifiedFileManager: 素材ファイル確認エラー:', error);
+      throw new Error(`素材ファイルの確認に失敗しました: ${error}`);
+    }
+  }
+  
+  /**
+   * 見つからない素材の候補を検索（最近使用したファイル・周辺フォルダ）
+   */
+  async findMediaCandidates(references: MissingMediaReference[], searchDirs?: string[]): Promise<MediaSearchResult[]> {
+    try {
+      return await this.electronAPI.findMediaCandidates(references, searchDirs);
+    } catch (error) {
+      console.error('UnifiedFileManager: 素材候補検索エラー:', error);
+      throw new Error(`素材の検索に失敗しました: ${error}`);
+    }
+  }
+  
+  /**
+   * フォルダ選択
+   */
+  async selectDirectory(title?: string): Promise<string> {
+    try {
+      return await this.electronAPI.selectDirectory(title);
+    } catch (error) {
+      console.error('UnifiedFileManager: フォルダ選択エラー:', error);
+      throw new Error(`フォルダの選択に失敗しました: ${error}`);
+    }
+  }
+  
   /**
    * ビデオファイル選択
    */
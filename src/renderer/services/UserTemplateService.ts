@@ -0,0 +1,370 @@
+/**
+ * UserTemplateService - ユーザーテンプレートの実行時読み込み
+ *
+ * userData/templates に置かれたコンパイル済みJSモジュール（ES Module）を読み込み、
+ * IAnimationTemplate の構造と TemplateValidationSchema で検証してから
+ * TemplateRegistryService に登録する。ファイルが更新されるとホットリロードする。
+ *
+ * モジュールの形式:
+ *   - export function createTemplate(runtime) { return class ... }  … PIXI などは runtime から受け取る
+ *   - export default class ...                                        … 依存のないテンプレート
+ *   - export const templateId / templateName（任意）                    … 省略時はファイル名から生成
+ * .json は宣言的テンプレート（templates/declarative）のドキュメントとして読み込む。
+ * 読み込んだテンプレートは IsolatedTemplate で包み、例外で Engine が止まらないようにする。
+ */
+
+import * as PIXI from 'pixi.js';
+import * as Primitives from '../primitives';
+import { IAnimationTemplate } from '../types/types';
+import { TemplateValidator as TemplateSchemaValidator } from '../templates/validation/TemplateValidationSchema';
+import { TemplateValidator } from '../utils/TemplateValidator';
+import { createIsolatedTemplate, IsolatedTemplateHandle } from '../utils/IsolatedTemplate';
+import { DeclarativeTemplateValidator, createDeclarativeTemplateClass } from '../templates/declarative';
+import { getLogicalStageSize, getStageCenterPosition, applyFallbackPosition } from '../utils/StageUtils';
+import { TextStyleFactory } from '../utils/TextStyleFactory';
+import { FontService } from './FontService';
+import { TemplateRegistryService } from './TemplateRegistryService';
+import { getElectronAPI } from '../../shared/electronAPI';
+import type { UserTemplateChange } from '../../shared/types';
+
+/**
+ * createTemplate(runtime) に渡すアプリ側の依存
+ */
+export const USER_TEMPLATE_RUNTIME = {
+  PIXI,
+  Primitives,
+  FontService,
+  TextStyleFactory,
+  StageUtils: { getLogicalStageSize, getStageCenterPosition, applyFallbackPosition }
+};
+
+export type UserTemplateRuntime = typeof USER_TEMPLATE_RUNTIME;
+
+export interface UserTemplateStatus {
+  fileName: string;
+  templateId?: string;
+  name?: string;
+  state: 'loaded' | 'error' | 'disabled';
+  errors: string[];
+  warnings: string[];
+}
+
+interface LoadedUserTemplate {
+  templateId: string;
+  name: string;
+  handle: IsolatedTemplateHandle;
+}
+
+interface EvaluatedModule {
+  templateId: string;
+  name: string;
+  template: IAnimationTemplate;
+  warnings: string[];
+}
+
+const RUNTIME_TEMPLATE_EXTENSIONS = ['.js', '.mjs', '.json'];
+
+export class UserTemplateService {
+  private static loaded: Map<string, LoadedUserTemplate> = new Map();
+  private static statuses: Map<string, UserTemplateStatus> = new Map();
+  private static listeners: Set<(statuses: UserTemplateStatus[]) => void> = new Set();
+  private static initialized: boolean = false;
+  private static unsubscribeChanges: (() => void) | null = null;
+
+  /**
+   * 起動時に一度だけ呼ぶ（全ユーザーテンプレートの読み込みと監視の開始）
+   */
+  static async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    await this.loadAll();
+
+    this.unsubscribeChanges = getElectronAPI().userTemplates.onChanged(change => {
+      this.handleFileChange(change).catch(error => {
+        console.error('[UserTemplateService] ホットリロードに失敗しました:', error);
+      });
+    });
+
+    window.addEventListener('user-template-error', this.handleRuntimeError as EventListener);
+  }
+
+  static dispose(): void {
+    this.unsubscribeChanges?.();
+    this.unsubscribeChanges = null;
+    window.removeEventListener('user-template-error', this.handleRuntimeError as EventListener);
+    this.initialized = false;
+  }
+
+  /**
+   * テンプレートフォルダを走査して全ファイルを読み込む
+   */
+  static async loadAll(): Promise<UserTemplateStatus[]> {
+    let files: string[] = [];
+    try {
+      const infos = await getElectronAPI().userTemplates.scan();
+      files = infos.map(info => info.fileName);
+    } catch (error) {
+      console.error('[UserTemplateService] テンプレートフォルダの走査に失敗しました:', error);
+      return this.getStatuses();
+    }
+
+    for (const fileName of files) {
+      if (this.isRuntimeTemplateFile(fileName)) {
+        await this.loadFile(fileName);
+      } else {
+        this.setStatus({
+          fileName,
+          state: 'error',
+          errors: ['TypeScriptのテンプレートは実行時に読み込めません。JSにコンパイルして配置してください'],
+          warnings: []
+        });
+      }
+    }
+    return this.getStatuses();
+  }
+
+  static getStatuses(): UserTemplateStatus[] {
+    return Array.from(this.statuses.values()).sort((a, b) => a.fileName.localeCompare(b.fileName));
+  }
+
+  static subscribe(listener: (statuses: UserTemplateStatus[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  static async openFolder(): Promise<void> {
+    await getElectronAPI().userTemplates.openFolder();
+  }
+
+  /**
+   * 1ファイルを読み込んで登録する
+   * 再読み込みで検証に失敗した場合は、直前に読み込めた実装を使い続ける
+   */
+  static async loadFile(fileName: string): Promise<UserTemplateStatus> {
+    const previous = this.loaded.get(fileName);
+    let evaluated: EvaluatedModule;
+
+    try {
+      const source = await getElectronAPI().userTemplates.read(fileName);
+      evaluated = fileName.toLowerCase().endsWith('.json')
+        ? this.evaluateDocument(fileName, source)
+        : await this.evaluateModule(fileName, source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[UserTemplateService] ${fileName} の読み込みに失敗しました:`, message);
+      return this.setStatus({
+        fileName,
+        templateId: previous?.templateId,
+        name: previous?.name,
+        state: 'error',
+        errors: previous
+          ? [...message.split('\n'), '直前に読み込めたバージョンを使用しています']
+          : message.split('\n'),
+        warnings: []
+      });
+    }
+
+    try {
+      // 別ファイルが同じIDを使っている場合は登録しない
+      for (const [otherFile, other] of this.loaded) {
+        if (otherFile !== fileName && other.templateId === evaluated.templateId) {
+          throw new Error(`テンプレートID「${evaluated.templateId}」は ${otherFile} で使用されています`);
+        }
+      }
+
+      let handle: IsolatedTemplateHandle;
+      if (previous && previous.templateId === evaluated.templateId) {
+        previous.handle.replace(evaluated.template);
+        handle = previous.handle;
+      } else {
+        if (previous) {
+          previous.handle.disable('テンプレートIDが変更されました');
+          TemplateRegistryService.unregisterRuntimeTemplate(previous.templateId);
+        }
+        handle = createIsolatedTemplate(evaluated.templateId, evaluated.template);
+      }
+
+      TemplateRegistryService.registerRuntimeTemplate(evaluated.templateId, evaluated.name, handle.template, fileName);
+      this.loaded.set(fileName, { templateId: evaluated.templateId, name: evaluated.name, handle });
+      console.log(`[UserTemplateService] ${fileName} を「${evaluated.templateId}」として登録しました`);
+
+      return this.setStatus({
+        fileName,
+        templateId: evaluated.templateId,
+        name: evaluated.name,
+        state: 'loaded',
+        errors: [],
+        warnings: evaluated.warnings
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.setStatus({
+        fileName,
+        templateId: evaluated.templateId,
+        name: evaluated.name,
+        state: 'error',
+        errors: [message],
+        warnings: evaluated.warnings
+      });
+    }
+  }
+
+  /**
+   * ファイルの削除・更新に追従する
+   */
+  private static async handleFileChange(change: UserTemplateChange): Promise<void> {
+    if (!change.removed) {
+      await this.loadFile(change.fileName);
+      return;
+    }
+
+    const previous = this.loaded.get(change.fileName);
+    if (previous) {
+      previous.handle.disable('テンプレートファイルが削除されました');
+      TemplateRegistryService.unregisterRuntimeTemplate(previous.templateId);
+      this.loaded.delete(change.fileName);
+    }
+    this.statuses.delete(change.fileName);
+    this.notify();
+  }
+
+  // IsolatedTemplate が実行中の例外でテンプレートを無効化したときの通知
+  private static handleRuntimeError = (event: CustomEvent<{ templateId: string; error: string }>) => {
+    for (const [fileName, entry] of UserTemplateService.loaded) {
+      if (entry.templateId === event.detail.templateId) {
+        const status = UserTemplateService.statuses.get(fileName);
+        UserTemplateService.setStatus({
+          fileName,
+          templateId: entry.templateId,
+          name: entry.name,
+          state: 'disabled',
+          errors: [`実行中にエラーが発生したため無効化しました: ${event.detail.error}`],
+          warnings: status?.warnings ?? []
+        });
+      }
+    }
+  };
+
+  /**
+   * モジュールを評価し、テンプレートクラスを取り出して検証する
+   */
+  private static async evaluateModule(fileName: string, source: string): Promise<EvaluatedModule> {
+    // Blob URL はファイル更新ごとに新しくなるため、モジュールキャッシュの影響を受けない
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    let module: any;
+    try {
+      module = await import(/* @vite-ignore */ url);
+    } catch (error) {
+      throw new Error(`モジュールの評価に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+
+    let TemplateClass: unknown;
+    if (typeof module.createTemplate === 'function') {
+      try {
+        TemplateClass = module.createTemplate(USER_TEMPLATE_RUNTIME);
+      } catch (error) {
+        throw new Error(`createTemplate() の実行に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else {
+      TemplateClass = module.default;
+    }
+    if (!TemplateClass) {
+      throw new Error('createTemplate(runtime) または default export のテンプレートクラスが見つかりません');
+    }
+
+    const templateId = typeof module.templateId === 'string' && module.templateId
+      ? module.templateId
+      : this.defaultTemplateId(fileName);
+    const name = typeof module.templateName === 'string' && module.templateName
+      ? module.templateName
+      : undefined;
+
+    return this.validateTemplateClass(templateId, name, TemplateClass, fileName);
+  }
+
+  /**
+   * 宣言的テンプレート（JSON）を検証してテンプレートクラスを作成する
+   */
+  private static evaluateDocument(fileName: string, source: string): EvaluatedModule {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(source);
+    } catch (error) {
+      throw new Error(`JSONの解析に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const result = DeclarativeTemplateValidator.validateDocument(raw);
+    if (!result.document) {
+      throw new Error(result.errors.join('\n'));
+    }
+
+    const evaluated = this.validateTemplateClass(
+      result.document.id || this.defaultTemplateId(fileName),
+      result.document.name,
+      createDeclarativeTemplateClass(result.document),
+      fileName
+    );
+    return { ...evaluated, warnings: [...result.warnings, ...evaluated.warnings] };
+  }
+
+  /**
+   * テンプレートクラスを検証してインスタンス化する
+   */
+  private static validateTemplateClass(
+    templateId: string,
+    templateName: string | undefined,
+    TemplateClass: unknown,
+    fileName: string
+  ): EvaluatedModule {
+    // TemplateValidationSchema: クラス・インスタンス化・必須メソッド・実行テスト
+    const schemaResult = TemplateSchemaValidator.validateTemplate(templateId, TemplateClass);
+    if (!schemaResult.isValid) {
+      throw new Error(schemaResult.errors.join('\n'));
+    }
+
+    const template = new (TemplateClass as new () => IAnimationTemplate)();
+
+    // IAnimationTemplate としての構造とパラメータ設定
+    const structureResult = TemplateValidator.validateTemplateStructure(template);
+    const paramResult = TemplateValidator.validateParameterConfig(
+      typeof template.getParameterConfig === 'function' ? template.getParameterConfig() : []
+    );
+    const errors = [...structureResult.errors, ...paramResult.errors];
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    const name = templateName || template.metadata?.name || fileName.replace(/\.[^.]+$/, '');
+
+    return {
+      templateId,
+      name,
+      template,
+      warnings: Array.from(new Set([...schemaResult.warnings, ...structureResult.warnings, ...paramResult.warnings]))
+    };
+  }
+
+  private static defaultTemplateId(fileName: string): string {
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    return `user_${baseName.toLowerCase().replace(/[^a-z0-9_-]/g, '_')}`;
+  }
+
+  private static isRuntimeTemplateFile(fileName: string): boolean {
+    const lower = fileName.toLowerCase();
+    return RUNTIME_TEMPLATE_EXTENSIONS.some(ext => lower.endsWith(ext));
+  }
+
+  private static setStatus(status: UserTemplateStatus): UserTemplateStatus {
+    this.statuses.set(status.fileName, status);
+    this.notify();
+    return status;
+  }
+
+  private static notify(): void {
+    const statuses = this.getStatuses();
+    this.listeners.forEach(listener => listener(statuses));
+  }
+}
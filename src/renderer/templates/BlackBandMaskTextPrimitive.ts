@@ -13,6 +13,7 @@ import { TemplateValidationHelper, validateInDevelopment } from '../utils/Templa
 import { 
   SlideAnimationPrimitive,
   FlexibleCumulativeLayoutPrimitive,
+  RubyLayoutPrimitive,
   WordDisplayMode,
   type FlexibleCharacterData,
   ShapePrimitive,
@@ -576,7 +577,11 @@ export class BlackBandMaskTextPrimitive implements IAnimationTemplate {
       wordDisplayMode: WordDisplayMode.PHRASE_CUMULATIVE_SAME_LINE,
       wordSpacing: params.wordSpacing as number || 1.0,
       lineHeight: params.lineHeight as number || 1.2,
-      allWordExtendedIds: allWordExtendedIds
+      allWordExtendedIds: allWordExtendedIds,
+      ruby: RubyLayoutPrimitive.createParams(params, nowMs, {
+        color: params.textColor as string || '#FFFFFF',
+        activeColor: params.activeColor as string || '#FFD700'
+      })
     };
     
     layoutPrimitive.manageCharacterContainersFlexible(
@@ -18,6 +18,7 @@ import {
   type FlexibleCharacterData 
 } from '../primitives/layout/FlexibleCumulativeLayoutPrimitive';
 import { MultiLineLayoutPrimitive } from '../primitives/layout/MultiLineLayoutPrimitive';
+import { RubyLayoutPrimitive } from '../primitives/layout/RubyLayoutPrimitive';
 import { GlowEffectPrimitive } from '../primitives/effects/GlowEffectPrimitive';
 import { SlideAnimationPrimitive } from '../primitives/animation/SlideAnimationPrimitive';
 import { TextStyleFactory } from '../utils/TextStyleFactory';
@@ -438,6 +439,12 @@ export class BlinkFadeTextPrimitive_v2 implements IAnimationTemplate {
         lineHeight: params.lineHeight as number || 1.2,
         // 全単語の拡張ID情報を追加
         allWordExtendedIds: allWordExtendedIds,
+        // ルビ（親文字と同じ色の切り替えで描画）
+        ruby: RubyLayoutPrimitive.createParams(params, nowMs, {
+          color: params.textColor as string || '#808080',
+          activeColor: params.activeTextColor as string || '#FFFF80',
+          completedColor: params.completedTextColor as string || '#FFF7EB'
+        }),
         // フレーズ一括入場モードの場合のみタイミング制御パラメータを追加
         ...(isPhraseCumulativeMode && {
           phraseTimingControl: {
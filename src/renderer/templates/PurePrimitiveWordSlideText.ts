@@ -14,6 +14,7 @@ import {
   GlowEffectPrimitive,
   SlideAnimationPrimitive,
   FlexibleCumulativeLayoutPrimitive,
+  RubyLayoutPrimitive,
   SparkleEffectPrimitive,
   WordDisplayMode,
   type FlexibleCharacterData,
@@ -487,6 +488,12 @@ export class PurePrimitiveWordSlideText implements IAnimationTemplate {
       lineHeight: params.lineHeight as number || 1.2,
       // 全単語の拡張ID情報を追加
       allWordExtendedIds: allWordExtendedIds,
+      // ルビ（親文字と同じ色の切り替えで描画）
+      ruby: RubyLayoutPrimitive.createParams(params, nowMs, {
+        color: params.textColor as string || '#808080',
+        activeColor: params.activeTextColor as string || '#FF0000',
+        completedColor: params.completedTextColor as string || '#800000'
+      }),
       // フレーズ一括入場モードの場合のみタイミング制御パラメータを追加
       ...(isPhraseCumulativeMode && {
         phraseTimingControl: {
@@ -12,6 +12,7 @@ import { TextStyleFactory } from '../utils/TextStyleFactory';
 import { 
   SlideAnimationPrimitive,
   VerticalLayoutPrimitive,
+  RubyLayoutPrimitive,
   WordDisplayMode,
   type FlexibleCharacterData,
   type VerticalLayoutParams,
@@ -906,7 +907,11 @@ export class VerticalBlackBandTextPrimitive implements IAnimationTemplate {
       // 縦書き専用設定
       textDirection: 'vertical' as TextDirection,
       verticalStartPosition: 'top',
-      verticalLineDirection: 'rtl'
+      verticalLineDirection: 'rtl',
+      ruby: RubyLayoutPrimitive.createParams(params, nowMs, {
+        color: params.textColor as string || '#FFFFFF',
+        activeColor: params.activeColor as string || '#FFD700'
+      })
     };
     
     layoutPrimitive.manageCharacterContainers(
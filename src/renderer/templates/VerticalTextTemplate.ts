@@ -18,6 +18,7 @@ import {
 import { 
   SlideAnimationPrimitive,
   GlowEffectPrimitive,
+  RubyLayoutPrimitive,
   type FlexibleCharacterData
 } from '../primitives';
 import { getLogicalStageSize, applyFallbackPosition, logCoordinates } from '../utils/StageUtils';
@@ -414,6 +415,12 @@ export class VerticalTextTemplate implements IAnimationTemplate {
       smallCharOffsetYRatio: params.smallCharOffsetYRatio as number,
       screenWidth: params.screenWidth as number,
       screenHeight: params.screenHeight as number,
+      // ルビ（縦書きでは親文字の右側に配置）
+      ruby: RubyLayoutPrimitive.createParams(params, nowMs, {
+        color: params.textColor as string || '#FFFFFF',
+        activeColor: params.activeTextColor as string || '#FFD700',
+        completedColor: params.completedTextColor as string || '#808080'
+      }),
       // 縦書きテンプレートでは文字レベルのタイミング制御を使用
       // phraseTimingControlを無効化して発声中フェードアウトを防止
       phraseTimingControl: undefined
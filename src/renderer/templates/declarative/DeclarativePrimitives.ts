@@ -0,0 +1,456 @@
+/**
+ * 宣言的テンプレートから呼び出せるプリミティブの一覧
+ *
+ * ドキュメントの "primitive" に書ける名前と、その実行方法・使用できる階層・受け取るパラメータを定義する。
+ * inputs の値はパラメータが見つからなかった場合のフォールバック値。
+ */
+
+import * as PIXI from 'pixi.js';
+import type { AnimationPhase, HierarchyType } from '../../types/types';
+import {
+  FlexibleCumulativeLayoutPrimitive,
+  WordDisplayMode,
+  type FlexibleCharacterData
+} from '../../primitives/layout/FlexibleCumulativeLayoutPrimitive';
+import { RubyLayoutPrimitive } from '../../primitives/layout/RubyLayoutPrimitive';
+import { SlideAnimationPrimitive } from '../../primitives/animation/SlideAnimationPrimitive';
+import { GlowEffectPrimitive } from '../../primitives/effects/GlowEffectPrimitive';
+import { PrimitiveLibrary } from '../../primitives/api/PrimitiveLibrary';
+import { PrimitiveFactory } from '../../primitives/v2/PrimitiveFactory';
+import { TextStyleFactory } from '../../utils/TextStyleFactory';
+
+// text プリミティブが作成するテキストオブジェクトの名前
+export const DECLARATIVE_TEXT_NAME = 'declarative_text';
+
+/**
+ * テンプレートインスタンスごとに保持するプリミティブ
+ */
+export interface DeclarativePrimitiveInstances {
+  slide: SlideAnimationPrimitive;
+  layout: FlexibleCumulativeLayoutPrimitive;
+  glow: GlowEffectPrimitive;
+}
+
+/**
+ * ステップ実行時のコンテキスト
+ */
+export interface DeclarativeStepContext {
+  container: PIXI.Container;
+  text: string;
+  params: Record<string, unknown>;
+  nowMs: number;
+  startMs: number;
+  endMs: number;
+  phase: AnimationPhase;
+  hierarchyType: HierarchyType;
+  primitives: DeclarativePrimitiveInstances;
+  // レイアウトが配置した文字コンテナを char 階層として描画する
+  animateChild: (
+    container: PIXI.Container,
+    text: string,
+    params: Record<string, unknown>,
+    startMs: number,
+    endMs: number
+  ) => void;
+}
+
+export interface DeclarativePrimitive {
+  description: string;
+  levels: HierarchyType[];
+  inputs: Record<string, unknown>;
+  run(ctx: DeclarativeStepContext, values: Record<string, any>): void;
+  // phases 指定でステップが実行されないフレームの後始末
+  reset?(ctx: DeclarativeStepContext): void;
+}
+
+export const DECLARATIVE_PRIMITIVES: Record<string, DeclarativePrimitive> = {
+  slidePhrase: {
+    description: 'SlideAnimationPrimitive によるフレーズ位置（画面中央基準・ランダム配置対応）',
+    levels: ['phrase'],
+    inputs: {
+      phraseOffsetX: 0,
+      phraseOffsetY: 0,
+      fontSize: 120,
+      lineHeight: 1.2,
+      headTime: 500,
+      tailTime: 500,
+      randomPlacement: false,
+      randomSeed: 0,
+      randomRangeX: 0,
+      randomRangeY: 0,
+      minDistanceFromPrevious: 0,
+      wordDisplayMode: WordDisplayMode.INDIVIDUAL_WORD_ENTRANCE_SAME_LINE
+    },
+    run(ctx, values) {
+      const result = ctx.primitives.slide.calculatePhrasePosition({
+        phraseOffsetX: values.phraseOffsetX,
+        phraseOffsetY: values.phraseOffsetY,
+        fontSize: values.fontSize,
+        lineHeight: values.lineHeight,
+        headTime: values.headTime,
+        tailTime: values.tailTime,
+        randomPlacement: values.randomPlacement,
+        randomSeed: values.randomSeed,
+        randomRangeX: values.randomRangeX,
+        randomRangeY: values.randomRangeY,
+        minDistanceFromPrevious: values.minDistanceFromPrevious,
+        text: ctx.text,
+        words: ctx.params.words as any[] || [],
+        nowMs: ctx.nowMs,
+        startMs: ctx.startMs,
+        endMs: ctx.endMs,
+        phase: ctx.phase,
+        phraseId: ctx.params.id as string || `phrase_${ctx.startMs}`,
+        wordDisplayMode: values.wordDisplayMode
+      });
+      ctx.container.position.set(result.x, result.y);
+      ctx.container.alpha = result.alpha;
+    }
+  },
+
+  slideWord: {
+    description: 'SlideAnimationPrimitive による単語のスライドイン',
+    levels: ['word'],
+    inputs: {
+      fontSize: 120,
+      lineHeight: 1.2,
+      headTime: 500,
+      entranceInitialSpeed: 1.0,
+      activeSpeed: 0.5,
+      wordOffsetX: 0,
+      wordSlideDistance: -1,  // -1 = 速度から自動計算
+      wordDisplayMode: WordDisplayMode.INDIVIDUAL_WORD_ENTRANCE_SAME_LINE,
+      charSpacing: 1.0,
+      wordSpacing: 1.0
+    },
+    run(ctx, values) {
+      const result = ctx.primitives.slide.calculateWordPosition({
+        fontSize: values.fontSize,
+        lineHeight: values.lineHeight,
+        headTime: values.headTime,
+        entranceInitialSpeed: values.entranceInitialSpeed,
+        activeSpeed: values.activeSpeed,
+        wordOffsetX: values.wordOffsetX,
+        wordSlideDistance: values.wordSlideDistance,
+        wordIndex: ctx.params.wordIndex as number || 0,
+        nowMs: ctx.nowMs,
+        startMs: ctx.startMs,
+        endMs: ctx.endMs,
+        phase: ctx.phase,
+        wordAlignment: 'trailing_align',
+        firstWordFinalX: 0,
+        wordDisplayMode: values.wordDisplayMode,
+        charSpacing: values.charSpacing,
+        wordSpacing: values.wordSpacing,
+        phraseContainer: ctx.container.parent
+      });
+      ctx.container.position.set(
+        isNaN(result.x) ? 0 : result.x,
+        isNaN(result.y) ? 0 : result.y
+      );
+      ctx.container.alpha = isNaN(result.alpha) ? 1 : Math.max(0, Math.min(1, result.alpha));
+    }
+  },
+
+  cumulativeLayout: {
+    description: 'FlexibleCumulativeLayoutPrimitive による文字コンテナの配置（文字の描画は char 階層のステップで行う）',
+    levels: ['word'],
+    inputs: {
+      fontSize: 120,
+      charSpacing: 1.0,
+      wordSpacing: 1.0,
+      lineHeight: 1.2,
+      wordDisplayMode: WordDisplayMode.INDIVIDUAL_WORD_ENTRANCE_SAME_LINE,
+      headTime: 500,
+      tailTime: 500
+    },
+    run(ctx, values) {
+      const chars = ctx.params.chars as FlexibleCharacterData[] | undefined;
+      if (!Array.isArray(chars) || chars.length === 0) {
+        return;
+      }
+
+      const wordIndex = ctx.params.wordIndex as number || 0;
+      const charsData = chars.map(charData => ({
+        ...charData,
+        wordIndex: charData.wordIndex !== undefined ? charData.wordIndex : wordIndex
+      }));
+
+      const wordDisplayMode = toWordDisplayMode(values.wordDisplayMode);
+      const isPhraseCumulativeMode = wordDisplayMode === WordDisplayMode.PHRASE_CUMULATIVE_SAME_LINE ||
+                                     wordDisplayMode === WordDisplayMode.PHRASE_CUMULATIVE_NEW_LINE;
+      const phraseId = extractPhraseId(ctx.params.phraseId as string || ctx.params.id as string || 'phrase_unknown');
+
+      ctx.primitives.layout.manageCharacterContainersFlexible(
+        ctx.container,
+        {
+          charSpacing: values.charSpacing,
+          fontSize: values.fontSize,
+          halfWidthSpacingRatio: 0.6,
+          alignment: 'left',
+          containerSize: { width: 0, height: 0 },
+          spacing: values.charSpacing,
+          chars: charsData,
+          containerPrefix: 'char_container_',
+          wordDisplayMode,
+          wordSpacing: values.wordSpacing,
+          lineHeight: values.lineHeight,
+          allWordExtendedIds: generateAllWordExtendedIds(ctx.params.words as any[], phraseId),
+          ruby: RubyLayoutPrimitive.createParams(ctx.params, ctx.nowMs, {
+            color: ctx.params.textColor as string || '#808080',
+            activeColor: ctx.params.activeTextColor as string || '#FF0000',
+            completedColor: ctx.params.completedTextColor as string || '#800000'
+          }),
+          ...(isPhraseCumulativeMode && {
+            phraseTimingControl: {
+              nowMs: ctx.nowMs,
+              phraseStartMs: ctx.params.phraseStartMs as number || ctx.startMs,
+              phraseEndMs: ctx.params.phraseEndMs as number || ctx.endMs,
+              headTime: values.headTime,
+              tailTime: values.tailTime
+            }
+          })
+        },
+        (charContainer, charData) => {
+          ctx.animateChild(
+            charContainer,
+            charData.char,
+            {
+              ...ctx.params,
+              id: charData.id,
+              charIndex: charData.charIndex,
+              totalChars: charData.totalChars,
+              wordIndex
+            },
+            charData.start,
+            charData.end
+          );
+        }
+      );
+    }
+  },
+
+  fade: {
+    description: 'PrimitiveLibrary.animation.fadeInOut によるフェードイン・アウト（alpha を上書きする）',
+    levels: ['phrase', 'word', 'char'],
+    inputs: {
+      headTime: 500,
+      tailTime: 500,
+      easing: 'ease-out'
+    },
+    run(ctx, values) {
+      let progress = 1;
+      if (ctx.phase === 'in') {
+        progress = values.headTime > 0
+          ? (ctx.nowMs - (ctx.startMs - values.headTime)) / values.headTime
+          : 1;
+      } else if (ctx.phase === 'out') {
+        progress = values.tailTime > 0
+          ? 1 - (ctx.nowMs - ctx.endMs) / values.tailTime
+          : 0;
+      }
+      PrimitiveLibrary.animation
+        .fadeInOut(values.headTime, values.easing)
+        .execute(ctx.container, Math.max(0, Math.min(1, progress)));
+    },
+    reset(ctx) {
+      ctx.container.alpha = 1;
+      ctx.container.visible = true;
+    }
+  },
+
+  glow: {
+    description: 'GlowEffectPrimitive によるグロー・シャドウ',
+    levels: ['phrase', 'word'],
+    inputs: {
+      enableGlow: true,
+      glowStrength: 1.5,
+      glowBrightness: 1.2,
+      glowBlur: 6,
+      glowQuality: 8,
+      glowPadding: 50,
+      enableShadow: false,
+      shadowBlur: 6,
+      shadowColor: '#000000',
+      shadowAngle: 45,
+      shadowDistance: 8,
+      shadowAlpha: 0.8,
+      shadowOnly: false,
+      blendMode: 'normal'
+    },
+    run(ctx, values) {
+      if (!values.enableGlow && !values.enableShadow) {
+        ctx.primitives.glow.removeEffect(ctx.container);
+        return;
+      }
+      ctx.primitives.glow.applyEffect(ctx.container, {
+        enableGlow: values.enableGlow,
+        enableShadow: values.enableShadow,
+        blendMode: values.blendMode,
+        glow: values.enableGlow ? {
+          intensity: 1.0,
+          glowStrength: values.glowStrength,
+          glowBrightness: values.glowBrightness,
+          glowBlur: values.glowBlur,
+          glowQuality: values.glowQuality,
+          glowPadding: values.glowPadding,
+          threshold: 0.2
+        } : undefined,
+        shadow: values.enableShadow ? {
+          intensity: 1.0,
+          shadowBlur: values.shadowBlur,
+          shadowColor: values.shadowColor,
+          shadowAngle: values.shadowAngle,
+          shadowDistance: values.shadowDistance,
+          shadowAlpha: values.shadowAlpha,
+          shadowOnly: values.shadowOnly
+        } : undefined
+      });
+    },
+    reset(ctx) {
+      ctx.primitives.glow.removeEffect(ctx.container);
+    }
+  },
+
+  text: {
+    description: '文字の描画（発声前・発声中・発声後で色を切り替える）',
+    levels: ['char'],
+    inputs: {
+      fontSize: 120,
+      fontFamily: 'Arial',
+      textColor: '#808080',
+      activeTextColor: '#FF0000',
+      completedTextColor: '#800000'
+    },
+    run(ctx, values) {
+      const fill = ctx.nowMs < ctx.startMs
+        ? values.textColor
+        : ctx.nowMs <= ctx.endMs ? values.activeTextColor : values.completedTextColor;
+
+      // 同じ文字・フォントなら色だけ更新して再生成を避ける
+      const existing = ctx.container.getChildByName(DECLARATIVE_TEXT_NAME) as PIXI.Text | null;
+      if (existing && existing.text === ctx.text &&
+          existing.style.fontFamily === values.fontFamily && existing.style.fontSize === values.fontSize) {
+        if (existing.style.fill !== fill) {
+          existing.style.fill = fill;
+        }
+        return;
+      }
+      if (existing) {
+        ctx.container.removeChild(existing);
+        existing.destroy();
+      }
+
+      const textObj = TextStyleFactory.createHighDPIText(ctx.text, {
+        fontFamily: values.fontFamily,
+        fontSize: values.fontSize,
+        fill
+      });
+      textObj.name = DECLARATIVE_TEXT_NAME;
+      textObj.anchor.set(0.5, 0.5);
+      textObj.position.set(0, 0);
+      ctx.container.addChild(textObj);
+    }
+  },
+
+  blur: {
+    description: 'BlurEffectPrimitive（PrimitiveFactory）による文字のブラー',
+    levels: ['char'],
+    inputs: {
+      enableBlur: true,
+      blurStrength: 4,
+      blurFadeType: 'sync_with_alpha',
+      fadeInDuration: 300,
+      fadeOutDuration: 300
+    },
+    run(ctx, values) {
+      const blur = PrimitiveFactory.getBlurEffectPrimitive();
+      // プリミティブは毎回フィルタを作り直すため、前フレームのフィルタを先に破棄する
+      blur.remove(ctx.container);
+      blur.apply(ctx.container, {
+        enableBlur: values.enableBlur,
+        blurStrength: values.blurStrength,
+        blurFadeType: values.blurFadeType,
+        fadeInDuration: values.fadeInDuration,
+        fadeOutDuration: values.fadeOutDuration,
+        currentAlpha: ctx.container.alpha,
+        nowMs: ctx.nowMs,
+        startMs: ctx.startMs,
+        endMs: ctx.endMs
+      });
+    },
+    reset(ctx) {
+      PrimitiveFactory.getBlurEffectPrimitive().remove(ctx.container);
+    }
+  },
+
+  glitch: {
+    description: 'GlitchEffectPrimitive（PrimitiveFactory）による文字のグリッチ',
+    levels: ['char'],
+    inputs: {
+      enableGlitch: true,
+      glitchBlockSize: 8,
+      glitchThreshold: 0.3,
+      glitchIntensity: 0.5,
+      glitchFrequency: 1.0,
+      randomSeed: 0
+    },
+    run(ctx, values) {
+      const glitch = PrimitiveFactory.getGlitchEffectPrimitive();
+      glitch.remove(ctx.container);
+      glitch.apply(ctx.container, {
+        enableGlitch: values.enableGlitch,
+        glitchBlockSize: values.glitchBlockSize,
+        glitchThreshold: values.glitchThreshold,
+        glitchIntensity: values.glitchIntensity,
+        glitchFrequency: values.glitchFrequency,
+        randomSeed: values.randomSeed
+      });
+    },
+    reset(ctx) {
+      PrimitiveFactory.getGlitchEffectPrimitive().remove(ctx.container);
+    }
+  }
+};
+
+function toWordDisplayMode(value: unknown): WordDisplayMode {
+  return (Object.values(WordDisplayMode) as string[]).includes(value as string)
+    ? value as WordDisplayMode
+    : WordDisplayMode.INDIVIDUAL_WORD_ENTRANCE_SAME_LINE;
+}
+
+/**
+ * フルIDからフレーズIDのみを抽出
+ * 例: "phrase_2_word_2_h0f5" → "phrase_2"
+ */
+function extractPhraseId(fullId: string): string {
+  const wordIndex = fullId.indexOf('_word_');
+  return wordIndex !== -1 ? fullId.substring(0, wordIndex) : fullId;
+}
+
+/**
+ * 全単語の拡張ID情報を生成（レイアウトのオフセット計算用）
+ */
+function generateAllWordExtendedIds(words: any[], phraseId: string): string[] {
+  if (!Array.isArray(words)) {
+    return [];
+  }
+  return words.map((word, wordIndex) => {
+    let halfWidth = 0;
+    let fullWidth = 0;
+    (Array.isArray(word.chars) ? word.chars : []).forEach((char: any) => {
+      if (!char.char) return;
+      if (isHalfWidthChar(char.char)) {
+        halfWidth++;
+      } else {
+        fullWidth++;
+      }
+    });
+    return `${phraseId}_word_${wordIndex}_h${halfWidth}f${fullWidth}`;
+  });
+}
+
+function isHalfWidthChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code >= 0x0020 && code <= 0x007E) || (code >= 0xFF61 && code <= 0xFF9F);
+}
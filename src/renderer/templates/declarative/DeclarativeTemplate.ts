@@ -0,0 +1,308 @@
+/**
+ * DeclarativeTemplate
+ * 宣言的テンプレート（JSON）を解釈して IAnimationTemplate として動作する汎用テンプレート
+ *
+ * ドキュメントの各階層のステップを上から順に実行する。ステップのパラメータは構築時に
+ * 解決関数へ変換しておき、毎フレームはパラメータを引くだけにする。
+ */
+
+import * as PIXI from 'pixi.js';
+import {
+  IAnimationTemplate,
+  HierarchyType,
+  AnimationPhase,
+  TemplateMetadata,
+  ParameterConfig
+} from '../../types/types';
+import { DEFAULT_PARAMETERS } from '../../../types/StandardParameters';
+import { ParameterRegistry } from '../../utils/ParameterRegistry';
+import { FontService } from '../../services/FontService';
+import { FlexibleCumulativeLayoutPrimitive } from '../../primitives/layout/FlexibleCumulativeLayoutPrimitive';
+import { SlideAnimationPrimitive } from '../../primitives/animation/SlideAnimationPrimitive';
+import { GlowEffectPrimitive } from '../../primitives/effects/GlowEffectPrimitive';
+import {
+  DECLARATIVE_PRIMITIVES,
+  DECLARATIVE_TEXT_NAME,
+  DeclarativePrimitive,
+  DeclarativePrimitiveInstances,
+  DeclarativeStepContext
+} from './DeclarativePrimitives';
+import { DeclarativeTemplateValidator } from './DeclarativeTemplateValidator';
+import { DECLARATIVE_LEVELS, DeclarativeTemplateDocument, DeclarativeValue } from './types';
+
+type ValueResolver = (params: Record<string, unknown>) => unknown;
+
+interface CompiledStep {
+  primitive: DeclarativePrimitive;
+  phases: AnimationPhase[] | null;
+  resolvers: Array<[string, ValueResolver]>;
+}
+
+export class DeclarativeTemplate implements IAnimationTemplate {
+  readonly metadata: TemplateMetadata;
+
+  private readonly declared: Map<string, ParameterConfig>;
+  private readonly steps: Record<HierarchyType, CompiledStep[]>;
+  // パラメータパネルに出すパラメータ（バインド先の初出順）とバインディング側の既定値
+  private readonly boundParameters: Map<string, unknown> = new Map();
+  private readonly primitives: DeclarativePrimitiveInstances;
+
+  /**
+   * @param document DeclarativeTemplateValidator で検証済みのドキュメント
+   */
+  constructor(document: DeclarativeTemplateDocument) {
+    this.declared = new Map((document.parameters || []).map(param => [param.name, param]));
+    this.primitives = {
+      slide: new SlideAnimationPrimitive(),
+      layout: new FlexibleCumulativeLayoutPrimitive(),
+      glow: new GlowEffectPrimitive()
+    };
+
+    this.metadata = {
+      name: document.name,
+      version: '1.0.0',
+      description: document.description || '宣言的テンプレート',
+      license: '未指定',
+      originalAuthor: {
+        name: document.author || '不明',
+        contribution: '宣言的テンプレートの作成',
+        date: ''
+      }
+    };
+
+    this.steps = {} as Record<HierarchyType, CompiledStep[]>;
+    for (const level of DECLARATIVE_LEVELS) {
+      this.steps[level] = document[level].steps.map(step => {
+        const primitive = DECLARATIVE_PRIMITIVES[step.primitive];
+        return {
+          primitive,
+          phases: step.phases && step.phases.length > 0 ? step.phases : null,
+          resolvers: Object.keys(primitive.inputs).map(input => [
+            input,
+            this.compileValue(input, step.params?.[input], primitive.inputs[input])
+          ] as [string, ValueResolver])
+        };
+      });
+    }
+  }
+
+  /**
+   * パラメータ設定
+   * 宣言済みパラメータと、ステップがバインドしている StandardParameters を返す
+   */
+  getParameterConfig(): ParameterConfig[] {
+    const configs: ParameterConfig[] = [...this.declared.values()];
+    this.boundParameters.forEach((bindingDefault, name) => {
+      if (!this.declared.has(name)) {
+        configs.push(this.createStandardParameterConfig(name, bindingDefault));
+      }
+    });
+    return configs;
+  }
+
+  removeVisualElements(container: PIXI.Container): void {
+    // 階層コンテナは Engine/InstanceManager の管理なので、テンプレートが追加したものだけ取り除く
+    const textObj = container.getChildByName(DECLARATIVE_TEXT_NAME);
+    if (textObj) {
+      container.removeChild(textObj);
+      textObj.destroy();
+    }
+    this.primitives.glow.removeEffect(container);
+  }
+
+  animateContainer(
+    container: PIXI.Container,
+    text: string | string[],
+    params: Record<string, unknown>,
+    nowMs: number,
+    startMs: number,
+    endMs: number,
+    hierarchyType: HierarchyType,
+    phase: AnimationPhase
+  ): boolean {
+    const textContent = Array.isArray(text) ? text.join('') : text;
+    container.visible = true;
+
+    switch (hierarchyType) {
+      case 'phrase':
+        return this.renderPhraseContainer(container, textContent, params, nowMs, startMs, endMs, phase, hierarchyType);
+      case 'word':
+        return this.renderWordContainer(container, textContent, params, nowMs, startMs, endMs, phase, hierarchyType);
+      case 'char':
+        return this.renderCharContainer(container, textContent, params, nowMs, startMs, endMs, phase, hierarchyType);
+      default:
+        return false;
+    }
+  }
+
+  renderPhraseContainer(
+    container: PIXI.Container,
+    text: string,
+    params: Record<string, unknown>,
+    nowMs: number,
+    startMs: number,
+    endMs: number,
+    phase: AnimationPhase,
+    hierarchyType: HierarchyType
+  ): boolean {
+    return this.runSteps(container, text, params, nowMs, startMs, endMs, phase, hierarchyType);
+  }
+
+  renderWordContainer(
+    container: PIXI.Container,
+    text: string,
+    params: Record<string, unknown>,
+    nowMs: number,
+    startMs: number,
+    endMs: number,
+    phase: AnimationPhase,
+    hierarchyType: HierarchyType
+  ): boolean {
+    container.position.set(0, 0);
+    return this.runSteps(container, text, params, nowMs, startMs, endMs, phase, hierarchyType);
+  }
+
+  renderCharContainer(
+    container: PIXI.Container,
+    text: string,
+    params: Record<string, unknown>,
+    nowMs: number,
+    startMs: number,
+    endMs: number,
+    phase: AnimationPhase,
+    hierarchyType: HierarchyType
+  ): boolean {
+    return this.runSteps(container, text, params, nowMs, startMs, endMs, phase, hierarchyType);
+  }
+
+  /**
+   * 階層のステップを順に実行する（phases に含まれないフェーズではステップの効果を解除する）
+   */
+  private runSteps(
+    container: PIXI.Container,
+    text: string,
+    params: Record<string, unknown>,
+    nowMs: number,
+    startMs: number,
+    endMs: number,
+    phase: AnimationPhase,
+    hierarchyType: HierarchyType
+  ): boolean {
+    const ctx: DeclarativeStepContext = {
+      container,
+      text,
+      params,
+      nowMs,
+      startMs,
+      endMs,
+      phase,
+      hierarchyType,
+      primitives: this.primitives,
+      animateChild: (childContainer, childText, childParams, childStartMs, childEndMs) => {
+        this.animateContainer(childContainer, childText, childParams, nowMs, childStartMs, childEndMs, 'char', phase);
+      }
+    };
+
+    for (const step of this.steps[hierarchyType]) {
+      if (step.phases && !step.phases.includes(phase)) {
+        step.primitive.reset?.(ctx);
+        continue;
+      }
+
+      const values: Record<string, unknown> = {};
+      for (const [input, resolve] of step.resolvers) {
+        values[input] = resolve(params);
+      }
+      step.primitive.run(ctx, values);
+    }
+
+    container.updateTransform();
+    return true;
+  }
+
+  /**
+   * ステップのパラメータ値を解決関数に変換する
+   * - リテラル: その値
+   * - { param, default }: パラメータ → default → パラメータの既定値 → プリミティブのフォールバック
+   * - 省略: 同名のパラメータが StandardParameters か宣言済みならそれにバインド、なければフォールバック
+   */
+  private compileValue(input: string, value: DeclarativeValue | undefined, fallback: unknown): ValueResolver {
+    if (DeclarativeTemplateValidator.isBinding(value)) {
+      const key = value.param;
+      const defaultValue = value.default ?? this.getDefaultValue(key) ?? fallback;
+      if (!this.boundParameters.has(key)) {
+        this.boundParameters.set(key, value.default);
+      }
+      return params => params[key] ?? defaultValue;
+    }
+
+    if (value !== undefined && value !== null) {
+      return () => value;
+    }
+
+    if (this.declared.has(input) || DeclarativeTemplateValidator.isStandardParameter(input)) {
+      const defaultValue = this.getDefaultValue(input) ?? fallback;
+      if (!this.boundParameters.has(input)) {
+        this.boundParameters.set(input, undefined);
+      }
+      return params => params[input] ?? defaultValue;
+    }
+
+    return () => fallback;
+  }
+
+  private getDefaultValue(name: string): unknown {
+    const declared = this.declared.get(name);
+    if (declared) {
+      return declared.default;
+    }
+    return (DEFAULT_PARAMETERS as unknown as Record<string, unknown>)[name]
+      ?? ParameterRegistry.getInstance().getDefinition(name)?.defaultValue;
+  }
+
+  /**
+   * StandardParameters のパラメータ設定を ParameterRegistry の定義から組み立てる
+   */
+  private createStandardParameterConfig(name: string, bindingDefault: unknown): ParameterConfig {
+    const definition = ParameterRegistry.getInstance().getDefinition(name);
+    const defaultValue = bindingDefault ?? this.getDefaultValue(name);
+    const config: ParameterConfig = {
+      name,
+      type: 'string',
+      default: defaultValue,
+      label: definition?.description
+    };
+
+    if (typeof defaultValue === 'boolean') {
+      config.type = 'boolean';
+    } else if (typeof defaultValue === 'number') {
+      config.type = 'number';
+      config.min = definition?.min;
+      config.max = definition?.max;
+      config.step = Number.isInteger(defaultValue) ? 1 : 0.1;
+    } else if (name === 'fontFamily') {
+      Object.defineProperty(config, 'options', {
+        get: () => FontService.getAvailableFonts(),
+        enumerable: true
+      });
+    } else if (name === 'wordDisplayMode') {
+      config.options = FlexibleCumulativeLayoutPrimitive.getWordDisplayModeValues();
+    } else if (/color$/i.test(name)) {
+      config.type = 'color';
+    } else if (definition?.options) {
+      config.options = definition.options.map(option => typeof option === 'string' ? option : option.value);
+    }
+    return config;
+  }
+}
+
+/**
+ * ドキュメントからテンプレートクラスを作成する（引数なしでインスタンス化できるクラスが必要な箇所向け）
+ */
+export function createDeclarativeTemplateClass(document: DeclarativeTemplateDocument): new () => DeclarativeTemplate {
+  return class extends DeclarativeTemplate {
+    constructor() {
+      super(document);
+    }
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * 宣言的テンプレートのドキュメント検証
+ *
+ * 形式・バージョン、各階層のステップ（プリミティブ名・使用階層・フェーズ・パラメータ）、
+ * バインディング先のパラメータが StandardParameters か宣言済みパラメータであることを確認する。
+ */
+
+import type { ParameterConfig } from '../../types/types';
+import { DEFAULT_PARAMETERS } from '../../../types/StandardParameters';
+import { ParameterRegistry } from '../../utils/ParameterRegistry';
+import { DECLARATIVE_PRIMITIVES } from './DeclarativePrimitives';
+import {
+  DECLARATIVE_LEVELS,
+  DECLARATIVE_TEMPLATE_FORMAT,
+  DECLARATIVE_TEMPLATE_VERSION,
+  DeclarativeTemplateDocument,
+  ParameterBinding
+} from './types';
+
+export interface DeclarativeValidationResult {
+  document?: DeclarativeTemplateDocument;
+  errors: string[];
+  warnings: string[];
+}
+
+// 各階層に最低限必要なステップ（これがないと文字が表示されない）
+const REQUIRED_PRIMITIVES: Record<string, string> = {
+  phrase: 'slidePhrase',
+  word: 'cumulativeLayout',
+  char: 'text'
+};
+
+const PHASES = ['in', 'active', 'out'];
+const PARAMETER_TYPES = ['number', 'string', 'color', 'select', 'boolean', 'font'];
+
+export class DeclarativeTemplateValidator {
+  /**
+   * StandardParameters のキーか（ParameterRegistry の標準パラメータを含む）
+   */
+  static isStandardParameter(name: string): boolean {
+    if (Object.prototype.hasOwnProperty.call(DEFAULT_PARAMETERS, name)) {
+      return true;
+    }
+    return ParameterRegistry.getInstance().getDefinition(name)?.category === 'standard';
+  }
+
+  static isBinding(value: unknown): value is ParameterBinding {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      typeof (value as ParameterBinding).param === 'string';
+  }
+
+  static validateDocument(raw: unknown): DeclarativeValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return { errors: ['テンプレートドキュメントはJSONオブジェクトである必要があります'], warnings };
+    }
+    const doc = raw as Record<string, any>;
+
+    if (doc.format !== DECLARATIVE_TEMPLATE_FORMAT) {
+      errors.push(`format は "${DECLARATIVE_TEMPLATE_FORMAT}" である必要があります`);
+    }
+    if (doc.version !== DECLARATIVE_TEMPLATE_VERSION) {
+      errors.push(`未対応のバージョンです: ${String(doc.version)}（対応: ${DECLARATIVE_TEMPLATE_VERSION}）`);
+    }
+    if (typeof doc.name !== 'string' || !doc.name.trim()) {
+      errors.push('name がありません');
+    }
+    if (doc.id !== undefined && (typeof doc.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(doc.id))) {
+      errors.push('id は英数字・アンダースコア・ハイフンのみ使用できます');
+    }
+
+    const declared = this.validateParameterDeclarations(doc.parameters, errors);
+
+    for (const level of DECLARATIVE_LEVELS) {
+      const levelDoc = doc[level];
+      if (typeof levelDoc !== 'object' || levelDoc === null || !Array.isArray(levelDoc.steps)) {
+        errors.push(`${level}: steps 配列がありません`);
+        continue;
+      }
+
+      levelDoc.steps.forEach((step: any, index: number) => {
+        this.validateStep(step, `${level}.steps[${index}]`, level, declared, errors);
+      });
+
+      const required = REQUIRED_PRIMITIVES[level];
+      if (!levelDoc.steps.some((step: any) => step?.primitive === required)) {
+        errors.push(`${level}: ${required} ステップが必要です`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { errors, warnings };
+    }
+    return { document: doc as DeclarativeTemplateDocument, errors, warnings };
+  }
+
+  private static validateParameterDeclarations(parameters: unknown, errors: string[]): Map<string, ParameterConfig> {
+    const declared = new Map<string, ParameterConfig>();
+    if (parameters === undefined) {
+      return declared;
+    }
+    if (!Array.isArray(parameters)) {
+      errors.push('parameters は配列である必要があります');
+      return declared;
+    }
+
+    parameters.forEach((param: any, index: number) => {
+      const label = `parameters[${index}]`;
+      if (typeof param !== 'object' || param === null || typeof param.name !== 'string' || !param.name) {
+        errors.push(`${label}: name がありません`);
+        return;
+      }
+      if (!PARAMETER_TYPES.includes(param.type)) {
+        errors.push(`${label} (${param.name}): 不正な type です: ${String(param.type)}`);
+        return;
+      }
+      if (param.default === undefined) {
+        errors.push(`${label} (${param.name}): default がありません`);
+        return;
+      }
+      if (declared.has(param.name)) {
+        errors.push(`${label}: パラメータ ${param.name} が重複しています`);
+        return;
+      }
+      declared.set(param.name, param as ParameterConfig);
+    });
+    return declared;
+  }
+
+  private static validateStep(
+    step: any,
+    label: string,
+    level: string,
+    declared: Map<string, ParameterConfig>,
+    errors: string[]
+  ): void {
+    if (typeof step !== 'object' || step === null) {
+      errors.push(`${label}: ステップはオブジェクトである必要があります`);
+      return;
+    }
+
+    const primitive = DECLARATIVE_PRIMITIVES[step.primitive];
+    if (!primitive) {
+      errors.push(`${label}: 不明なプリミティブです: ${String(step.primitive)}（使用可能: ${Object.keys(DECLARATIVE_PRIMITIVES).join(', ')}）`);
+      return;
+    }
+    if (!primitive.levels.includes(level as any)) {
+      errors.push(`${label}: ${step.primitive} は ${level} 階層では使用できません（使用可能: ${primitive.levels.join(', ')}）`);
+    }
+
+    if (step.phases !== undefined) {
+      if (!Array.isArray(step.phases) || step.phases.length === 0 ||
+          step.phases.some((phase: unknown) => !PHASES.includes(phase as string))) {
+        errors.push(`${label}: phases は ${PHASES.join(' / ')} の配列で指定してください`);
+      }
+    }
+
+    if (step.params === undefined) {
+      return;
+    }
+    if (typeof step.params !== 'object' || step.params === null || Array.isArray(step.params)) {
+      errors.push(`${label}: params はオブジェクトである必要があります`);
+      return;
+    }
+
+    for (const [name, value] of Object.entries(step.params as Record<string, unknown>)) {
+      if (!(name in primitive.inputs)) {
+        errors.push(`${label}: ${step.primitive} にパラメータ ${name} はありません（使用可能: ${Object.keys(primitive.inputs).join(', ')}）`);
+        continue;
+      }
+
+      if (this.isBinding(value)) {
+        if (!this.isStandardParameter(value.param) && !declared.has(value.param)) {
+          errors.push(`${label}: ${name} のバインド先 ${value.param} は StandardParameters にも parameters にもありません`);
+        }
+        continue;
+      }
+
+      const fallback = primitive.inputs[name];
+      if (value !== null && typeof value === 'object') {
+        errors.push(`${label}: ${name} はリテラル値か { "param": "キー" } で指定してください`);
+      } else if (value !== null && typeof value !== typeof fallback) {
+        errors.push(`${label}: ${name} は ${typeof fallback} で指定してください`);
+      }
+    }
+  }
+}
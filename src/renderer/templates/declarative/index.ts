@@ -0,0 +1,4 @@
+export * from './types';
+export { DeclarativeTemplate, createDeclarativeTemplateClass } from './DeclarativeTemplate';
+export { DeclarativeTemplateValidator, type DeclarativeValidationResult } from './DeclarativeTemplateValidator';
+export { DECLARATIVE_PRIMITIVES } from './DeclarativePrimitives';
@@ -0,0 +1,56 @@
+/**
+ * 宣言的テンプレート（JSON）の型定義
+ *
+ * 階層（phrase / word / char）ごとに、どのプリミティブをどの順番で実行するかを記述する。
+ * 各ステップのパラメータはリテラル値か StandardParameters のキーへのバインディングで指定する。
+ */
+
+import type { AnimationPhase, HierarchyType, ParameterConfig } from '../../types/types';
+
+// ドキュメント形式の識別子（JSONの "format" に指定する）
+export const DECLARATIVE_TEMPLATE_FORMAT = 'utavista-declarative-template';
+export const DECLARATIVE_TEMPLATE_VERSION = 1;
+
+/**
+ * パラメータへのバインディング
+ * 例: { "param": "glowStrength", "default": 2.0 }
+ */
+export interface ParameterBinding {
+  param: string;
+  default?: unknown;
+}
+
+// リテラル値またはバインディング
+export type DeclarativeValue = string | number | boolean | null | ParameterBinding;
+
+/**
+ * 1ステップ = 1プリミティブの呼び出し
+ */
+export interface DeclarativeStep {
+  primitive: string;                          // DECLARATIVE_PRIMITIVES のキー
+  phases?: AnimationPhase[];                  // 省略時は全フェーズで実行
+  params?: Record<string, DeclarativeValue>;  // 省略したパラメータは同名のパラメータに自動でバインドされる
+}
+
+export interface DeclarativeLevel {
+  steps: DeclarativeStep[];
+}
+
+/**
+ * 宣言的テンプレートのドキュメント
+ */
+export interface DeclarativeTemplateDocument {
+  format: typeof DECLARATIVE_TEMPLATE_FORMAT;
+  version: number;
+  id?: string;
+  name: string;
+  description?: string;
+  author?: string;
+  // StandardParameters にない独自パラメータの宣言、または既定値・範囲の上書き
+  parameters?: ParameterConfig[];
+  phrase: DeclarativeLevel;
+  word: DeclarativeLevel;
+  char: DeclarativeLevel;
+}
+
+export const DECLARATIVE_LEVELS: HierarchyType[] = ['phrase', 'word', 'char'];
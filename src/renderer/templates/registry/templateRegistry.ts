@@ -9,6 +9,8 @@ export interface TemplateRegistryEntry {
   name: string;
   template: IAnimationTemplate | null;
   metadata?: TemplateMetadata; // テンプレートメタデータ（レジストリレベル）
+  source?: 'builtin' | 'user'; // user: userData/templates から実行時に読み込んだもの
+  fileName?: string;           // user の場合の読み込み元ファイル名
 }
 
 // JSONからテンプレートレジストリを動的に生成
@@ -25,7 +27,8 @@ function createTemplateRegistry(): TemplateRegistryEntry[] {
       id: templateConfig.id,
       name: templateConfig.name,
       template: template,
-      metadata: undefined
+      metadata: undefined,
+      source: 'builtin' as const
     };
   });
   
@@ -35,6 +38,31 @@ function createTemplateRegistry(): TemplateRegistryEntry[] {
 // テンプレートの登録
 export const templateRegistry: TemplateRegistryEntry[] = createTemplateRegistry();
 
+// 実行時テンプレートの登録（同じIDのユーザーテンプレートは置き換え、組み込みテンプレートは上書き不可）
+export function registerRuntimeTemplateEntry(entry: TemplateRegistryEntry): void {
+  const index = templateRegistry.findIndex(existing => existing.id === entry.id);
+  if (index !== -1 && templateRegistry[index].source !== 'user') {
+    throw new Error(`組み込みテンプレートと同じIDは使用できません: ${entry.id}`);
+  }
+  
+  const userEntry = { ...entry, source: 'user' as const };
+  if (index === -1) {
+    templateRegistry.push(userEntry);
+  } else {
+    templateRegistry[index] = userEntry;
+  }
+}
+
+// 実行時テンプレートの登録解除
+export function unregisterRuntimeTemplateEntry(id: string): boolean {
+  const index = templateRegistry.findIndex(entry => entry.id === id && entry.source === 'user');
+  if (index === -1) {
+    return false;
+  }
+  templateRegistry.splice(index, 1);
+  return true;
+}
+
 // IDからテンプレートを取得
 export function getTemplateById(id: string): IAnimationTemplate | undefined {
   const entry = templateRegistry.find(entry => entry.id === id);
@@ -223,8 +223,8 @@ export class TemplateValidator {
     const nowMs = 1000;
     const startMs = 0;
     const endMs = 2000;
-    const phase = AnimationPhase.Active;
-    const hierarchyType = HierarchyType.Character;
+    const phase: AnimationPhase = 'active';
+    const hierarchyType: HierarchyType = 'char';
 
     try {
       // Test animateContainer
@@ -236,8 +236,8 @@ export class TemplateValidator {
           nowMs,
           startMs,
           endMs,
-          phase,
-          hierarchyType
+          hierarchyType,
+          phase
         );
         if (typeof result !== 'boolean') {
           warnings.push('animateContainer should return a boolean');
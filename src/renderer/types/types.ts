@@ -43,12 +43,28 @@ export interface CharUnit {
   totalWords?: number;   // フレーズ内の総単語数
 }
 
+// ルビ（ふりがな）。単語内の連続した文字に読みを付ける
+export interface RubySpan {
+  startCharIndex: number;  // 親文字の開始位置（単語内の文字インデックス）
+  endCharIndex: number;    // 親文字の終了位置（この文字を含む）
+  reading: string;
+  start?: number;          // 読みの表示タイミング（省略時は親文字のタイミングに配分）
+  end?: number;
+}
+
 export interface WordUnit {
   id: string;
   word: string;          // 単語のテキスト（textから変更）
   start: number;
   end: number;
   chars: CharUnit[];
+  ruby?: RubySpan[];     // ルビ（省略時はなし）
+}
+
+// 歌詞のセクション（プレーンテキスト読み込みの空行・[Verse] などのマーカーで区切る）
+export interface PhraseSection {
+  index: number;         // 曲内のセクション番号（0から）
+  label?: string;        // マーカーのセクション名（例: Verse, Chorus）
 }
 
 export interface PhraseUnit {
@@ -57,6 +73,8 @@ export interface PhraseUnit {
   start: number;
   end: number;
   words: WordUnit[];
+  trackId?: string;     // 所属する歌詞トラック（省略時はメイントラック）
+  section?: PhraseSection; // 所属するセクション（省略時はなし）
 }
 
 // テンプレート著作者情報インターフェース
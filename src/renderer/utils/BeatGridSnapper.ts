@@ -0,0 +1,135 @@
+import { BeatGrid, BeatSnapMode } from '../../types/BeatGrid';
+import type { BeatMarker } from '../services/AudioAnalyzer';
+
+/**
+ * ビートグリッドへのスナップ計算
+ * ビート・半拍・小節頭のスナップ位置を求め、ドラッグ中の時刻や移動量を補正する
+ */
+export class BeatGridSnapper {
+  static readonly DEFAULT_BEATS_PER_BAR = 4;
+  static readonly MAX_BEATS_PER_BAR = 16;
+
+  /**
+   * 読み込んだビートグリッドの正規化（不正な場合は null）
+   */
+  static normalize(data: unknown): BeatGrid | null {
+    if (!data || typeof data !== 'object') {
+      return null;
+    }
+    const raw = data as Partial<BeatGrid>;
+    if (!Array.isArray(raw.beats)) {
+      return null;
+    }
+
+    const beats: BeatMarker[] = raw.beats
+      .filter(beat => beat && Number.isFinite(beat.timestamp))
+      .map(beat => ({
+        timestamp: beat.timestamp,
+        confidence: Number.isFinite(beat.confidence) ? beat.confidence : 1,
+        energy: Number.isFinite(beat.energy) ? beat.energy : 0
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const beatsPerBar = Number.isInteger(raw.beatsPerBar)
+      ? Math.min(this.MAX_BEATS_PER_BAR, Math.max(1, raw.beatsPerBar as number))
+      : this.DEFAULT_BEATS_PER_BAR;
+    const barOffset = Number.isInteger(raw.barOffset)
+      ? (((raw.barOffset as number) % beatsPerBar) + beatsPerBar) % beatsPerBar
+      : 0;
+
+    return {
+      bpm: Number.isFinite(raw.bpm) ? raw.bpm as number : 0,
+      beats,
+      beatsPerBar,
+      barOffset
+    };
+  }
+
+  /**
+   * ビートが小節頭か
+   */
+  static isDownbeat(grid: BeatGrid, beatIndex: number): boolean {
+    return beatIndex >= grid.barOffset && (beatIndex - grid.barOffset) % grid.beatsPerBar === 0;
+  }
+
+  /**
+   * スナップ位置の一覧（ms 昇順）
+   */
+  static getSnapPoints(grid: BeatGrid | null, mode: BeatSnapMode): number[] {
+    if (!grid || mode === 'off' || grid.beats.length === 0) {
+      return [];
+    }
+
+    const beatTimes = grid.beats.map(beat => beat.timestamp);
+    switch (mode) {
+      case 'bar':
+        return beatTimes.filter((_, index) => this.isDownbeat(grid, index));
+      case 'halfBeat':
+        return beatTimes.flatMap((time, index) =>
+          index < beatTimes.length - 1 ? [time, (time + beatTimes[index + 1]) / 2] : [time]
+        );
+      default:
+        return beatTimes;
+    }
+  }
+
+  /**
+   * 最も近いスナップ位置（許容範囲外なら null）
+   */
+  static findNearest(timeMs: number, points: number[], toleranceMs: number): number | null {
+    if (points.length === 0) {
+      return null;
+    }
+
+    // 二分探索で timeMs 以上の最初の位置を求める
+    let low = 0;
+    let high = points.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (points[mid] < timeMs) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    let nearest: number | null = null;
+    for (const candidate of [points[low - 1], points[low]]) {
+      if (candidate === undefined || Math.abs(candidate - timeMs) > toleranceMs) continue;
+      if (nearest === null || Math.abs(candidate - timeMs) < Math.abs(nearest - timeMs)) {
+        nearest = candidate;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * 範囲のドラッグ量をスナップ位置に合わせて補正する
+   * 移動は始点・終点のうちスナップ位置に近い方、リサイズは動かしている端を合わせる
+   */
+  static snapDelta(
+    start: number,
+    end: number,
+    deltaMs: number,
+    operationType: 'move' | 'resizeLeft' | 'resizeRight',
+    points: number[],
+    toleranceMs: number
+  ): number {
+    const edges = operationType === 'move' ? [start, end]
+      : operationType === 'resizeLeft' ? [start]
+      : [end];
+
+    let snappedDelta = deltaMs;
+    let bestDistance = Infinity;
+    for (const edge of edges) {
+      const target = this.findNearest(edge + deltaMs, points, toleranceMs);
+      if (target === null) continue;
+      const distance = Math.abs(target - (edge + deltaMs));
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        snappedDelta = target - edge;
+      }
+    }
+    return snappedDelta;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * IsolatedTemplate
+ * ユーザーテンプレートを例外から隔離するラッパー
+ *
+ * テンプレートのメソッド呼び出しをすべて try/catch で包み、例外が出た時点で
+ * テンプレートを無効化する（以降は何も描画しない）。Engine・InstanceManager へは
+ * 例外を伝播させない。実装は replace() で差し替えられるため、ファイル更新時の
+ * ホットリロードでも Engine 側が保持している参照はそのまま使える。
+ */
+
+import { IAnimationTemplate, ParameterConfig } from '../types/types';
+
+export interface IsolatedTemplateHandle {
+  template: IAnimationTemplate;          // Engine に渡すプロキシ
+  replace(impl: IAnimationTemplate): void;
+  disable(reason: string): void;
+  isDisabled(): boolean;
+}
+
+/**
+ * テンプレートを隔離ラッパーで包む
+ * @param templateId ログ・通知用のID
+ * @param impl 実装（検証済みのインスタンス）
+ */
+export function createIsolatedTemplate(templateId: string, impl: IAnimationTemplate): IsolatedTemplateHandle {
+  let current = impl;
+  let disabledReason: string | null = null;
+  // 無効化後も UI が参照できるよう、最後に取得できたパラメータ設定を保持
+  let lastParameterConfig: ParameterConfig[] = safeParameterConfig(impl);
+
+  const disable = (reason: string) => {
+    if (disabledReason) return;
+    disabledReason = reason;
+    console.error(`[IsolatedTemplate] ユーザーテンプレート「${templateId}」を無効化しました: ${reason}`);
+    window.dispatchEvent(new CustomEvent('user-template-error', {
+      detail: { templateId, error: reason }
+    }));
+  };
+
+  const proxy = new Proxy({} as IAnimationTemplate, {
+    get(_target, prop) {
+      if (prop === 'getParameterConfig') {
+        return () => {
+          if (!disabledReason) {
+            try {
+              lastParameterConfig = current.getParameterConfig?.() ?? [];
+            } catch (error) {
+              disable(`getParameterConfig: ${errorMessage(error)}`);
+            }
+          }
+          return lastParameterConfig;
+        };
+      }
+
+      const value = (current as any)[prop];
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      return (...args: unknown[]) => {
+        // 無効化後も描画済み要素の後片付けだけは試みる
+        if (disabledReason && prop !== 'removeVisualElements') {
+          return false;
+        }
+        try {
+          return value.apply(current, args);
+        } catch (error) {
+          disable(`${String(prop)}: ${errorMessage(error)}`);
+          return false;
+        }
+      };
+    },
+
+    has(_target, prop) {
+      return prop in current;
+    }
+  });
+
+  return {
+    template: proxy,
+    replace(nextImpl: IAnimationTemplate) {
+      current = nextImpl;
+      disabledReason = null;
+      lastParameterConfig = safeParameterConfig(nextImpl);
+    },
+    disable,
+    isDisabled: () => disabledReason !== null
+  };
+}
+
+function safeParameterConfig(template: IAnimationTemplate): ParameterConfig[] {
+  try {
+    return template.getParameterConfig?.() ?? [];
+  } catch {
+    return [];
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
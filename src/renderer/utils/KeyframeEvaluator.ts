@@ -0,0 +1,142 @@
+import { DEFAULT_PARAMETERS, StandardParameters } from '../../types/StandardParameters';
+import {
+  KeyframeInterpolation,
+  ParameterKeyframe,
+  ParameterKeyframeTrack
+} from '../../types/ParameterKeyframes';
+
+/**
+ * パラメータキーフレームの評価クラス
+ * 指定時刻におけるトラックの値を求め、静的パラメータに上書きする
+ */
+export class KeyframeEvaluator {
+  private static readonly COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+  /**
+   * キーフレーム対象にできるパラメータか（数値または色）
+   */
+  static isKeyframeableParameter(parameterName: string): boolean {
+    const defaultValue = (DEFAULT_PARAMETERS as Record<string, any>)[parameterName];
+    return typeof defaultValue === 'number' ||
+      (typeof defaultValue === 'string' && this.COLOR_PATTERN.test(defaultValue));
+  }
+
+  /**
+   * キーフレーム対象にできるパラメータ名の一覧
+   */
+  static getKeyframeableParameters(): (keyof StandardParameters)[] {
+    return (Object.keys(DEFAULT_PARAMETERS) as (keyof StandardParameters)[])
+      .filter(name => this.isKeyframeableParameter(name));
+  }
+
+  static isColorParameter(parameterName: string): boolean {
+    const defaultValue = (DEFAULT_PARAMETERS as Record<string, any>)[parameterName];
+    return typeof defaultValue === 'string' && this.COLOR_PATTERN.test(defaultValue);
+  }
+
+  /**
+   * キーフレーム値の正規化（型が合わない場合は null）
+   */
+  static normalizeValue(parameterName: string, value: unknown): number | string | null {
+    if (this.isColorParameter(parameterName)) {
+      return typeof value === 'string' && this.COLOR_PATTERN.test(value) ? value.toUpperCase() : null;
+    }
+    const numeric = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isFinite(numeric) ? numeric : null;
+  }
+
+  /**
+   * 指定時刻のトラック値を求める
+   * 最初のキーフレームより前は最初の値、最後より後は最後の値を保持する
+   */
+  static evaluateTrack(track: ParameterKeyframeTrack, nowMs: number): number | string | undefined {
+    const keyframes = track.keyframes;
+    if (keyframes.length === 0) return undefined;
+    if (nowMs <= keyframes[0].timeMs) return keyframes[0].value;
+
+    const last = keyframes[keyframes.length - 1];
+    if (nowMs >= last.timeMs) return last.value;
+
+    // 区間の二分探索
+    let low = 0;
+    let high = keyframes.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (keyframes[mid].timeMs <= nowMs) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const from = keyframes[low];
+    const to = keyframes[high];
+    const span = to.timeMs - from.timeMs;
+    const progress = span > 0 ? (nowMs - from.timeMs) / span : 1;
+    return this.interpolate(from, to, this.applyEasing(progress, from.interpolation));
+  }
+
+  /**
+   * トラックを評価して静的パラメータに上書きしたコピーを返す
+   */
+  static applyTracks<T extends Record<string, any>>(params: T, tracks: ParameterKeyframeTrack[], nowMs: number): T {
+    if (tracks.length === 0) return params;
+
+    const result: Record<string, any> = { ...params };
+    tracks.forEach(track => {
+      const value = this.evaluateTrack(track, nowMs);
+      if (value !== undefined) {
+        result[track.parameterName] = value;
+      }
+    });
+    return result as T;
+  }
+
+  /**
+   * キーフレーム配列を時刻順に整列し、同一時刻の重複を後勝ちで除去
+   */
+  static sortKeyframes(keyframes: ParameterKeyframe[]): ParameterKeyframe[] {
+    const byTime = new Map<number, ParameterKeyframe>();
+    keyframes.forEach(keyframe => byTime.set(Math.round(keyframe.timeMs), { ...keyframe, timeMs: Math.round(keyframe.timeMs) }));
+    return Array.from(byTime.values()).sort((a, b) => a.timeMs - b.timeMs);
+  }
+
+  private static applyEasing(progress: number, interpolation: KeyframeInterpolation): number {
+    switch (interpolation) {
+      case 'hold':
+        return 0;
+      case 'ease':
+        // easeInOutCubic
+        return progress < 0.5
+          ? 4 * progress * progress * progress
+          : 1 - Math.pow(-2 * progress + 2, 3) / 2;
+      case 'linear':
+      default:
+        return progress;
+    }
+  }
+
+  private static interpolate(from: ParameterKeyframe, to: ParameterKeyframe, t: number): number | string {
+    if (typeof from.value === 'number' && typeof to.value === 'number') {
+      return from.value + (to.value - from.value) * t;
+    }
+    if (typeof from.value === 'string' && typeof to.value === 'string' &&
+        this.COLOR_PATTERN.test(from.value) && this.COLOR_PATTERN.test(to.value)) {
+      return this.interpolateColor(from.value, to.value, t);
+    }
+    // 型が一致しない場合は区間の開始値を保持
+    return t < 1 ? from.value : to.value;
+  }
+
+  private static interpolateColor(from: string, to: string, t: number): string {
+    const a = parseInt(from.slice(1), 16);
+    const b = parseInt(to.slice(1), 16);
+    const channel = (shift: number) => {
+      const start = (a >> shift) & 0xff;
+      const end = (b >> shift) & 0xff;
+      return Math.round(start + (end - start) * t);
+    };
+    const rgb = (channel(16) << 16) | (channel(8) << 8) | channel(0);
+    return `#${rgb.toString(16).padStart(6, '0').toUpperCase()}`;
+  }
+}
@@ -0,0 +1,99 @@
+import { LyricTrack, MAIN_LYRIC_TRACK_ID } from '../../types/LyricTrack';
+import { PhraseUnit } from '../types/types';
+
+/**
+ * 歌詞トラックの正規化・表示判定
+ */
+export class LyricTrackUtils {
+  static createTrack(id: string, name: string, zIndex: number = 0): LyricTrack {
+    return {
+      id,
+      name,
+      offsetX: 0,
+      offsetY: 0,
+      zIndex,
+      muted: false,
+      solo: false
+    };
+  }
+
+  static createMainTrack(): LyricTrack {
+    return this.createTrack(MAIN_LYRIC_TRACK_ID, 'メイン');
+  }
+
+  /**
+   * フレーズの所属トラックID
+   */
+  static getTrackId(phrase: PhraseUnit): string {
+    return phrase.trackId || MAIN_LYRIC_TRACK_ID;
+  }
+
+  /**
+   * 読み込んだトラック一覧の正規化
+   * メイントラックが必ず先頭に存在し、IDが重複しないようにする
+   */
+  static normalize(data: unknown): LyricTrack[] {
+    const tracks: LyricTrack[] = [];
+    const seen = new Set<string>();
+
+    if (Array.isArray(data)) {
+      for (const raw of data) {
+        if (!raw || typeof raw !== 'object' || typeof raw.id !== 'string' || seen.has(raw.id)) {
+          continue;
+        }
+        seen.add(raw.id);
+        const finite = (value: unknown, fallback: number) =>
+          typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+        tracks.push({
+          id: raw.id,
+          name: typeof raw.name === 'string' ? raw.name : raw.id,
+          defaultTemplateId: typeof raw.defaultTemplateId === 'string' && raw.defaultTemplateId
+            ? raw.defaultTemplateId
+            : undefined,
+          offsetX: finite(raw.offsetX, 0),
+          offsetY: finite(raw.offsetY, 0),
+          zIndex: finite(raw.zIndex, 0),
+          muted: raw.muted === true,
+          solo: raw.solo === true
+        });
+      }
+    }
+
+    const mainIndex = tracks.findIndex(track => track.id === MAIN_LYRIC_TRACK_ID);
+    if (mainIndex === -1) {
+      tracks.unshift(this.createMainTrack());
+    } else if (mainIndex > 0) {
+      tracks.unshift(...tracks.splice(mainIndex, 1));
+    }
+    return tracks;
+  }
+
+  /**
+   * フレーズの表示先トラックID（存在しないトラックに属する場合はメイントラック）
+   */
+  static resolveTrackId(phrase: PhraseUnit, tracks: LyricTrack[]): string {
+    const trackId = this.getTrackId(phrase);
+    return tracks.some(track => track.id === trackId) ? trackId : MAIN_LYRIC_TRACK_ID;
+  }
+
+  /**
+   * トラックを表示するか（ミュート・ソロを考慮）
+   */
+  static isAudible(track: LyricTrack, tracks: LyricTrack[]): boolean {
+    if (tracks.some(item => item.solo)) {
+      return track.solo;
+    }
+    return !track.muted;
+  }
+
+  /**
+   * 初期状態のメイントラックのみか（保存を省略できる）
+   */
+  static isDefaultOnly(tracks: LyricTrack[]): boolean {
+    if (tracks.length !== 1) {
+      return false;
+    }
+    return JSON.stringify(tracks[0]) === JSON.stringify(this.createMainTrack());
+  }
+}
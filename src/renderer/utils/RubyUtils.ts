@@ -0,0 +1,282 @@
+import { PhraseUnit, RubySpan, WordUnit } from '../types/types';
+
+// 親文字の自動判定で漢字とみなす文字
+const KANJI_PATTERN = /[㐀-䶿一-鿿豈-﫿々〆ヶ]/;
+
+// 親文字の開始位置を明示する区切り（例: ｜今日{きょう}）
+const BASE_DELIMITERS = ['|', '｜'];
+const OPEN_BRACKETS = ['{', '｛'];
+const CLOSE_BRACKETS = ['}', '｝'];
+
+export interface ParsedRubyText {
+  text: string;         // ルビ記法を除いたテキスト
+  ruby: RubySpan[];     // テキスト内の文字インデックスで表したルビ
+}
+
+export interface RubySegment {
+  text: string;
+  reading?: string;     // ルビがある区間のみ
+}
+
+export interface RubyReadingChar {
+  char: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * ルビ記法（漢字{かんじ}）の解析・生成とルビのタイミング計算
+ *
+ * 親文字は `{` の直前に連続する漢字。漢字以外に付ける場合や範囲を区切る場合は
+ * `|` または `｜` で開始位置を明示する（例: |ＵＴＡ{うた}、｜今日{きょう}）
+ */
+export class RubyUtils {
+  /**
+   * ルビ記法の解析
+   */
+  static parse(markup: string): ParsedRubyText {
+    const input = Array.from(markup);
+    const chars: string[] = [];
+    const ruby: RubySpan[] = [];
+    let baseStart: number | null = null;
+
+    for (let i = 0; i < input.length; i++) {
+      const c = input[i];
+
+      // 親文字の直後にルビが続く場合のみ区切りとして扱う
+      if (BASE_DELIMITERS.includes(c) && this.isBaseDelimiter(input, i)) {
+        baseStart = chars.length;
+        continue;
+      }
+
+      if (OPEN_BRACKETS.includes(c)) {
+        const closeOffset = input.slice(i + 1).findIndex(item => CLOSE_BRACKETS.includes(item));
+        if (closeOffset !== -1 && chars.length > 0) {
+          const close = i + 1 + closeOffset;
+          const reading = input.slice(i + 1, close).join('').trim();
+          const previousEnd = ruby.length > 0 ? ruby[ruby.length - 1].endCharIndex : -1;
+          const start = Math.max(baseStart ?? this.findKanjiRunStart(chars), previousEnd + 1);
+
+          if (reading && start <= chars.length - 1) {
+            ruby.push({ startCharIndex: start, endCharIndex: chars.length - 1, reading });
+          }
+          baseStart = null;
+          i = close;
+          continue;
+        }
+      }
+
+      chars.push(c);
+    }
+
+    return { text: chars.join(''), ruby };
+  }
+
+  /**
+   * ルビ記法の生成（parse の逆変換）
+   */
+  static format(text: string, ruby: RubySpan[] | undefined): string {
+    const chars = Array.from(text);
+    const spans = this.normalize(ruby, chars.length);
+    if (spans.length === 0) {
+      return text;
+    }
+
+    let result = '';
+    let cursor = 0;
+    let previousEnd = -1;
+    for (const span of spans) {
+      result += chars.slice(cursor, span.startCharIndex).join('');
+      const base = chars.slice(span.startCharIndex, span.endCharIndex + 1);
+
+      // 自動判定で同じ親文字にならない場合は区切りを付ける
+      const autoStart = Math.max(
+        this.findKanjiRunStart(chars.slice(0, span.endCharIndex + 1)),
+        previousEnd + 1
+      );
+      const delimiter = autoStart === span.startCharIndex ? '' : '|';
+
+      result += `${delimiter}${base.join('')}{${span.reading}}`;
+      cursor = span.endCharIndex + 1;
+      previousEnd = span.endCharIndex;
+    }
+    return result + chars.slice(cursor).join('');
+  }
+
+  /**
+   * 単語のルビ記法テキスト
+   */
+  static formatWord(word: WordUnit): string {
+    return this.format(word.word, word.ruby);
+  }
+
+  /**
+   * フレーズのルビ記法テキスト
+   */
+  static formatPhrase(phrase: PhraseUnit): string {
+    return this.format(phrase.phrase, this.getPhraseRuby(phrase));
+  }
+
+  /**
+   * 各単語のルビをフレーズ内の文字位置に変換
+   */
+  static getPhraseRuby(phrase: PhraseUnit): RubySpan[] {
+    const offsets = this.locateWords(phrase.phrase, phrase.words);
+    const ruby: RubySpan[] = [];
+
+    phrase.words.forEach((word, index) => {
+      const offset = offsets[index];
+      if (offset === -1) return;
+      for (const span of word.ruby ?? []) {
+        ruby.push({
+          ...span,
+          startCharIndex: span.startCharIndex + offset,
+          endCharIndex: span.endCharIndex + offset
+        });
+      }
+    });
+
+    return ruby;
+  }
+
+  /**
+   * 表示用にルビの有無で区切ったテキスト
+   */
+  static toSegments(text: string, ruby: RubySpan[] | undefined): RubySegment[] {
+    const chars = Array.from(text);
+    const segments: RubySegment[] = [];
+    let cursor = 0;
+
+    for (const span of this.normalize(ruby, chars.length)) {
+      if (span.startCharIndex > cursor) {
+        segments.push({ text: chars.slice(cursor, span.startCharIndex).join('') });
+      }
+      segments.push({
+        text: chars.slice(span.startCharIndex, span.endCharIndex + 1).join(''),
+        reading: span.reading
+      });
+      cursor = span.endCharIndex + 1;
+    }
+    if (cursor < chars.length) {
+      segments.push({ text: chars.slice(cursor).join('') });
+    }
+    return segments;
+  }
+
+  /**
+   * フレーズ内の位置で表したルビを各単語に割り当てる
+   * 単語をまたぐルビは先頭の文字を含む単語の範囲に切り詰める
+   */
+  static assignToWords(text: string, ruby: RubySpan[], words: WordUnit[]): WordUnit[] {
+    const offsets = this.locateWords(text, words);
+
+    return words.map((word, index) => {
+      const offset = offsets[index];
+      const length = word.chars.length;
+      const wordRuby = offset === -1 ? [] : ruby
+        .filter(span => span.startCharIndex >= offset && span.startCharIndex < offset + length)
+        .map(span => ({
+          ...span,
+          startCharIndex: span.startCharIndex - offset,
+          endCharIndex: Math.min(span.endCharIndex - offset, length - 1)
+        }));
+
+      const { ruby: _previous, ...rest } = word;
+      return wordRuby.length > 0 ? { ...rest, ruby: wordRuby } : rest;
+    });
+  }
+
+  /**
+   * 文字数に収まらない・重なるルビを除外し、開始位置順に並べる
+   */
+  static normalize(ruby: RubySpan[] | undefined, charCount: number): RubySpan[] {
+    if (!Array.isArray(ruby)) {
+      return [];
+    }
+
+    const sorted = ruby
+      .filter(span =>
+        span &&
+        typeof span.reading === 'string' && span.reading.length > 0 &&
+        Number.isInteger(span.startCharIndex) && Number.isInteger(span.endCharIndex) &&
+        span.startCharIndex >= 0 &&
+        span.startCharIndex <= span.endCharIndex &&
+        span.endCharIndex < charCount
+      )
+      .sort((a, b) => a.startCharIndex - b.startCharIndex);
+
+    const result: RubySpan[] = [];
+    for (const span of sorted) {
+      const previous = result[result.length - 1];
+      if (!previous || span.startCharIndex > previous.endCharIndex) {
+        result.push(span);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 読みの各文字のタイミング
+   * 個別タイミングがなければ親文字の開始〜終了に均等配分する
+   */
+  static getReadingTimings(
+    span: RubySpan,
+    chars: Array<{ start: number; end: number }>
+  ): RubyReadingChar[] {
+    const readingChars = Array.from(span.reading);
+    const first = chars[span.startCharIndex];
+    const last = chars[span.endCharIndex];
+    if (!first || !last || readingChars.length === 0) {
+      return [];
+    }
+
+    const start = span.start ?? first.start;
+    const end = Math.max(span.end ?? last.end, start);
+    const step = (end - start) / readingChars.length;
+
+    return readingChars.map((char, index) => ({
+      char,
+      start: start + step * index,
+      end: index === readingChars.length - 1 ? end : start + step * (index + 1)
+    }));
+  }
+
+  // 区切りから空白・次の区切りを挟まずに `{` が現れるか（それ以外は通常の文字として残す）
+  private static isBaseDelimiter(input: string[], index: number): boolean {
+    for (let i = index + 1; i < input.length; i++) {
+      if (OPEN_BRACKETS.includes(input[i])) {
+        return true;
+      }
+      if (/\s/.test(input[i]) || BASE_DELIMITERS.includes(input[i])) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  // 末尾から連続する漢字の開始位置（漢字でなければ末尾の1文字）
+  private static findKanjiRunStart(chars: string[]): number {
+    let start = chars.length;
+    while (start > 0 && KANJI_PATTERN.test(chars[start - 1])) {
+      start--;
+    }
+    return start === chars.length ? chars.length - 1 : start;
+  }
+
+  // 各単語がテキストの何文字目から始まるか（見つからない場合は -1）
+  private static locateWords(text: string, words: WordUnit[]): number[] {
+    const chars = Array.from(text);
+    let cursor = 0;
+
+    return words.map(word => {
+      const wordChars = word.chars.length > 0 ? word.chars.map(char => char.char) : Array.from(word.word);
+      for (let i = cursor; i + wordChars.length <= chars.length; i++) {
+        if (wordChars.every((char, offset) => chars[i + offset] === char)) {
+          cursor = i + wordChars.length;
+          return i;
+        }
+      }
+      return -1;
+    });
+  }
+}
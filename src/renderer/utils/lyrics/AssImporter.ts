@@ -0,0 +1,219 @@
+import { PhraseUnit } from '../../types/types';
+import {
+  TimedSegment,
+  TimedWordSource,
+  buildPhraseUnit,
+  distributeWordTimings,
+  groupSegmentsIntoWords,
+  splitTextIntoWordTexts
+} from './lyricsUnitBuilder';
+
+// ASS読み込みオプション
+export interface AssImportOptions {
+  // スタイル名 → テンプレートID の対応（指定したスタイルの行に templateAssignments を生成）
+  styleTemplateMap?: Record<string, string>;
+  // カラオケタグのない行の日本語を文節単位の単語に分割する（省略時は空白区切りのみ）
+  segmentWords?: boolean;
+}
+
+// ASS読み込み結果
+export interface AssImportResult {
+  phrases: PhraseUnit[];
+  // フレーズID → スタイル名
+  phraseStyles: Record<string, string>;
+  // フレーズID → テンプレートID（styleTemplateMap に一致したもののみ）
+  templateAssignments: Record<string, string>;
+  // 出現順のスタイル名一覧
+  styles: string[];
+}
+
+// Dialogue行の解析結果
+interface AssDialogueLine {
+  start: number;
+  end: number;
+  style: string;
+  text: string;
+}
+
+/**
+ * Advanced SubStation Alpha（.ass）のカラオケ行の読み込み
+ * - [Events] セクションの Dialogue 行ごとに1フレーズを生成（Comment 行とテンプレート出力の fx 行は除外）
+ * - \k / \K / \kf / \ko の音節長（センチ秒）を行の開始時刻から累積して音節のタイミングとする
+ * - 音節は空白区切りで単語にまとめ、音節内の文字に区間を均等に分配
+ */
+export class AssImporter {
+  private static readonly DEFAULT_EVENT_FORMAT = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+  private static readonly TIME_PATTERN = /^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/;
+  private static readonly KARAOKE_TAG_PATTERN = /\\(?:kf|ko|k|K)(\d+(?:\.\d+)?)/g;
+
+  /**
+   * ASSテキストを PhraseUnit 配列に変換
+   */
+  static parse(text: string, options: AssImportOptions = {}): AssImportResult {
+    const lines = this.parseDialogueLines(text);
+    if (lines.length === 0) {
+      throw new Error('ASSファイルにDialogue行が見つかりません');
+    }
+
+    const phrases: PhraseUnit[] = [];
+    const phraseStyles: Record<string, string> = {};
+    const templateAssignments: Record<string, string> = {};
+    const styles: string[] = [];
+
+    lines
+      .sort((a, b) => a.start - b.start)
+      .forEach(line => {
+        const words = this.buildWords(line, options.segmentWords);
+        if (words.length === 0) return;
+
+        const phrase = buildPhraseUnit(phrases.length, words);
+        phrase.start = Math.min(phrase.start, line.start);
+        phrase.end = Math.max(phrase.end, line.end);
+        phrases.push(phrase);
+
+        phraseStyles[phrase.id] = line.style;
+        if (!styles.includes(line.style)) {
+          styles.push(line.style);
+        }
+
+        const templateId = options.styleTemplateMap?.[line.style];
+        if (templateId) {
+          templateAssignments[phrase.id] = templateId;
+        }
+      });
+
+    return { phrases, phraseStyles, templateAssignments, styles };
+  }
+
+  /**
+   * [Events] セクションの Format 行に従って Dialogue 行を取り出す
+   */
+  private static parseDialogueLines(text: string): AssDialogueLine[] {
+    const result: AssDialogueLine[] = [];
+    let section = '';
+    let format = this.DEFAULT_EVENT_FORMAT;
+
+    for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith(';')) continue;
+
+      const sectionMatch = line.match(/^\[(.+)\]$/);
+      if (sectionMatch) {
+        section = sectionMatch[1].trim().toLowerCase();
+        continue;
+      }
+      if (section !== 'events') continue;
+
+      const separatorIndex = line.indexOf(':');
+      if (separatorIndex < 0) continue;
+      const key = line.slice(0, separatorIndex).trim().toLowerCase();
+      const value = line.slice(separatorIndex + 1).trim();
+
+      if (key === 'format') {
+        format = value.split(',').map(field => field.trim().toLowerCase());
+        continue;
+      }
+      if (key !== 'dialogue') continue;
+
+      // Text フィールドはカンマを含みうるため、最後のフィールドとして残りをすべて取る
+      const values = value.split(',');
+      const fields: Record<string, string> = {};
+      format.forEach((field, index) => {
+        fields[field] = index === format.length - 1
+          ? values.slice(index).join(',')
+          : (values[index] ?? '').trim();
+      });
+
+      if ((fields.effect ?? '').toLowerCase() === 'fx') continue;
+
+      const start = this.parseTime(fields.start);
+      const end = this.parseTime(fields.end);
+      if (start === null || end === null || end < start) continue;
+
+      result.push({
+        start,
+        end,
+        style: fields.style || 'Default',
+        text: fields.text ?? ''
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Dialogue行のテキストから単語を組み立てる
+   * カラオケタグがない行は空白（segmentWords 指定時は日本語の文節）で単語に分割し、文字数比でタイミングを分配
+   */
+  private static buildWords(line: AssDialogueLine, segmentWords = false): TimedWordSource[] {
+    const segments = this.parseKaraokeSegments(line);
+    if (segments) {
+      return groupSegmentsIntoWords(segments);
+    }
+
+    const plainText = this.stripOverrides(line.text);
+    return distributeWordTimings(splitTextIntoWordTexts(plainText, segmentWords), line.start, line.end);
+  }
+
+  /**
+   * カラオケタグで音節に分割（タグがない行は null）
+   * 最初のタグより前のテキストは長さ0の音節として行の開始時刻に置く
+   */
+  private static parseKaraokeSegments(line: AssDialogueLine): TimedSegment[] | null {
+    const segments: TimedSegment[] = [];
+    const blockPattern = /\{([^}]*)\}/g;
+    let cursor = line.start;
+    let lastIndex = 0;
+    let hasKaraokeTag = false;
+    let current: TimedSegment | null = null;
+
+    const appendText = (raw: string) => {
+      const textPart = this.normalizeText(raw);
+      if (!textPart) return;
+      if (current) {
+        current.text += textPart;
+      } else {
+        segments.push({ text: textPart, start: line.start, end: line.start });
+      }
+    };
+
+    let block: RegExpExecArray | null;
+    while ((block = blockPattern.exec(line.text)) !== null) {
+      appendText(line.text.slice(lastIndex, block.index));
+      lastIndex = blockPattern.lastIndex;
+
+      const tagPattern = new RegExp(this.KARAOKE_TAG_PATTERN.source, 'g');
+      let tag: RegExpExecArray | null;
+      while ((tag = tagPattern.exec(block[1])) !== null) {
+        hasKaraokeTag = true;
+        const duration = Math.round(parseFloat(tag[1]) * 10);
+        current = { text: '', start: cursor, end: cursor + duration };
+        segments.push(current);
+        cursor += duration;
+      }
+    }
+    appendText(line.text.slice(lastIndex));
+
+    return hasKaraokeTag ? segments : null;
+  }
+
+  // 改行（\N, \n）とハードスペース（\h）を空白として扱う
+  private static normalizeText(text: string): string {
+    return text.replace(/\\[Nnh]/g, ' ');
+  }
+
+  private static stripOverrides(text: string): string {
+    return this.normalizeText(text.replace(/\{[^}]*\}/g, '')).trim();
+  }
+
+  /**
+   * h:mm:ss.cc 形式をミリ秒に変換
+   */
+  private static parseTime(value: string | undefined): number | null {
+    const match = value?.trim().match(this.TIME_PATTERN);
+    if (!match) return null;
+
+    const fraction = match[4] ? Math.round(parseInt(match[4], 10) * Math.pow(10, 3 - match[4].length)) : 0;
+    return parseInt(match[1], 10) * 3600000 + parseInt(match[2], 10) * 60000 + parseInt(match[3], 10) * 1000 + fraction;
+  }
+}
@@ -0,0 +1,190 @@
+import { JAPANESE_WORD_DICTIONARY, JapaneseWordCategory, MAX_DICTIONARY_WORD_LENGTH } from './japaneseWordDictionary';
+
+// 分割中の語の種類（辞書の品詞、または文字種から判定した種類）
+// - content: 漢字・カタカナ・英数字の連続（文節の先頭）
+// - unknown: 辞書にない平仮名1文字（送り仮名など）
+// - symbol / open: 記号（open は開き括弧で、直後の語と同じ文節）
+type TokenKind = JapaneseWordCategory | 'content' | 'unknown' | 'symbol' | 'open';
+
+interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+interface TokenCandidate {
+  token: Token;
+  length: number;   // 文字数
+  cost: number;
+}
+
+const JAPANESE_PATTERN = /[ぁ-ゟ゠-ヿ㐀-䶿一-鿿豈-﫿々〆ｦ-ﾟ]/;
+const KANJI_PATTERN = /[㐀-䶿一-鿿豈-﫿々〆ヶ]/;
+const HIRAGANA_PATTERN = /[ぁ-ゖゝゞ]/;
+const KATAKANA_START_PATTERN = /[ァ-ヺヽヾｦ-ﾝ]/;
+const KATAKANA_PATTERN = /[ァ-ヺーヽヾ・ｦ-ﾟ]/;
+const ALPHANUMERIC_PATTERN = /[\p{L}\p{N}]/u;
+const OPEN_BRACKETS = new Set(Array.from('「『（(［[【〈《“‘'));
+
+// て・で の後の補助動詞（見ている、歩いていく）は前の文節に付ける
+const CONNECTIVE_PARTICLES = new Set(['て', 'で']);
+
+// 漢語（名詞）の直後に続く語。格助詞のほか、これらが続く漢字の連続は1語のままにする
+const NOUN_FOLLOWERS = new Set([
+  'と', 'で', 'な', 'だ', 'です', 'でした', 'でしょう', 'だろう', 'じゃ', 'じゃない', 'みたい', 'らしい',
+  'する', 'した', 'して', 'しよう', 'しない', 'なる', 'なった', 'なって', 'なれる'
+]);
+// この文字数以上の漢字の連続に送り仮名が続く場合は、最後の漢字を動詞・形容詞の語幹として切り離す（一度 / 会いたい）
+// 2文字の連続は複合動詞（見上げる）と区別できないため切り離さない
+const MIN_SPLIT_KANJI_RUN = 3;
+
+// 語の数が少ない分割ほど優先し、辞書にない平仮名は辞書語より割高にする
+const TOKEN_COST = 1;
+const UNKNOWN_COST = 1.5;
+
+/**
+ * 日本語テキストの単語（文節）分割
+ * - 同梱の仮名辞書（japaneseWordDictionary）と文字種で語に区切り、コスト最小の分割を選ぶ（ネットワーク不要）
+ * - 自立語（漢字・カタカナ・英数字の連続や辞書の自立語）から文節を始め、助詞・助動詞・送り仮名は直前の文節に付ける
+ * - 空白は常に区切りとし、日本語を含まない部分は空白区切りのまま返す
+ */
+export class JapaneseSegmenter {
+  /**
+   * テキストを単語（文節）のテキスト配列に分割（空白以外の文字はすべていずれかの単語に含まれる）
+   */
+  static segment(text: string): string[] {
+    return text
+      .split(/\s+/)
+      .filter(chunk => chunk !== '')
+      .flatMap(chunk => (JAPANESE_PATTERN.test(chunk) ? this.groupTokens(this.tokenize(Array.from(chunk))) : [chunk]));
+  }
+
+  // コスト最小の語の並びを求める
+  private static tokenize(chars: string[]): Token[] {
+    const best = chars.map(() => ({ cost: Infinity, from: -1, token: null as Token | null }));
+    best.push({ cost: Infinity, from: -1, token: null });
+    best[0].cost = 0;
+
+    for (let index = 0; index < chars.length; index++) {
+      if (best[index].cost === Infinity) continue;
+      this.getCandidates(chars, index).forEach(candidate => {
+        const cost = best[index].cost + candidate.cost;
+        const next = best[index + candidate.length];
+        if (cost < next.cost) {
+          next.cost = cost;
+          next.from = index;
+          next.token = candidate.token;
+        }
+      });
+    }
+
+    const tokens: Token[] = [];
+    for (let position = chars.length; position > 0; position = best[position].from) {
+      tokens.unshift(best[position].token!);
+    }
+    return tokens;
+  }
+
+  // 指定位置から始まる語の候補
+  private static getCandidates(chars: string[], index: number): TokenCandidate[] {
+    const char = chars[index];
+
+    if (KANJI_PATTERN.test(char)) {
+      return [this.createKanjiRun(chars, index)];
+    }
+    if (KATAKANA_START_PATTERN.test(char)) {
+      return [this.createRun(chars, index, KATAKANA_PATTERN)];
+    }
+    if (HIRAGANA_PATTERN.test(char)) {
+      const candidates: TokenCandidate[] = [
+        { token: { text: char, kind: 'unknown' }, length: 1, cost: UNKNOWN_COST }
+      ];
+      for (let length = 1; length <= MAX_DICTIONARY_WORD_LENGTH && index + length <= chars.length; length++) {
+        const text = chars.slice(index, index + length).join('');
+        const category = JAPANESE_WORD_DICTIONARY.get(text);
+        // 接頭辞は直後が漢字の場合のみ（お願い、ご飯）
+        if (!category || (category === 'prefix' && !KANJI_PATTERN.test(chars[index + length] || ''))) continue;
+        candidates.push({ token: { text, kind: category }, length, cost: TOKEN_COST });
+      }
+      return candidates;
+    }
+    if (!JAPANESE_PATTERN.test(char) && ALPHANUMERIC_PATTERN.test(char)) {
+      return [this.createRun(chars, index, ALPHANUMERIC_PATTERN, JAPANESE_PATTERN)];
+    }
+    return [{ token: { text: char, kind: OPEN_BRACKETS.has(char) ? 'open' : 'symbol' }, length: 1, cost: TOKEN_COST }];
+  }
+
+  // 同じ文字種の連続を1語にする
+  private static createRun(chars: string[], index: number, pattern: RegExp, exclude?: RegExp): TokenCandidate {
+    let end = index + 1;
+    while (end < chars.length && pattern.test(chars[end]) && !exclude?.test(chars[end])) {
+      end++;
+    }
+    return { token: { text: chars.slice(index, end).join(''), kind: 'content' }, length: end - index, cost: TOKEN_COST };
+  }
+
+  // 漢字の連続を1語にする（送り仮名が続く場合は最後の漢字の手前で区切る）
+  private static createKanjiRun(chars: string[], index: number): TokenCandidate {
+    const run = this.createRun(chars, index, KANJI_PATTERN);
+    const next = index + run.length;
+    if (run.length < MIN_SPLIT_KANJI_RUN || !HIRAGANA_PATTERN.test(chars[next] || '') || this.startsNounFollower(chars, next)) {
+      return run;
+    }
+    return {
+      token: { text: chars.slice(index, next - 1).join(''), kind: 'content' },
+      length: run.length - 1,
+      cost: TOKEN_COST
+    };
+  }
+
+  // 指定位置から格助詞などの名詞に続く語が始まるか
+  private static startsNounFollower(chars: string[], index: number): boolean {
+    for (let length = 1; length <= MAX_DICTIONARY_WORD_LENGTH && index + length <= chars.length; length++) {
+      const text = chars.slice(index, index + length).join('');
+      if (JAPANESE_WORD_DICTIONARY.get(text) === 'case-particle' || NOUN_FOLLOWERS.has(text)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // 語を文節にまとめる
+  private static groupTokens(tokens: Token[]): string[] {
+    const words: string[] = [];
+    let current = '';
+    tokens.forEach((token, index) => {
+      if (current !== '' && this.startsWord(token, tokens[index - 1], tokens[index - 2])) {
+        words.push(current);
+        current = '';
+      }
+      current += token.text;
+    });
+    if (current !== '') {
+      words.push(current);
+    }
+    return words;
+  }
+
+  // 新しい文節を始める語か
+  private static startsWord(token: Token, previous: Token, beforePrevious?: Token): boolean {
+    if (previous.kind === 'prefix' || previous.kind === 'open') {
+      return false;
+    }
+    switch (token.kind) {
+      case 'content':
+      case 'independent':
+      case 'prefix':
+      case 'open':
+        return true;
+      case 'aux-verb':
+        // 「君が いる」は区切り、「見て いる」「恋 する」は付ける
+        return (previous.kind === 'case-particle' || previous.kind === 'particle') && !CONNECTIVE_PARTICLES.has(previous.text);
+      case 'unknown':
+      case 'particle':
+        // 「自立語 + 格助詞」の後に続く平仮名（辞書にない語・助詞と同形の文字）は次の文節の始まりとみなす（夢を / かなえて）
+        return previous.kind === 'case-particle'
+          && (beforePrevious?.kind === 'content' || beforePrevious?.kind === 'independent');
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { PhraseUnit } from '../../types/types';
+import {
+  TimedWordSource,
+  buildPhraseUnit,
+  distributeWordTimings,
+  groupSegmentsIntoWords,
+  splitTextIntoWordTexts
+} from './lyricsUnitBuilder';
+
+// LRC読み込みオプション
+export interface LrcImportOptions {
+  // 最終行の終了時刻が決まらない場合に使用する長さ（ms）
+  lastLineDuration?: number;
+  // 単語タグのない行の日本語を文節単位の単語に分割する（省略時は空白区切りのみ）
+  segmentWords?: boolean;
+}
+
+// LRC読み込み結果
+export interface LrcImportResult {
+  phrases: PhraseUnit[];
+  metadata: Record<string, string>;
+  isEnhanced: boolean;
+}
+
+// 時間タグ付きの1行（複数の行タグを持つ行は展開済み）
+interface LrcLineEntry {
+  start: number;
+  body: string;
+}
+
+// 単語タグで区切られた断片
+interface EnhancedSegment {
+  time: number;
+  text: string;
+}
+
+/**
+ * LRC / 拡張LRC（A2拡張の <mm:ss.xx> 単語タグ、Walaoke の M:/F:/D: 歌唱者表記）の読み込み
+ * - 行タグごとに1フレーズを生成し、終了時刻は次の行の開始時刻
+ * - 単語タグ付きの行は、タグ区間ごとに文字タイミングを均等に分配
+ * - 空白なしで連続するタグ区間（音節・文字単位のタグ）は1つの単語にまとめる
+ */
+export class LrcImporter {
+  private static readonly LINE_TAG_PATTERN = /^\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+  private static readonly WORD_TAG_PATTERN = /<(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+  private static readonly METADATA_PATTERN = /^\[([a-zA-Z#]+):(.*)\]$/;
+  private static readonly WALAOKE_VOICE_PATTERN = /^\s*(?:M|F|D):\s*/;
+  private static readonly DEFAULT_LAST_LINE_DURATION = 5000;
+  private static readonly MIN_PHRASE_DURATION = 100;
+
+  /**
+   * LRCテキストを PhraseUnit 配列に変換
+   */
+  static parse(text: string, options: LrcImportOptions = {}): LrcImportResult {
+    const lastLineDuration = options.lastLineDuration ?? this.DEFAULT_LAST_LINE_DURATION;
+    const metadata: Record<string, string> = {};
+    const entries: LrcLineEntry[] = [];
+
+    for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const metaMatch = line.match(this.METADATA_PATTERN);
+      if (metaMatch && !this.LINE_TAG_PATTERN.test(line)) {
+        metadata[metaMatch[1].toLowerCase()] = metaMatch[2].trim();
+        continue;
+      }
+
+      // 1行に複数の行タグがある場合（繰り返し部分）は行を展開
+      const starts: number[] = [];
+      let rest = line;
+      let tagMatch = rest.match(this.LINE_TAG_PATTERN);
+      while (tagMatch) {
+        starts.push(this.toMilliseconds(tagMatch[1], tagMatch[2], tagMatch[3]));
+        rest = rest.slice(tagMatch[0].length);
+        tagMatch = rest.match(this.LINE_TAG_PATTERN);
+      }
+
+      const body = rest.replace(this.WALAOKE_VOICE_PATTERN, '');
+      starts.forEach(start => entries.push({ start, body }));
+    }
+
+    if (entries.length === 0) {
+      throw new Error('LRCファイルに時間タグ付きの歌詞行が見つかりません');
+    }
+
+    // [offset:+ms] は正の値で歌詞を早める
+    const offset = metadata.offset ? parseInt(metadata.offset, 10) || 0 : 0;
+    entries.forEach(entry => {
+      entry.start = Math.max(0, entry.start - offset);
+    });
+    entries.sort((a, b) => a.start - b.start);
+
+    const phrases: PhraseUnit[] = [];
+    let isEnhanced = false;
+
+    entries.forEach((entry, index) => {
+      const visibleText = entry.body.replace(this.WORD_TAG_PATTERN, '').trim();
+      if (!visibleText) {
+        // 空行は直前のフレーズの終了マーカーとしてのみ扱う
+        return;
+      }
+
+      const next = entries[index + 1];
+      const lineEnd = next ? next.start : entry.start + lastLineDuration;
+      const segments = this.parseEnhancedSegments(entry.body, entry.start, offset);
+
+      let words: TimedWordSource[];
+      if (segments) {
+        isEnhanced = true;
+        words = this.buildEnhancedWords(segments, lineEnd);
+      } else {
+        const end = Math.max(lineEnd, entry.start + this.MIN_PHRASE_DURATION);
+        words = distributeWordTimings(splitTextIntoWordTexts(visibleText, options.segmentWords), entry.start, end);
+      }
+
+      if (words.length === 0) return;
+
+      const phraseText = visibleText.replace(/\s+/g, ' ');
+      phrases.push(buildPhraseUnit(phrases.length, words, phraseText));
+    });
+
+    return { phrases, metadata, isEnhanced };
+  }
+
+  /**
+   * 単語タグで行を区切る（単語タグがない行は null）
+   * タグより前のテキストは行の開始時刻から始まる断片として扱う
+   */
+  private static parseEnhancedSegments(body: string, lineStart: number, offset: number): EnhancedSegment[] | null {
+    const pattern = new RegExp(this.WORD_TAG_PATTERN.source, 'g');
+    const segments: EnhancedSegment[] = [];
+    let lastIndex = 0;
+    let currentTime = lineStart;
+    let match: RegExpExecArray | null;
+    let hasTag = false;
+
+    while ((match = pattern.exec(body)) !== null) {
+      hasTag = true;
+      const leading = body.slice(lastIndex, match.index);
+      if (leading !== '' || segments.length > 0) {
+        segments.push({ time: currentTime, text: leading });
+      }
+      currentTime = Math.max(0, this.toMilliseconds(match[1], match[2], match[3]) - offset);
+      lastIndex = pattern.lastIndex;
+    }
+
+    if (!hasTag) {
+      return null;
+    }
+
+    // 末尾の断片（テキストが空なら終了時刻を示すタグ）
+    segments.push({ time: currentTime, text: body.slice(lastIndex) });
+    return segments;
+  }
+
+  /**
+   * 単語タグの断片から単語を組み立てる（各断片の終了時刻は次の断片の開始時刻）
+   */
+  private static buildEnhancedWords(segments: EnhancedSegment[], lineEnd: number): TimedWordSource[] {
+    return groupSegmentsIntoWords(segments.map((segment, index) => {
+      const next = segments[index + 1];
+      return {
+        text: segment.text,
+        start: segment.time,
+        end: next ? next.time : Math.max(lineEnd, segment.time + this.MIN_PHRASE_DURATION)
+      };
+    }));
+  }
+
+  /**
+   * mm:ss.xx 形式をミリ秒に変換（小数部は桁数に応じて 1/10, 1/100, 1/1000 秒）
+   */
+  private static toMilliseconds(minutes: string, seconds: string, fraction?: string): number {
+    let fractionMs = 0;
+    if (fraction) {
+      fractionMs = Math.round(parseInt(fraction, 10) * Math.pow(10, 3 - fraction.length));
+    }
+    return parseInt(minutes, 10) * 60000 + parseInt(seconds, 10) * 1000 + fractionMs;
+  }
+}
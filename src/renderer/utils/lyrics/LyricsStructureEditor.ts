@@ -0,0 +1,424 @@
+import { PhraseUnit, WordUnit, CharUnit, RubySpan } from '../../types/types';
+import { MAIN_LYRIC_TRACK_ID } from '../../../types/LyricTrack';
+import { calculateCharacterIndices } from '../characterIndexCalculator';
+import {
+  createPhraseId,
+  createWordId,
+  createCharId,
+  splitTextIntoWordTexts,
+  distributeWordTimings,
+  buildPhraseUnit
+} from './lyricsUnitBuilder';
+import { TimingStrategy } from './TimingDistributor';
+
+// 構造編集の結果（Engine.applyLyricsStructureEdit で反映する）
+export interface LyricsStructureEdit {
+  lyrics: PhraseUnit[];               // 文字インデックス計算済みの歌詞
+  idMap: Record<string, string[]>;    // 旧オブジェクトID → 内容の移動先ID（空配列は削除）
+  createdIds: string[];               // 移動元のない新規オブジェクトID
+}
+
+// フレーズ挿入のオプション
+export interface PhraseInsertOptions {
+  text?: string;
+  end?: number;        // 省略時は次のフレーズの開始時刻まで（最大 DEFAULT_PHRASE_DURATION_MS）
+  trackId?: string;    // 省略時はメイントラック
+  strategy?: TimingStrategy;  // 文字タイミングの配分方法（省略時は均等）
+}
+
+export type WordMoveDirection = 'previous' | 'next';
+
+const DEFAULT_PHRASE_TEXT = '新しい歌詞';
+const DEFAULT_PHRASE_DURATION_MS = 2000;
+const MIN_PHRASE_DURATION_MS = 100;
+
+/**
+ * 歌詞の構造編集（フレーズの挿入・削除・分割・結合、単語の結合・移動）
+ * - 変更したフレーズの単語・文字IDは docs/lyricsdata_format.md の命名規則で振り直す
+ * - 旧IDから新IDへの対応（idMap）を返し、IDをキーにしたパラメータ・テンプレート割り当てを内容と一緒に移動できるようにする
+ * - 隣接フレーズは同じ歌詞トラック内で判定する
+ * 実行できない操作（先頭文字での分割など）は null を返す
+ */
+export class LyricsStructureEditor {
+  /**
+   * 指定時刻に新しいフレーズを挿入
+   */
+  static insertPhrase(lyrics: PhraseUnit[], timeMs: number, options: PhraseInsertOptions = {}): LyricsStructureEdit {
+    const trackId = options.trackId || MAIN_LYRIC_TRACK_ID;
+    const start = Math.max(0, Math.round(timeMs));
+    const trackIndices = this.getTrackIndices(lyrics, trackId);
+    const next = trackIndices.map(index => lyrics[index]).find(phrase => phrase.start > start);
+    const defaultEnd = next ? Math.min(next.start, start + DEFAULT_PHRASE_DURATION_MS) : start + DEFAULT_PHRASE_DURATION_MS;
+    const end = Math.max(options.end ?? defaultEnd, start + MIN_PHRASE_DURATION_MS);
+
+    const text = options.text?.trim() || DEFAULT_PHRASE_TEXT;
+    const phrase = buildPhraseUnit(
+      this.nextPhraseIndex(lyrics),
+      distributeWordTimings(splitTextIntoWordTexts(text), start, end, options.strategy),
+      text
+    );
+    if (trackId !== MAIN_LYRIC_TRACK_ID) {
+      phrase.trackId = trackId;
+    }
+
+    // 同じトラックで挿入位置より前に始まる最後のフレーズの後ろに入れる
+    const before = trackIndices.filter(index => lyrics[index].start < start);
+    const insertAt = before.length > 0
+      ? before[before.length - 1] + 1
+      : (trackIndices.length > 0 ? trackIndices[0] : lyrics.length);
+
+    const updated = [...lyrics.slice(0, insertAt), phrase, ...lyrics.slice(insertAt)];
+    return this.finish(updated, {}, this.collectObjectIds(phrase));
+  }
+
+  /**
+   * フレーズを削除
+   */
+  static deletePhrases(lyrics: PhraseUnit[], phraseIds: string[]): LyricsStructureEdit | null {
+    const targets = new Set(phraseIds);
+    const removed = lyrics.filter(phrase => targets.has(phrase.id));
+    if (removed.length === 0) return null;
+
+    const idMap: Record<string, string[]> = {};
+    removed.forEach(phrase => {
+      this.collectObjectIds(phrase).forEach(id => { idMap[id] = []; });
+    });
+    return this.finish(lyrics.filter(phrase => !targets.has(phrase.id)), idMap);
+  }
+
+  /**
+   * 指定した文字の直前でフレーズを分割（分割位置の時刻はその文字の開始時刻）
+   * 単語の途中で分割した場合は単語も2つに分ける
+   */
+  static splitPhrase(lyrics: PhraseUnit[], phraseId: string, charId: string): LyricsStructureEdit | null {
+    const index = lyrics.findIndex(phrase => phrase.id === phraseId);
+    if (index === -1) return null;
+
+    const phrase = lyrics[index];
+    const chars = this.flattenChars(phrase);
+    const splitIndex = chars.findIndex(char => char.id === charId);
+    if (splitIndex <= 0) return null;
+
+    const splitTime = chars[splitIndex].start;
+    const firstWords: WordUnit[] = [];
+    const secondWords: WordUnit[] = [];
+    let consumed = 0;
+
+    phrase.words.forEach(word => {
+      const offset = splitIndex - consumed;
+      consumed += word.chars.length;
+      if (offset >= word.chars.length) {
+        firstWords.push(word);
+      } else if (offset <= 0) {
+        secondWords.push(word);
+      } else {
+        firstWords.push(this.sliceWord(word, 0, offset, word.start, splitTime));
+        secondWords.push(this.sliceWord(word, offset, word.chars.length, splitTime, word.end));
+      }
+    });
+
+    const [firstText, secondText] = this.splitText(phrase, splitIndex, firstWords, secondWords);
+    const idMap: Record<string, string[]> = {};
+    const newPhraseId = createPhraseId(this.nextPhraseIndex(lyrics));
+    this.addMapping(idMap, phrase.id, phrase.id);
+    this.addMapping(idMap, phrase.id, newPhraseId);
+
+    const first = this.reassignIds({ ...phrase, phrase: firstText, end: splitTime, words: firstWords }, idMap);
+    const second = this.reassignIds({ ...phrase, id: newPhraseId, phrase: secondText, start: splitTime, words: secondWords }, idMap);
+
+    const updated = [...lyrics.slice(0, index), first, second, ...lyrics.slice(index + 1)];
+    return this.finish(updated, idMap);
+  }
+
+  /**
+   * フレーズを同じトラックの次のフレーズと結合（結合後のIDは前のフレーズのもの）
+   */
+  static mergePhrases(lyrics: PhraseUnit[], phraseId: string): LyricsStructureEdit | null {
+    const index = lyrics.findIndex(phrase => phrase.id === phraseId);
+    const nextIndex = this.findAdjacentPhraseIndex(lyrics, phraseId, 'next');
+    if (index === -1 || nextIndex === -1) return null;
+
+    const first = lyrics[index];
+    const second = lyrics[nextIndex];
+    const idMap: Record<string, string[]> = {};
+    this.addMapping(idMap, first.id, first.id);
+    this.addMapping(idMap, second.id, first.id);
+
+    const merged = this.reassignIds({
+      ...first,
+      phrase: this.joinTexts(first.phrase, second.phrase),
+      start: Math.min(first.start, second.start),
+      end: Math.max(first.end, second.end),
+      words: [...first.words, ...second.words]
+    }, idMap);
+
+    const updated = lyrics
+      .filter((_, i) => i !== nextIndex)
+      .map(phrase => (phrase.id === first.id ? merged : phrase));
+    return this.finish(updated, idMap);
+  }
+
+  /**
+   * 単語を同じフレーズの次の単語と結合
+   */
+  static mergeWords(lyrics: PhraseUnit[], phraseId: string, wordId: string): LyricsStructureEdit | null {
+    const phrase = lyrics.find(item => item.id === phraseId);
+    if (!phrase) return null;
+
+    const wordIndex = phrase.words.findIndex(word => word.id === wordId);
+    if (wordIndex === -1 || wordIndex >= phrase.words.length - 1) return null;
+
+    const first = phrase.words[wordIndex];
+    const second = phrase.words[wordIndex + 1];
+    const ruby = [
+      ...(first.ruby || []),
+      ...(second.ruby || []).map(span => this.shiftRuby(span, first.chars.length))
+    ];
+    const merged: WordUnit = {
+      ...first,
+      word: first.word + second.word,
+      start: Math.min(first.start, second.start),
+      end: Math.max(first.end, second.end),
+      chars: [...first.chars, ...second.chars]
+    };
+    if (ruby.length > 0) {
+      merged.ruby = ruby;
+    }
+
+    // 単語間の空白はフレーズのテキストからも取り除く
+    const boundary = phrase.words.slice(0, wordIndex + 1).reduce((sum, word) => sum + word.chars.length, 0);
+    const positions = this.locateChars(phrase);
+    const lastChar = first.chars[first.chars.length - 1];
+    let text = phrase.phrase;
+    if (lastChar && second.chars.length > 0 && positions[boundary - 1] >= 0 && positions[boundary] >= 0) {
+      const gapStart = positions[boundary - 1] + lastChar.char.length;
+      if (text.slice(gapStart, positions[boundary]).trim() === '') {
+        text = text.slice(0, gapStart) + text.slice(positions[boundary]);
+      }
+    }
+
+    const idMap: Record<string, string[]> = {};
+    const words = [...phrase.words.slice(0, wordIndex), merged, ...phrase.words.slice(wordIndex + 2)];
+    const updatedPhrase = this.reassignIds({ ...phrase, phrase: text, words }, idMap);
+    // 結合された単語の設定は結合後の単語へ（結合元の単語の設定を優先）
+    this.addMapping(idMap, second.id, createWordId(phrase.id, wordIndex));
+    return this.finish(lyrics.map(item => (item.id === phraseId ? updatedPhrase : item)), idMap);
+  }
+
+  /**
+   * 先頭の単語を前のフレーズへ、または末尾の単語を次のフレーズへ移動
+   * フレーズに単語が1つしかない場合は移動しない（フレーズの結合を使う）
+   */
+  static moveWord(lyrics: PhraseUnit[], phraseId: string, wordId: string, direction: WordMoveDirection): LyricsStructureEdit | null {
+    const index = lyrics.findIndex(phrase => phrase.id === phraseId);
+    const targetIndex = this.findAdjacentPhraseIndex(lyrics, phraseId, direction);
+    if (index === -1 || targetIndex === -1) return null;
+
+    const source = lyrics[index];
+    const target = lyrics[targetIndex];
+    if (source.words.length < 2) return null;
+
+    const wordIndex = direction === 'previous' ? 0 : source.words.length - 1;
+    const word = source.words[wordIndex];
+    if (word.id !== wordId) return null;
+
+    const remaining = source.words.filter((_, i) => i !== wordIndex);
+    const positions = this.locateChars(source);
+    const chars = this.flattenChars(source);
+    let sourceText: string;
+    if (direction === 'previous') {
+      const nextPosition = positions[word.chars.length];
+      sourceText = nextPosition >= 0 ? source.phrase.slice(nextPosition).trim() : this.joinWords(remaining, source.phrase);
+    } else {
+      const firstPosition = positions[chars.length - word.chars.length];
+      sourceText = firstPosition >= 0 ? source.phrase.slice(0, firstPosition).trim() : this.joinWords(remaining, source.phrase);
+    }
+
+    const idMap: Record<string, string[]> = {};
+    const updatedSource = this.reassignIds({
+      ...source,
+      phrase: sourceText,
+      start: Math.min(...remaining.map(item => item.start)),
+      end: Math.max(...remaining.map(item => item.end)),
+      words: remaining
+    }, idMap);
+    const updatedTarget = this.reassignIds({
+      ...target,
+      phrase: direction === 'previous' ? this.joinTexts(target.phrase, word.word) : this.joinTexts(word.word, target.phrase),
+      start: Math.min(target.start, word.start),
+      end: Math.max(target.end, word.end),
+      words: direction === 'previous' ? [...target.words, word] : [word, ...target.words]
+    }, idMap);
+
+    const updated = lyrics.map((phrase, i) => {
+      if (i === index) return updatedSource;
+      if (i === targetIndex) return updatedTarget;
+      return phrase;
+    });
+    return this.finish(updated, idMap);
+  }
+
+  /**
+   * 同じトラック内で隣接するフレーズのインデックス（ない場合は -1）
+   */
+  static findAdjacentPhraseIndex(lyrics: PhraseUnit[], phraseId: string, direction: WordMoveDirection): number {
+    const index = lyrics.findIndex(phrase => phrase.id === phraseId);
+    if (index === -1) return -1;
+
+    const trackIndices = this.getTrackIndices(lyrics, lyrics[index].trackId || MAIN_LYRIC_TRACK_ID);
+    const position = trackIndices.indexOf(index) + (direction === 'previous' ? -1 : 1);
+    return position >= 0 && position < trackIndices.length ? trackIndices[position] : -1;
+  }
+
+  /**
+   * IDをキーにした設定を idMap に従って付け替える
+   * 移動先のない旧IDと、新規IDに残っていた古い設定（Undo前の履歴など）は削除する
+   */
+  static remapKeys<T>(
+    store: Map<string, T>,
+    idMap: Record<string, string[]>,
+    createdIds: string[] = [],
+    clone: (value: T) => T = value => value
+  ): void {
+    const moved = new Map<string, T>();
+    for (const [oldId, newIds] of Object.entries(idMap)) {
+      const value = store.get(oldId);
+      if (value === undefined) continue;
+      // 複数の旧IDが同じIDに移る場合（結合）は先のものを優先
+      newIds.forEach(newId => {
+        if (!moved.has(newId)) moved.set(newId, clone(value));
+      });
+    }
+
+    Object.entries(idMap).forEach(([oldId, newIds]) => {
+      store.delete(oldId);
+      newIds.forEach(newId => store.delete(newId));
+    });
+    createdIds.forEach(id => store.delete(id));
+    moved.forEach((value, id) => store.set(id, value));
+  }
+
+  /**
+   * フレーズ・単語・文字のIDをすべて取得
+   */
+  static collectObjectIds(phrase: PhraseUnit): string[] {
+    return [
+      phrase.id,
+      ...phrase.words.flatMap(word => [word.id, ...word.chars.map(char => char.id)])
+    ];
+  }
+
+  private static finish(lyrics: PhraseUnit[], idMap: Record<string, string[]>, createdIds: string[] = []): LyricsStructureEdit {
+    return { lyrics: calculateCharacterIndices(lyrics), idMap, createdIds };
+  }
+
+  // 単語・文字IDをフレーズIDから振り直し、旧IDとの対応を記録
+  private static reassignIds(phrase: PhraseUnit, idMap: Record<string, string[]>): PhraseUnit {
+    return {
+      ...phrase,
+      words: phrase.words.map((word, wordIndex) => {
+        const wordId = createWordId(phrase.id, wordIndex);
+        this.addMapping(idMap, word.id, wordId);
+        return {
+          ...word,
+          id: wordId,
+          chars: word.chars.map((char, charIndex) => {
+            const charId = createCharId(wordId, charIndex);
+            this.addMapping(idMap, char.id, charId);
+            return { ...char, id: charId };
+          })
+        };
+      })
+    };
+  }
+
+  private static addMapping(idMap: Record<string, string[]>, oldId: string, newId: string): void {
+    const targets = idMap[oldId] || (idMap[oldId] = []);
+    if (!targets.includes(newId)) {
+      targets.push(newId);
+    }
+  }
+
+  // 単語の文字範囲 [from, to) を切り出す（範囲をまたぐルビは外す）
+  private static sliceWord(word: WordUnit, from: number, to: number, start: number, end: number): WordUnit {
+    const chars = word.chars.slice(from, to);
+    const sliced: WordUnit = {
+      ...word,
+      word: chars.map(char => char.char).join(''),
+      start,
+      end,
+      chars
+    };
+    const ruby = (word.ruby || [])
+      .filter(span => span.startCharIndex >= from && span.endCharIndex < to)
+      .map(span => this.shiftRuby(span, -from));
+    if (ruby.length > 0) {
+      sliced.ruby = ruby;
+    } else {
+      delete sliced.ruby;
+    }
+    return sliced;
+  }
+
+  private static shiftRuby(span: RubySpan, offset: number): RubySpan {
+    return {
+      ...span,
+      startCharIndex: span.startCharIndex + offset,
+      endCharIndex: span.endCharIndex + offset
+    };
+  }
+
+  // 分割後の2つのフレーズのテキスト（文字の位置が分からない場合は単語から組み立てる）
+  private static splitText(phrase: PhraseUnit, splitIndex: number, firstWords: WordUnit[], secondWords: WordUnit[]): [string, string] {
+    const position = this.locateChars(phrase)[splitIndex];
+    if (position > 0) {
+      return [phrase.phrase.slice(0, position).trim(), phrase.phrase.slice(position).trim()];
+    }
+    return [this.joinWords(firstWords, phrase.phrase), this.joinWords(secondWords, phrase.phrase)];
+  }
+
+  // 各文字のフレーズテキスト内の位置（見つからない文字は -1）
+  private static locateChars(phrase: PhraseUnit): number[] {
+    let cursor = 0;
+    return this.flattenChars(phrase).map(char => {
+      const position = phrase.phrase.indexOf(char.char, cursor);
+      if (position === -1) return -1;
+      cursor = position + char.char.length;
+      return position;
+    });
+  }
+
+  private static joinWords(words: WordUnit[], originalText: string): string {
+    return words.map(word => word.word).join(/\s/.test(originalText) ? ' ' : '');
+  }
+
+  // 空白区切りのテキスト、または英数字同士をつなぐ場合のみ空白を挟む
+  private static joinTexts(first: string, second: string): string {
+    const needsSpace = /\s/.test(first) || /\s/.test(second) ||
+      (/[A-Za-z0-9]$/.test(first) && /^[A-Za-z0-9]/.test(second));
+    return needsSpace ? `${first} ${second}` : first + second;
+  }
+
+  private static flattenChars(phrase: PhraseUnit): CharUnit[] {
+    return phrase.words.flatMap(word => word.chars);
+  }
+
+  private static getTrackIndices(lyrics: PhraseUnit[], trackId: string): number[] {
+    return lyrics
+      .map((phrase, index) => ((phrase.trackId || MAIN_LYRIC_TRACK_ID) === trackId ? index : -1))
+      .filter(index => index !== -1);
+  }
+
+  // 既存の phrase_N と重ならない番号
+  private static nextPhraseIndex(lyrics: PhraseUnit[]): number {
+    const used = new Set(lyrics.map(phrase => phrase.id));
+    let index = lyrics.reduce((max, phrase) => {
+      const match = phrase.id.match(/^phrase_(\d+)$/);
+      return match ? Math.max(max, Number(match[1]) + 1) : max;
+    }, 0);
+    while (used.has(createPhraseId(index))) {
+      index++;
+    }
+    return index;
+  }
+}
@@ -0,0 +1,210 @@
+import { PhraseUnit, CharUnit } from '../../types/types';
+import { OnsetMarker } from '../../services/AudioAnalyzer';
+
+// 自動タイミング調整のオプション
+export interface OnsetAlignmentOptions {
+  // 未設定・均等配置の文字を持つフレーズのみ対象にする
+  onlyEvenlySpread?: boolean;
+  // 対象フレーズID（省略時は全フレーズ）
+  phraseIds?: string[];
+}
+
+// フレーズごとの調整案
+export interface OnsetAlignmentProposal {
+  phraseId: string;
+  phraseText: string;
+  original: PhraseUnit;
+  aligned: PhraseUnit;
+  matchedCount: number;   // オンセットに合わせた文字数
+  charCount: number;
+  averageShiftMs: number; // 文字開始時刻の平均移動量
+}
+
+/**
+ * 音声のオンセットに文字の開始時刻を合わせる自動タイミング調整
+ * - 各フレーズの [start, end] 内のオンセットと文字を、順序を保った1対1対応（動的計画法）で結ぶ
+ * - 対応の評価は、オンセットの強さと現在の文字開始時刻からの距離で決める
+ * - 対応しなかった文字は、前後の対応済み文字の間に元の比率で配置する
+ */
+export class OnsetAligner {
+  // 均等配置とみなす文字長のばらつき（ms）
+  private static readonly EVEN_TOLERANCE_MS = 2;
+
+  /**
+   * 全フレーズの調整案を作成（変更のないフレーズは含まない）
+   */
+  static propose(phrases: PhraseUnit[], onsets: OnsetMarker[], options: OnsetAlignmentOptions = {}): OnsetAlignmentProposal[] {
+    const sortedOnsets = [...onsets].sort((a, b) => a.timestamp - b.timestamp);
+    const proposals: OnsetAlignmentProposal[] = [];
+
+    phrases.forEach(phrase => {
+      if (options.phraseIds && !options.phraseIds.includes(phrase.id)) return;
+      if (options.onlyEvenlySpread && !this.isUntimedOrEvenlySpread(phrase)) return;
+
+      const proposal = this.alignPhrase(phrase, sortedOnsets);
+      if (proposal && proposal.matchedCount > 0 && proposal.averageShiftMs > 0) {
+        proposals.push(proposal);
+      }
+    });
+
+    return proposals;
+  }
+
+  /**
+   * 文字タイミングが未設定、または均等に分配されたままのフレーズか
+   */
+  static isUntimedOrEvenlySpread(phrase: PhraseUnit): boolean {
+    const chars = this.flattenChars(phrase);
+    if (chars.length < 2) return true;
+
+    const durations = chars.map(char => char.end - char.start);
+    if (durations.every(duration => duration <= 0)) return true;
+
+    const spread = Math.max(...durations) - Math.min(...durations);
+    const isContiguous = chars.every((char, index) =>
+      index === 0 || Math.abs(char.start - chars[index - 1].end) <= this.EVEN_TOLERANCE_MS
+    );
+    return isContiguous && spread <= this.EVEN_TOLERANCE_MS;
+  }
+
+  /**
+   * 1フレーズ分の調整案を作成
+   */
+  static alignPhrase(phrase: PhraseUnit, sortedOnsets: OnsetMarker[]): OnsetAlignmentProposal | null {
+    const chars = this.flattenChars(phrase);
+    const phraseDuration = phrase.end - phrase.start;
+    if (chars.length === 0 || phraseDuration <= 0) return null;
+
+    const windowOnsets = sortedOnsets.filter(onset => onset.timestamp >= phrase.start && onset.timestamp < phrase.end);
+    const expected = this.getExpectedStarts(phrase, chars);
+    const matches = this.matchOnsets(expected, windowOnsets, phraseDuration);
+    const starts = this.interpolateStarts(phrase, expected, matches);
+
+    const aligned: PhraseUnit = JSON.parse(JSON.stringify(phrase));
+    let charIndex = 0;
+    aligned.words.forEach(word => {
+      word.chars.forEach(char => {
+        char.start = starts[charIndex];
+        char.end = charIndex + 1 < starts.length ? starts[charIndex + 1] : phrase.end;
+        charIndex++;
+      });
+      if (word.chars.length > 0) {
+        word.start = word.chars[0].start;
+        word.end = word.chars[word.chars.length - 1].end;
+      }
+    });
+
+    const totalShift = chars.reduce((sum, char, index) => sum + Math.abs(starts[index] - char.start), 0);
+
+    return {
+      phraseId: phrase.id,
+      phraseText: phrase.phrase,
+      original: phrase,
+      aligned,
+      matchedCount: matches.filter(match => match !== null).length,
+      charCount: chars.length,
+      averageShiftMs: Math.round(totalShift / chars.length)
+    };
+  }
+
+  /**
+   * 調整案を歌詞データに適用
+   */
+  static apply(phrases: PhraseUnit[], proposals: OnsetAlignmentProposal[]): PhraseUnit[] {
+    const alignedById = new Map(proposals.map(proposal => [proposal.phraseId, proposal.aligned]));
+    return phrases.map(phrase => alignedById.get(phrase.id) || phrase);
+  }
+
+  private static flattenChars(phrase: PhraseUnit): CharUnit[] {
+    return phrase.words.flatMap(word => word.chars);
+  }
+
+  // 未設定（長さ0）の文字はフレーズ内に均等配置した時刻を期待値とする
+  private static getExpectedStarts(phrase: PhraseUnit, chars: CharUnit[]): number[] {
+    const isUntimed = chars.every(char => char.end - char.start <= 0);
+    const step = (phrase.end - phrase.start) / chars.length;
+    return chars.map((char, index) => isUntimed
+      ? phrase.start + step * index
+      : Math.min(Math.max(char.start, phrase.start), phrase.end));
+  }
+
+  /**
+   * 文字とオンセットの順序保存1対1対応（対応なしの文字は null）
+   * スコア = 強さ + 0.5 - 距離/フレーズ長 が正の対応のみ採用し、総スコアを最大化する
+   */
+  private static matchOnsets(expected: number[], onsets: OnsetMarker[], phraseDuration: number): (number | null)[] {
+    const n = expected.length;
+    const m = onsets.length;
+    const matchScore = (i: number, j: number) =>
+      onsets[j].strength + 0.5 - Math.abs(onsets[j].timestamp - expected[i]) / phraseDuration;
+
+    const score: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = 1; i <= n; i++) {
+      for (let j = 1; j <= m; j++) {
+        let best = Math.max(score[i - 1][j], score[i][j - 1]);
+        const candidate = matchScore(i - 1, j - 1);
+        if (candidate > 0) {
+          best = Math.max(best, score[i - 1][j - 1] + candidate);
+        }
+        score[i][j] = best;
+      }
+    }
+
+    // バックトラック
+    const matches: (number | null)[] = new Array(n).fill(null);
+    let i = n;
+    let j = m;
+    while (i > 0 && j > 0) {
+      const candidate = matchScore(i - 1, j - 1);
+      if (candidate > 0 && score[i][j] === score[i - 1][j - 1] + candidate) {
+        matches[i - 1] = onsets[j - 1].timestamp;
+        i--;
+        j--;
+      } else if (score[i][j] === score[i - 1][j]) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * 対応済みの文字を基準点として、残りの文字を元の相対位置で補間
+   * 先頭文字が未対応の場合はフレーズ開始、末尾の基準はフレーズ終了とする
+   */
+  private static interpolateStarts(phrase: PhraseUnit, expected: number[], matches: (number | null)[]): number[] {
+    const n = expected.length;
+    const anchors: { index: number; expected: number; time: number }[] = [];
+
+    if (matches[0] === null) {
+      anchors.push({ index: 0, expected: expected[0], time: phrase.start });
+    }
+    matches.forEach((time, index) => {
+      if (time !== null) {
+        anchors.push({ index, expected: expected[index], time });
+      }
+    });
+    anchors.push({ index: n, expected: phrase.end, time: phrase.end });
+
+    const starts = new Array<number>(n);
+    for (let a = 0; a < anchors.length - 1; a++) {
+      const from = anchors[a];
+      const to = anchors[a + 1];
+      for (let index = from.index; index < to.index; index++) {
+        if (index === from.index) {
+          starts[index] = from.time;
+          continue;
+        }
+        const expectedSpan = to.expected - from.expected;
+        const ratio = expectedSpan > 0
+          ? (expected[index] - from.expected) / expectedSpan
+          : (index - from.index) / (to.index - from.index);
+        starts[index] = from.time + (to.time - from.time) * ratio;
+      }
+    }
+
+    return starts.map(start => Math.round(start));
+  }
+}
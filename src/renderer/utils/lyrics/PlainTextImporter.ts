@@ -0,0 +1,131 @@
+import { PhraseUnit, PhraseSection } from '../../types/types';
+import { RubyUtils } from '../RubyUtils';
+import { TimingDistributor, TimingStrategy } from './TimingDistributor';
+import {
+  buildPhraseUnit,
+  distributeWordTimings,
+  splitTextIntoWordTexts
+} from './lyricsUnitBuilder';
+
+// プレーンテキスト読み込みオプション
+export interface PlainTextImportOptions {
+  start: number;               // 歌詞全体の開始時刻（ms）
+  end: number;                 // 歌詞全体の終了時刻（ms）
+  segmentWords?: boolean;      // 日本語を文節単位の単語に分割する（省略時は空白区切りのみ）
+  strategy?: TimingStrategy;   // 文字タイミングの配分方法（keep-ratio は既存タイミングがないため均等）
+}
+
+// プレーンテキスト読み込み結果
+export interface PlainTextImportResult {
+  phrases: PhraseUnit[];
+  sections: PhraseSection[];   // 出現順のセクション（行のないセクションは含まない）
+}
+
+// 解析済みの1行
+interface PlainTextLine {
+  text: string;
+  sectionIndex: number;
+}
+
+/**
+ * プレーンテキスト（.txt・貼り付け）の歌詞の読み込み
+ * - 1行を1フレーズとし、空行・セクションマーカー（[Verse] や [サビ] だけの行）でセクションを区切る
+ * - セクションはフレーズの section に記録し、マーカー名はセクション名として残す
+ * - 指定した時間範囲に行の長さ（mora ではモーラ数）の比でフレーズを並べ、セクションの間には1行分の平均の長さの間隔を空ける
+ * - 行内の `漢字{かんじ}` はルビとして読み込む
+ */
+export class PlainTextImporter {
+  private static readonly SECTION_MARKER_PATTERN = /^[[［]\s*([^\]］]+?)\s*[\]］]$/;
+  private static readonly MIN_PHRASE_DURATION = 100;
+
+  /**
+   * テキストを PhraseUnit 配列に変換
+   */
+  static parse(text: string, options: PlainTextImportOptions): PlainTextImportResult {
+    const { lines, sections } = this.parseLines(text);
+    if (lines.length === 0) {
+      throw new Error('歌詞の行が見つかりません');
+    }
+
+    const strategy: TimingStrategy = options.strategy === 'mora' ? 'mora' : 'equal';
+    const parsed = lines.map(line => ({ ...line, ...RubyUtils.parse(line.text) }));
+    const weights = parsed.map(line => Math.max(1, TimingDistributor.getTextWeight(line.text.replace(/\s+/g, ''), strategy)));
+
+    // セクション間の間隔は1行分の平均の重みとして配分する
+    const sectionBreaks = parsed.filter((line, index) => index > 0 && line.sectionIndex !== parsed[index - 1].sectionIndex).length;
+    const gapWeight = weights.reduce((sum, weight) => sum + weight, 0) / weights.length;
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) + sectionBreaks * gapWeight;
+
+    const start = Math.max(0, Math.round(options.start));
+    const end = Math.max(Math.round(options.end), start + this.MIN_PHRASE_DURATION * parsed.length);
+    const timePerWeight = (end - start) / totalWeight;
+
+    let consumed = 0;
+    const phrases = parsed.map((line, index) => {
+      if (index > 0 && line.sectionIndex !== parsed[index - 1].sectionIndex) {
+        consumed += gapWeight;
+      }
+      const phraseStart = Math.round(start + consumed * timePerWeight);
+      consumed += weights[index];
+      const phraseEnd = index === parsed.length - 1 ? end : Math.round(start + consumed * timePerWeight);
+
+      const built = buildPhraseUnit(
+        index,
+        distributeWordTimings(splitTextIntoWordTexts(line.text, options.segmentWords), phraseStart, phraseEnd),
+        line.text
+      );
+      const withRuby = { ...built, words: RubyUtils.assignToWords(line.text, line.ruby, built.words) };
+      // ルビの読みもモーラ数に反映するため、ルビ付与後に配分し直す
+      const phrase = TimingDistributor.retimePhrase(withRuby, phraseStart, phraseEnd, strategy);
+      phrase.section = { ...sections[line.sectionIndex] };
+      return phrase;
+    });
+
+    return { phrases, sections };
+  }
+
+  // 行とセクションに分ける
+  private static parseLines(text: string): { lines: PlainTextLine[]; sections: PhraseSection[] } {
+    const lines: PlainTextLine[] = [];
+    const sections: PhraseSection[] = [{ index: 0 }];
+    // 現在のセクションにまだ行がない間は、空行・マーカーで新しいセクションを作らない
+    let sectionHasLines = false;
+
+    const startSection = (label?: string) => {
+      if (sectionHasLines) {
+        sections.push({ index: sections.length });
+        sectionHasLines = false;
+      }
+      if (label) {
+        sections[sections.length - 1].label = label;
+      }
+    };
+
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(rawLine => {
+      const line = rawLine.trim();
+      if (!line) {
+        startSection();
+        return;
+      }
+
+      const marker = line.match(this.SECTION_MARKER_PATTERN);
+      if (marker) {
+        startSection(marker[1]);
+        return;
+      }
+
+      lines.push({ text: line.replace(/\s+/g, ' '), sectionIndex: sections.length - 1 });
+      sectionHasLines = true;
+    });
+
+    // 行のないセクションを除き、番号を詰める
+    const used = sections.filter(section => lines.some(line => line.sectionIndex === section.index));
+    const renumbered = used.map((section, index) => ({ ...section, index }));
+    const indexMap = new Map(used.map((section, index) => [section.index, index]));
+
+    return {
+      lines: lines.map(line => ({ ...line, sectionIndex: indexMap.get(line.sectionIndex)! })),
+      sections: renumbered
+    };
+  }
+}
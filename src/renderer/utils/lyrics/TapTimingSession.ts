@@ -0,0 +1,224 @@
+import { PhraseUnit, WordUnit, CharUnit } from '../../types/types';
+
+// タップで打刻する単位
+export type TapGranularity = 'phrase' | 'word' | 'char';
+
+// 打刻対象（歌詞データ内の位置）
+export interface TapTarget {
+  id: string;
+  text: string;
+  phraseIndex: number;
+  wordIndex?: number;
+  charIndex?: number;
+}
+
+type TimedUnit = { start: number; end: number };
+
+/**
+ * タップ入力によるタイミング打刻セッション
+ * - press: 次の対象の開始時刻を打刻（前の対象が離されていなければ、その終了時刻も同時に確定）
+ * - release: 押下中の対象の終了時刻を打刻
+ * - getResult: 打刻結果を反映した歌詞データを返す（上位単位は子の範囲に合わせ、下位単位は比率を保って伸縮）
+ */
+export class TapTimingSession {
+  private static readonly MIN_DURATION = 50;
+
+  private readonly original: PhraseUnit[];
+  private readonly lyrics: PhraseUnit[];
+  private readonly targets: TapTarget[];
+  private readonly granularity: TapGranularity;
+  private cursor: number;
+  private activeIndex: number | null = null;
+  private readonly stampedIds = new Set<string>();
+
+  constructor(lyrics: PhraseUnit[], granularity: TapGranularity, startIndex: number = 0) {
+    this.original = JSON.parse(JSON.stringify(lyrics));
+    this.lyrics = JSON.parse(JSON.stringify(lyrics));
+    this.granularity = granularity;
+    this.targets = TapTimingSession.collectTargets(this.lyrics, granularity);
+    this.cursor = Math.max(0, Math.min(startIndex, this.targets.length));
+  }
+
+  /**
+   * 指定粒度の打刻対象を歌詞の順に列挙
+   */
+  static collectTargets(lyrics: PhraseUnit[], granularity: TapGranularity): TapTarget[] {
+    const targets: TapTarget[] = [];
+    lyrics.forEach((phrase, phraseIndex) => {
+      if (granularity === 'phrase') {
+        targets.push({ id: phrase.id, text: phrase.phrase, phraseIndex });
+        return;
+      }
+      phrase.words.forEach((word, wordIndex) => {
+        if (granularity === 'word') {
+          targets.push({ id: word.id, text: word.word, phraseIndex, wordIndex });
+          return;
+        }
+        word.chars.forEach((char, charIndex) => {
+          targets.push({ id: char.id, text: char.char, phraseIndex, wordIndex, charIndex });
+        });
+      });
+    });
+    return targets;
+  }
+
+  getGranularity(): TapGranularity {
+    return this.granularity;
+  }
+
+  getTargets(): TapTarget[] {
+    return this.targets;
+  }
+
+  // 次に打刻する対象のインデックス
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  // 押下中（終了待ち）の対象のインデックス
+  getActiveIndex(): number | null {
+    return this.activeIndex;
+  }
+
+  getStampedCount(): number {
+    return this.stampedIds.size;
+  }
+
+  isComplete(): boolean {
+    return this.cursor >= this.targets.length && this.activeIndex === null;
+  }
+
+  /**
+   * キー押下: 次の対象の開始時刻を打刻
+   */
+  press(timeMs: number): TapTarget | null {
+    if (this.cursor >= this.targets.length) {
+      return null;
+    }
+
+    // 離す前に次を押した場合は、前の対象をこの時刻で終了させる
+    if (this.activeIndex !== null) {
+      this.release(timeMs);
+    }
+
+    const index = this.cursor;
+    const unit = this.getUnit(this.targets[index]);
+    const start = Math.max(0, Math.round(timeMs));
+    unit.start = start;
+    unit.end = Math.max(unit.end, start + TapTimingSession.MIN_DURATION);
+
+    this.stampedIds.add(this.targets[index].id);
+    this.activeIndex = index;
+    this.cursor++;
+    return this.targets[index];
+  }
+
+  /**
+   * キー解放: 押下中の対象の終了時刻を打刻
+   */
+  release(timeMs: number): TapTarget | null {
+    if (this.activeIndex === null) {
+      return null;
+    }
+
+    const target = this.targets[this.activeIndex];
+    const unit = this.getUnit(target);
+    unit.end = Math.max(unit.start + TapTimingSession.MIN_DURATION, Math.round(timeMs));
+    this.activeIndex = null;
+    return target;
+  }
+
+  /**
+   * 直前の打刻を取り消して、その対象から打ち直す
+   */
+  stepBack(): void {
+    this.activeIndex = null;
+    if (this.cursor === 0) return;
+
+    this.cursor--;
+    const target = this.targets[this.cursor];
+    const unit = this.getUnit(target);
+    const originalUnit = this.getUnit(target, this.original);
+    unit.start = originalUnit.start;
+    unit.end = originalUnit.end;
+    this.stampedIds.delete(target.id);
+  }
+
+  /**
+   * 打刻結果を反映した歌詞データを返す
+   */
+  getResult(): PhraseUnit[] {
+    const result: PhraseUnit[] = JSON.parse(JSON.stringify(this.lyrics));
+
+    result.forEach((phrase, phraseIndex) => {
+      const originalPhrase = this.original[phraseIndex];
+
+      if (this.granularity === 'phrase') {
+        if (this.stampedIds.has(phrase.id)) {
+          phrase.words = phrase.words.map((word, wordIndex) => {
+            const scaledWord = TapTimingSession.scale(originalPhrase.words[wordIndex], originalPhrase, phrase);
+            return {
+              ...word,
+              start: scaledWord.start,
+              end: scaledWord.end,
+              chars: word.chars.map((char, charIndex) => ({
+                ...char,
+                ...TapTimingSession.scale(originalPhrase.words[wordIndex].chars[charIndex], originalPhrase, phrase)
+              }))
+            };
+          });
+        }
+        return;
+      }
+
+      phrase.words.forEach((word, wordIndex) => {
+        if (this.granularity === 'word') {
+          if (this.stampedIds.has(word.id)) {
+            const originalWord = originalPhrase.words[wordIndex];
+            word.chars = word.chars.map((char, charIndex) => ({
+              ...char,
+              ...TapTimingSession.scale(originalWord.chars[charIndex], originalWord, word)
+            }));
+          }
+        } else if (word.chars.some(char => this.stampedIds.has(char.id))) {
+          TapTimingSession.fitToChildren(word, word.chars);
+        }
+      });
+
+      if (phrase.words.some(word => this.hasStampedUnit(word))) {
+        TapTimingSession.fitToChildren(phrase, phrase.words);
+      }
+    });
+
+    return result;
+  }
+
+  private hasStampedUnit(word: WordUnit): boolean {
+    return this.stampedIds.has(word.id) || word.chars.some(char => this.stampedIds.has(char.id));
+  }
+
+  private getUnit(target: TapTarget, lyrics: PhraseUnit[] = this.lyrics): PhraseUnit | WordUnit | CharUnit {
+    const phrase = lyrics[target.phraseIndex];
+    if (target.wordIndex === undefined) return phrase;
+    const word = phrase.words[target.wordIndex];
+    if (target.charIndex === undefined) return word;
+    return word.chars[target.charIndex];
+  }
+
+  // 親の範囲を子の最小開始〜最大終了に合わせる
+  private static fitToChildren(parent: TimedUnit, children: TimedUnit[]): void {
+    if (children.length === 0) return;
+    parent.start = Math.min(...children.map(child => child.start));
+    parent.end = Math.max(...children.map(child => child.end));
+  }
+
+  // 元の親区間内での相対位置を保って、新しい親区間に写像する
+  private static scale(unit: TimedUnit, from: TimedUnit, to: TimedUnit): TimedUnit {
+    const fromDuration = from.end - from.start;
+    const ratio = fromDuration > 0 ? (to.end - to.start) / fromDuration : 0;
+    return {
+      start: Math.round(to.start + (unit.start - from.start) * ratio),
+      end: Math.round(to.start + (unit.end - from.start) * ratio)
+    };
+  }
+}
@@ -0,0 +1,304 @@
+import { PhraseUnit, WordUnit, CharUnit, RubySpan } from '../../types/types';
+import { KANJI_READINGS } from './kanjiReadings';
+
+// 文字タイミングの配分方法
+// - equal: 文字（コードポイント）ごとに均等
+// - mora: 日本語のモーラ数で重み付け（小書き仮名・促音・長音は直前の文字とまとめる）
+// - keep-ratio: 既存の文字タイミングの比率を維持
+export type TimingStrategy = 'equal' | 'mora' | 'keep-ratio';
+
+export const TIMING_STRATEGY_LABELS: Record<TimingStrategy, string> = {
+  'equal': '均等',
+  'mora': 'モーラ数',
+  'keep-ratio': '既存の比率を維持'
+};
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// まとめて同じ時間を割り当てる文字のかたまり
+interface TimingUnit {
+  indices: number[];   // 対象文字のインデックス
+  weight: number;
+}
+
+const STORAGE_KEY = 'utavista-timing-strategy';
+
+// 直前の文字と合わせて1モーラになる小書き仮名
+const SMALL_KANA = new Set(Array.from('ぁぃぅぇぉゃゅょゎァィゥェォャュョヮ'));
+// 直前の文字につなげて1モーラ伸ばす文字（促音・長音）
+const MORA_EXTENDERS = new Set(Array.from('っッーｰ〜～'));
+const KANJI_PATTERN = /[㐀-䶿一-鿿豈-﫿]/;
+const ITERATION_MARK = '々';
+const VISIBLE_PATTERN = /[\p{L}\p{N}]/u;
+// 辞書にない漢字のモーラ数
+const DEFAULT_KANJI_MORA = 2;
+
+/**
+ * 文字タイミングの配分
+ * フレーズ・単語の時間を文字に割り振る処理（テキスト変更時の再配置、時間範囲の変更など）で共通に使う
+ * 漢字のモーラ数はルビの読み、なければ内蔵の読み辞書（kanjiReadings）から求める
+ */
+export class TimingDistributor {
+  /**
+   * ユーザーが選択した配分方法（未設定の場合は既存の比率を維持）
+   */
+  static getPreferredStrategy(): TimingStrategy {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved && saved in TIMING_STRATEGY_LABELS) {
+        return saved as TimingStrategy;
+      }
+    } catch (error) {
+      console.warn('TimingDistributor: 配分方法の読み込みに失敗:', error);
+    }
+    return 'keep-ratio';
+  }
+
+  static setPreferredStrategy(strategy: TimingStrategy): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, strategy);
+    } catch (error) {
+      console.warn('TimingDistributor: 配分方法の保存に失敗:', error);
+    }
+  }
+
+  /**
+   * 読み（かな）のモーラ数
+   */
+  static countMora(reading: string): number {
+    return Array.from(reading).filter(char => MORA_EXTENDERS.has(char) || (!SMALL_KANA.has(char) && VISIBLE_PATTERN.test(char))).length;
+  }
+
+  /**
+   * テキストの各文字に [start, end] を配分（keep-ratio はテキストだけでは決まらないため均等）
+   */
+  static distributeText(text: string, start: number, end: number, strategy: TimingStrategy = 'equal', ruby?: RubySpan[]): TimeRange[] {
+    const chars = Array.from(text);
+    return this.distributeUnits(this.createUnits(chars, strategy, ruby), chars.length, start, end);
+  }
+
+  /**
+   * テキストの重み（mora ではモーラ数、それ以外は文字数）
+   */
+  static getTextWeight(text: string, strategy: TimingStrategy = 'equal'): number {
+    const chars = Array.from(text);
+    return this.createUnits(chars, strategy).reduce((sum, unit) => sum + unit.weight, 0);
+  }
+
+  /**
+   * フレーズの文字・単語タイミングを [start, end] に配分し直す
+   * @param previous keep-ratio で比率を引き継ぐ元のフレーズ（省略時は phrase 自身のタイミング）
+   */
+  static retimePhrase(phrase: PhraseUnit, start: number, end: number, strategy: TimingStrategy, previous?: PhraseUnit): PhraseUnit {
+    const source = previous || phrase;
+    const chars = phrase.words.flatMap(word => word.chars);
+    if (chars.length === 0) {
+      return { ...phrase, start, end };
+    }
+
+    if (strategy === 'keep-ratio') {
+      const sourceChars = source.words.flatMap(word => word.chars);
+      if (this.sameChars(chars, sourceChars) && source.end > source.start) {
+        return this.scalePhrase(phrase, source, start, end);
+      }
+      const weights = this.alignDurations(chars, sourceChars);
+      if (weights) {
+        const units = weights.map((weight, index) => ({ indices: [index], weight }));
+        return this.applyRanges(phrase, this.distributeUnits(units, chars.length, start, end), start, end, true);
+      }
+      // 元のタイミングが使えない場合は均等に配分
+      return this.retimePhrase(phrase, start, end, 'equal');
+    }
+
+    // 小書き仮名などのまとまりは単語をまたがない
+    const units: TimingUnit[] = [];
+    let offset = 0;
+    phrase.words.forEach(word => {
+      this.createUnits(word.chars.map(char => char.char), strategy, word.ruby).forEach(unit => {
+        units.push({ ...unit, indices: unit.indices.map(index => index + offset) });
+      });
+      offset += word.chars.length;
+    });
+    return this.applyRanges(phrase, this.distributeUnits(units, chars.length, start, end), start, end, true);
+  }
+
+  /**
+   * 単語の文字タイミングを [start, end] に配分し直す
+   */
+  static retimeWord(word: WordUnit, start: number, end: number, strategy: TimingStrategy, previous?: WordUnit): WordUnit {
+    const wrap = (item: WordUnit): PhraseUnit => ({ id: '', phrase: item.word, start: item.start, end: item.end, words: [item] });
+    return this.retimePhrase(wrap(word), start, end, strategy, previous && wrap(previous)).words[0];
+  }
+
+  // 文字を配分の単位にまとめる
+  private static createUnits(chars: string[], strategy: TimingStrategy, ruby?: RubySpan[]): TimingUnit[] {
+    if (strategy !== 'mora') {
+      return chars.map((_, index) => ({ indices: [index], weight: 1 }));
+    }
+
+    // ルビの読みのモーラ数を親文字に均等に割り当てる
+    const rubyWeights = new Map<number, number>();
+    (ruby || []).forEach(span => {
+      const count = span.endCharIndex - span.startCharIndex + 1;
+      const mora = this.countMora(span.reading);
+      if (count <= 0 || mora === 0) return;
+      for (let index = span.startCharIndex; index <= span.endCharIndex; index++) {
+        rubyWeights.set(index, mora / count);
+      }
+    });
+
+    const units: TimingUnit[] = [];
+    let previousKanjiWeight = DEFAULT_KANJI_MORA;
+    chars.forEach((char, index) => {
+      const last = units[units.length - 1];
+      const rubyWeight = rubyWeights.get(index);
+
+      if (rubyWeight !== undefined) {
+        units.push({ indices: [index], weight: rubyWeight });
+        previousKanjiWeight = rubyWeight;
+      } else if (last && SMALL_KANA.has(char)) {
+        last.indices.push(index);
+      } else if (last && MORA_EXTENDERS.has(char)) {
+        last.indices.push(index);
+        last.weight += 1;
+      } else if (!VISIBLE_PATTERN.test(char) && !MORA_EXTENDERS.has(char)) {
+        // 句読点・記号・空白は時間を持たせず直前の文字にまとめる
+        if (last) {
+          last.indices.push(index);
+        } else {
+          units.push({ indices: [index], weight: 0 });
+        }
+      } else if (char === ITERATION_MARK) {
+        units.push({ indices: [index], weight: previousKanjiWeight });
+      } else if (KANJI_PATTERN.test(char)) {
+        const reading = KANJI_READINGS[char];
+        previousKanjiWeight = reading ? Math.max(1, this.countMora(reading)) : DEFAULT_KANJI_MORA;
+        units.push({ indices: [index], weight: previousKanjiWeight });
+      } else {
+        // かな・英数字は1文字1モーラ
+        units.push({ indices: [index], weight: 1 });
+      }
+    });
+    return units;
+  }
+
+  // 重みに比例して時間を割り当てる（同じ単位の文字は同じ時間範囲）
+  private static distributeUnits(units: TimingUnit[], charCount: number, start: number, end: number): TimeRange[] {
+    const ranges: TimeRange[] = new Array(charCount);
+    const duration = Math.max(0, end - start);
+    let totalWeight = units.reduce((sum, unit) => sum + unit.weight, 0);
+    if (totalWeight <= 0) {
+      units = units.map(unit => ({ ...unit, weight: 1 }));
+      totalWeight = units.length;
+    }
+
+    let consumed = 0;
+    units.forEach((unit, unitIndex) => {
+      const unitStart = Math.round(start + (consumed / totalWeight) * duration);
+      consumed += unit.weight;
+      const unitEnd = unitIndex === units.length - 1
+        ? end
+        : Math.round(start + (consumed / totalWeight) * duration);
+      unit.indices.forEach(index => {
+        ranges[index] = { start: unitStart, end: unitEnd };
+      });
+    });
+    return ranges;
+  }
+
+  // 文字ごとの時間範囲から単語・フレーズの時間を組み立てる
+  private static applyRanges(phrase: PhraseUnit, ranges: TimeRange[], start: number, end: number, resetRubyTiming: boolean): PhraseUnit {
+    let offset = 0;
+    const words = phrase.words.map(word => {
+      const chars: CharUnit[] = word.chars.map((char, index) => ({ ...char, ...ranges[offset + index] }));
+      offset += word.chars.length;
+      const updated: WordUnit = {
+        ...word,
+        start: chars.length > 0 ? chars[0].start : start,
+        end: chars.length > 0 ? chars[chars.length - 1].end : start,
+        chars
+      };
+      // 個別タイミングのルビは親文字の配分に合わせ直す
+      if (resetRubyTiming && word.ruby) {
+        updated.ruby = word.ruby.map(({ start: _start, end: _end, ...span }) => span);
+      }
+      return updated;
+    });
+    return { ...phrase, start, end, words };
+  }
+
+  // 元のフレーズの時間軸を [start, end] に伸縮（単語間の隙間やルビの個別タイミングも維持）
+  // 文字は並び順で元の文字に対応させる（単語の区切りが変わった場合も文字のタイミングは保つ）
+  private static scalePhrase(phrase: PhraseUnit, source: PhraseUnit, start: number, end: number): PhraseUnit {
+    const ratio = (end - start) / (source.end - source.start);
+    const scale = (time: number) => Math.round(start + (time - source.start) * ratio);
+    const sourceChars = source.words.flatMap(word => word.chars);
+
+    let offset = 0;
+    let sourceOffset = 0;
+    const words = phrase.words.map((word, wordIndex) => {
+      const chars = word.chars.map((char, charIndex) => {
+        const sourceChar = sourceChars[offset + charIndex];
+        return { ...char, start: scale(sourceChar.start), end: scale(sourceChar.end) };
+      });
+
+      // 同じ位置に同じ範囲の単語がある場合は単語自身のタイミングも引き継ぐ
+      const sourceWord = source.words[wordIndex];
+      const sameWord = !!sourceWord && sourceOffset === offset && sourceWord.chars.length === word.chars.length;
+      offset += word.chars.length;
+      sourceOffset += sourceWord ? sourceWord.chars.length : 0;
+      const ruby = word.ruby?.map(span => ({
+        ...span,
+        start: span.start !== undefined ? scale(span.start) : undefined,
+        end: span.end !== undefined ? scale(span.end) : undefined
+      }));
+      return {
+        ...word,
+        start: sameWord ? scale(sourceWord.start) : (chars[0]?.start ?? start),
+        end: sameWord ? scale(sourceWord.end) : (chars[chars.length - 1]?.end ?? start),
+        chars,
+        ...(ruby && { ruby })
+      };
+    });
+    return { ...phrase, start, end, words };
+  }
+
+  private static sameChars(chars: CharUnit[], sourceChars: CharUnit[]): boolean {
+    return chars.length === sourceChars.length && chars.every((char, index) => char.char === sourceChars[index].char);
+  }
+
+  // 変更前後で共通する先頭・末尾の文字は元の長さを、変更された中間の文字は元の中間部分の平均の長さを重みにする
+  private static alignDurations(chars: CharUnit[], sourceChars: CharUnit[]): number[] | null {
+    const durations = sourceChars.map(char => Math.max(0, char.end - char.start));
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+    if (sourceChars.length === 0 || total <= 0) return null;
+
+    let prefix = 0;
+    while (prefix < chars.length && prefix < sourceChars.length && chars[prefix].char === sourceChars[prefix].char) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < chars.length - prefix &&
+      suffix < sourceChars.length - prefix &&
+      chars[chars.length - 1 - suffix].char === sourceChars[sourceChars.length - 1 - suffix].char
+    ) {
+      suffix++;
+    }
+
+    const middleSource = durations.slice(prefix, durations.length - suffix);
+    const middleCount = chars.length - prefix - suffix;
+    const middleWeight = middleSource.length > 0
+      ? middleSource.reduce((sum, duration) => sum + duration, 0) / Math.max(1, middleCount)
+      : total / sourceChars.length;
+
+    return chars.map((_, index) => {
+      if (index < prefix) return durations[index];
+      if (index >= chars.length - suffix) return durations[durations.length - (chars.length - index)];
+      return middleWeight;
+    });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * 日本語の単語分割（JapaneseSegmenter）で使う仮名の語彙（オフライン辞書）
+ * 漢字・カタカナ・英数字は文字種の連続でまとまりを判定するため、ここには平仮名の語だけを収録する
+ */
+
+// 辞書語の品詞分類
+// - case-particle: 格助詞・係助詞など（直前の自立語とで文節を閉じる）
+// - particle: その他の助詞（直前に付く）
+// - auxiliary: 助動詞・活用語尾（直前に付く）
+// - aux-verb: 補助動詞になりうる動詞（て・で や自立語の直後は付属、助詞の後は文節の先頭）
+// - independent: 平仮名で書かれる自立語（文節の先頭）
+// - prefix: 接頭辞（直後の漢字と同じ文節）
+export type JapaneseWordCategory = 'case-particle' | 'particle' | 'auxiliary' | 'aux-verb' | 'independent' | 'prefix';
+
+// 品詞ごとに空白区切りで列挙
+const WORD_ENTRIES: Record<JapaneseWordCategory, string> = {
+  'case-particle': `
+    は が を に へ も の や から まで より こそ さえ しか だけ など へと には では とは にも でも
+  `,
+  'particle': `
+    と で か ね よ さ な わ ぞ ぜ し て ば ので のに けど けれど けれども ながら ても って ってば
+    かな かしら ほど くらい ぐらい ばかり なんて ずつ まま よね のね のよ じゃん
+  `,
+  'auxiliary': `
+    た だ です ます ない たい れる られる せる させる う よう まい らしい そう みたい だろう でしょう
+    ません ました でした なかった なくて なきゃ なければ ちゃう じゃう ちゃ じゃ ず ぬ ん じゃない
+    たら なら れば ければ く かった くて たく たかった ている てる でる
+  `,
+  'aux-verb': `
+    いる いた いて いない いたい ある あった あって いく いった いって いける ゆく ゆける くる きた きて
+    みる みた みて みたい しまう しまった しまって ちゃった じゃった おく おいて する した して しよう しない
+    なる なった なって なれる あげる くれる くれた くれて もらう もらった ほしい
+  `,
+  'independent': `
+    わたし あたし ぼく おれ きみ あなた かれ かのじょ みんな だれ なに なん どこ ここ そこ あそこ
+    これ それ あれ この その あの どの こんな そんな あんな どんな こと もの とき ところ ため
+    いつ いつも いつか いつまでも どこか なにか だれか どこまでも
+    とても もう まだ また ずっと きっと もっと ちょっと すこし そっと やっと ふと ただ すぐ すべて
+    いい いま なぜ どうして どうか まるで たとえ やがて いっしょ いっぱい ぜんぶ ほんとう ほんと
+    まっすぐ なんで たぶん ゆっくり はっきり しっかり さっき ちゃんと ぎゅっと そば
+    あした きょう きのう あす
+    そして それから それでも ところが
+    ああ おお ねえ ほら さあ うん ええ いや はい ありがとう さよなら さようなら おはよう おやすみ ごめん
+    ゆめ こころ そら うた ひかり かぜ なみだ あい こい ほし よる あさ ひと みち
+    すき だいすき きらい きれい かわいい やさしい うれしい さみしい さびしい かなしい
+    わかる わからない わかって しる しらない しって いう いえない おもう おもい
+  `,
+  'prefix': `
+    お ご
+  `
+};
+
+export const JAPANESE_WORD_DICTIONARY: Map<string, JapaneseWordCategory> = new Map();
+
+// 同じ語が複数の品詞にある場合は先に列挙した品詞を使う
+(Object.keys(WORD_ENTRIES) as JapaneseWordCategory[]).forEach(category => {
+  WORD_ENTRIES[category].split(/\s+/).filter(word => word !== '').forEach(word => {
+    if (!JAPANESE_WORD_DICTIONARY.has(word)) {
+      JAPANESE_WORD_DICTIONARY.set(word, category);
+    }
+  });
+});
+
+// 辞書語の最大文字数（最長一致の探索範囲）
+export const MAX_DICTIONARY_WORD_LENGTH = Array.from(JAPANESE_WORD_DICTIONARY.keys())
+  .reduce((max, word) => Math.max(max, Array.from(word).length), 0);
@@ -0,0 +1,62 @@
+/**
+ * モーラ数の推定に使う漢字の読み（オフライン辞書）
+ * 歌詞によく使われる漢字の代表的な読みを1つずつ収録する（単独で読む場合の訓読み、なければ音読み）
+ * 収録のない漢字は TimingDistributor で既定のモーラ数として扱う
+ */
+
+// 「漢字+読み」を空白区切りで列挙（1つの漢字に1つの読み）
+const READING_ENTRIES = `
+愛あい 哀あい 青あお 赤あか 明あ 秋あき 朝あさ 足あし 汗あせ 遊あそ 暖あたた 頭あたま 新あたら 熱あつ 後あと 穴あな 雨あめ 歩ある 泡あわ 淡あわ 安あん
+息いき 生い 行い 池いけ 石いし 急いそ 痛いた 一いち 命いのち 今いま 意い 色いろ 祈いの 言い 家いえ 岩いわ 印いん
+上うえ 受う 歌うた 詩うた 唄うた 嘘うそ 内うち 宇う 海うみ 埋う 裏うら 嬉うれ 腕うで 運うん 羽はね
+永えい 笑え 駅えき 円えん 影かげ
+奥おく 送おく 幼おさな 落お 音おと 男おとこ 踊おど 驚おどろ 同おな 想おも 思おも 表おもて 親おや 終お 俺おれ 女おんな 泳およ 重おも
+火ひ 花はな 華はな 会あ 逢あ 帰かえ 顔かお 香かお 輝かがや 鏡かがみ 鍵かぎ 風かぜ 数かず 肩かた 形かたち 語かた 悲かな 必かなら 彼かれ 髪かみ 神かみ 紙かみ 体からだ 軽かる 川かわ 変か 感かん 間あいだ 空そら
+消き 傷きず 絆きずな 北きた 君きみ 気き 昨さく 希き 季き 記き 奇き 決き 金きん 強つよ 切き 霧きり 綺き 麗れい 鬼おに
+草くさ 口くち 唇くちびる 国くに 雲くも 暗くら 比くら 来く 車くるま 黒くろ 苦くる 狂くる
+景けい 原はら 剣けん
+声こえ 心こころ 答こた 事こと 子こ 恋こい 乞こ 凍こお 氷こおり 午ご 越こ 壊こわ 怖こわ 黄き
+咲さ 探さが 坂さか 魚さかな 先さき 叫さけ 寂さび 淋さび 覚さ 去さ 様さま 寒さむ 三さん 散ち 桜さくら 誘さそ 酒さけ 里さと
+幸しあわ 時とき 静しず 沈しず 下した 知し 死し 白しろ 信しん 深ふか 芯しん 島しま 示しめ 少すこ 紫むらさき 手て 視し 自じ 十じゅう 出で 春はる 夏なつ 冬ふゆ
+好す 過す 涼すず 進すす 砂すな 全すべ 住す 澄す 素す
+世よ 背せ 星ほし 晴は 線せん 千せん 前まえ
+側そば 外そと 育そだ 揃そろ 存そん 走はし 続つづ
+高たか 宝たから 確たし 抱だ 戦たたか 立た 旅たび 誰だれ 溜た 頼たよ 太たい 大おお 鷹たか 建た 谷たに 楽たの 魂たましい 瞳ひとみ 黙だま
+小ちい 近ちか 誓ちか 力ちから 地ち 血ち 父ちち 中なか
+月つき 次つぎ 作つく 伝つた 土つち 包つつ 繋つな 翼つばさ 冷つめ 連つ 罪つみ 爪つめ 辛つら 積つ 着つ 釣つ 突つ 付つ
+天てん 照て 点てん 寺てら
+遠とお 通とお 溶と 届とど 止と 友とも 共とも 鳥とり 取と 飛と 扉とびら 泣な 戸と 年とし 閉と 途と 唱とな 隣となり 問と 解と 夜よる
+流なが 長なが 鳴な 涙なみだ 波なみ 名な 何なに 並なら 慣な 七なな 懐なつ 無な 撫な 謎なぞ 悩なや
+虹にじ 西にし 似に 逃に 庭にわ 日ひ 人ひと 匂にお 握にぎ
+濡ぬ 温ぬく 抜ぬ 盗ぬす
+願ねが 眠ねむ 寝ね 猫ねこ 根ね
+残のこ 望のぞ 乗の 登のぼ 昇のぼ 野の 飲の 呪のろ
+葉は 歯は 灰はい 入はい 始はじ 初はじ 恥は 橋はし 肌はだ 八はち 果は 離はな 話はな 放はな 母はは 早はや 速はや 遥はる 半はん 光ひかり 浜はま 針はり 張は
+引ひ 低ひく 独ひと 響ひび 秘ひ 姫ひめ 紐ひも 百ひゃく 開ひら 昼ひる 広ひろ 拾ひろ 陽ひ 灯ひ 陰かげ
+吹ふ 不ふ 服ふく 二ふた 船ふね 舟ふね 降ふ 振ふ 触ふ 古ふる 震ふる 雰ふん 文ふみ 夫ふ 蕾つぼみ 踏ふ 筆ふで
+部へ 平へい 辺へん 紅べに
+欲ほ 細ほそ 炎ほのお 頬ほお 他ほか 本ほん 骨ほね 誇ほこ 微ほほ 褒ほ 掘ほ 惚ほ
+舞ま 負ま 町まち 街まち 待ま 真ま 窓まど 守まも 迷まよ 丸まる 周まわ 回まわ 万まん 満み 幻まぼろし 魔ま 瞬まばた 眩まぶ 学まな 招まね 纏まと 的まと
+見み 右みぎ 短みじか 水みず 湖みずうみ 店みせ 道みち 導みちび 緑みどり 皆みな 南みなみ 耳みみ 都みやこ 未み 魅み 身み 実み 蜜みつ 港みなと 醜みにく 峰みね
+向む 迎むか 昔むかし 胸むね 村むら 夢ゆめ 虫むし 結むす 娘むすめ 難むずか 群む
+目め 芽め 眼め 雌めす 巡めぐ 恵めぐ 珍めずら 滅めつ 面めん
+森もり 燃も 持も 戻もど 物もの 者もの 求もと 元もと 最もっと 桃もも 門もん 萌も 漏も
+優やさ 易やさ 柔やわ 山やま 闇やみ 約やく 役やく 焼や 休やす 宿やど 破やぶ 病やまい 屋や 矢や
+雪ゆき 夕ゆう 指ゆび 弓ゆみ 揺ゆ 許ゆる 緩ゆる 勇ゆう 由ゆ 豊ゆた
+良よ 善よ 呼よ 読よ 弱よわ 四よん 横よこ 汚よご 喜よろこ 寄よ 酔よ 宵よい 用よう 翌よく 装よそお 蘇よみがえ 余よ
+乱らん 嵐あらし
+理り 凛りん
+類るい 留る 瑠る
+礼れい 練れん 零れい
+路ろ 六ろく 露つゆ 炉ろ
+我われ 忘わす 私わたし 渡わた 悪わる 割わ 分わ 別わか 若わか 輪わ 和わ 湧わ 訳わけ 技わざ 綿わた 僕ぼく
+`;
+
+export const KANJI_READINGS: Record<string, string> = READING_ENTRIES
+  .split(/\s+/)
+  .filter(entry => entry.length >= 2)
+  .reduce((readings, entry) => {
+    const kanji = Array.from(entry)[0];
+    readings[kanji] = entry.slice(kanji.length);
+    return readings;
+  }, {} as Record<string, string>);
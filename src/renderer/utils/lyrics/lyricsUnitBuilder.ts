@@ -0,0 +1,190 @@
+import { PhraseUnit, WordUnit, CharUnit } from '../../types/types';
+import { TimingDistributor, TimingStrategy } from './TimingDistributor';
+import { JapaneseSegmenter } from './JapaneseSegmenter';
+
+/**
+ * 外部形式の歌詞データから PhraseUnit 階層を組み立てるための共通ヘルパー
+ * ID は docs/lyricsdata_format.md の命名規則（phrase_N / phrase_N_word_M / phrase_N_word_M_char_K）に従う
+ */
+
+// タイミング付きのテキスト断片
+export interface TimedSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// 単語の元データ（chars 省略時は単語内で均等に分配）
+export interface TimedWordSource extends TimedSegment {
+  chars?: TimedSegment[];
+}
+
+/**
+ * フレーズIDを生成
+ */
+export function createPhraseId(phraseIndex: number): string {
+  return `phrase_${phraseIndex}`;
+}
+
+/**
+ * 単語IDを生成
+ */
+export function createWordId(phraseId: string, wordIndex: number): string {
+  return `${phraseId}_word_${wordIndex}`;
+}
+
+/**
+ * 文字IDを生成
+ */
+export function createCharId(wordId: string, charIndex: number): string {
+  return `${wordId}_char_${charIndex}`;
+}
+
+/**
+ * テキストを空白で単語に分割（空白自体は文字として扱わない）
+ * @param segmentJapanese 日本語の部分を JapaneseSegmenter で文節に分割する
+ */
+export function splitTextIntoWordTexts(text: string, segmentJapanese = false): string[] {
+  if (segmentJapanese) {
+    return JapaneseSegmenter.segment(text);
+  }
+  return text.split(/\s+/).filter(word => word !== '');
+}
+
+/**
+ * テキストの各文字（コードポイント単位）に [start, end] を分配
+ * @param strategy 配分方法（省略時は均等）
+ */
+export function distributeCharTimings(text: string, start: number, end: number, strategy: TimingStrategy = 'equal'): TimedSegment[] {
+  const chars = Array.from(text).filter(char => char.trim() !== '');
+  if (chars.length === 0) {
+    return [];
+  }
+
+  const ranges = TimingDistributor.distributeText(chars.join(''), start, end, strategy);
+  return chars.map((char, index) => ({
+    text: char,
+    start: ranges[index].start,
+    end: ranges[index].end
+  }));
+}
+
+/**
+ * 単語の元データ配列を [start, end] の範囲に配置
+ * @param strategy 配分方法（省略時は文字数比。mora では単語のモーラ数比で、文字タイミングも同じ方法で分配）
+ */
+export function distributeWordTimings(wordTexts: string[], start: number, end: number, strategy: TimingStrategy = 'equal'): TimedWordSource[] {
+  const weights = wordTexts.map(word => TimingDistributor.getTextWeight(word, strategy));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {
+    return [];
+  }
+
+  const duration = Math.max(0, end - start);
+  let consumed = 0;
+
+  return wordTexts.map((text, index) => {
+    const wordStart = Math.round(start + (consumed / totalWeight) * duration);
+    consumed += weights[index];
+    const wordEnd = index === wordTexts.length - 1
+      ? end
+      : Math.round(start + (consumed / totalWeight) * duration);
+    return strategy === 'mora'
+      ? { text, start: wordStart, end: wordEnd, chars: distributeCharTimings(text, wordStart, wordEnd, strategy) }
+      : { text, start: wordStart, end: wordEnd };
+  });
+}
+
+/**
+ * タイミング付きの断片（音節・単語タグ区間など）を空白区切りで単語にまとめる
+ * - 断片内の空白で単語を区切り、区間は非空白文字数の比で割り振る
+ * - 空白を挟まずに続く断片は1つの単語にまとめ、断片ごとに文字タイミングを分配する
+ * - テキストが空の断片は時間の経過のみを表す
+ */
+export function groupSegmentsIntoWords(segments: TimedSegment[]): TimedWordSource[] {
+  const words: { parts: TimedSegment[] }[] = [];
+  let pendingBreak = true;
+
+  segments.forEach(segment => {
+    const pieces = segment.text.split(/(\s+)/).filter(piece => piece !== '');
+    const visibleCount = pieces.reduce((sum, piece) => sum + (piece.trim() ? Array.from(piece).length : 0), 0);
+    const duration = Math.max(0, segment.end - segment.start);
+    let consumed = 0;
+
+    pieces.forEach(piece => {
+      if (!piece.trim()) {
+        pendingBreak = true;
+        return;
+      }
+
+      const length = Array.from(piece).length;
+      const start = Math.round(segment.start + (consumed / visibleCount) * duration);
+      consumed += length;
+      const end = Math.round(segment.start + (consumed / visibleCount) * duration);
+
+      if (pendingBreak || words.length === 0) {
+        words.push({ parts: [] });
+      }
+      words[words.length - 1].parts.push({ text: piece, start, end });
+      pendingBreak = false;
+    });
+  });
+
+  return words
+    .filter(word => word.parts.length > 0)
+    .map(word => {
+      const first = word.parts[0];
+      const last = word.parts[word.parts.length - 1];
+      return {
+        text: word.parts.map(part => part.text).join(''),
+        start: first.start,
+        end: Math.max(last.end, first.start + 1),
+        chars: word.parts.flatMap(part => distributeCharTimings(part.text, part.start, part.end))
+      };
+    });
+}
+
+/**
+ * 単語の元データから PhraseUnit を構築
+ * @param phraseIndex フレーズ番号（ID生成に使用）
+ * @param words 単語の元データ（空の単語は除外される）
+ * @param phraseText フレーズ全体のテキスト（省略時は単語を空白で連結）
+ */
+export function buildPhraseUnit(phraseIndex: number, words: TimedWordSource[], phraseText?: string): PhraseUnit {
+  const phraseId = createPhraseId(phraseIndex);
+
+  const wordUnits: WordUnit[] = words
+    .filter(word => word.text.trim() !== '')
+    .map((word, wordIndex) => {
+      const wordId = createWordId(phraseId, wordIndex);
+      const charSources = word.chars && word.chars.length > 0
+        ? word.chars
+        : distributeCharTimings(word.text, word.start, word.end);
+
+      const chars: CharUnit[] = charSources.map((char, charIndex) => ({
+        id: createCharId(wordId, charIndex),
+        char: char.text,
+        start: char.start,
+        end: char.end
+      }));
+
+      return {
+        id: wordId,
+        word: word.text.trim(),
+        start: word.start,
+        end: word.end,
+        chars
+      };
+    });
+
+  const start = wordUnits.length > 0 ? Math.min(...wordUnits.map(word => word.start)) : 0;
+  const end = wordUnits.length > 0 ? Math.max(...wordUnits.map(word => word.end)) : 0;
+
+  return {
+    id: phraseId,
+    phrase: phraseText ?? wordUnits.map(word => word.word).join(' '),
+    start,
+    end,
+    words: wordUnits
+  };
+}
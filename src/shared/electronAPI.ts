@@ -5,8 +5,22 @@ import type {
   MediaFileInfo, 
   ExportOptions, 
   ExportProgress, 
-  ExportError 
+  ExportError,
+  HeadlessRenderJob,
+  ProjectBundleAssets,
+  ProjectBundleSaveResult,
+  ProjectBundleLoadResult,
+  MissingMediaReference,
+  MediaSearchResult,
+  MediaFileStatus,
+  RenderJobSummary,
+  RenderQueueState,
+  ParameterPreset,
+  TemplateInfo,
+  UserTemplateChange
 } from './types.js';
+import type { SubtitleFormat, SubtitlePhrase, SubtitleExportOptions } from './subtitleFormats.js';
+import type { VideoCodec, VideoContainer, VideoPixelFormat } from './videoCodecs.js';
 
 export interface ElectronAPI {
   // File management
@@ -14,6 +28,22 @@ export interface ElectronAPI {
   loadProject(): Promise<ProjectData>;
   selectMedia(type: 'video' | 'audio'): Promise<MediaFileInfo>;
   
+  // Project bundle (project + collected media and fonts)
+  saveProjectBundle(projectData: any, assets: ProjectBundleAssets): Promise<ProjectBundleSaveResult>;
+  loadProjectBundle(): Promise<ProjectBundleLoadResult>;
+  
+  // Missing media relinking
+  statMediaFiles(paths: string[]): Promise<MediaFileStatus[]>;
+  findMediaCandidates(references: MissingMediaReference[], searchDirs?: string[]): Promise<MediaSearchResult[]>;
+  selectDirectory(title?: string): Promise<string>;
+  
+  // Subtitle export (SRT / WebVTT / ASS)
+  exportSubtitles(
+    format: SubtitleFormat,
+    lyrics: SubtitlePhrase[],
+    options?: SubtitleExportOptions & { filePath?: string; defaultFileName?: string }
+  ): Promise<string>;
+  
   // Video export (legacy)
   startExport(options: ExportOptions): Promise<void>;
   cancelExport(): Promise<void>;
@@ -42,6 +72,9 @@ export interface ElectronAPI {
     width: number;
     height: number;
     videoQuality: 'low' | 'medium' | 'high' | 'highest';
+    codec?: VideoCodec;
+    container?: VideoContainer;
+    pixelFormat?: VideoPixelFormat;
   }): Promise<string>;
   composeFinalVideo(options: {
     sessionId: string;
@@ -57,6 +90,9 @@ export interface ElectronAPI {
     totalDurationMs?: number;
     outputWidth?: number;
     outputHeight?: number;
+    codec?: VideoCodec;
+    container?: VideoContainer;
+    pixelFormat?: VideoPixelFormat;
   }): Promise<string>;
   cleanupTempSession(sessionId: string): Promise<void>;
   getStorageStats(sessionId?: string): Promise<{
@@ -112,6 +148,45 @@ export interface ElectronAPI {
   ): () => void;
   sendExportReply(channel: 'frame-ready' | 'frame-error', data: string): void;
   
+  // Headless render (command-line mode)
+  headless: {
+    getJob(): Promise<HeadlessRenderJob>;
+    sendFrame(frameIndex: number, frameData: Uint8Array): Promise<void>;
+    complete(errorMessage?: string): Promise<void>;
+  };
+  
+  // Render queue (persistent multi-job export)
+  exportQueue: {
+    getState(): Promise<RenderQueueState>;
+    add(projectData: any, options: ExportOptions, name?: string): Promise<RenderJobSummary>;
+    start(): Promise<RenderQueueState>;
+    stop(): Promise<RenderQueueState>;
+    pause(jobId: string): Promise<RenderQueueState>;
+    resume(jobId: string): Promise<RenderQueueState>;
+    cancel(jobId: string): Promise<RenderQueueState>;
+    retry(jobId: string): Promise<RenderQueueState>;
+    move(jobId: string, direction: 'up' | 'down'): Promise<RenderQueueState>;
+    remove(jobId: string): Promise<RenderQueueState>;
+    clearFinished(): Promise<RenderQueueState>;
+    onUpdated(callback: (state: RenderQueueState) => void): () => void;
+  };
+  
+  // Parameter presets (stored in user data)
+  parameterPresets: {
+    save(presets: ParameterPreset[]): Promise<{ success: boolean; error?: string }>;
+    load(): Promise<{ success: boolean; presets?: ParameterPreset[]; error?: string }>;
+    exportToFile(presets: ParameterPreset[], defaultFileName: string): Promise<{ success: boolean; filePath?: string | null; error?: string }>;
+    importFromFile(): Promise<{ success: boolean; data?: unknown; error?: string }>;
+  };
+  
+  // User templates (precompiled JS modules in userData/templates)
+  userTemplates: {
+    scan(): Promise<TemplateInfo[]>;
+    read(fileName: string): Promise<string>;
+    openFolder(): Promise<void>;
+    onChanged(callback: (change: UserTemplateChange) => void): () => void;
+  };
+  
   // App utilities
   getAppVersion(): Promise<string>;
   getAppPath(name: string): Promise<string>;
@@ -0,0 +1,153 @@
+// 1つのプロジェクトを複数のアスペクト比・解像度で書き出すためのフォーマット設定
+// メインプロセス（--render --formats）とレンダラー（複数フォーマット書き出しUI）の両方から使用する
+
+export type ExportFormatAspectRatio = '16:9' | '4:3' | '1:1';
+export type ExportFormatOrientation = 'landscape' | 'portrait';
+
+export interface ExportFormat {
+  id: string;                   // 出力ファイル名に使う（英数字・-・_）
+  name: string;
+  aspectRatio: ExportFormatAspectRatio;
+  orientation: ExportFormatOrientation;
+  width: number;                // 出力解像度（偶数）
+  height: number;
+  enabled: boolean;             // 一括書き出しの対象か
+  // このフォーマットでのみ使うグローバルパラメータ（例: 縦長での fontSize・offsetY）
+  // 個別設定が有効なフレーズには適用しない
+  parameterOverrides: Record<string, unknown>;
+}
+
+export const DEFAULT_EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'landscape',
+    name: '横長 16:9',
+    aspectRatio: '16:9',
+    orientation: 'landscape',
+    width: 1920,
+    height: 1080,
+    enabled: true,
+    parameterOverrides: {}
+  },
+  {
+    id: 'shorts',
+    name: 'ショート 9:16',
+    aspectRatio: '16:9',
+    orientation: 'portrait',
+    width: 1080,
+    height: 1920,
+    enabled: true,
+    parameterOverrides: {}
+  },
+  {
+    id: 'square',
+    name: '正方形 1:1',
+    aspectRatio: '1:1',
+    orientation: 'landscape',
+    width: 1080,
+    height: 1080,
+    enabled: true,
+    parameterOverrides: {}
+  }
+];
+
+const ASPECT_RATIOS: ExportFormatAspectRatio[] = ['16:9', '4:3', '1:1'];
+const ID_PATTERN = /[^A-Za-z0-9_-]/g;
+
+/**
+ * フォーマットIDとして使える文字列に変換（空になる場合は 'format'）
+ */
+export function sanitizeExportFormatId(value: string): string {
+  return value.trim().replace(/\s+/g, '-').replace(ID_PATTERN, '') || 'format';
+}
+
+/**
+ * 読み込んだフォーマット一覧の正規化（未保存の旧データは既定の3フォーマット）
+ * IDは重複しないように連番を付ける
+ */
+export function normalizeExportFormats(data: unknown): ExportFormat[] {
+  if (!Array.isArray(data)) {
+    return cloneExportFormats(DEFAULT_EXPORT_FORMATS);
+  }
+
+  const formats: ExportFormat[] = [];
+  const seen = new Set<string>();
+  const evenSize = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 2 ? Math.round(value / 2) * 2 : fallback;
+
+  for (const raw of data) {
+    if (!raw || typeof raw !== 'object') continue;
+
+    const baseId = sanitizeExportFormatId(typeof raw.id === 'string' ? raw.id : '');
+    let id = baseId;
+    for (let n = 2; seen.has(id); n++) {
+      id = `${baseId}-${n}`;
+    }
+    seen.add(id);
+
+    const aspectRatio = ASPECT_RATIOS.includes(raw.aspectRatio) ? raw.aspectRatio : '16:9';
+    const overrides = raw.parameterOverrides && typeof raw.parameterOverrides === 'object' && !Array.isArray(raw.parameterOverrides)
+      ? { ...raw.parameterOverrides }
+      : {};
+
+    formats.push({
+      id,
+      name: typeof raw.name === 'string' && raw.name ? raw.name : id,
+      aspectRatio,
+      orientation: raw.orientation === 'portrait' && aspectRatio !== '1:1' ? 'portrait' : 'landscape',
+      width: evenSize(raw.width, 1920),
+      height: evenSize(raw.height, 1080),
+      enabled: raw.enabled !== false,
+      parameterOverrides: overrides
+    });
+  }
+  return formats;
+}
+
+export function cloneExportFormats(formats: ExportFormat[]): ExportFormat[] {
+  return formats.map(format => ({ ...format, parameterOverrides: { ...format.parameterOverrides } }));
+}
+
+/**
+ * 既定のフォーマット一覧のままか（保存を省略できる）
+ */
+export function isDefaultExportFormats(formats: ExportFormat[]): boolean {
+  return JSON.stringify(formats) === JSON.stringify(DEFAULT_EXPORT_FORMATS);
+}
+
+/**
+ * 一括書き出しの出力ファイル名（例: song_shorts_1080x1920.mp4）
+ * 拡張子がない場合（連番PNGのフォルダ）は付けない
+ */
+export function getExportFormatFileName(baseName: string, format: ExportFormat, extension: string): string {
+  const name = `${baseName}_${format.id}_${format.width}x${format.height}`;
+  return extension ? `${name}.${extension}` : name;
+}
+
+/**
+ * プロジェクトファイルデータにフォーマットのパラメータ上書きを適用した複製を返す
+ * グローバルパラメータ（globalParams / parameterData.globalDefaults）を置き換え、
+ * 個別設定のないフレーズに残っている同じキーの差分は取り除く
+ */
+export function applyExportFormatOverrides<T>(projectData: T, format: ExportFormat): T {
+  const data = JSON.parse(JSON.stringify(projectData));
+  const overrides = format.parameterOverrides;
+  const keys = Object.keys(overrides);
+  if (keys.length === 0) {
+    return data;
+  }
+
+  data.globalParams = { ...(data.globalParams || {}), ...overrides };
+
+  const parameterData = data.parameterData;
+  if (parameterData && typeof parameterData === 'object') {
+    parameterData.globalDefaults = { ...(parameterData.globalDefaults || {}), ...overrides };
+
+    for (const phrase of Object.values<any>(parameterData.phrases || {})) {
+      if (phrase.individualSettingEnabled || !phrase.parameterDiff) continue;
+      for (const key of keys) {
+        delete phrase.parameterDiff[key];
+      }
+    }
+  }
+  return data;
+}
@@ -0,0 +1,221 @@
+// タイミング付き歌詞の字幕形式（SRT / WebVTT / ASS）への変換
+// メインプロセス（IPC経由のスクリプト利用）とレンダラー（保存タブ）の両方から使用する
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+// 変換に必要な歌詞データの最小構造（レンダラーの PhraseUnit と互換）
+export interface SubtitleChar {
+  char: string;
+  start: number;
+  end: number;
+}
+
+export interface SubtitleWord {
+  word: string;
+  start: number;
+  end: number;
+  chars: SubtitleChar[];
+}
+
+export interface SubtitlePhrase {
+  phrase: string;
+  start: number;
+  end: number;
+  words: SubtitleWord[];
+}
+
+export interface SubtitleExportOptions {
+  // ASSのカラオケタグ（\k: 一括切替, \kf: ワイプ）
+  assKaraokeTag?: 'k' | 'kf';
+  assStyleName?: string;
+  assFontName?: string;
+  assFontSize?: number;
+  assPlayResX?: number;
+  assPlayResY?: number;
+  title?: string;
+}
+
+export const SUBTITLE_FILE_EXTENSIONS: Record<SubtitleFormat, string> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  ass: 'ass'
+};
+
+/**
+ * 歌詞データ（フレーズ→単語→文字）を字幕テキストに変換するコンバーター
+ * - SRT: フレーズごとに1キュー
+ * - WebVTT: フレーズごとに1キュー、2単語目以降に <hh:mm:ss.ttt> のインラインタイムスタンプ
+ * - ASS: フレーズごとに1行、文字タイミングから \k / \kf の音節長（センチ秒）を算出
+ */
+export class SubtitleConverter {
+  static convert(format: SubtitleFormat, phrases: SubtitlePhrase[], options: SubtitleExportOptions = {}): string {
+    switch (format) {
+      case 'srt':
+        return this.toSrt(phrases);
+      case 'vtt':
+        return this.toWebVtt(phrases);
+      case 'ass':
+        return this.toAss(phrases, options);
+      default:
+        throw new Error(`未対応の字幕形式です: ${format}`);
+    }
+  }
+
+  static toSrt(phrases: SubtitlePhrase[]): string {
+    return this.getExportablePhrases(phrases)
+      .map((phrase, index) => [
+        String(index + 1),
+        `${this.formatClockTime(phrase.start, ',')} --> ${this.formatClockTime(phrase.end, ',')}`,
+        this.getPhraseText(phrase)
+      ].join('\n'))
+      .join('\n\n') + '\n';
+  }
+
+  static toWebVtt(phrases: SubtitlePhrase[]): string {
+    const cues = this.getExportablePhrases(phrases).map((phrase, index) => {
+      const separator = this.getWordSeparator(phrase);
+      const words = phrase.words.filter(word => word.word.trim() !== '');
+      const text = words.length > 0
+        ? words.map((word, wordIndex) => {
+          const escaped = this.escapeVttText(word.word);
+          // 最初の単語はキュー開始と同時に表示されるためタイムスタンプ不要
+          return wordIndex === 0 ? escaped : `<${this.formatClockTime(word.start, '.')}>${escaped}`;
+        }).join(separator)
+        : this.escapeVttText(this.getPhraseText(phrase));
+
+      return [
+        String(index + 1),
+        `${this.formatClockTime(phrase.start, '.')} --> ${this.formatClockTime(phrase.end, '.')}`,
+        text
+      ].join('\n');
+    });
+
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+
+  static toAss(phrases: SubtitlePhrase[], options: SubtitleExportOptions = {}): string {
+    const tag = options.assKaraokeTag ?? 'kf';
+    const styleName = options.assStyleName ?? 'Default';
+    const fontName = options.assFontName ?? 'Arial';
+    const fontSize = options.assFontSize ?? 48;
+    const playResX = options.assPlayResX ?? 1920;
+    const playResY = options.assPlayResY ?? 1080;
+
+    const header = [
+      '[Script Info]',
+      `Title: ${options.title ?? 'UTAVISTA Lyrics'}`,
+      'ScriptType: v4.00+',
+      'WrapStyle: 0',
+      'ScaledBorderAndShadow: yes',
+      `PlayResX: ${playResX}`,
+      `PlayResY: ${playResY}`,
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      `Style: ${styleName},${fontName},${fontSize},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,0,2,40,40,60,1`,
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+    ];
+
+    const dialogues = this.getExportablePhrases(phrases).map(phrase =>
+      `Dialogue: 0,${this.formatAssTime(phrase.start)},${this.formatAssTime(phrase.end)},${styleName},,0,0,0,,${this.buildKaraokeText(phrase, tag)}`
+    );
+
+    return [...header, ...dialogues].join('\n') + '\n';
+  }
+
+  /**
+   * 文字タイミングから \k タグ付きテキストを生成
+   * 丸め誤差が累積しないよう、フレーズ開始からの累積センチ秒の差分で各音節長を求める
+   */
+  private static buildKaraokeText(phrase: SubtitlePhrase, tag: 'k' | 'kf'): string {
+    const separator = this.getWordSeparator(phrase);
+    const phraseStartCs = Math.round(phrase.start / 10);
+    let cursorCs = phraseStartCs;
+    let text = '';
+
+    const words = phrase.words.filter(word => word.word.trim() !== '');
+    if (words.length === 0) {
+      return this.escapeAssText(this.getPhraseText(phrase));
+    }
+
+    words.forEach((word, wordIndex) => {
+      const chars = word.chars.length > 0
+        ? word.chars
+        : [{ char: word.word, start: word.start, end: word.end }];
+
+      chars.forEach((char, charIndex) => {
+        const startCs = Math.max(cursorCs, Math.round(char.start / 10));
+        const endCs = Math.max(startCs, Math.round(char.end / 10));
+
+        // 前の音節との隙間は空の音節で埋める
+        if (startCs > cursorCs) {
+          text += `{\\${tag}${startCs - cursorCs}}`;
+        }
+
+        const isLastCharOfWord = charIndex === chars.length - 1;
+        const trailing = isLastCharOfWord && wordIndex < words.length - 1 ? separator : '';
+        text += `{\\${tag}${endCs - startCs}}${this.escapeAssText(char.char)}${trailing}`;
+        cursorCs = endCs;
+      });
+    });
+
+    return text;
+  }
+
+  private static getExportablePhrases(phrases: SubtitlePhrase[]): SubtitlePhrase[] {
+    return phrases
+      .filter(phrase => this.getPhraseText(phrase) !== '' && phrase.end > phrase.start)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  private static getPhraseText(phrase: SubtitlePhrase): string {
+    if (phrase.phrase && phrase.phrase.trim() !== '') {
+      return phrase.phrase.trim();
+    }
+    return phrase.words.map(word => word.word).join(' ').trim();
+  }
+
+  // フレーズ本文に空白が含まれる場合（英語など）のみ単語間を空白で区切る
+  private static getWordSeparator(phrase: SubtitlePhrase): string {
+    return /\s/.test(this.getPhraseText(phrase)) ? ' ' : '';
+  }
+
+  private static escapeVttText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  // ASSでは波括弧がオーバーライドタグになるため全角に置き換える
+  private static escapeAssText(text: string): string {
+    return text.replace(/\{/g, '｛').replace(/\}/g, '｝');
+  }
+
+  /**
+   * ミリ秒を hh:mm:ss,ttt（SRT）/ hh:mm:ss.ttt（WebVTT）形式に変換
+   */
+  private static formatClockTime(ms: number, fractionSeparator: ',' | '.'): string {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor((total % 3600000) / 60000);
+    const seconds = Math.floor((total % 60000) / 1000);
+    const millis = total % 1000;
+    return `${this.pad(hours, 2)}:${this.pad(minutes, 2)}:${this.pad(seconds, 2)}${fractionSeparator}${this.pad(millis, 3)}`;
+  }
+
+  /**
+   * ミリ秒を h:mm:ss.cc（ASS）形式に変換
+   */
+  private static formatAssTime(ms: number): string {
+    const totalCs = Math.max(0, Math.round(ms / 10));
+    const hours = Math.floor(totalCs / 360000);
+    const minutes = Math.floor((totalCs % 360000) / 6000);
+    const seconds = Math.floor((totalCs % 6000) / 100);
+    const centis = totalCs % 100;
+    return `${hours}:${this.pad(minutes, 2)}:${this.pad(seconds, 2)}.${this.pad(centis, 2)}`;
+  }
+
+  private static pad(value: number, length: number): string {
+    return String(value).padStart(length, '0');
+  }
+}
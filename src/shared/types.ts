@@ -1,5 +1,7 @@
 // Shared type definitions for Electron IPC communication
 
+import type { VideoCodec, VideoContainer, VideoPixelFormat } from './videoCodecs';
+
 export interface ProjectData {
   id: string;
   name: string;
@@ -41,6 +43,10 @@ export interface ExportOptions {
   height: number;
   includeDebugVisuals: boolean;
   audioPath?: string;
+  // Encoding (defaults: H.264 / MP4 / yuv420p). Alpha pixel formats skip the background.
+  codec?: VideoCodec;
+  container?: VideoContainer;
+  pixelFormat?: VideoPixelFormat;
 }
 
 export interface ExportProgress {
@@ -80,6 +86,65 @@ export interface ExportError {
   details?: any;
 }
 
+// Headless (command-line) render job handed from main to the hidden renderer
+export interface HeadlessRenderJob {
+  projectData: any; // ProjectFileData (.uta)
+  fps: number;
+  startTime: number; // ms
+  endTime: number;   // ms
+  width: number;
+  height: number;
+  totalFrames: number;
+  aspectRatio?: string; // derived from width/height when omitted
+  orientation?: 'landscape' | 'portrait';
+  includeDebugVisuals?: boolean;
+  transparentBackground?: boolean; // hide the background layer (alpha output)
+}
+
+// Render queue (main process, persisted across restarts)
+export type RenderJobStatus = 'queued' | 'paused' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface RenderJobLogEntry {
+  timestamp: number;
+  message: string;
+}
+
+export interface RenderJobResult {
+  outputPath: string;
+  fileSize: number; // bytes
+  elapsedMs: number;
+}
+
+// Job as sent to the renderer (project data omitted)
+export interface RenderJobSummary {
+  id: string;
+  name: string;
+  options: ExportOptions;
+  status: RenderJobStatus;
+  progress: number; // 0-100
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: RenderJobResult;
+  error?: string;
+  log: RenderJobLogEntry[];
+}
+
+export interface RenderQueueState {
+  running: boolean;
+  jobs: RenderJobSummary[];
+}
+
+// Parameter preset (named subset of template parameters, stored in user data)
+export interface ParameterPreset {
+  id: string;
+  name: string;
+  templateId: string;
+  params: Record<string, unknown>;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface FontInfo {
   family: string;
   fullName: string;
@@ -88,6 +153,95 @@ export interface FontInfo {
   path?: string;
 }
 
+// Project bundle (project file + collected audio / background media / fonts in one folder)
+export interface ProjectBundleFont {
+  family: string;
+  fullName: string;
+  style: string;
+  weight: string;
+  path: string;
+}
+
+export interface ProjectBundleBackground {
+  type: 'color' | 'image' | 'video';
+  backgroundColor?: string;
+  fitMode?: 'cover' | 'contain' | 'stretch';
+  opacity?: number;
+  videoLoop?: boolean;
+}
+
+// Absolute paths when saving / after loading, bundle-relative paths inside the saved project file
+export interface ProjectBundleAssets {
+  audioPath?: string;
+  backgroundImagePath?: string;
+  backgroundVideoPath?: string;
+  background?: ProjectBundleBackground;
+  fonts: ProjectBundleFont[];
+}
+
+// Media referenced by a regular project file (absolute paths), kept so moved files can be relinked
+export interface ProjectMediaFile {
+  path: string;
+  size?: number; // bytes, used to pick the right file among same-name candidates
+}
+
+export interface ProjectMediaFont extends ProjectBundleFont {
+  size?: number;
+}
+
+export interface ProjectMediaReferences {
+  audio?: ProjectMediaFile;
+  backgroundImage?: ProjectMediaFile;
+  backgroundVideo?: ProjectMediaFile;
+  background?: ProjectBundleBackground;
+  fonts: ProjectMediaFont[];
+}
+
+export type MissingMediaKind = 'audio' | 'backgroundImage' | 'backgroundVideo' | 'font';
+
+// A media reference that could not be resolved when the project was loaded
+export interface MissingMediaReference {
+  id: string;
+  kind: MissingMediaKind;
+  fileName: string;
+  originalPath?: string;
+  size?: number;
+  duration?: number; // ms, audio only
+  font?: ProjectBundleFont; // face metadata for font references
+  background?: ProjectBundleBackground; // fit mode / opacity for background references
+}
+
+export interface MediaRelinkCandidate {
+  path: string;
+  size: number;
+  source: 'recent' | 'nearby';
+  sizeMatches?: boolean; // undefined when the original size is unknown
+  durationMatches?: boolean; // checked in the renderer for audio / video
+}
+
+export interface MediaSearchResult {
+  referenceId: string;
+  candidates: MediaRelinkCandidate[];
+}
+
+export interface MediaFileStatus {
+  path: string;
+  exists: boolean;
+  size?: number;
+}
+
+export interface ProjectBundleSaveResult {
+  bundlePath: string;
+  missing: string[]; // source files that could not be copied
+}
+
+export interface ProjectBundleLoadResult {
+  bundlePath: string;
+  projectData: any; // ProjectFileData with bundle-relative paths resolved
+  assets: ProjectBundleAssets;
+  missing: string[]; // bundled files that no longer exist
+}
+
 export interface TemplateInfo {
   name: string;
   path: string;
@@ -96,6 +250,12 @@ export interface TemplateInfo {
   lastModified: Date;
 }
 
+// User template folder change (main → renderer, for hot reload)
+export interface UserTemplateChange {
+  fileName: string;
+  removed: boolean;
+}
+
 // IPC Channel definitions
 export interface MainToRendererChannels {
   'file:project-loaded': (projectData: ProjectData) => void;
@@ -110,6 +270,12 @@ export interface RendererToMainChannels {
   'file:save-project': (projectData: ProjectData) => Promise<string>;
   'file:load-project': () => Promise<ProjectData>;
   'file:select-media': (type: 'video' | 'audio') => Promise<MediaFileInfo>;
+  'file:export-subtitles': (format: 'srt' | 'vtt' | 'ass', lyrics: any[], options?: any) => Promise<string>;
+  'file:save-project-bundle': (projectData: any, assets: ProjectBundleAssets) => Promise<ProjectBundleSaveResult>;
+  'file:load-project-bundle': () => Promise<ProjectBundleLoadResult>;
+  'file:stat-media-files': (paths: string[]) => Promise<MediaFileStatus[]>;
+  'file:find-media-candidates': (references: MissingMediaReference[], searchDirs?: string[]) => Promise<MediaSearchResult[]>;
+  'file:select-directory': (title?: string) => Promise<string>;
   'export:start': (options: ExportOptions) => Promise<void>;
   'export:cancel': () => Promise<void>;
   'export:frame-ready': (frameData: string) => void;
@@ -0,0 +1,118 @@
+// 動画書き出しのコーデック・コンテナ・ピクセルフォーマット
+// メインプロセス（SystemFFmpegWrapper のエンコード引数）とレンダラー（書き出し設定UI）の両方から使用する
+
+export type VideoCodec = 'h264' | 'hevc' | 'prores4444' | 'vp9' | 'png';
+export type VideoContainer = 'mp4' | 'mov' | 'mkv' | 'webm' | 'png-sequence';
+export type VideoPixelFormat =
+  | 'yuv420p'
+  | 'yuv444p'
+  | 'yuv420p10le'
+  | 'yuv444p10le'
+  | 'yuva420p'
+  | 'yuva444p10le'
+  | 'rgb24'
+  | 'rgba';
+
+export interface VideoEncodingSettings {
+  codec: VideoCodec;
+  container: VideoContainer;
+  pixelFormat: VideoPixelFormat;
+}
+
+export interface VideoCodecSpec {
+  label: string;
+  containers: VideoContainer[];     // 先頭が既定
+  pixelFormats: VideoPixelFormat[]; // 先頭が既定
+}
+
+export const VIDEO_CODECS: Record<VideoCodec, VideoCodecSpec> = {
+  h264: {
+    label: 'H.264',
+    containers: ['mp4', 'mov', 'mkv'],
+    pixelFormats: ['yuv420p', 'yuv444p']
+  },
+  hevc: {
+    label: 'HEVC (H.265)',
+    containers: ['mp4', 'mov', 'mkv'],
+    pixelFormats: ['yuv420p', 'yuv420p10le']
+  },
+  prores4444: {
+    label: 'ProRes 4444',
+    containers: ['mov', 'mkv'],
+    pixelFormats: ['yuva444p10le', 'yuv444p10le']
+  },
+  vp9: {
+    label: 'VP9',
+    containers: ['webm', 'mkv'],
+    pixelFormats: ['yuva420p', 'yuv420p']
+  },
+  png: {
+    label: 'PNG連番（ロスレス）',
+    containers: ['png-sequence'],
+    pixelFormats: ['rgba', 'rgb24']
+  }
+};
+
+export const VIDEO_CONTAINER_LABELS: Record<VideoContainer, string> = {
+  mp4: 'MP4',
+  mov: 'QuickTime (MOV)',
+  mkv: 'Matroska (MKV)',
+  webm: 'WebM',
+  'png-sequence': 'フォルダ'
+};
+
+// 出力ファイルの拡張子（PNG連番は拡張子なしのフォルダに出力）
+export const VIDEO_CONTAINER_EXTENSIONS: Record<VideoContainer, string> = {
+  mp4: 'mp4',
+  mov: 'mov',
+  mkv: 'mkv',
+  webm: 'webm',
+  'png-sequence': ''
+};
+
+export const VIDEO_PIXEL_FORMAT_LABELS: Record<VideoPixelFormat, string> = {
+  yuv420p: 'YUV 4:2:0 8bit',
+  yuv444p: 'YUV 4:4:4 8bit',
+  yuv420p10le: 'YUV 4:2:0 10bit',
+  yuv444p10le: 'YUV 4:4:4 10bit',
+  yuva420p: 'YUVA 4:2:0 8bit（透過）',
+  yuva444p10le: 'YUVA 4:4:4 10bit（透過）',
+  rgb24: 'RGB 8bit',
+  rgba: 'RGBA 8bit（透過）'
+};
+
+export const DEFAULT_VIDEO_ENCODING: VideoEncodingSettings = {
+  codec: 'h264',
+  container: 'mp4',
+  pixelFormat: 'yuv420p'
+};
+
+/**
+ * アルファチャンネル付きの出力か（背景を合成せずに書き出す）
+ */
+export function hasAlphaChannel(pixelFormat: VideoPixelFormat): boolean {
+  return pixelFormat === 'rgba' || pixelFormat.startsWith('yuva');
+}
+
+/**
+ * 省略された項目をコーデックの既定値で補い、組み合わせを検証する
+ */
+export function resolveVideoEncoding(settings: Partial<VideoEncodingSettings> = {}): VideoEncodingSettings {
+  const codec = settings.codec ?? DEFAULT_VIDEO_ENCODING.codec;
+  const spec = VIDEO_CODECS[codec];
+  if (!spec) {
+    throw new Error(`未対応のコーデックです: ${codec}`);
+  }
+
+  const container = settings.container ?? spec.containers[0];
+  if (!spec.containers.includes(container)) {
+    throw new Error(`${spec.label} は ${container} コンテナに対応していません（${spec.containers.join(', ')}）`);
+  }
+
+  const pixelFormat = settings.pixelFormat ?? spec.pixelFormats[0];
+  if (!spec.pixelFormats.includes(pixelFormat)) {
+    throw new Error(`${spec.label} は ${pixelFormat} に対応していません（${spec.pixelFormats.join(', ')}）`);
+  }
+
+  return { codec, container, pixelFormat };
+}
@@ -0,0 +1,38 @@
+import { StandardParameters } from './StandardParameters';
+
+/**
+ * オーディオリアクティブなパラメータ変調の型定義
+ * 楽曲全体を事前解析したラウドネス・帯域エネルギーのカーブを数値パラメータに割り当てる
+ */
+
+// 変調元の特徴量（rms: 全帯域のラウドネス / bass・mid・high: 帯域ごとのエネルギー）
+export type AudioFeature = 'rms' | 'bass' | 'mid' | 'high';
+
+export interface AudioFeatureEnvelopes {
+  sourceFileName: string;   // 解析した音楽ファイル名（差し替え検知用）
+  frameMs: number;          // 1フレームの長さ（ms）。i 番目の値はフレーム中央 (i + 0.5) * frameMs の値
+  rms: number[];            // 各カーブは 0.0〜1.0 に正規化済み
+  bass: number[];
+  mid: number[];
+  high: number[];
+}
+
+// 適用方法（replace: 置き換え / add: 加算 / multiply: 乗算）
+export type AudioModulationMode = 'replace' | 'add' | 'multiply';
+
+export interface AudioModulation {
+  id: string;
+  enabled: boolean;
+  parameterName: keyof StandardParameters;   // 数値パラメータのみ
+  source: AudioFeature;
+  mode: AudioModulationMode;
+  gain: number;          // 特徴量に掛ける倍率（結果は 0.0〜1.0 にクランプ）
+  smoothingMs: number;   // 平滑化の時定数（0 で平滑化なし）
+  min: number;           // 特徴量 0 のときの変調値
+  max: number;           // 特徴量 1 のときの変調値
+}
+
+export interface AudioModulationData {
+  envelopes: AudioFeatureEnvelopes | null;
+  modulations: AudioModulation[];
+}
@@ -0,0 +1,16 @@
+import type { BeatMarker } from '../renderer/services/AudioAnalyzer';
+
+/**
+ * ビートグリッドの型定義
+ * ビート検出結果をプロジェクトと一緒に保存し、タイムライン編集のスナップに使う
+ */
+
+export interface BeatGrid {
+  bpm: number;
+  beats: BeatMarker[];   // timestamp 昇順
+  beatsPerBar: number;   // 1小節の拍数
+  barOffset: number;     // 最初の小節頭になるビートのインデックス（0 〜 beatsPerBar-1）
+}
+
+// スナップ対象（off: スナップしない / halfBeat: ビートとビートの中間も含む / bar: 小節頭のみ）
+export type BeatSnapMode = 'off' | 'beat' | 'halfBeat' | 'bar';
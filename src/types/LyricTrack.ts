@@ -0,0 +1,19 @@
+/**
+ * 歌詞トラックの型定義
+ * デュエット・掛け合い・訳詞などを同じプロジェクト内で別トラックとして重ねて表示する
+ *
+ * フレーズは PhraseUnit.trackId で所属トラックを持つ（省略時はメイントラック）
+ */
+
+export const MAIN_LYRIC_TRACK_ID = 'track_main';
+
+export interface LyricTrack {
+  id: string;
+  name: string;
+  defaultTemplateId?: string;   // 個別割り当てのないフレーズに使うテンプレート（未設定ならプロジェクトのデフォルト）
+  offsetX: number;              // ステージ上の表示オフセット（px）
+  offsetY: number;
+  zIndex: number;               // 大きいほど手前に表示
+  muted: boolean;
+  solo: boolean;                // いずれかのトラックがソロの場合、ソロのトラックのみ表示
+}
@@ -0,0 +1,23 @@
+import { StandardParameters } from './StandardParameters';
+
+/**
+ * パラメータキーフレームの型定義
+ * 数値・色パラメータを時間軸上で変化させるためのトラック
+ */
+
+// 補間方式（キーフレームから次のキーフレームまでの区間に適用）
+export type KeyframeInterpolation = 'linear' | 'ease' | 'hold';
+
+export interface ParameterKeyframe {
+  timeMs: number;                       // 楽曲上の絶対時刻（ms）
+  value: number | string;               // 数値または #RRGGBB 形式の色
+  interpolation: KeyframeInterpolation;
+}
+
+export interface ParameterKeyframeTrack {
+  parameterName: keyof StandardParameters;
+  keyframes: ParameterKeyframe[];       // timeMs 昇順
+}
+
+// オブジェクトID → トラック一覧
+export type KeyframeTrackMap = Record<string, ParameterKeyframeTrack[]>;
@@ -0,0 +1,50 @@
+import { PhraseUnit } from '../renderer/types/types';
+
+/**
+ * 名前付きスナップショットの型定義
+ * Undo履歴（最大20件）とは別に、任意の時点の編集状態をプロジェクトと一緒に保存する
+ */
+
+// スナップショットで保存・復元する編集内容
+export interface ProjectSnapshotContent {
+  lyricsData: PhraseUnit[];
+  templateAssignments: Record<string, string>;
+  defaultTemplateId: string;
+  parameterData: any;   // CompressedProjectDataだがimportできないためany
+}
+
+export interface ProjectSnapshot extends ProjectSnapshotContent {
+  id: string;
+  name: string;
+  createdAt: number;
+  auto?: boolean;       // Undo後の新規編集で破棄された分岐を自動保存したもの
+}
+
+// 一覧表示用（歌詞・パラメータ本体を含まない）
+export interface ProjectSnapshotSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  auto: boolean;
+  phraseCount: number;
+}
+
+// フレーズ単位の差分（added: 現在のみ存在 / removed: スナップショットのみ存在）
+export type SnapshotPhraseStatus = 'added' | 'removed' | 'changed';
+
+export interface SnapshotPhraseDiff {
+  phraseId: string;
+  text: string;
+  status: SnapshotPhraseStatus;
+  textChanged: boolean;
+  timingChanged: boolean;       // フレーズ・単語・文字のいずれかの start/end が異なる
+  templateChanged: boolean;
+  paramsChanged: boolean;       // 個別パラメータ・キーフレームが異なる
+}
+
+export interface SnapshotDiff {
+  snapshotId: string;
+  globalParamsChanged: boolean;
+  defaultTemplateChanged: boolean;
+  phrases: SnapshotPhraseDiff[];  // 変更のないフレーズは含まない
+}
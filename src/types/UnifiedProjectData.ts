@@ -1,5 +1,11 @@
 import { PhraseUnit, StageConfig, BackgroundConfig, AudioReference } from '../renderer/types/types';
 import { StandardParameters } from './StandardParameters';
+import { KeyframeTrackMap } from './ParameterKeyframes';
+import { BeatGrid } from './BeatGrid';
+import { AudioModulationData } from './AudioModulation';
+import { ProjectSnapshot } from './ProjectSnapshot';
+import { LyricTrack } from './LyricTrack';
+import { ExportFormat } from '../shared/exportFormats';
 
 /**
  * 統一プロジェクトデータ構造（V2対応）
@@ -20,6 +26,18 @@ export interface NormalizedProjectData {
   timestamp: number;
   // V2統一管理パラメータデータ（オプション）
   parameterData?: any; // CompressedProjectDataだがimportできないためany
+  // パラメータキーフレーム（オブジェクトID → トラック一覧）
+  keyframeTracks?: KeyframeTrackMap;
+  // ビート検出結果と小節設定
+  beatGrid?: BeatGrid;
+  // オーディオリアクティブ変調
+  audioModulation?: AudioModulationData;
+  // 名前付きスナップショット
+  snapshots?: ProjectSnapshot[];
+  // 歌詞トラック（旧データにはないためメイントラックのみとして扱う）
+  lyricTracks?: LyricTrack[];
+  // 一括書き出しのフォーマット（旧データにはないため既定のフォーマットとして扱う）
+  exportFormats?: ExportFormat[];
 }
 
 /**
@@ -39,6 +57,12 @@ export interface ProjectFileData {
   stageConfig?: StageConfig;
   backgroundConfig?: BackgroundConfig;
   audioInfo?: AudioReference;
+  keyframeTracks?: KeyframeTrackMap;
+  beatGrid?: BeatGrid;
+  audioModulation?: AudioModulationData;
+  snapshots?: ProjectSnapshot[];
+  lyricTracks?: LyricTrack[];
+  exportFormats?: ExportFormat[];
 }
 
 /**
@@ -70,6 +94,11 @@ export interface AutoSaveData {
       fileName: string;
       filePath?: string;
     };
+    beatGrid?: BeatGrid;
+    audioModulation?: AudioModulationData;
+    snapshots?: ProjectSnapshot[];
+    lyricTracks?: LyricTrack[];
+    exportFormats?: ExportFormat[];
   };
 }
 
@@ -104,7 +133,13 @@ export class ProjectDataNormalizer {
         duration: 10000,
         filePath: ''
       },
-      timestamp: data.timestamp
+      timestamp: data.timestamp,
+      keyframeTracks: data.keyframeTracks,
+      beatGrid: data.beatGrid,
+      audioModulation: data.audioModulation,
+      snapshots: data.snapshots,
+      lyricTracks: data.lyricTracks,
+      exportFormats: data.exportFormats
     };
   }
 
@@ -150,7 +185,14 @@ export class ProjectDataNormalizer {
       audioInfo: data.engineState.audioInfo,
       timestamp: data.timestamp,
       // V2データを別フィールドとして保持
-      parameterData: data.parameterData
+      parameterData: data.parameterData,
+      // キーフレームはV2データ内に保存されている
+      keyframeTracks: data.parameterData?.keyframeTracks,
+      beatGrid: data.engineState.beatGrid,
+      audioModulation: data.engineState.audioModulation,
+      snapshots: data.engineState.snapshots,
+      lyricTracks: data.engineState.lyricTracks,
+      exportFormats: data.engineState.exportFormats
     };
   }
 
@@ -171,7 +213,13 @@ export class ProjectDataNormalizer {
       lyrics: data.lyricsData,
       stageConfig: data.stageConfig,
       backgroundConfig: data.backgroundConfig,
-      audioInfo: data.audioInfo
+      audioInfo: data.audioInfo,
+      keyframeTracks: data.keyframeTracks,
+      beatGrid: data.beatGrid,
+      audioModulation: data.audioModulation,
+      snapshots: data.snapshots,
+      lyricTracks: data.lyricTracks,
+      exportFormats: data.exportFormats
     };
   }
 
@@ -196,7 +244,12 @@ export class ProjectDataNormalizer {
         stageConfig: data.stageConfig,
         backgroundConfig: data.backgroundConfig,
         selectedTemplate: data.templateId,
-        templateParams: data.templateParams
+        templateParams: data.templateParams,
+        beatGrid: data.beatGrid,
+        audioModulation: data.audioModulation,
+        snapshots: data.snapshots,
+        lyricTracks: data.lyricTracks,
+        exportFormats: data.exportFormats
       }
     };
   }
@@ -240,7 +293,13 @@ export class ProjectDataNormalizer {
         duration: 10000,
         filePath: ''
       },
-      timestamp: data.timestamp || Date.now()
+      timestamp: data.timestamp || Date.now(),
+      keyframeTracks: data.keyframeTracks || {},
+      beatGrid: data.beatGrid,
+      audioModulation: data.audioModulation,
+      snapshots: data.snapshots,
+      lyricTracks: data.lyricTracks,
+      exportFormats: data.exportFormats
     };
   }
 }
\ No newline at end of file